@@ -10,12 +10,15 @@ import {
   RefreshControl,
   ActivityIndicator,
 } from 'react-native';
-import { useRouter } from 'expo-router';
+import { useRouter, useFocusEffect } from 'expo-router';
 import Animated, { FadeInUp, FadeInDown, SlideInRight } from 'react-native-reanimated';
 import { useTheme } from '../../src/contexts/ThemeContext';
 import { useUserProgress } from '../../src/contexts/UserProgressContext';
 import { useLearning } from '../../src/contexts/LearningContext';
-import { Lesson, SkillTree } from '../../src/types';
+import { lessonEngine } from '../../src/engines/learning/LessonEngine';
+import { skillTreeManager } from '../../src/engines/learning/SkillTreeManager';
+import { SkillTreeMap } from '../../src/components/Learn/SkillTreeMap';
+import { DrillRecord, Lesson, SkillTree } from '../../src/types';
 import * as Haptics from 'expo-haptics';
 import {
   BookOpen,
@@ -31,6 +34,9 @@ import {
   CheckCircle,
   Circle,
   Lock,
+  RotateCcw,
+  List,
+  Map as MapIcon,
 } from 'lucide-react-native';
 
 /**
@@ -58,6 +64,7 @@ export default function LearnScreen() {
     recommendedLessons,
     insights,
     completedLessons,
+    skippableLessons,
     currentStreak,
     getLessonProgress,
   } = useLearning();
@@ -70,10 +77,21 @@ export default function LearnScreen() {
   const [refreshing, setRefreshing] = useState(false);
   const [screenMounted, setScreenMounted] = useState(false);
   const [animationsEnabled, setAnimationsEnabled] = useState(true);
+  const [reviewLesson, setReviewLesson] = useState<Lesson | null>(null);
+  const [drills, setDrills] = useState<Lesson[]>([]);
+  const [drillRecords, setDrillRecords] = useState<Record<string, DrillRecord>>({});
+  const [treeView, setTreeView] = useState<'list' | 'map'>('list');
+  const [needsPracticeLessons, setNeedsPracticeLessons] = useState<string[]>([]);
 
   // FIXED: Memoize styles to prevent unnecessary recalculations
   const styles = useMemo(() => createStyles(theme), [theme]);
 
+  // Rebuilt as lessons complete, so unlocks and the recommended lesson stay current
+  const skillGraphLayout = useMemo(
+    () => (treeView === 'map' ? skillTreeManager.getSkillGraphLayout() : null),
+    [treeView, skillTrees, completedLessons, skippableLessons, needsPracticeLessons]
+  );
+
   // FIXED: useEffect hooks called unconditionally
   useEffect(() => {
     setScreenMounted(true);
@@ -119,6 +137,25 @@ export default function LearnScreen() {
     }
   }, [skillTrees, currentSkillTree, setCurrentSkillTree]);
 
+  // Due items change as reviews are answered, so rebuild whenever the tab is shown
+  useFocusEffect(
+    useCallback(() => {
+      let active = true;
+      lessonEngine.getReviewLesson()
+        .then(lesson => active && setReviewLesson(lesson))
+        .catch(error => console.error('❌ Failed to load review queue:', error));
+      setDrills(lessonEngine.getDrillLessons());
+      // Mastery decays with time, not just with lessons, so this is checked on every visit
+      setNeedsPracticeLessons(skillTreeManager.getLessonsNeedingPractice());
+      lessonEngine.getDrillRecords()
+        .then(records => active && setDrillRecords(records))
+        .catch(error => console.error('❌ Failed to load drill records:', error));
+      return () => {
+        active = false;
+      };
+    }, [completedLessons])
+  );
+
   // FIXED: All callback functions defined unconditionally with proper error handling
   const handleLessonStart = useCallback(async (lesson: Lesson) => {
     if (isLoadingLesson) return;
@@ -132,7 +169,8 @@ export default function LearnScreen() {
         ? getLessonProgress(lesson.id) 
         : 0;
       
-      if (lessonProgress >= 100) {
+      // Lessons that need practice go straight in - refreshing them is the point
+      if (lessonProgress >= 100 && !needsPracticeLessons.includes(lesson.id)) {
         Alert.alert(
           'Lesson Completed',
           'You\'ve already completed this lesson. Would you like to review it?',
@@ -168,7 +206,7 @@ export default function LearnScreen() {
     } finally {
       setIsLoadingLesson(false);
     }
-  }, [isLoadingLesson, getLessonProgress, startLesson, router]);
+  }, [isLoadingLesson, getLessonProgress, needsPracticeLessons, startLesson, router]);
 
   const handleSkillTreeSelect = useCallback((skillTree: SkillTree) => {
     try {
@@ -194,6 +232,13 @@ export default function LearnScreen() {
     }
   }, [setCurrentSkillTree]);
 
+  const handleMapLessonPress = useCallback((lessonId: string) => {
+    const lesson = skillTreeManager.getLesson(lessonId);
+    if (lesson) {
+      handleLessonStart(lesson);
+    }
+  }, [handleLessonStart]);
+
   const toggleSkillTreeExpansion = useCallback((treeId: string) => {
     setExpandedSkillTree(prev => prev === treeId ? null : treeId);
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
@@ -313,8 +358,10 @@ export default function LearnScreen() {
       ? getLessonProgress(lesson.id) 
       : 0;
     const isCompleted = progress >= 100;
+    const needsPractice = isCompleted && needsPracticeLessons.includes(lesson.id);
+    const isSkippable = !isCompleted && !!skippableLessons?.includes(lesson.id);
     const isAvailable = lesson.prerequisites ? 
-      lesson.prerequisites.every(prereq => completedLessons?.includes(prereq)) : 
+      lesson.prerequisites.every(prereq => completedLessons?.includes(prereq) || skippableLessons?.includes(prereq)) : 
       true;
 
     return (
@@ -323,10 +370,14 @@ export default function LearnScreen() {
         style={[
           styles.lessonCard,
           {
-            backgroundColor: isCompleted 
+            backgroundColor: needsPractice
+              ? theme.colors.warning + '20'
+              : isCompleted 
               ? theme.colors.success + '20' 
               : theme.colors.surface,
-            borderColor: isCompleted 
+            borderColor: needsPractice
+              ? theme.colors.warning
+              : isCompleted 
               ? theme.colors.success 
               : theme.colors.border,
             opacity: isAvailable ? 1 : 0.6,
@@ -337,7 +388,9 @@ export default function LearnScreen() {
       >
         <View style={styles.lessonHeader}>
           <View style={[styles.lessonNumber, { backgroundColor: theme.colors.primary + '20' }]}>
-            {isCompleted ? (
+            {needsPractice ? (
+              <RotateCcw size={16} color={theme.colors.warning} />
+            ) : isCompleted ? (
               <CheckCircle size={16} color={theme.colors.success} />
             ) : isAvailable ? (
               <Text style={[styles.lessonNumberText, { color: theme.colors.primary }]}>
@@ -359,11 +412,23 @@ export default function LearnScreen() {
                 <Clock size={12} color={theme.colors.textSecondary} />
                 {' '}{lesson.estimatedTime || 10}min • {lesson.rewards?.xp || 10} XP
               </Text>
+              {isSkippable && (
+                <Text style={[styles.metaText, { color: theme.colors.success }]}>
+                  {' '}• Optional - placement
+                </Text>
+              )}
+              {needsPractice && (
+                <Text style={[styles.metaText, { color: theme.colors.warning }]}>
+                  {' '}• Needs practice
+                </Text>
+              )}
             </View>
           </View>
           <View style={styles.lessonAction}>
             {isLoadingLesson ? (
               <ActivityIndicator size="small" color={theme.colors.primary} />
+            ) : needsPractice ? (
+              <Play size={24} color={theme.colors.warning} />
             ) : isCompleted ? (
               <Trophy size={24} color={theme.colors.success} />
             ) : (
@@ -386,7 +451,7 @@ export default function LearnScreen() {
         )}
       </Pressable>
     );
-  }, [getLessonProgress, completedLessons, handleLessonStart, isLoadingLesson, styles, theme.colors]);
+  }, [getLessonProgress, completedLessons, skippableLessons, needsPracticeLessons, handleLessonStart, isLoadingLesson, styles, theme.colors]);
 
   const renderInsights = useCallback(() => {
     if (!insights || insights.length === 0) return null;
@@ -470,6 +535,87 @@ export default function LearnScreen() {
     );
   }, [recommendedLessons, handleLessonStart, styles, theme.colors]);
 
+  const renderReview = useCallback(() => {
+    if (!reviewLesson) return null;
+
+    return (
+      <Animated.View 
+        entering={FadeInUp.delay(150)}
+        style={styles.reviewContainer}
+      >
+        <Pressable
+          style={[
+            styles.reviewCard,
+            { backgroundColor: theme.colors.primary + '20', borderColor: theme.colors.primary },
+          ]}
+          onPress={() => {
+            Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+            router.push(`/lesson/${reviewLesson.id}`);
+          }}
+        >
+          <RotateCcw size={24} color={theme.colors.primary} />
+          <View style={styles.reviewInfo}>
+            <Text style={[styles.reviewTitle, { color: theme.colors.text }]}>
+              {reviewLesson.title}
+            </Text>
+            <Text style={[styles.reviewDescription, { color: theme.colors.textSecondary }]}>
+              {reviewLesson.description} • {reviewLesson.rewards.xp} XP
+            </Text>
+          </View>
+          <ChevronRight size={24} color={theme.colors.primary} />
+        </Pressable>
+      </Animated.View>
+    );
+  }, [reviewLesson, router, styles, theme.colors]);
+
+  // Drills are always open and never "completed" - they're run as often as the learner likes
+  const renderDrills = useCallback(() => {
+    if (drills.length === 0) return null;
+
+    return (
+      <Animated.View 
+        entering={FadeInUp.delay(200)}
+        style={styles.recommendationsContainer}
+      >
+        <View style={styles.sectionHeader}>
+          <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>
+            Warm-up Drills
+          </Text>
+          <Zap size={24} color={theme.colors.warning} />
+        </View>
+
+        <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+          {drills.map((drill) => {
+            const record = drillRecords[drill.id];
+            return (
+              <Pressable
+                key={drill.id}
+                style={[
+                  styles.recommendationCard,
+                  { backgroundColor: theme.colors.surface, borderColor: theme.colors.warning },
+                ]}
+                onPress={() => {
+                  Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+                  router.push(`/lesson/${drill.id}`);
+                }}
+              >
+                <Clock size={20} color={theme.colors.warning} />
+                <Text style={[styles.recommendationTitle, { color: theme.colors.text }]}>
+                  {drill.title}
+                </Text>
+                <Text style={[styles.recommendationMeta, { color: theme.colors.textSecondary }]}>
+                  {record
+                    ? `Best ${record.bestScore}% • ${record.runs} run${record.runs === 1 ? '' : 's'}`
+                    : `${drill.estimatedTime}min • Not tried yet`}
+                </Text>
+              </Pressable>
+            );
+          })}
+        </ScrollView>
+      </Animated.View>
+    );
+  }, [drills, drillRecords, router, styles, theme.colors]);
+
   const renderStats = useCallback(() => {
     const totalLessons = skillTrees?.reduce((sum, tree) => sum + (tree.lessons?.length || 0), 0) || 0;
     const completedCount = completedLessons?.length || 0;
@@ -555,14 +701,39 @@ export default function LearnScreen() {
         </Animated.View>
 
         {renderStats()}
+        {renderReview()}
+        {renderDrills()}
         {renderInsights()}
         {renderRecommendations()}
 
         <View style={styles.skillTreesSection}>
-          <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>
-            Skill Trees
-          </Text>
-          {skillTrees.map(renderSkillTree)}
+          <View style={styles.sectionHeader}>
+            <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>
+              Skill Trees
+            </Text>
+            <Pressable
+              style={[styles.viewToggle, { borderColor: theme.colors.border }]}
+              onPress={() => setTreeView(prev => prev === 'list' ? 'map' : 'list')}
+            >
+              {treeView === 'list' ? (
+                <MapIcon size={16} color={theme.colors.primary} />
+              ) : (
+                <List size={16} color={theme.colors.primary} />
+              )}
+              <Text style={[styles.viewToggleText, { color: theme.colors.primary }]}>
+                {treeView === 'list' ? 'Map' : 'List'}
+              </Text>
+            </Pressable>
+          </View>
+          {treeView === 'map' && skillGraphLayout ? (
+            <SkillTreeMap
+              layout={skillGraphLayout}
+              onLessonPress={handleMapLessonPress}
+              disabled={isLoadingLesson}
+            />
+          ) : (
+            skillTrees.map(renderSkillTree)
+          )}
         </View>
 
         {/* Bottom padding for safe area */}
@@ -677,6 +848,29 @@ const createStyles = (theme: any) => StyleSheet.create({
     fontSize: 14,
     lineHeight: 20,
   },
+  reviewContainer: {
+    paddingHorizontal: 20,
+    marginBottom: 20,
+  },
+  reviewCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 2,
+    gap: 12,
+  },
+  reviewInfo: {
+    flex: 1,
+  },
+  reviewTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 2,
+  },
+  reviewDescription: {
+    fontSize: 14,
+  },
   recommendationsContainer: {
     padding: 20,
     paddingTop: 0,
@@ -702,6 +896,19 @@ const createStyles = (theme: any) => StyleSheet.create({
     padding: 20,
     paddingTop: 0,
   },
+  viewToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  viewToggleText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
   skillTreeContainer: {
     marginBottom: 16,
   },
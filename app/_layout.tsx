@@ -179,6 +179,7 @@ export default function RootLayout() {
                 >
                   <Stack.Screen name="index" />
                   <Stack.Screen name="onboarding" />
+                  <Stack.Screen name="placement" />
                   <Stack.Screen name="(tabs)" />
                   <Stack.Screen 
                     name="lesson/[id]" 
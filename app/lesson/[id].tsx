@@ -28,13 +28,16 @@ import { useUserProgress } from '../../src/contexts/UserProgressContext';
 import { lessonEngine } from '../../src/engines/learning/LessonEngine';
 import { skillTreeManager } from '../../src/engines/learning/SkillTreeManager';
 import { musicManager } from '../../src/engines/LessonMusicManager';
-import { Lesson, LessonContent } from '../../src/types';
+import { EventBus } from '../../src/engines/core/EventBus';
+import { HintLevel, Lesson, LessonContent, LessonSessionSnapshot } from '../../src/types';
 import * as Haptics from 'expo-haptics';
 import {
   Play,
   Pause,
   ChevronLeft,
   ChevronRight,
+  ChevronUp,
+  ChevronDown,
   CheckCircle,
   Circle,
   X,
@@ -47,13 +50,20 @@ import {
   BookOpen,
   Volume2,
   VolumeX,
+  Zap,
 } from 'lucide-react-native';
 
 // Import the fixed canvas
-import { ProfessionalCanvas } from '../../src/engines/drawing/ProfessionalCanvas';
+import { ProfessionalCanvas, CanvasGuidePath } from '../../src/engines/drawing/ProfessionalCanvas';
+import { overlayComparator } from '../../src/engines/learning/OverlayComparator';
+import { demonstrations } from '../../src/engines/learning/Demonstrations';
+import { DemonstrationPlayer } from '../../src/components/Lesson/DemonstrationPlayer';
 
 const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
 
+const HOTSPOT_WIDTH = screenWidth - 40;
+const HOTSPOT_HEIGHT = HOTSPOT_WIDTH * 0.75;
+
 export default function LessonScreen() {
   // =================== CRITICAL FIX: ALL HOOKS FIRST ===================
   const router = useRouter();
@@ -69,9 +79,14 @@ export default function LessonScreen() {
   const [resultData, setResultData] = useState<any>(null);
   const [isLoading, setIsLoading] = useState(true); // Start true
   const [showHint, setShowHint] = useState(false);
+  const [revealedHints, setRevealedHints] = useState<HintLevel[]>([]);
+  const [demonstrationOpen, setDemonstrationOpen] = useState(true);
   const [timeSpent, setTimeSpent] = useState(0);
+  const [timeRemaining, setTimeRemaining] = useState<number | null>(null); // ms, on timed drill items
   const [musicEnabled, setMusicEnabled] = useState(true);
   const [canvasStrokes, setCanvasStrokes] = useState<any[]>([]);
+  const [canvasAttempt, setCanvasAttempt] = useState(0); // Remounts the canvas blank for another try
+  const [activeTerm, setActiveTerm] = useState<number | null>(null);
   
   // Refs - ALL MUST BE HERE
   const canvasRef = useRef<any>(null);
@@ -90,6 +105,38 @@ export default function LessonScreen() {
   
   const styles = useMemo(() => createStyles(theme), [theme]);
 
+  // Guided steps show how they're drawn before the learner tries
+  const demonstration = useMemo(() => {
+    return currentContent?.type === 'guided_step' ? demonstrations.forContent(currentContent) : null;
+  }, [currentContent]);
+
+  const hintLadder = useMemo<HintLevel[]>(() => {
+    return currentContent ? lessonEngine.getHintLadder(currentContent) : [];
+  }, [currentContent]);
+
+  const guidePaths = useMemo<CanvasGuidePath[]>(() => {
+    const overlay = currentContent?.overlay;
+    const reference = overlay ? overlayComparator.buildReference(overlay) : null;
+
+    const guides: CanvasGuidePath[] = overlay && reference
+      ? reference.map(points => ({ points, opacity: overlay.opacity, width: 4 }))
+      : [];
+
+    // A deep enough hint ghosts in how the item is drawn
+    const demonstration = revealedHints[revealedHints.length - 1]?.demonstration;
+    demonstration?.forEach(stroke => {
+      guides.push({ points: stroke.points, color: '#007AFF', opacity: 0.35, width: 6 });
+    });
+
+    // After a tracing attempt, show the stretches that were missed
+    const missed = showResult ? resultData?.details?.missedRegions || [] : [];
+    missed.forEach((region: { points: Array<{ x: number; y: number }> }) => {
+      guides.push({ points: region.points, color: '#FF3B30', opacity: 0.8, width: 6 });
+    });
+
+    return guides;
+  }, [currentContent, showResult, resultData, revealedHints]);
+
   // =================== NOW WE CAN DO CONDITIONAL LOGIC ===================
   
   useEffect(() => {
@@ -118,21 +165,37 @@ export default function LessonScreen() {
         await lessonEngine.initialize();
       }
       
-      // Get lesson data
-      const lessonData = lessonEngine.getLessonById(lessonId);
+      // Get lesson data - the daily review is assembled from today's due items
+      const lessonData = lessonEngine.isReviewLesson(lessonId)
+        ? await lessonEngine.getReviewLesson()
+        : lessonEngine.getLessonById(lessonId);
       if (!lessonData) {
         throw new Error('Lesson not found');
       }
       
       setLesson(lessonData);
       
+      // Offer to pick up an interrupted session
+      const savedSession = await lessonEngine.getResumableSession(lessonId);
+      const resume = savedSession ? await askToResume(savedSession) : false;
+      
       // Start lesson
-      await lessonEngine.startLesson(lessonData);
+      await lessonEngine.startLesson(lessonData, { resume });
       
       // Get first content
       const firstContent = lessonEngine.getCurrentContent();
       if (firstContent) {
         setCurrentContent(firstContent);
+        setTimeRemaining(lessonEngine.getTimeRemaining());
+        
+        if (resume) {
+          const priorAnswer = lessonEngine.getSubmittedAnswer(firstContent.id);
+          if (priorAnswer !== undefined && !priorAnswer?.strokes) {
+            setSelectedAnswer(priorAnswer);
+          }
+          setCanvasStrokes(lessonEngine.getDraftStrokes());
+          setRevealedHints(lessonEngine.getRevealedHints(firstContent.id));
+        }
       }
       
       // Start music if enabled
@@ -147,7 +210,7 @@ export default function LessonScreen() {
       }
       
       // Start timer
-      startTimer();
+      startTimer(lessonEngine.getLessonProgress()?.timeSpent || 0);
       
       console.log(`🎓 Lesson initialized: ${lessonData.title}`);
       
@@ -160,12 +223,25 @@ export default function LessonScreen() {
     }
   };
 
+  const askToResume = (session: LessonSessionSnapshot) => new Promise<boolean>(resolve => {
+    Alert.alert(
+      'Resume Lesson?',
+      `You stopped at step ${session.progress.path?.length ?? session.contentIndex + 1} of ${session.progress.totalContent || session.contentIds.length}. Pick up where you left off?`,
+      [
+        { text: 'Start Over', style: 'destructive', onPress: () => resolve(false) },
+        { text: 'Resume', onPress: () => resolve(true) },
+      ],
+      { cancelable: false }
+    );
+  });
+
   // =================== TIMER MANAGEMENT ===================
 
-  const startTimer = () => {
-    startTime.current = Date.now();
+  const startTimer = (elapsedMs: number = 0) => {
+    startTime.current = Date.now() - elapsedMs;
     timerRef.current = setInterval(() => {
       setTimeSpent(Math.floor((Date.now() - startTime.current) / 1000));
+      setTimeRemaining(lessonEngine.getTimeRemaining());
     }, 1000);
   };
 
@@ -206,6 +282,9 @@ export default function LessonScreen() {
       
       setResultData(result);
       setShowResult(true);
+      if (result.showHint) {
+        setShowHint(true);
+      }
       
       // Animate result
       resultAnimation.value = withTiming(1, { duration: 300 });
@@ -228,6 +307,34 @@ export default function LessonScreen() {
     }
   }, [currentContent, showResult, isLoading]);
 
+  const handleHintRequest = useCallback(() => {
+    if (!currentContent || showResult) return;
+
+    const hint = lessonEngine.requestHint(currentContent.id);
+    if (hint) {
+      setRevealedHints(prev => [...prev, hint]);
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    }
+  }, [currentContent, showResult]);
+
+  // Drill items submit themselves when the clock runs out
+  useEffect(() => {
+    const eventBus = EventBus.getInstance();
+    const listenerId = eventBus.on('lesson:time_up', (event: any) => {
+      setResultData(event.result);
+      setShowResult(true);
+      setTimeRemaining(0);
+      resultAnimation.value = withTiming(1, { duration: 300 });
+      Haptics.notificationAsync(
+        event.result?.isCorrect ? Haptics.NotificationFeedbackType.Success : Haptics.NotificationFeedbackType.Warning
+      );
+    });
+
+    return () => {
+      eventBus.off('lesson:time_up', listenerId);
+    };
+  }, []);
+
   // =================== NAVIGATION ===================
 
   const handleContinue = useCallback(async () => {
@@ -238,11 +345,15 @@ export default function LessonScreen() {
       if (hasNext) {
         const nextContent = lessonEngine.getCurrentContent();
         setCurrentContent(nextContent);
+        setTimeRemaining(lessonEngine.getTimeRemaining());
         setSelectedAnswer(null);
         setShowResult(false);
         setResultData(null);
         setShowHint(false);
+        setRevealedHints([]);
+        setDemonstrationOpen(true);
         setCanvasStrokes([]);
+        setActiveTerm(null);
         
         resultAnimation.value = 0;
         celebrationAnimation.value = 0;
@@ -256,13 +367,41 @@ export default function LessonScreen() {
     }
   }, []);
 
+  // A miss on an item whose failure branch waits for more attempts stays on the item
+  const handleRetry = useCallback(() => {
+    if (currentContent) {
+      lessonEngine.retryContent(currentContent.id);
+    }
+    setSelectedAnswer(null);
+    setShowResult(false);
+    setResultData(null);
+    setCanvasStrokes([]);
+    setCanvasAttempt(prev => prev + 1);
+    setTimeRemaining(lessonEngine.getTimeRemaining());
+    resultAnimation.value = 0;
+    celebrationAnimation.value = 0;
+  }, [currentContent]);
+
   const handleLessonComplete = useCallback(async () => {
     try {
       stopTimer();
       await musicManager.stop();
       
       const progress = lessonEngine.getLessonProgress();
-      if (progress && lesson) {
+      if (progress && lesson && lessonEngine.isDrillLesson(lesson)) {
+        // The engine pays full XP only for a new best score, so repeat runs can't farm it
+        const xpEarned = progress.xpEarned || 0;
+        addXP(xpEarned);
+        
+        Alert.alert(
+          'Drill Complete! ⚡',
+          `Score: ${Math.round(progress.score)}%\nXP Earned: ${xpEarned}\nTime: ${Math.floor(timeSpent / 60)}m ${timeSpent % 60}s`,
+          [
+            { text: 'Done', style: 'cancel', onPress: () => router.back() },
+            { text: 'Run Again', onPress: () => restartDrill(lesson.id) },
+          ]
+        );
+      } else if (progress && lesson) {
         addXP(lesson.rewards.xp);
         
         Alert.alert(
@@ -281,10 +420,25 @@ export default function LessonScreen() {
     }
   }, [lesson, timeSpent, addXP, router]);
 
+  const restartDrill = (drillId: string) => {
+    setSelectedAnswer(null);
+    setShowResult(false);
+    setResultData(null);
+    setShowHint(false);
+    setRevealedHints([]);
+    setCanvasStrokes([]);
+    setTimeSpent(0);
+    resultAnimation.value = 0;
+    celebrationAnimation.value = 0;
+    initializeLesson(drillId);
+  };
+
   const handleExit = useCallback(() => {
     Alert.alert(
       'Exit Lesson',
-      'Your progress will be saved. Continue learning later?',
+      lesson && lessonEngine.isDrillLesson(lesson)
+        ? 'This run won\'t be recorded. Leave the drill?'
+        : 'Your progress will be saved. Continue learning later?',
       [
         { text: 'Stay', style: 'cancel' },
         {
@@ -297,10 +451,15 @@ export default function LessonScreen() {
         }
       ]
     );
-  }, [router]);
+  }, [lesson, router]);
 
   // =================== DRAWING HANDLING ===================
 
+  // Keep the engine's copy current so an unsubmitted drawing is part of the session snapshot
+  useEffect(() => {
+    lessonEngine.updateDraftStrokes(canvasStrokes);
+  }, [canvasStrokes]);
+
   const handleStrokeAdded = useCallback((stroke: any) => {
     setCanvasStrokes(prev => [...prev, stroke]);
   }, []);
@@ -394,17 +553,41 @@ export default function LessonScreen() {
         {content.instruction}
       </Text>
       
-      {content.hint && (
-        <Text style={[styles.instructionHint, { color: theme.colors.textSecondary }]}>
-          💡 {content.hint}
-        </Text>
+      {demonstration && !showResult && (
+        demonstrationOpen ? (
+          <View style={styles.demonstrationContainer}>
+            <DemonstrationPlayer
+              demonstration={demonstration}
+              width={screenWidth - 40}
+              height={200}
+              caption={demonstrations.captionFor(content)}
+            />
+            <Pressable
+              style={[styles.controlButton, { backgroundColor: theme.colors.surface, alignSelf: 'center', marginTop: 8 }]}
+              onPress={() => setDemonstrationOpen(false)}
+            >
+              <Text style={[styles.controlButtonText, { color: theme.colors.text }]}>
+                My Turn
+              </Text>
+            </Pressable>
+          </View>
+        ) : (
+          <Pressable style={styles.demonstrationToggle} onPress={() => setDemonstrationOpen(true)}>
+            <Play size={16} color={theme.colors.primary} />
+            <Text style={[styles.demonstrationToggleText, { color: theme.colors.primary }]}>
+              Watch demonstration
+            </Text>
+          </Pressable>
+        )
       )}
       
       <View style={styles.canvasContainer}>
         <ProfessionalCanvas
+          key={canvasAttempt}
           ref={canvasRef}
           width={screenWidth - 40}
           height={300}
+          initialStrokes={canvasStrokes}
           onStrokeAdded={handleStrokeAdded}
           onDrawingStateChange={(isDrawing) => {
             if (!isDrawing && canvasStrokes.length > 0) {
@@ -418,6 +601,8 @@ export default function LessonScreen() {
           brushSize={5}
           opacity={1}
           showDebugInfo={false}
+          highlightedStrokes={showResult ? resultData?.details?.driftedStrokes : undefined}
+          guidePaths={guidePaths}
           style={styles.canvas}
         />
       </View>
@@ -513,6 +698,217 @@ export default function LessonScreen() {
     </View>
   );
 
+  // Ordering, matching and hotspot answers are drafted in selectedAnswer, then checked
+  const renderCheckButton = (label: string, answer: any, enabled: boolean) => (
+    !showResult && (
+      <View style={styles.drawingControls}>
+        <Pressable
+          style={[styles.controlButton, { backgroundColor: theme.colors.primary, flex: 1, opacity: enabled ? 1 : 0.5 }]}
+          onPress={() => handleAnswerSelect(answer)}
+          disabled={!enabled || isLoading}
+        >
+          <Text style={[styles.controlButtonText, { color: '#FFFFFF', textAlign: 'center' }]}>
+            {label}
+          </Text>
+        </Pressable>
+      </View>
+    )
+  );
+
+  const resultColors = (isCorrect: boolean | undefined, isActive: boolean = false) => {
+    if (showResult && isCorrect !== undefined) {
+      return isCorrect
+        ? { backgroundColor: theme.colors.success + '20', borderColor: theme.colors.success }
+        : { backgroundColor: theme.colors.error + '20', borderColor: theme.colors.error };
+    }
+    return isActive
+      ? { backgroundColor: theme.colors.primary + '20', borderColor: theme.colors.primary }
+      : { backgroundColor: theme.colors.surface, borderColor: theme.colors.border };
+  };
+
+  const renderOrdering = (content: LessonContent) => {
+    const options = content.options || [];
+    const order: number[] = Array.isArray(selectedAnswer) ? selectedAnswer : options.map((_, index) => index);
+    const correctPositions: boolean[] = resultData?.details?.correctPositions || [];
+
+    const move = (position: number, offset: number) => {
+      const next = [...order];
+      [next[position], next[position + offset]] = [next[position + offset], next[position]];
+      setSelectedAnswer(next);
+    };
+
+    return (
+      <View style={styles.contentContainer}>
+        <Text style={[styles.questionText, { color: theme.colors.text }]}>
+          {content.question}
+        </Text>
+        
+        <View style={styles.optionsContainer}>
+          {order.map((optionIndex, position) => (
+            <View
+              key={optionIndex}
+              style={[styles.optionButton, resultColors(showResult ? correctPositions[position] : undefined), { borderWidth: 2 }]}
+            >
+              <Text style={[styles.orderPosition, { color: theme.colors.primary }]}>{position + 1}</Text>
+              <Text style={[styles.optionText, { color: theme.colors.text }]}>
+                {options[optionIndex]}
+              </Text>
+              
+              {showResult ? (
+                correctPositions[position]
+                  ? <CheckCircle size={24} color={theme.colors.success} />
+                  : <X size={24} color={theme.colors.error} />
+              ) : (
+                <View style={styles.orderControls}>
+                  <Pressable onPress={() => move(position, -1)} disabled={position === 0 || isLoading} hitSlop={8}>
+                    <ChevronUp size={22} color={position === 0 ? theme.colors.border : theme.colors.text} />
+                  </Pressable>
+                  <Pressable onPress={() => move(position, 1)} disabled={position === order.length - 1 || isLoading} hitSlop={8}>
+                    <ChevronDown size={22} color={position === order.length - 1 ? theme.colors.border : theme.colors.text} />
+                  </Pressable>
+                </View>
+              )}
+            </View>
+          ))}
+        </View>
+        
+        {renderCheckButton('Check Order', order, true)}
+      </View>
+    );
+  };
+
+  const renderMatching = (content: LessonContent) => {
+    const pairs = content.pairs || [];
+    const matches: Array<number | null> = Array.isArray(selectedAnswer) ? selectedAnswer : pairs.map(() => null);
+    const correctPairs: boolean[] = resultData?.details?.correctPairs || [];
+    const definitionOrder = shuffledIndices(pairs.length, content.id);
+
+    const matchDefinition = (pairIndex: number) => {
+      if (activeTerm === null) return;
+      // A definition belongs to one term at a time
+      const next = matches.map(match => (match === pairIndex ? null : match));
+      next[activeTerm] = pairIndex;
+      setSelectedAnswer(next);
+      setActiveTerm(null);
+    };
+
+    return (
+      <View style={styles.contentContainer}>
+        <Text style={[styles.questionText, { color: theme.colors.text }]}>
+          {content.question}
+        </Text>
+        
+        <View style={styles.optionsContainer}>
+          {pairs.map((pair, termIndex) => {
+            const match = matches[termIndex];
+            return (
+              <Pressable
+                key={pair.term}
+                style={[
+                  styles.matchTerm,
+                  resultColors(showResult ? correctPairs[termIndex] : undefined, activeTerm === termIndex),
+                ]}
+                onPress={() => setActiveTerm(activeTerm === termIndex ? null : termIndex)}
+                disabled={showResult || isLoading}
+              >
+                <Text style={[styles.optionText, { color: theme.colors.text }]}>{pair.term}</Text>
+                <Text style={[styles.matchDefinition, { color: theme.colors.textSecondary }]}>
+                  {match !== null && match !== undefined ? `→ ${pairs[match].definition}` : 'Tap, then pick a definition'}
+                </Text>
+                {showResult && !correctPairs[termIndex] && (
+                  <Text style={[styles.matchDefinition, { color: theme.colors.success }]}>
+                    ✓ {pair.definition}
+                  </Text>
+                )}
+              </Pressable>
+            );
+          })}
+        </View>
+        
+        {!showResult && (
+          <View style={[styles.optionsContainer, styles.matchDefinitions]}>
+            {definitionOrder.map(pairIndex => {
+              const used = matches.includes(pairIndex);
+              return (
+                <Pressable
+                  key={pairIndex}
+                  style={[styles.optionButton, resultColors(undefined), { borderWidth: 1, opacity: used ? 0.5 : 1 }]}
+                  onPress={() => matchDefinition(pairIndex)}
+                  disabled={activeTerm === null || isLoading}
+                >
+                  <Text style={[styles.optionText, { color: theme.colors.text }]}>
+                    {pairs[pairIndex].definition}
+                  </Text>
+                </Pressable>
+              );
+            })}
+          </View>
+        )}
+        
+        {renderCheckButton('Check Matches', matches, matches.every(match => match !== null && match !== undefined))}
+      </View>
+    );
+  };
+
+  const renderHotspot = (content: LessonContent) => {
+    const tap = selectedAnswer && typeof selectedAnswer.x === 'number' ? selectedAnswer : null;
+    const target = content.hotspots?.[content.correctAnswer];
+
+    return (
+      <View style={styles.contentContainer}>
+        <Text style={[styles.questionText, { color: theme.colors.text }]}>
+          {content.question}
+        </Text>
+        
+        <Pressable
+          style={styles.hotspotContainer}
+          onPress={event => setSelectedAnswer({
+            x: event.nativeEvent.locationX / HOTSPOT_WIDTH,
+            y: event.nativeEvent.locationY / HOTSPOT_HEIGHT,
+          })}
+          disabled={showResult || isLoading}
+        >
+          {/* Stretched so region coordinates map straight onto the image */}
+          <Image source={{ uri: content.image }} style={styles.hotspotImage} resizeMode="stretch" />
+          
+          {showResult && target && (
+            <View
+              pointerEvents="none"
+              style={[
+                styles.hotspotRegion,
+                {
+                  left: (target.x - target.radius) * HOTSPOT_WIDTH,
+                  top: (target.y - target.radius) * HOTSPOT_HEIGHT,
+                  width: target.radius * 2 * HOTSPOT_WIDTH,
+                  height: target.radius * 2 * HOTSPOT_HEIGHT,
+                  borderColor: theme.colors.success,
+                },
+              ]}
+            />
+          )}
+          
+          {tap && (
+            <View
+              pointerEvents="none"
+              style={[
+                styles.hotspotMarker,
+                {
+                  left: tap.x * HOTSPOT_WIDTH - 10,
+                  top: tap.y * HOTSPOT_HEIGHT - 10,
+                  backgroundColor: showResult
+                    ? (resultData?.isCorrect ? theme.colors.success : theme.colors.error)
+                    : theme.colors.primary,
+                },
+              ]}
+            />
+          )}
+        </Pressable>
+        
+        {renderCheckButton('Check Answer', tap, !!tap)}
+      </View>
+    );
+  };
+
   const renderCurrentContent = () => {
     if (!currentContent) return null;
     
@@ -521,6 +917,12 @@ export default function LessonScreen() {
         return renderMultipleChoice(currentContent);
       case 'true_false':
         return renderTrueFalse(currentContent);
+      case 'ordering':
+        return renderOrdering(currentContent);
+      case 'matching':
+        return renderMatching(currentContent);
+      case 'hotspot':
+        return renderHotspot(currentContent);
       case 'drawing_exercise':
       case 'guided_step':
       case 'shape_practice':
@@ -585,6 +987,44 @@ export default function LessonScreen() {
     );
   };
 
+  const renderHints = () => {
+    if (!currentContent || hintLadder.length === 0) return null;
+
+    // A miss that earns a hint shows the first level for free
+    const shown = revealedHints.length > 0 ? revealedHints : showHint ? hintLadder.slice(0, 1) : [];
+    const canRequest = !showResult && revealedHints.length < hintLadder.length;
+    const nextShare = Math.round(lessonEngine.getHintXPShare(revealedHints.length + 1) * 100);
+
+    return (
+      <>
+        {shown.map(hint => (
+          <Animated.View
+            key={hint.level}
+            entering={FadeInDown}
+            style={[styles.hintDisplay, { backgroundColor: theme.colors.warning + '20' }]}
+          >
+            <Lightbulb size={16} color={theme.colors.warning} />
+            <Text style={[styles.hintDisplayText, { color: theme.colors.text }]}>
+              {hintLadder.length > 1 ? `Hint ${hint.level} of ${hintLadder.length}: ` : ''}{hint.text}
+            </Text>
+          </Animated.View>
+        ))}
+
+        {canRequest && (
+          <Pressable
+            style={[styles.hintButton, { borderColor: theme.colors.warning }]}
+            onPress={handleHintRequest}
+          >
+            <Lightbulb size={16} color={theme.colors.warning} />
+            <Text style={[styles.hintButtonText, { color: theme.colors.warning }]}>
+              {revealedHints.length === 0 ? 'Show hint' : 'Next hint'} ({nextShare}% XP)
+            </Text>
+          </Pressable>
+        )}
+      </>
+    );
+  };
+
   const renderResultFeedback = () => {
     if (!showResult || !resultData) return null;
     
@@ -638,17 +1078,45 @@ export default function LessonScreen() {
               </Text>
             </View>
           )}
+          
+          {resultData.timing && (
+            <View style={styles.xpContainer}>
+              {resultData.timing.speedBonus > 0 ? (
+                <Zap size={16} color={theme.colors.warning} />
+              ) : (
+                <Clock size={16} color={theme.colors.textSecondary} />
+              )}
+              <Text style={[styles.timingText, { color: theme.colors.textSecondary }]}>
+                {resultData.timing.timedOut
+                  ? `Out of time (${resultData.timing.timeLimit}s)`
+                  : `${(resultData.timing.elapsed / 1000).toFixed(1)}s of ${resultData.timing.timeLimit}s`}
+                {resultData.timing.speedBonus > 0 ? ` • Speed bonus +${Math.round(resultData.timing.speedBonus * 100)}%` : ''}
+              </Text>
+            </View>
+          )}
         </View>
         
-        <Pressable
-          style={[styles.continueButton, { backgroundColor: theme.colors.primary }]}
-          onPress={handleContinue}
-          disabled={isLoading}
-        >
-          <Text style={[styles.continueButtonText, { color: theme.colors.surface }]}>
-            Continue
-          </Text>
-        </Pressable>
+        {!resultData.isCorrect && currentContent && lessonEngine.canRetry(currentContent.id) ? (
+          <Pressable
+            style={[styles.continueButton, { backgroundColor: theme.colors.primary }]}
+            onPress={handleRetry}
+            disabled={isLoading}
+          >
+            <Text style={[styles.continueButtonText, { color: theme.colors.surface }]}>
+              Try Again
+            </Text>
+          </Pressable>
+        ) : (
+          <Pressable
+            style={[styles.continueButton, { backgroundColor: theme.colors.primary }]}
+            onPress={handleContinue}
+            disabled={isLoading}
+          >
+            <Text style={[styles.continueButtonText, { color: theme.colors.surface }]}>
+              Continue
+            </Text>
+          </Pressable>
+        )}
       </Animated.View>
     );
   };
@@ -670,6 +1138,8 @@ export default function LessonScreen() {
 
   // =================== MAIN RENDER ===================
 
+  const difficultyAdjustment = currentContent ? lessonEngine.getDifficultyAdjustment(currentContent.id) : null;
+
   return (
     <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]}>
       {renderHeader()}
@@ -689,23 +1159,35 @@ export default function LessonScreen() {
                 <Brush size={20} color={theme.colors.primary} />
               )}
             </View>
-            <Text style={[styles.lessonTypeText, { color: theme.colors.textSecondary }]}>
-              {lesson?.type === 'theory' ? 'Theory' : 'Practice'} • {Math.floor(timeSpent / 60)}:{(timeSpent % 60).toString().padStart(2, '0')}
-            </Text>
+            {timeRemaining !== null ? (
+              <Text style={[
+                styles.lessonTypeText,
+                { color: timeRemaining <= 5000 ? theme.colors.error : theme.colors.textSecondary },
+              ]}>
+                Drill • {Math.ceil(timeRemaining / 1000)}s left
+              </Text>
+            ) : (
+              <Text style={[styles.lessonTypeText, { color: theme.colors.textSecondary }]}>
+                {lesson?.type === 'theory' ? 'Theory' : lesson?.type === 'drill' ? 'Drill' : 'Practice'} • {Math.floor(timeSpent / 60)}:{(timeSpent % 60).toString().padStart(2, '0')}
+              </Text>
+            )}
           </View>
           
           {/* Main content */}
           {renderCurrentContent()}
           
-          {/* Hint display */}
-          {showHint && currentContent?.hint && (
-            <Animated.View entering={FadeInDown} style={[styles.hintDisplay, { backgroundColor: theme.colors.warning + '20' }]}>
-              <Lightbulb size={16} color={theme.colors.warning} />
-              <Text style={[styles.hintDisplayText, { color: theme.colors.text }]}>
-                {currentContent.hint}
+          {/* Why adaptive difficulty changed this item */}
+          {difficultyAdjustment && (
+            <View style={[styles.difficultyNote, { backgroundColor: theme.colors.primary + '10' }]}>
+              <Target size={16} color={theme.colors.primary} />
+              <Text style={[styles.difficultyNoteText, { color: theme.colors.textSecondary }]}>
+                {difficultyAdjustment.reason}
               </Text>
-            </Animated.View>
+            </View>
           )}
+          
+          {/* Hint display */}
+          {renderHints()}
         </Animated.View>
       </ScrollView>
       
@@ -814,12 +1296,6 @@ const createStyles = (theme: any) => StyleSheet.create({
     marginBottom: 20,
     borderRadius: 8,
   },
-  instructionHint: {
-    fontSize: 14,
-    textAlign: 'center',
-    marginBottom: 16,
-    fontStyle: 'italic',
-  },
   optionsContainer: {
     gap: 12,
   },
@@ -863,6 +1339,20 @@ const createStyles = (theme: any) => StyleSheet.create({
   canvas: {
     borderRadius: 12,
   },
+  demonstrationContainer: {
+    marginTop: 20,
+  },
+  demonstrationToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'center',
+    marginTop: 16,
+  },
+  demonstrationToggleText: {
+    marginLeft: 6,
+    fontSize: 14,
+    fontWeight: '600',
+  },
   drawingControls: {
     flexDirection: 'row',
     justifyContent: 'center',
@@ -880,6 +1370,52 @@ const createStyles = (theme: any) => StyleSheet.create({
     fontSize: 14,
     fontWeight: '600',
   },
+  orderPosition: {
+    fontSize: 16,
+    fontWeight: '700',
+    width: 24,
+  },
+  orderControls: {
+    flexDirection: 'row',
+    gap: 8,
+    marginLeft: 8,
+  },
+  matchTerm: {
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 2,
+  },
+  matchDefinition: {
+    fontSize: 14,
+    marginTop: 4,
+  },
+  matchDefinitions: {
+    marginTop: 20,
+  },
+  hotspotContainer: {
+    width: HOTSPOT_WIDTH,
+    height: HOTSPOT_HEIGHT,
+    alignSelf: 'center',
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+  hotspotImage: {
+    width: '100%',
+    height: '100%',
+  },
+  hotspotRegion: {
+    position: 'absolute',
+    borderWidth: 3,
+    borderRadius: 9999,
+  },
+  hotspotMarker: {
+    position: 'absolute',
+    width: 20,
+    height: 20,
+    borderRadius: 10,
+    borderWidth: 2,
+    borderColor: '#FFFFFF',
+  },
   hintDisplay: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -892,6 +1428,33 @@ const createStyles = (theme: any) => StyleSheet.create({
     fontSize: 14,
     flex: 1,
   },
+  hintButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 20,
+    borderWidth: 1,
+    marginTop: 16,
+  },
+  hintButtonText: {
+    marginLeft: 6,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  difficultyNote: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    borderRadius: 12,
+    marginTop: 16,
+  },
+  difficultyNoteText: {
+    marginLeft: 8,
+    fontSize: 13,
+    flex: 1,
+  },
   resultContainer: {
     position: 'absolute',
     bottom: 0,
@@ -927,6 +1490,10 @@ const createStyles = (theme: any) => StyleSheet.create({
     fontWeight: '600',
     marginLeft: 6,
   },
+  timingText: {
+    fontSize: 14,
+    marginLeft: 6,
+  },
   continueButton: {
     alignItems: 'center',
     paddingVertical: 16,
@@ -936,4 +1503,16 @@ const createStyles = (theme: any) => StyleSheet.create({
     fontSize: 18,
     fontWeight: '600',
   },
-});
\ No newline at end of file
+});
+
+// Stable per-item shuffle, so matching definitions don't sit next to their terms
+function shuffledIndices(count: number, seed: string): number[] {
+  let state = Array.from(seed).reduce((hash, char) => (hash * 31 + char.charCodeAt(0)) >>> 0, 7);
+  const indices = Array.from({ length: count }, (_, index) => index);
+  for (let i = count - 1; i > 0; i--) {
+    state = (Math.imul(state, 1103515245) + 12345) >>> 0;
+    const j = state % (i + 1);
+    [indices[i], indices[j]] = [indices[j], indices[i]];
+  }
+  return indices;
+}
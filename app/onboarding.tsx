@@ -209,6 +209,15 @@ export default function OnboardingScreen() {
       // Give context time to update
       await new Promise(resolve => setTimeout(resolve, 500));
       
+      // Learners who can already draw get a placement test so they don't
+      // start from "Your First Line"
+      const skillLevel = getSelectedSkillLevelType();
+      if (skillLevel !== 'beginner') {
+        NavigationDebugger.log('User creation complete, navigating to placement', { skillLevel });
+        router.replace({ pathname: '/placement', params: { level: skillLevel } });
+        return;
+      }
+      
       NavigationDebugger.log('User creation complete, navigating to tabs');
       
       // The useEffect above will handle navigation when user is detected
@@ -0,0 +1,507 @@
+// app/placement.tsx - PLACEMENT TEST SCREEN
+import React, { useState, useCallback, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  Pressable,
+  Dimensions,
+  SafeAreaView,
+  ActivityIndicator,
+} from 'react-native';
+import Animated, { FadeInUp, FadeInDown } from 'react-native-reanimated';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import * as Haptics from 'expo-haptics';
+import { CheckCircle, X, Compass, Trophy, BookOpen, Brush } from 'lucide-react-native';
+import { useTheme } from '../src/contexts/ThemeContext';
+import { placementTest } from '../src/engines/learning/PlacementTest';
+import { lessonEngine } from '../src/engines/learning/LessonEngine';
+import { ProfessionalCanvas } from '../src/engines/drawing/ProfessionalCanvas';
+import { PlacementItem, PlacementResult, SkillLevel, ValidationResult } from '../src/types';
+
+/**
+ * PLACEMENT TEST SCREEN
+ *
+ * Reached from onboarding for learners who say they can already draw.
+ * Runs the adaptive placement test one item at a time (one attempt each),
+ * then shows which lessons were tested out or made optional. Skipping at
+ * any point leaves the skill tree untouched.
+ */
+
+const { width: screenWidth } = Dimensions.get('window');
+
+const SKILL_LEVELS: SkillLevel[] = ['beginner', 'intermediate', 'advanced'];
+
+type Phase = 'intro' | 'testing' | 'result';
+
+export default function PlacementScreen() {
+  const router = useRouter();
+  const { level } = useLocalSearchParams();
+  const { theme } = useTheme();
+
+  const [phase, setPhase] = useState<Phase>('intro');
+  const [item, setItem] = useState<PlacementItem | null>(null);
+  const [selectedAnswer, setSelectedAnswer] = useState<any>(null);
+  const [canvasStrokes, setCanvasStrokes] = useState<any[]>([]);
+  const [resultData, setResultData] = useState<ValidationResult | null>(null);
+  const [placement, setPlacement] = useState<PlacementResult | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  // Bumped to remount the canvas, which has no imperative clear
+  const [canvasKey, setCanvasKey] = useState(0);
+
+  const styles = useMemo(() => createStyles(theme), [theme]);
+
+  const skillLevel: SkillLevel = SKILL_LEVELS.includes(level as SkillLevel) ? (level as SkillLevel) : 'beginner';
+  const progress = placementTest.getProgress();
+
+  // =================== FLOW ===================
+
+  const finishTest = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const result = await placementTest.finish();
+      setPlacement(result);
+      setPhase('result');
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    } catch (error) {
+      console.error('Failed to apply placement:', error);
+      router.replace('/(tabs)');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [router]);
+
+  const handleStart = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const first = await placementTest.start(skillLevel);
+      if (!first) {
+        // Nothing to grade - fall through to the normal start
+        router.replace('/(tabs)');
+        return;
+      }
+      setItem(first);
+      setPhase('testing');
+    } catch (error) {
+      console.error('Failed to start placement test:', error);
+      router.replace('/(tabs)');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [skillLevel, router]);
+
+  const handleSkip = useCallback(() => {
+    placementTest.cancel();
+    router.replace('/(tabs)');
+  }, [router]);
+
+  const handleSubmit = useCallback(async (answer: any) => {
+    if (!item || resultData || isLoading) return;
+
+    setIsLoading(true);
+    try {
+      const result = await placementTest.submitAnswer(answer);
+      setResultData(result);
+      Haptics.notificationAsync(
+        result.isCorrect ? Haptics.NotificationFeedbackType.Success : Haptics.NotificationFeedbackType.Warning
+      );
+    } catch (error) {
+      console.error('Failed to grade placement answer:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [item, resultData, isLoading]);
+
+  const handleNext = useCallback(async () => {
+    setResultData(null);
+    setSelectedAnswer(null);
+    setCanvasStrokes([]);
+    setCanvasKey(key => key + 1);
+
+    const next = placementTest.getCurrentItem();
+    if (next) {
+      setItem(next);
+    } else {
+      await finishTest();
+    }
+  }, [finishTest]);
+
+  const handleStrokeAdded = useCallback((stroke: any) => {
+    setCanvasStrokes(prev => [...prev, stroke]);
+  }, []);
+
+  const handleCanvasClear = useCallback(() => {
+    setCanvasStrokes([]);
+    setCanvasKey(key => key + 1);
+  }, []);
+
+  // =================== ITEM RENDERERS ===================
+
+  const optionColors = (isSelected: boolean, isCorrectOption: boolean) => {
+    if (resultData) {
+      if (isSelected) {
+        return resultData.isCorrect
+          ? { backgroundColor: theme.colors.success + '20', borderColor: theme.colors.success }
+          : { backgroundColor: theme.colors.error + '20', borderColor: theme.colors.error };
+      }
+      if (isCorrectOption) {
+        return { backgroundColor: theme.colors.success + '20', borderColor: theme.colors.success };
+      }
+    } else if (isSelected) {
+      return { backgroundColor: theme.colors.primary + '20', borderColor: theme.colors.primary };
+    }
+    return { backgroundColor: theme.colors.surface, borderColor: theme.colors.border };
+  };
+
+  const renderQuiz = (current: PlacementItem) => {
+    const content = current.content;
+    const choices: any[] = content.type === 'true_false' ? [true, false] : (content.options || []).map((_, index) => index);
+
+    return (
+      <View style={styles.optionsContainer}>
+        {choices.map((value, index) => {
+          const label = content.type === 'true_false'
+            ? (value ? 'True' : 'False')
+            : `${String.fromCharCode(65 + index)}. ${content.options![index]}`;
+          const isSelected = selectedAnswer === value;
+
+          return (
+            <Pressable
+              key={String(value)}
+              style={[styles.optionButton, optionColors(isSelected, value === content.correctAnswer)]}
+              onPress={() => setSelectedAnswer(value)}
+              disabled={!!resultData || isLoading}
+            >
+              <Text style={[styles.optionText, { color: theme.colors.text }]}>{label}</Text>
+              {resultData && value === content.correctAnswer && (
+                <CheckCircle size={22} color={theme.colors.success} />
+              )}
+              {resultData && isSelected && !resultData.isCorrect && (
+                <X size={22} color={theme.colors.error} />
+              )}
+            </Pressable>
+          );
+        })}
+
+        {!resultData && (
+          <Pressable
+            style={[styles.primaryButton, { backgroundColor: theme.colors.primary, opacity: selectedAnswer === null ? 0.5 : 1 }]}
+            onPress={() => handleSubmit(selectedAnswer)}
+            disabled={selectedAnswer === null || isLoading}
+          >
+            <Text style={styles.primaryButtonText}>Check Answer</Text>
+          </Pressable>
+        )}
+      </View>
+    );
+  };
+
+  const renderDrawing = () => (
+    <View>
+      <View style={styles.canvasContainer}>
+        <ProfessionalCanvas
+          key={canvasKey}
+          width={screenWidth - 40}
+          height={300}
+          onStrokeAdded={handleStrokeAdded}
+          disabled={!!resultData}
+          currentTool="brush"
+          currentColor={{ hex: '#000000' }}
+          brushSize={5}
+          opacity={1}
+          showDebugInfo={false}
+          style={styles.canvas}
+        />
+      </View>
+
+      {!resultData && (
+        <View style={styles.drawingControls}>
+          <Pressable
+            style={[styles.secondaryButton, { backgroundColor: theme.colors.surface }]}
+            onPress={handleCanvasClear}
+            disabled={canvasStrokes.length === 0}
+          >
+            <Text style={[styles.secondaryButtonText, { color: theme.colors.text }]}>Clear</Text>
+          </Pressable>
+          <Pressable
+            style={[styles.primaryButton, { flex: 1, marginTop: 0, backgroundColor: theme.colors.primary, opacity: canvasStrokes.length === 0 ? 0.5 : 1 }]}
+            onPress={() => handleSubmit({ strokes: canvasStrokes, strokeCount: canvasStrokes.length })}
+            disabled={canvasStrokes.length === 0 || isLoading}
+          >
+            <Text style={styles.primaryButtonText}>Check Drawing</Text>
+          </Pressable>
+        </View>
+      )}
+    </View>
+  );
+
+  const renderItem = (current: PlacementItem) => {
+    const content = current.content;
+    const isQuiz = content.type === 'multiple_choice' || content.type === 'true_false';
+    const source = lessonEngine.getLessonById(current.lessonId);
+
+    return (
+      <Animated.View key={`${current.lessonId}/${content.id}`} entering={FadeInUp} style={styles.body}>
+        <View style={styles.itemMeta}>
+          <View style={[styles.itemIcon, { backgroundColor: theme.colors.primary + '20' }]}>
+            {isQuiz ? <BookOpen size={18} color={theme.colors.primary} /> : <Brush size={18} color={theme.colors.primary} />}
+          </View>
+          <Text style={[styles.itemMetaText, { color: theme.colors.textSecondary }]}>
+            {source?.title || 'Placement'} • Level {current.tier}
+          </Text>
+        </View>
+
+        <Text style={[styles.questionText, { color: theme.colors.text }]}>
+          {isQuiz ? content.question : content.instruction}
+        </Text>
+
+        {isQuiz ? renderQuiz(current) : renderDrawing()}
+
+        {resultData && (
+          <Animated.View entering={FadeInDown} style={[styles.feedback, { backgroundColor: theme.colors.surface }]}>
+            <Text style={[styles.feedbackText, { color: resultData.isCorrect ? theme.colors.success : theme.colors.textSecondary }]}>
+              {resultData.isCorrect ? 'Nice - you know this one.' : resultData.feedback}
+            </Text>
+            <Pressable
+              style={[styles.primaryButton, { backgroundColor: theme.colors.primary }]}
+              onPress={handleNext}
+              disabled={isLoading}
+            >
+              <Text style={styles.primaryButtonText}>
+                {placementTest.getCurrentItem() ? 'Next' : 'See Results'}
+              </Text>
+            </Pressable>
+          </Animated.View>
+        )}
+      </Animated.View>
+    );
+  };
+
+  const renderIntro = () => (
+    <Animated.View entering={FadeInUp} style={styles.centered}>
+      <Compass size={64} color={theme.colors.primary} />
+      <Text style={[styles.title, { color: theme.colors.text }]}>Find your starting point</Text>
+      <Text style={[styles.description, { color: theme.colors.textSecondary }]}>
+        A few quick questions and drawings, one try each. Lessons you already know are marked complete, so
+        you can jump straight to new material.
+      </Text>
+      <Pressable
+        style={[styles.primaryButton, styles.wideButton, { backgroundColor: theme.colors.primary }]}
+        onPress={handleStart}
+        disabled={isLoading}
+      >
+        {isLoading ? (
+          <ActivityIndicator color="#FFFFFF" />
+        ) : (
+          <Text style={styles.primaryButtonText}>Start Placement</Text>
+        )}
+      </Pressable>
+      <Pressable style={styles.skipButton} onPress={handleSkip}>
+        <Text style={[styles.skipText, { color: theme.colors.textSecondary }]}>Skip - start from the beginning</Text>
+      </Pressable>
+    </Animated.View>
+  );
+
+  const renderResult = () => {
+    const testedOut = placement?.testedOut.length || 0;
+    const skippable = placement?.skippable.length || 0;
+
+    return (
+      <Animated.View entering={FadeInUp} style={styles.centered}>
+        <Trophy size={64} color={theme.colors.success} />
+        <Text style={[styles.title, { color: theme.colors.text }]}>
+          {placement && placement.placedTier > 0 ? `Placed at level ${placement.placedTier}` : 'Starting from the basics'}
+        </Text>
+        <Text style={[styles.description, { color: theme.colors.textSecondary }]}>
+          {testedOut + skippable > 0
+            ? `${testedOut} lesson${testedOut === 1 ? '' : 's'} marked complete and ${skippable} made optional. Optional lessons stay open if you want a refresher.`
+            : 'We\'ll start with the fundamentals and speed up as you go.'}
+        </Text>
+        <Pressable
+          style={[styles.primaryButton, styles.wideButton, { backgroundColor: theme.colors.primary }]}
+          onPress={() => router.replace('/(tabs)')}
+        >
+          <Text style={styles.primaryButtonText}>Start Learning</Text>
+        </Pressable>
+      </Animated.View>
+    );
+  };
+
+  // =================== MAIN RENDER ===================
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]}>
+      {phase === 'testing' && (
+        <View style={styles.header}>
+          <Text style={[styles.headerTitle, { color: theme.colors.text }]}>
+            Placement {Math.min(progress.answered + (resultData ? 0 : 1), progress.total)} of {progress.total}
+          </Text>
+          <Pressable onPress={handleSkip}>
+            <Text style={[styles.skipText, { color: theme.colors.textSecondary }]}>Skip</Text>
+          </Pressable>
+        </View>
+      )}
+
+      <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent} showsVerticalScrollIndicator={false}>
+        {phase === 'intro' && renderIntro()}
+        {phase === 'testing' && item && renderItem(item)}
+        {phase === 'result' && renderResult()}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+// =================== STYLES ===================
+
+const createStyles = (theme: any) => StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(0,0,0,0.1)',
+  },
+  headerTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    paddingBottom: 40,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 32,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '700',
+    textAlign: 'center',
+    marginTop: 24,
+    marginBottom: 12,
+  },
+  description: {
+    fontSize: 16,
+    lineHeight: 24,
+    textAlign: 'center',
+    marginBottom: 32,
+  },
+  body: {
+    padding: 20,
+  },
+  itemMeta: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  itemIcon: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 8,
+  },
+  itemMetaText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  questionText: {
+    fontSize: 20,
+    fontWeight: '600',
+    lineHeight: 28,
+    textAlign: 'center',
+    marginBottom: 20,
+  },
+  optionsContainer: {
+    gap: 12,
+  },
+  optionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 2,
+  },
+  optionText: {
+    fontSize: 16,
+    fontWeight: '500',
+    flex: 1,
+  },
+  canvasContainer: {
+    alignItems: 'center',
+    marginBottom: 20,
+    borderRadius: 12,
+    overflow: 'hidden',
+    elevation: 2,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+  },
+  canvas: {
+    backgroundColor: '#FFFFFF',
+  },
+  drawingControls: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  primaryButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 16,
+    paddingHorizontal: 24,
+    borderRadius: 12,
+    marginTop: 8,
+  },
+  wideButton: {
+    alignSelf: 'stretch',
+  },
+  primaryButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 16,
+    paddingHorizontal: 20,
+    borderRadius: 12,
+  },
+  secondaryButtonText: {
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  feedback: {
+    marginTop: 20,
+    padding: 16,
+    borderRadius: 12,
+  },
+  feedbackText: {
+    fontSize: 15,
+    lineHeight: 22,
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  skipButton: {
+    marginTop: 16,
+    padding: 8,
+  },
+  skipText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+});
@@ -0,0 +1,74 @@
+// scripts/checks/documents.ts
+//
+// Saved drawings: old lesson drawings and lesson canvas strokes, whose
+// points are kept as `path`, survive the .pikaso format.
+
+import assert from 'node:assert/strict';
+import { dataManager } from '../../src/engines/core/DataManager';
+import { documentStore } from '../../src/engines/drawing/DocumentStore';
+import { pikasoFormat } from '../../src/engines/drawing/PikasoFormat';
+import { Check } from './types';
+
+// As ProfessionalCanvas hands strokes to lessons
+const lessonStroke = (y: number) => ({
+  path: [
+    { x: 80, y, timestamp: 1000, pressure: 0.5 },
+    { x: 200.25, y: y + 10, timestamp: 1016, pressure: 0.75 },
+    { x: 320.5, y: y + 20, timestamp: 1032, pressure: 1 },
+  ],
+  color: '#ff0000',
+  size: 6,
+  tool: 'brush',
+  opacity: 0.8,
+});
+
+// As lessons saved drawings to AsyncStorage before the format
+const legacyLessonDrawing = () => ({
+  lessonId: 'lesson-first-line',
+  contentId: 'line-practice',
+  strokes: [lessonStroke(200), lessonStroke(260)],
+  timestamp: 1700000000000,
+});
+
+export const documentChecks: Check[] = [
+  {
+    name: 'old lesson drawing round-trips through .pikaso',
+    run: () => {
+      const legacy = legacyLessonDrawing();
+      const document = pikasoFormat.decode(pikasoFormat.encode(pikasoFormat.fromLegacy('drawing_old', legacy)));
+
+      assert.deepEqual(document.metadata, { lessonId: 'lesson-first-line', contentId: 'line-practice' });
+      assert.equal(document.layers.length, 1);
+
+      const strokes = document.layers[0].strokes;
+      assert.equal(strokes.length, 2);
+      strokes.forEach((stroke, i) => {
+        const source = legacy.strokes[i];
+        assert.equal(stroke.color, source.color);
+        assert.equal(stroke.size, source.size);
+        assert.equal(stroke.opacity, source.opacity);
+        assert.deepEqual(stroke.points, source.path);
+      });
+    },
+  },
+  {
+    name: 'old lesson drawing opens from AsyncStorage',
+    run: async () => {
+      const drawingId = await dataManager.saveDrawing(legacyLessonDrawing());
+      const document = await documentStore.load(drawingId);
+
+      assert.ok(document, 'load returned null');
+      assert.equal(document.layers[0].strokes.length, 2);
+      assert.equal(document.layers[0].strokes[0].points.length, 3);
+    },
+  },
+  {
+    name: 'lesson canvas strokes encode',
+    run: () => {
+      const document = pikasoFormat.fromStrokes([lessonStroke(100)], { id: 'drawing_lesson', title: 'First Line' });
+      const decoded = pikasoFormat.decode(pikasoFormat.encode(document));
+
+      assert.deepEqual(decoded.layers[0].strokes[0].points, lessonStroke(100).path);
+    },
+  },
+];
@@ -0,0 +1,121 @@
+// scripts/checks/exports.ts
+//
+// Exports from the drawing screen: groups and clipping masks over the
+// screen's own layers reach the saved document and the SVG, and its layers
+// reach OpenRaster and PSD files with their pixels.
+
+import assert from 'node:assert/strict';
+import { ClippingMask } from '../../src/engines/drawing/LayerManager';
+import { pikasoFormat } from '../../src/engines/drawing/PikasoFormat';
+import { svgExporter } from '../../src/engines/drawing/SvgExporter';
+import { layeredExporter } from '../../src/engines/drawing/LayeredExporter';
+import { AlphaType, ColorType } from '../../src/engines/drawing/SkiaCompatibility';
+import { DrawingState, Layer } from '../../src/types';
+import { Check } from './types';
+
+// One horizontal stroke across the canvas at `y`
+const screenLayer = (id: string, order: number, color: string, y: number): Layer => ({
+  id,
+  name: id,
+  type: 'vector',
+  strokes: [{
+    id: `${id}_stroke`,
+    points: [{ x: 50, y, timestamp: 0 }, { x: 350, y, timestamp: 16 }],
+    color,
+    brushId: 'default',
+    size: 20,
+    opacity: 1,
+    blendMode: 'normal',
+    smoothing: 0,
+  }],
+  opacity: 1,
+  blendMode: 'normal',
+  visible: true,
+  locked: false,
+  data: null,
+  order,
+});
+
+// Only what the exporters read of the screen's state; layers bottom to top
+const screenState = (layers: Layer[]): DrawingState => ({
+  layers,
+  activeLayerId: layers[0].id,
+  strokes: layers.flatMap(layer => layer.strokes),
+  canvasWidth: 400,
+  canvasHeight: 300,
+  settings: {},
+  recentColors: [],
+  savedPalettes: [],
+  history: [],
+  historyIndex: 0,
+  stats: { totalStrokes: 2, totalTime: 0, layersUsed: layers.length },
+} as unknown as DrawingState);
+
+const baseAndShading = () => screenState([
+  screenLayer('layer_base', 0, '#000000', 100),
+  screenLayer('layer_shading', 1, '#ff0000', 200),
+]);
+
+const pixelAt = (image: any, x: number, y: number): number[] => Array.from(
+  image.readPixels(x, y, { width: 1, height: 1, colorType: ColorType.RGBA_8888, alphaType: AlphaType.Unpremul })
+);
+
+export const exportChecks: Check[] = [
+  {
+    name: 'clipped layer exports to SVG with its mask',
+    run: () => {
+      const state = baseAndShading();
+      const mask: ClippingMask = {
+        id: 'mask_shading',
+        maskLayerId: 'layer_base',
+        clippedLayerIds: ['layer_shading'],
+        inverted: false,
+      };
+
+      const document = pikasoFormat.fromDrawingState(state, {
+        id: 'drawing_clipped',
+        title: 'Clipped',
+        groups: [],
+        clippingMasks: [mask],
+      });
+      assert.deepEqual(document.clippingMasks, [mask]);
+
+      const svg = svgExporter.export(pikasoFormat.decode(pikasoFormat.encode(document)));
+      assert.match(svg, /<mask id="clip-mask_shading"/);
+      assert.match(svg, /<g id="layer_shading"[^>]* mask="url\(#clip-mask_shading\)"/);
+      assert.doesNotMatch(svg, /<g id="layer_base"[^>]* mask=/);
+    },
+  },
+  {
+    name: 'drawing screen layers export to OpenRaster and open again',
+    run: () => {
+      const state = baseAndShading();
+      const stack = layeredExporter.readOpenRaster(layeredExporter.exportOpenRaster(layeredExporter.fromDrawingState(state)));
+
+      assert.equal(stack.width, 400);
+      assert.equal(stack.height, 300);
+      assert.deepEqual(stack.layers.map(layer => layer.name), ['layer_shading', 'layer_base']);
+      assert.deepEqual(pixelAt(stack.layers[0].data.image, 200, 200), [255, 0, 0, 255]);
+      assert.equal(pixelAt(stack.layers[0].data.image, 200, 100)[3], 0);
+      assert.deepEqual(pixelAt(stack.layers[1].data.image, 200, 100), [0, 0, 0, 255]);
+
+      const opened = layeredExporter.toDrawingState(stack, state);
+      assert.deepEqual(opened.layers.map(layer => layer.name), ['layer_base', 'layer_shading']);
+      assert.deepEqual(opened.layers.map(layer => layer.order), [0, 1]);
+      assert.equal(opened.activeLayerId, opened.layers[1].id);
+    },
+  },
+  {
+    name: 'drawing screen layers export to PSD',
+    run: () => {
+      const bytes = layeredExporter.exportPsd(layeredExporter.fromDrawingState(baseAndShading()));
+      const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+      assert.equal(String.fromCharCode(...bytes.slice(0, 4)), '8BPS');
+      assert.equal(view.getUint32(14), 300);
+      assert.equal(view.getUint32(18), 400);
+      // Header, empty color mode and resources sections, then the layer count
+      assert.equal(view.getInt16(42), -2);
+    },
+  },
+];
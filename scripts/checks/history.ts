@@ -0,0 +1,305 @@
+// scripts/checks/history.ts
+//
+// The shared undo stack: every command kind undoes and redoes, steps of the
+// drawing screen and the layer manager interleave, quick runs coalesce, old
+// steps are trimmed by depth and memory, and flattening transforms are
+// turned away.
+
+import assert from 'node:assert/strict';
+import {
+  commandHistory,
+  applyCommand,
+  strokesForMerge,
+  isInvertibleMatrix,
+  invertMatrix,
+  COALESCE_WINDOW_MS,
+  DrawingCommand,
+} from '../../src/engines/drawing/CommandHistory';
+import { layerManager } from '../../src/engines/drawing/LayerManager';
+import { Layer, Stroke } from '../../src/types';
+import { Check } from './types';
+
+const stroke = (id: string, pointCount = 2): Stroke => ({
+  id,
+  points: Array.from({ length: pointCount }, (_, i) => ({ x: 10 * i, y: 20 * i, timestamp: i })),
+  color: '#000000',
+  brushId: 'default',
+  size: 4,
+  opacity: 1,
+  blendMode: 'normal',
+  smoothing: 0,
+});
+
+const layer = (id: string, order: number, strokes: Stroke[] = []): Layer => ({
+  id,
+  name: id,
+  type: 'vector',
+  strokes,
+  opacity: 1,
+  blendMode: 'normal',
+  visible: true,
+  locked: false,
+  data: null,
+  order,
+});
+
+// Bottom to top, as the drawing screen keeps them
+const startingLayers = (): Layer[] => [
+  layer('bottom', 0, [stroke('s1'), stroke('s2')]),
+  layer('top', 1, [stroke('s3')]),
+];
+
+/** Runs `check` against a stand-in for the drawing screen's target, on an empty history. */
+function withScreen(check: (screen: () => Layer[]) => void): void {
+  let layers = startingLayers();
+  commandHistory.clear();
+  commandHistory.registerTarget('drawing', (command, direction) => {
+    layers = applyCommand(layers, command, direction);
+  });
+
+  try {
+    check(() => layers);
+  } finally {
+    commandHistory.unregisterTarget('drawing');
+    commandHistory.clear();
+  }
+}
+
+const ids = (layers: Layer[]) => layers.map(l => `${l.id}:${l.strokes.map(s => s.id).join(',')}`);
+
+const COMMANDS: Array<{ command: DrawingCommand; expect: (layers: Layer[]) => void }> = [
+  {
+    command: { type: 'add_stroke', layerId: 'top', stroke: stroke('s4') },
+    expect: layers => assert.deepEqual(ids(layers), ['bottom:s1,s2', 'top:s3,s4']),
+  },
+  {
+    command: { type: 'remove_stroke', layerId: 'bottom', stroke: stroke('s1'), index: 0 },
+    expect: layers => assert.deepEqual(ids(layers), ['bottom:s2', 'top:s3']),
+  },
+  {
+    command: { type: 'create_layer', layer: layer('middle', 1), index: 1 },
+    expect: layers => assert.deepEqual(ids(layers), ['bottom:s1,s2', 'middle:', 'top:s3']),
+  },
+  {
+    command: { type: 'delete_layer', layer: startingLayers()[1], index: 1 },
+    expect: layers => assert.deepEqual(ids(layers), ['bottom:s1,s2']),
+  },
+  {
+    command: { type: 'move_layer', layerId: 'top', from: 1, to: 0 },
+    expect: layers => assert.deepEqual(ids(layers), ['top:s3', 'bottom:s1,s2']),
+  },
+  {
+    command: {
+      type: 'merge_layers',
+      upper: startingLayers()[1],
+      upperIndex: 1,
+      lowerLayerId: 'bottom',
+      mergedStrokes: strokesForMerge(startingLayers()[1]),
+    },
+    expect: layers => assert.deepEqual(ids(layers), ['bottom:s1,s2,s3']),
+  },
+  {
+    command: { type: 'update_layer', layerId: 'top', before: { opacity: 1 }, after: { opacity: 0.5 } },
+    expect: layers => assert.equal(layers[1].opacity, 0.5),
+  },
+  {
+    command: { type: 'transform_layer', layerId: 'bottom', matrix: [2, 0, 0, 2, 5, -5] },
+    expect: layers => {
+      assert.deepEqual(layers[0].strokes[0].points[1], { x: 25, y: 35, timestamp: 1 });
+      assert.equal(layers[0].strokes[0].size, 8);
+    },
+  },
+  {
+    command: {
+      type: 'clear',
+      cleared: startingLayers().map(({ id, strokes }) => ({ layerId: id, strokes })),
+    },
+    expect: layers => assert.deepEqual(ids(layers), ['bottom:', 'top:']),
+  },
+];
+
+export const historyChecks: Check[] = [
+  {
+    name: 'every command kind undoes and redoes',
+    run: () => {
+      for (const { command, expect } of COMMANDS) {
+        withScreen(screen => {
+          commandHistory.execute('drawing', command);
+          const done = screen();
+          expect(done);
+
+          assert.ok(commandHistory.undo(), `${command.type} did not undo`);
+          assert.deepEqual(screen(), startingLayers(), `${command.type} undo`);
+
+          assert.ok(commandHistory.redo(), `${command.type} did not redo`);
+          assert.deepEqual(screen(), done, `${command.type} redo`);
+        });
+      }
+    },
+  },
+  {
+    name: 'drawing screen and layer manager steps undo in turn',
+    run: () => {
+      withScreen(screen => {
+        const background = layerManager.getLayer('background')!;
+        const backgroundStrokes = background.strokes.length;
+
+        commandHistory.execute('drawing', { type: 'add_stroke', layerId: 'top', stroke: stroke('s4') });
+        layerManager.addStroke({ ...stroke('manager_stroke'), layerId: 'background' } as Stroke);
+        commandHistory.execute('drawing', { type: 'update_layer', layerId: 'top', before: { opacity: 1 }, after: { opacity: 0.5 } });
+        assert.equal(commandHistory.getEntries().length, 3);
+
+        commandHistory.undo();
+        assert.equal(screen()[1].opacity, 1);
+        assert.equal(layerManager.getLayer('background')!.strokes.length, backgroundStrokes + 1);
+
+        commandHistory.undo();
+        assert.equal(layerManager.getLayer('background')!.strokes.length, backgroundStrokes);
+        assert.deepEqual(ids(screen()), ['bottom:s1,s2', 'top:s3,s4']);
+
+        commandHistory.undo();
+        assert.deepEqual(screen(), startingLayers());
+        assert.equal(commandHistory.canUndo(), false);
+
+        commandHistory.redo();
+        commandHistory.redo();
+        assert.equal(layerManager.getLayer('background')!.strokes.length, backgroundStrokes + 1);
+        commandHistory.redo();
+        assert.equal(screen()[1].opacity, 0.5);
+
+        // Leave the layer manager as it was
+        commandHistory.undo();
+        commandHistory.undo();
+      });
+    },
+  },
+  {
+    name: 'steps outlive their target unregistering',
+    run: () => {
+      withScreen(screen => {
+        let layers = screen();
+        const apply = (command: DrawingCommand, direction: 'do' | 'undo') => {
+          layers = applyCommand(layers, command, direction);
+        };
+
+        commandHistory.unregisterTarget('drawing');
+        commandHistory.registerTarget('drawing', apply);
+        commandHistory.execute('drawing', { type: 'add_stroke', layerId: 'top', stroke: stroke('s4') });
+
+        // As the drawing provider does when it unmounts
+        commandHistory.unregisterTarget('drawing');
+        assert.equal(commandHistory.getEntries().length, 1);
+        assert.equal(commandHistory.canUndo(), false);
+        assert.equal(commandHistory.undo(), null);
+
+        commandHistory.registerTarget('drawing', apply);
+        assert.ok(commandHistory.undo());
+        assert.deepEqual(layers, startingLayers());
+      });
+    },
+  },
+  {
+    name: `changes with one key within ${COALESCE_WINDOW_MS}ms undo together`,
+    run: () => {
+      const realNow = Date.now;
+      let now = 1_000_000;
+      Date.now = () => now;
+
+      try {
+        withScreen(screen => {
+          const opacity = (before: number, after: number) => commandHistory.execute(
+            'drawing',
+            { type: 'update_layer', layerId: 'top', before: { opacity: before }, after: { opacity: after } },
+            { coalesceKey: 'layer:top:opacity' }
+          );
+
+          opacity(1, 0.8);
+          now += COALESCE_WINDOW_MS;
+          opacity(0.8, 0.6);
+          assert.equal(commandHistory.getEntries().length, 1);
+
+          now += COALESCE_WINDOW_MS + 1;
+          opacity(0.6, 0.4);
+          assert.equal(commandHistory.getEntries().length, 2);
+
+          commandHistory.undo();
+          assert.equal(screen()[1].opacity, 0.6);
+          commandHistory.undo();
+          assert.equal(screen()[1].opacity, 1);
+
+          // A run of transforms folds into one matrix
+          commandHistory.clear();
+          const nudge = () => commandHistory.execute(
+            'drawing',
+            { type: 'transform_layer', layerId: 'bottom', matrix: [1, 0, 0, 1, 5, 0] },
+            { coalesceKey: 'transform:bottom' }
+          );
+          nudge();
+          nudge();
+          const [entry] = commandHistory.getEntries();
+          assert.equal(commandHistory.getEntries().length, 1);
+          assert.deepEqual(entry.steps.map(step => step.command), [
+            { type: 'transform_layer', layerId: 'bottom', matrix: [1, 0, 0, 1, 10, 0] },
+          ]);
+        });
+      } finally {
+        Date.now = realNow;
+      }
+    },
+  },
+  {
+    name: 'history is trimmed by depth and by memory',
+    run: () => {
+      const depth = commandHistory.getMaxDepth();
+
+      try {
+        withScreen(screen => {
+          commandHistory.setMaxDepth(3);
+          for (let i = 0; i < 5; i++) {
+            commandHistory.execute('drawing', { type: 'add_stroke', layerId: 'top', stroke: stroke(`d${i}`) });
+          }
+          assert.equal(commandHistory.getEntries().length, 3);
+
+          while (commandHistory.undo());
+          // The two oldest strokes can no longer be undone
+          assert.deepEqual(ids(screen()), ['bottom:s1,s2', 'top:s3,d0,d1']);
+        });
+
+        withScreen(() => {
+          commandHistory.setMaxDepth(depth);
+          // Each about 19MB by the history's estimate; two pass the 32MB budget
+          commandHistory.execute('drawing', { type: 'add_stroke', layerId: 'top', stroke: stroke('big1', 400_000) });
+          commandHistory.execute('drawing', { type: 'add_stroke', layerId: 'top', stroke: stroke('big2', 400_000) });
+
+          const entries = commandHistory.getEntries();
+          assert.equal(entries.length, 1);
+          assert.equal((entries[0].steps[0].command as { stroke: Stroke }).stroke.id, 'big2');
+        });
+      } finally {
+        commandHistory.setMaxDepth(depth);
+      }
+    },
+  },
+  {
+    name: 'transforms that flatten a layer are rejected',
+    run: () => {
+      assert.equal(isInvertibleMatrix([0, 0, 0, 0, 0, 0]), false);
+      assert.equal(isInvertibleMatrix([1, 0, 0, 0, 0, 0]), false);
+      assert.equal(isInvertibleMatrix([1, 0, 0, 1, NaN, 0]), false);
+      assert.equal(isInvertibleMatrix([2, 0, 0, 2, 0, 0]), true);
+      assert.throws(() => invertMatrix([1, 2, 2, 4, 0, 0]));
+
+      commandHistory.clear();
+      try {
+        assert.equal(layerManager.transformLayer('background', [0, 0, 0, 1, 0, 0]), false);
+        assert.equal(commandHistory.getEntries().length, 0);
+
+        assert.equal(layerManager.transformLayer('background', [2, 0, 0, 2, 0, 0]), true);
+        assert.equal(commandHistory.getEntries().length, 1);
+        assert.ok(commandHistory.undo());
+      } finally {
+        commandHistory.clear();
+      }
+    },
+  },
+];
@@ -0,0 +1,103 @@
+// scripts/checks/progression.ts
+//
+// Finishing a drawing lesson counts as practice: the skills it trains have
+// their mastery decay reset. Lessons train only the skills they name or are
+// tagged with.
+
+import assert from 'node:assert/strict';
+import { LessonContent } from '../../src/types';
+import { lessonEngine } from '../../src/engines/learning/LessonEngine';
+import { lessonSimulator, SimulationScript } from '../../src/engines/learning/LessonSimulator';
+import { lessonSkills } from '../../src/engines/learning/LessonSkills';
+import { syntheticStrokes } from '../../src/engines/learning/SyntheticStrokes';
+import { progressionSystem } from '../../src/engines/user/ProgressionSystem';
+import { Check } from './types';
+
+const EVENT_WAIT_MS = 2000;
+
+// The ideal strokes as ProfessionalCanvas hands them over, points in `path`
+function canvasStrokes(content: LessonContent): any[] | null {
+  const strokes = syntheticStrokes.forContent(content);
+  return strokes && strokes.map(stroke => ({
+    path: stroke.points,
+    color: stroke.color,
+    size: stroke.size,
+    tool: 'brush',
+    opacity: stroke.opacity,
+  }));
+}
+
+async function waitFor(condition: () => boolean): Promise<boolean> {
+  const deadline = Date.now() + EVENT_WAIT_MS;
+  while (!condition() && Date.now() < deadline) {
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+  return condition();
+}
+
+export const progressionChecks: Check[] = [
+  {
+    name: 'completing a drawing lesson sets lastPracticedAt',
+    run: async () => {
+      await lessonEngine.initialize();
+      await progressionSystem.loadProgressForUser('current-user');
+
+      const lesson = lessonEngine.getAllLessons().find(l =>
+        l.content.some(content => content.type === 'drawing_exercise') && lessonSkills.forLesson(l).length > 0
+      );
+      assert.ok(lesson, 'no drawing lesson with skills');
+
+      const script: SimulationScript = {};
+      lesson.content.forEach(content => {
+        const strokes = content.type === 'drawing_exercise' ? canvasStrokes(content) : null;
+        if (strokes) script[content.id] = [{ strokes }];
+      });
+
+      const startedAt = Date.now();
+      const report = await lessonSimulator.simulateLesson(lesson, { script });
+      assert.ok(report.completed, `${lesson.id} did not complete`);
+
+      const skills = lessonSkills.forLesson(lesson);
+      const practiced = () => skills.every(skill =>
+        (progressionSystem.getProgressData()?.skills[skill].lastPracticedAt || 0) >= startedAt
+      );
+      assert.ok(await waitFor(practiced), `${skills.join(', ')} not marked as practiced`);
+    },
+  },
+  {
+    name: 'untagged lessons train no skill',
+    run: () => {
+      assert.deepEqual(lessonSkills.forLesson({ tags: ['theory', 'basics'] }), []);
+      assert.deepEqual(lessonSkills.forLesson({ tags: ['shading', 'light'] }), ['drawing', 'color']);
+      assert.deepEqual(lessonSkills.forLesson({ skills: ['anatomy'], tags: ['lines'] }), ['anatomy']);
+    },
+  },
+  {
+    name: 'repeating a drill without a new best score earns little XP',
+    run: async () => {
+      await lessonEngine.initialize();
+      const [drill] = lessonEngine.getDrillLessons();
+      assert.ok(drill, 'no drill lesson');
+
+      // The simulator exits the lesson once it's done; catch the payout as it completes
+      const runXP = async () => {
+        let xpEarned: number | undefined;
+        const unsubscribe = lessonEngine.subscribeToLessonState(state => {
+          if (state.isComplete) xpEarned = lessonEngine.getLessonProgress()?.xpEarned;
+        });
+        try {
+          const report = await lessonSimulator.simulateLesson(drill);
+          assert.ok(report.completed, `${drill.id} did not complete`);
+        } finally {
+          unsubscribe();
+        }
+        return xpEarned;
+      };
+
+      const first = await runXP();
+      const again = await runXP();
+      assert.equal(first, drill.rewards.xp);
+      assert.ok(typeof again === 'number' && again > 0 && again < drill.rewards.xp, `a repeat run earned ${again} XP`);
+    },
+  },
+];
@@ -0,0 +1,11 @@
+// scripts/checks/quiet.ts
+//
+// Keeps engine logging out of the results, including what engines log as
+// they load; import it before any engine module. Results go through `log`.
+
+export const log = console.log.bind(console);
+export const logError = console.error.bind(console);
+
+console.log = () => {};
+console.warn = () => {};
+console.error = () => {};
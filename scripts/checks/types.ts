@@ -0,0 +1,8 @@
+// scripts/checks/types.ts
+//
+// A regression check is a named function that throws (node:assert) on failure.
+
+export interface Check {
+  name: string;
+  run: () => void | Promise<void>;
+}
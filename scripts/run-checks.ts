@@ -0,0 +1,47 @@
+#!/usr/bin/env node
+// scripts/run-checks.ts
+//
+// Runs the regression checks in scripts/checks headlessly.
+//
+//   npm test
+//
+// Exits with status 1 when any check fails.
+
+import { loadSkia } from './simulator/node-shims';
+import { log, logError } from './checks/quiet';
+
+import { Check } from './checks/types';
+import { documentChecks } from './checks/documents';
+import { exportChecks } from './checks/exports';
+import { historyChecks } from './checks/history';
+import { progressionChecks } from './checks/progression';
+
+const checks: Check[] = [...documentChecks, ...exportChecks, ...historyChecks, ...progressionChecks];
+
+async function main(): Promise<void> {
+  await loadSkia();
+
+  const failures: Array<{ name: string; error: unknown }> = [];
+  for (const check of checks) {
+    try {
+      await check.run();
+      log(`   ✓ ${check.name}`);
+    } catch (error) {
+      failures.push({ name: check.name, error });
+      log(`   ✗ ${check.name}`);
+    }
+  }
+
+  failures.forEach(({ name, error }) => {
+    logError(`\n❌ ${name}\n${error instanceof Error ? error.stack || error.message : String(error)}`);
+  });
+  log(`\n📊 ${checks.length - failures.length} of ${checks.length} checks passed`);
+
+  // Engines keep maintenance timers running; exit explicitly
+  process.exit(failures.length > 0 ? 1 : 0);
+}
+
+main().catch(error => {
+  logError('❌ Checks failed to run:', error);
+  process.exit(1);
+});
@@ -0,0 +1,155 @@
+#!/usr/bin/env node
+// scripts/simulate-lessons.ts
+//
+// Runs lessons headlessly through LessonEngine and reports results.
+//
+//   npm run simulate                          # every loaded lesson
+//   npm run simulate -- lesson-first-line     # specific lessons
+//   npm run simulate -- --pack my-pack.json   # a lesson pack under development
+//   npm run simulate -- --script answers.json --attempts 2 --json
+//
+// A script maps content ids to answers, one per attempt:
+//   { "line-theory": [0, 1], "line-practice": [{ "strokes": "blank" }, "ideal"] }
+//
+// Exits with status 1 when any lesson has error-level issues.
+
+import './simulator/node-shims';
+
+import fs from 'fs';
+import path from 'path';
+import { Lesson } from '../src/types';
+import { lessonEngine } from '../src/engines/learning/LessonEngine';
+import { lessonPackLoader } from '../src/engines/learning/LessonPackLoader';
+import {
+  lessonSimulator,
+  LessonSimulationReport,
+  SimulationScript,
+} from '../src/engines/learning/LessonSimulator';
+
+interface CliOptions {
+  lessonIds: string[];
+  packFiles: string[];
+  script?: SimulationScript;
+  maxAttempts?: number;
+  json: boolean;
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = { lessonIds: [], packFiles: [], json: false };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    switch (arg) {
+      case '--pack':
+        options.packFiles.push(argv[++i]);
+        break;
+      case '--script':
+        options.script = JSON.parse(fs.readFileSync(argv[++i], 'utf8'));
+        break;
+      case '--attempts':
+        options.maxAttempts = Number(argv[++i]);
+        break;
+      case '--json':
+        options.json = true;
+        break;
+      default:
+        options.lessonIds.push(arg);
+    }
+  }
+
+  return options;
+}
+
+function loadPackLessons(files: string[]): Lesson[] {
+  return files.flatMap(file => {
+    const source = path.resolve(file);
+    const { pack, errors } = lessonPackLoader.parse(JSON.parse(fs.readFileSync(source, 'utf8')), source);
+    if (!pack) {
+      errors.forEach(e => console.error(`❌ ${file}: ${e.path || '(root)'}: ${e.message}`));
+      process.exit(1);
+    }
+    return pack.lessons.map(lesson => lessonPackLoader.toLesson(lesson, pack));
+  });
+}
+
+function printReport(report: LessonSimulationReport): void {
+  const status = report.completed ? '✅' : '❌';
+  console.log(`\n${status} ${report.lessonId} - ${report.title}`);
+
+  report.contents.forEach(content => {
+    const last = content.attempts[content.attempts.length - 1];
+    const mark = content.passed ? '✓' : '✗';
+    const score = typeof last?.score === 'number' ? ` ${Math.round(last.score * 100)}%` : '';
+    const rule = content.rule ? ` [${content.rule}]` : '';
+    console.log(
+      `   ${mark} ${content.contentId} (${content.type})${rule} - ${content.attempts.length} attempt(s),${score} +${content.xpAwarded} XP`
+    );
+    if (last && !content.passed) console.log(`       "${last.feedback}"`);
+  });
+
+  console.log(`   XP: ${report.xpEarned}/${report.maxXP}   Final score: ${report.finalScore ?? 'n/a'}`);
+
+  const icons = { error: '🔴', warning: '🟡', info: '⚪' };
+  report.issues.forEach(issue => {
+    const where = issue.contentId ? `${issue.contentId}: ` : '';
+    console.log(`   ${icons[issue.severity]} ${issue.type} - ${where}${issue.message}`);
+  });
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+
+  // Keep engine logging out of the report
+  const log = console.log;
+  console.log = () => {};
+  console.warn = () => {};
+
+  await lessonEngine.initialize();
+  const packLessons = loadPackLessons(options.packFiles);
+  const knownLessonIds = [...lessonEngine.getAllLessons(), ...packLessons].map(l => l.id);
+
+  let lessons: Lesson[] = [...lessonEngine.getAllLessons().filter(l => !packLessons.some(p => p.id === l.id)), ...packLessons];
+  if (options.packFiles.length > 0 && options.lessonIds.length === 0) {
+    lessons = packLessons;
+  }
+  if (options.lessonIds.length > 0) {
+    const missing = options.lessonIds.filter(id => !lessons.some(l => l.id === id));
+    if (missing.length > 0) {
+      console.error(`❌ Unknown lesson(s): ${missing.join(', ')}`);
+      process.exit(1);
+    }
+    lessons = lessons.filter(l => options.lessonIds.includes(l.id));
+  }
+
+  const reports: LessonSimulationReport[] = [];
+  for (const lesson of lessons) {
+    reports.push(
+      await lessonSimulator.simulateLesson(lesson, {
+        script: options.script,
+        maxAttempts: options.maxAttempts,
+        knownLessonIds,
+      })
+    );
+  }
+
+  console.log = log;
+  if (options.json) {
+    console.log(JSON.stringify(reports, null, 2));
+  } else {
+    reports.forEach(printReport);
+  }
+
+  const errors = reports.reduce((sum, r) => sum + r.issues.filter(i => i.severity === 'error').length, 0);
+  const warnings = reports.reduce((sum, r) => sum + r.issues.filter(i => i.severity === 'warning').length, 0);
+  if (!options.json) {
+    console.log(`\n📊 ${reports.length} lessons simulated - ${errors} errors, ${warnings} warnings`);
+  }
+
+  // The engine keeps maintenance timers running; exit explicitly
+  process.exit(errors > 0 ? 1 : 0);
+}
+
+main().catch(error => {
+  console.error('❌ Simulation failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,62 @@
+// scripts/simulator/node-shims.ts
+// In-memory stand-ins for the native modules the learning engine imports,
+// so it can run under plain Node. Must be imported before any engine module.
+
+import Module from 'module';
+
+// Metro defines this in app builds
+(globalThis as any).__DEV__ = process.env.NODE_ENV !== 'production';
+
+const storage = new Map<string, string>();
+
+const asyncStorage = {
+  getItem: async (key: string) => storage.get(key) ?? null,
+  setItem: async (key: string, value: string) => {
+    storage.set(key, value);
+  },
+  removeItem: async (key: string) => {
+    storage.delete(key);
+  },
+  multiRemove: async (keys: string[]) => {
+    keys.forEach(key => storage.delete(key));
+  },
+  getAllKeys: async () => Array.from(storage.keys()),
+  clear: async () => storage.clear(),
+};
+
+// Skia's web build (CanvasKit) draws as the native one does; loadSkia() must
+// resolve before anything is drawn
+let skia: any = null;
+
+export async function loadSkia(): Promise<void> {
+  if (skia) return;
+  const CanvasKitInit = require('canvaskit-wasm/bin/canvaskit.js');
+  const { JsiSkApi } = require('@shopify/react-native-skia/lib/commonjs/skia/web/JsiSkia');
+  skia = JsiSkApi(await CanvasKitInit());
+}
+
+const shims: Record<string, any> = {
+  'react-native': {
+    Platform: { OS: 'node', Version: process.versions.node, select: (options: any) => options.default },
+  },
+  '@react-native-async-storage/async-storage': { __esModule: true, default: asyncStorage },
+  // No document directory: only bundled packs and packs passed with --pack are loaded
+  'expo-file-system': { documentDirectory: null },
+  '@shopify/react-native-skia': {
+    ...require('@shopify/react-native-skia/lib/commonjs/skia/types'),
+    get Skia() {
+      if (!skia) throw new Error('Skia is not loaded - await loadSkia() first');
+      return skia;
+    },
+  },
+};
+
+const moduleLoader = Module as any;
+const originalLoad = moduleLoader._load;
+
+moduleLoader._load = function (request: string, ...rest: any[]) {
+  if (request in shims) {
+    return shims[request];
+  }
+  return originalLoad.call(this, request, ...rest);
+};
@@ -0,0 +1,208 @@
+// src/components/Learn/SkillTreeMap.tsx - SKILL TREE MAP
+
+import React, { useMemo } from 'react';
+import { View, Text, Pressable, ScrollView, StyleSheet } from 'react-native';
+import Svg, { Path } from 'react-native-svg';
+import { CheckCircle, Lock, RotateCcw, Star } from 'lucide-react-native';
+import { useTheme } from '../../contexts/ThemeContext';
+import { SkillGraphLayout, SkillGraphNode } from '../../types';
+
+/**
+ * Draws the prerequisite graph as a map: one lane per skill tree, lessons
+ * placed by prerequisite depth, and curved edges from each prerequisite to
+ * the lessons it unlocks. Scrolls sideways when the trees don't fit.
+ */
+
+const CELL_WIDTH = 150;
+const CELL_HEIGHT = 104;
+const NODE_WIDTH = 132;
+const NODE_HEIGHT = 64;
+const LANE_HEADER_HEIGHT = 36;
+
+interface SkillTreeMapProps {
+  layout: SkillGraphLayout;
+  onLessonPress: (lessonId: string) => void;
+  disabled?: boolean;
+}
+
+export const SkillTreeMap: React.FC<SkillTreeMapProps> = ({ layout, onLessonPress, disabled }) => {
+  const { theme } = useTheme();
+
+  const width = Math.max(1, layout.columns) * CELL_WIDTH;
+  const height = LANE_HEADER_HEIGHT + Math.max(1, layout.rows) * CELL_HEIGHT;
+
+  const positions = useMemo(() => {
+    const map = new Map<string, { x: number; y: number }>();
+    layout.nodes.forEach(node => {
+      map.set(node.lessonId, {
+        x: node.column * CELL_WIDTH + (CELL_WIDTH - NODE_WIDTH) / 2,
+        y: LANE_HEADER_HEIGHT + node.row * CELL_HEIGHT + (CELL_HEIGHT - NODE_HEIGHT) / 2,
+      });
+    });
+    return map;
+  }, [layout]);
+
+  const edgePaths = useMemo(() => {
+    return layout.edges.flatMap(edge => {
+      const from = positions.get(edge.from);
+      const to = positions.get(edge.to);
+      if (!from || !to) return [];
+
+      const x1 = from.x + NODE_WIDTH / 2;
+      const y1 = from.y + NODE_HEIGHT;
+      const x2 = to.x + NODE_WIDTH / 2;
+      const y2 = to.y;
+      const bend = (y2 - y1) / 2;
+
+      return [{
+        key: `${edge.from}->${edge.to}`,
+        d: `M ${x1} ${y1} C ${x1} ${y1 + bend}, ${x2} ${y2 - bend}, ${x2} ${y2}`,
+        satisfied: edge.satisfied,
+      }];
+    });
+  }, [layout, positions]);
+
+  const nodeColors = (node: SkillGraphNode) => {
+    switch (node.status) {
+      case 'completed':
+        return { background: theme.colors.success + '20', border: theme.colors.success };
+      case 'needs_practice':
+        return { background: theme.colors.warning + '20', border: theme.colors.warning };
+      case 'available':
+        return node.recommended
+          ? { background: theme.colors.primary + '20', border: theme.colors.primary }
+          : { background: theme.colors.surface, border: theme.colors.primary };
+      default:
+        return { background: theme.colors.surface, border: theme.colors.border };
+    }
+  };
+
+  return (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+      <View style={{ width, height }}>
+        {layout.lanes.map((lane, index) => (
+          <View
+            key={lane.treeId}
+            style={[
+              styles.lane,
+              {
+                left: lane.column * CELL_WIDTH,
+                width: lane.width * CELL_WIDTH,
+                height,
+                borderLeftColor: index > 0 ? theme.colors.border : 'transparent',
+              },
+            ]}
+          >
+            <Text
+              style={[styles.laneTitle, { color: lane.unlocked ? theme.colors.text : theme.colors.textSecondary }]}
+              numberOfLines={1}
+            >
+              {lane.unlocked ? '' : '🔒 '}{lane.title}
+            </Text>
+          </View>
+        ))}
+
+        <Svg width={width} height={height} style={StyleSheet.absoluteFill}>
+          {edgePaths.map(edge => (
+            <Path
+              key={edge.key}
+              d={edge.d}
+              stroke={edge.satisfied ? theme.colors.primary : theme.colors.border}
+              strokeWidth={2}
+              strokeDasharray={edge.satisfied ? undefined : '6,4'}
+              fill="none"
+            />
+          ))}
+        </Svg>
+
+        {layout.nodes.map(node => {
+          const position = positions.get(node.lessonId)!;
+          const colors = nodeColors(node);
+          const isLocked = node.status === 'locked';
+
+          return (
+            <Pressable
+              key={node.lessonId}
+              style={[
+                styles.node,
+                {
+                  left: position.x,
+                  top: position.y,
+                  backgroundColor: colors.background,
+                  borderColor: colors.border,
+                  opacity: isLocked ? 0.6 : 1,
+                },
+              ]}
+              onPress={() => onLessonPress(node.lessonId)}
+              disabled={isLocked || disabled}
+            >
+              <View style={styles.nodeIcon}>
+                {node.status === 'completed' ? (
+                  <CheckCircle size={14} color={theme.colors.success} />
+                ) : node.status === 'needs_practice' ? (
+                  <RotateCcw size={14} color={theme.colors.warning} />
+                ) : isLocked ? (
+                  <Lock size={14} color={theme.colors.textSecondary} />
+                ) : node.recommended ? (
+                  <Star size={14} color={theme.colors.primary} />
+                ) : null}
+              </View>
+              <Text style={[styles.nodeTitle, { color: theme.colors.text }]} numberOfLines={2}>
+                {node.title}
+              </Text>
+              {node.status === 'needs_practice' && (
+                <Text style={[styles.nodeMeta, { color: theme.colors.warning }]}>
+                  Needs practice
+                </Text>
+              )}
+              {node.skippable && (
+                <Text style={[styles.nodeMeta, { color: theme.colors.success }]}>
+                  Optional
+                </Text>
+              )}
+            </Pressable>
+          );
+        })}
+      </View>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  lane: {
+    position: 'absolute',
+    top: 0,
+    borderLeftWidth: 1,
+    borderStyle: 'dashed',
+    paddingHorizontal: 8,
+  },
+  laneTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginTop: 8,
+  },
+  node: {
+    position: 'absolute',
+    width: NODE_WIDTH,
+    height: NODE_HEIGHT,
+    borderRadius: 12,
+    borderWidth: 2,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    justifyContent: 'center',
+  },
+  nodeIcon: {
+    position: 'absolute',
+    top: 4,
+    right: 4,
+  },
+  nodeTitle: {
+    fontSize: 12,
+    fontWeight: '600',
+    paddingRight: 12,
+  },
+  nodeMeta: {
+    fontSize: 10,
+    marginTop: 2,
+  },
+});
@@ -0,0 +1,200 @@
+// src/components/Lesson/DemonstrationPlayer.tsx - DEMONSTRATION PLAYER
+
+import React, { useState, useEffect, useRef, useMemo, useCallback } from 'react';
+import { View, Text, Pressable, StyleSheet } from 'react-native';
+import Slider from '@react-native-community/slider';
+import { Play, Pause, RotateCcw } from 'lucide-react-native';
+import { useTheme } from '../../contexts/ThemeContext';
+import { ProfessionalCanvas, CanvasGuidePath } from '../../engines/drawing/ProfessionalCanvas';
+import { demonstrations } from '../../engines/learning/Demonstrations';
+import { Demonstration } from '../../types';
+
+/**
+ * Replays a demonstration as a ghost layer on a read-only canvas, with
+ * play/pause, scrubbing and playback speed.
+ */
+
+const SPEEDS = [0.5, 1, 2];
+const GHOST_OPACITY = 0.6;
+
+interface DemonstrationPlayerProps {
+  demonstration: Demonstration;
+  width: number;
+  height: number;
+  caption?: string;
+  autoPlay?: boolean;
+  onFinish?: () => void;
+  style?: any;
+}
+
+export const DemonstrationPlayer: React.FC<DemonstrationPlayerProps> = ({
+  demonstration,
+  width,
+  height,
+  caption,
+  autoPlay = true,
+  onFinish,
+  style,
+}) => {
+  const { theme } = useTheme();
+  const [time, setTime] = useState(0);
+  const [playing, setPlaying] = useState(autoPlay);
+  const [speed, setSpeed] = useState(1);
+
+  const frameRef = useRef<number | null>(null);
+  const lastTickRef = useRef<number | null>(null);
+  const duration = demonstration.duration;
+
+  // A new demonstration starts over
+  useEffect(() => {
+    setTime(0);
+    setPlaying(autoPlay);
+  }, [demonstration]);
+
+  useEffect(() => {
+    if (!playing) return;
+
+    lastTickRef.current = null;
+    const tick = (now: number) => {
+      const elapsed = lastTickRef.current === null ? 0 : now - lastTickRef.current;
+      lastTickRef.current = now;
+      setTime(prev => Math.min(duration, prev + elapsed * speed));
+      frameRef.current = requestAnimationFrame(tick);
+    };
+    frameRef.current = requestAnimationFrame(tick);
+
+    return () => {
+      if (frameRef.current !== null) {
+        cancelAnimationFrame(frameRef.current);
+        frameRef.current = null;
+      }
+    };
+  }, [playing, speed, duration]);
+
+  useEffect(() => {
+    if (playing && time >= duration) {
+      setPlaying(false);
+      onFinish?.();
+    }
+  }, [playing, time, duration]);
+
+  const ghostPaths = useMemo<CanvasGuidePath[]>(() => {
+    return demonstrations.frameAt(demonstration, time, { width, height }).map(path => ({
+      points: path.points,
+      color: theme.colors.primary,
+      opacity: GHOST_OPACITY,
+      width: path.width,
+    }));
+  }, [demonstration, time, width, height, theme]);
+
+  const togglePlaying = useCallback(() => {
+    if (!playing && time >= duration) {
+      setTime(0);
+    }
+    setPlaying(!playing);
+  }, [playing, time, duration]);
+
+  const cycleSpeed = useCallback(() => {
+    setSpeed(prev => SPEEDS[(SPEEDS.indexOf(prev) + 1) % SPEEDS.length]);
+  }, []);
+
+  const finished = time >= duration;
+
+  return (
+    <View style={style}>
+      <View style={[styles.canvasFrame, { borderColor: theme.colors.border }]}>
+        <ProfessionalCanvas
+          width={width}
+          height={height}
+          disabled={true}
+          ghostPaths={ghostPaths}
+        />
+      </View>
+
+      {caption && (
+        <Text style={[styles.caption, { color: theme.colors.textSecondary }]}>
+          {caption}
+        </Text>
+      )}
+
+      <View style={styles.controls}>
+        <Pressable
+          style={[styles.playButton, { backgroundColor: theme.colors.primary }]}
+          onPress={togglePlaying}
+        >
+          {playing ? (
+            <Pause size={18} color="#FFFFFF" />
+          ) : finished ? (
+            <RotateCcw size={18} color="#FFFFFF" />
+          ) : (
+            <Play size={18} color="#FFFFFF" />
+          )}
+        </Pressable>
+
+        <Slider
+          style={styles.scrubber}
+          value={time}
+          minimumValue={0}
+          maximumValue={Math.max(duration, 1)}
+          onSlidingStart={() => setPlaying(false)}
+          onValueChange={setTime}
+          minimumTrackTintColor={theme.colors.primary}
+          maximumTrackTintColor={theme.colors.border}
+          thumbTintColor={theme.colors.primary}
+        />
+
+        <Pressable
+          style={[styles.speedButton, { borderColor: theme.colors.border }]}
+          onPress={cycleSpeed}
+        >
+          <Text style={[styles.speedText, { color: theme.colors.text }]}>
+            {speed}x
+          </Text>
+        </Pressable>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  canvasFrame: {
+    borderWidth: 1,
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+  caption: {
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 8,
+    fontStyle: 'italic',
+  },
+  controls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+    gap: 8,
+  },
+  playButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scrubber: {
+    flex: 1,
+    height: 36,
+  },
+  speedButton: {
+    minWidth: 44,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    borderRadius: 8,
+    borderWidth: 1,
+    alignItems: 'center',
+  },
+  speedText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,196 @@
+// src/content/lessons/drills.ts - WARM-UP DRILLS
+import { Lesson } from '../../types';
+
+/**
+ * Repeatable timed drills. They sit outside the skill trees: always open,
+ * never completed, and each run is scored on accuracy and speed.
+ */
+export const drillLessons: Lesson[] = [
+  {
+    id: 'drill-line-warmup',
+    title: 'Line Warm-up',
+    description: 'Loosen up your shoulder with fast, confident lines',
+    type: 'drill',
+    skillTree: 'drills',
+    order: 1,
+    estimatedTime: 2,
+    difficulty: 1,
+    prerequisites: [],
+
+    content: [
+      {
+        id: 'warmup-single-line',
+        type: 'drawing_exercise',
+        instruction: 'One straight line, edge to edge',
+        hint: 'Ghost the motion once, then commit',
+        timeLimit: 15,
+        xp: 5,
+        validation: {
+          type: 'line_straightness',
+          threshold: 0.6,
+        },
+      },
+      {
+        id: 'warmup-horizontal-lines',
+        type: 'drawing_exercise',
+        instruction: 'Five horizontal lines, as evenly spaced as you can',
+        timeLimit: 30,
+        xp: 10,
+        validation: {
+          type: 'parallel_lines',
+          threshold: 0.6,
+          params: { count: 5, orientation: 'horizontal' },
+        },
+      },
+      {
+        id: 'warmup-vertical-lines',
+        type: 'drawing_exercise',
+        instruction: 'Five vertical lines, top to bottom',
+        timeLimit: 30,
+        xp: 10,
+        validation: {
+          type: 'parallel_lines',
+          threshold: 0.6,
+          params: { count: 5, orientation: 'vertical' },
+        },
+      },
+    ],
+
+    objectives: [
+      {
+        id: 'warm-up-lines',
+        description: 'Draw straight lines quickly without losing control',
+        completed: false,
+        required: false,
+      },
+    ],
+
+    rewards: {
+      xp: 25,
+    },
+
+    status: 'available',
+    progress: 0,
+    attempts: 0,
+    timeSpent: 0,
+    tags: ['drill', 'warm-up', 'lines'],
+  },
+
+  {
+    id: 'drill-circle-sprint',
+    title: '60-Second Circles',
+    description: 'As many clean circles as you can in a minute',
+    type: 'drill',
+    skillTree: 'drills',
+    order: 2,
+    estimatedTime: 2,
+    difficulty: 1,
+    prerequisites: [],
+
+    content: [
+      {
+        id: 'sprint-one-circle',
+        type: 'shape_practice',
+        instruction: 'One big circle in a single stroke',
+        hint: 'Pivot from the elbow and keep moving',
+        timeLimit: 15,
+        xp: 5,
+        validation: {
+          type: 'shape_accuracy',
+          target: 'circle',
+          threshold: 0.6,
+        },
+      },
+      {
+        id: 'sprint-six-circles',
+        type: 'shape_practice',
+        instruction: 'Six circles, each a different size',
+        timeLimit: 60,
+        xp: 20,
+        validation: {
+          type: 'multiple_shapes',
+          threshold: 0.5,
+          params: { shape: 'circle', count: 6, sizeVariation: true },
+        },
+      },
+    ],
+
+    objectives: [
+      {
+        id: 'fast-circles',
+        description: 'Draw round, closed circles at speed',
+        completed: false,
+        required: false,
+      },
+    ],
+
+    rewards: {
+      xp: 25,
+    },
+
+    status: 'available',
+    progress: 0,
+    attempts: 0,
+    timeSpent: 0,
+    tags: ['drill', 'warm-up', 'circles'],
+  },
+
+  {
+    id: 'drill-gesture',
+    title: '30-Second Gestures',
+    description: 'Catch the movement of a pose before the clock runs out',
+    type: 'drill',
+    skillTree: 'drills',
+    order: 3,
+    estimatedTime: 2,
+    difficulty: 2,
+    prerequisites: [],
+
+    // Gestures aren't graded for accuracy - any drawing counts, and the clock does the work
+    content: [
+      {
+        id: 'gesture-reach',
+        type: 'guided_step',
+        instruction: 'A figure reaching up for a high shelf',
+        hint: 'Start with one curved line for the spine',
+        timeLimit: 30,
+        xp: 10,
+      },
+      {
+        id: 'gesture-stride',
+        type: 'guided_step',
+        instruction: 'A figure mid-stride, walking fast',
+        hint: 'Exaggerate the lean',
+        timeLimit: 30,
+        xp: 10,
+      },
+      {
+        id: 'gesture-crouch',
+        type: 'guided_step',
+        instruction: 'A figure crouching to tie a shoe',
+        hint: 'Find the curve of the back first',
+        timeLimit: 30,
+        xp: 10,
+      },
+    ],
+
+    objectives: [
+      {
+        id: 'capture-gesture',
+        description: 'Capture a pose with a few quick lines',
+        completed: false,
+        required: false,
+      },
+    ],
+
+    rewards: {
+      xp: 30,
+    },
+
+    status: 'available',
+    progress: 0,
+    attempts: 0,
+    timeSpent: 0,
+    tags: ['drill', 'warm-up', 'gesture'],
+  },
+];
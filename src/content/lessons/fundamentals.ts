@@ -41,7 +41,23 @@ export const fundamentalLessons: Lesson[] = [
         correctAnswer: 1,
         explanation: 'Professional artists draw from their shoulder for long, controlled lines. The shoulder provides stability and smooth movement, while wrist movement creates shaky, uncontrolled strokes.',
         hint: 'Think about which joint gives you the most range and stability.',
+        hints: [
+          'Think about which joint gives you the most range and stability.',
+          'The joint closest to your body moves the whole arm as one unit.',
+        ],
         xp: 15,
+        branches: [
+          { when: 'failed', afterAttempts: 2, goTo: 'shoulder-recap' },
+        ],
+      },
+      {
+        id: 'shoulder-recap',
+        type: 'true_false',
+        question: 'Long, straight lines come from moving your whole arm at the shoulder, not from flicking your wrist.',
+        correctAnswer: true,
+        explanation: 'Your wrist and fingers only travel a few centimetres before the line starts to curve. Moving the whole arm from the shoulder keeps long lines straight and even.',
+        remedial: true,
+        xp: 5,
       },
       {
         id: 'wrist-control',
@@ -66,6 +82,21 @@ export const fundamentalLessons: Lesson[] = [
         explanation: 'Using your elbow as a pivot creates natural circular motion. This technique produces smoother, more consistent circles than other methods.',
         hint: 'Think about creating a natural pivoting motion.',
         xp: 15,
+      },
+      {
+        id: 'ghosting-order',
+        type: 'ordering',
+        question: 'Put the steps of the ghosting technique in order:',
+        options: [
+          'Commit to the stroke in one confident motion',
+          'Mark the start and end points of the line',
+          'Lift the pen and check the result',
+          'Rehearse the motion above the paper without touching it'
+        ],
+        correctAnswer: [1, 3, 0, 2],
+        explanation: 'Ghosting means planning the line before drawing it: mark your endpoints, rehearse the motion from the shoulder, then commit in one stroke and review.',
+        hint: 'You can\'t rehearse a line until you know where it starts and ends.',
+        xp: 15,
       }
     ],
     
@@ -159,6 +190,11 @@ export const fundamentalLessons: Lesson[] = [
         type: 'drawing_exercise',
         instruction: 'Draw 5 straight horizontal lines using shoulder movement',
         hint: 'Use your shoulder, keep your wrist locked. Focus on smooth, fluid motion.',
+        hints: [
+          'Use your shoulder, keep your wrist locked. Focus on smooth, fluid motion.',
+          'Mark where each line starts and ends, ghost the motion twice, then commit in one stroke.',
+          'Watch the demonstration - five evenly spaced lines, each drawn in a single pass.',
+        ],
         validation: {
           type: 'line_count',
           target: 5,
@@ -185,6 +221,11 @@ export const fundamentalLessons: Lesson[] = [
         type: 'drawing_exercise',
         instruction: 'Draw 3 circles using elbow pivot technique',
         hint: 'Use your elbow as a pivot point. Don\'t worry about perfection - focus on smooth motion.',
+        hints: [
+          'Use your elbow as a pivot point. Don\'t worry about perfection - focus on smooth motion.',
+          'Go around a few times in the air first, then let the pencil down without stopping.',
+          'Watch the demonstration - one continuous loop that ends where it began.',
+        ],
         validation: {
           type: 'shape_accuracy',
           target: 'circle',
@@ -333,6 +374,20 @@ export const fundamentalLessons: Lesson[] = [
         explanation: 'Warm colors (reds, oranges, yellows) remind us of fire and sunlight. They tend to advance in compositions and feel energetic.',
         hint: 'Think about the colors of fire and sunshine.',
         xp: 15,
+      },
+      {
+        id: 'color-terms',
+        type: 'matching',
+        question: 'Match each color term to its meaning:',
+        pairs: [
+          { term: 'Hue', definition: 'The color family, like red or blue' },
+          { term: 'Value', definition: 'How light or dark a color is' },
+          { term: 'Saturation', definition: 'How intense or muted a color is' },
+          { term: 'Complementary', definition: 'Colors opposite each other on the wheel' },
+        ],
+        explanation: 'Hue, value and saturation describe any color; complementary pairs sit opposite each other and create the strongest contrast.',
+        hint: 'Value is the one that survives in a black and white photo.',
+        xp: 20,
       }
     ],
     
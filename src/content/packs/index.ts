@@ -0,0 +1,9 @@
+// src/content/packs/index.ts
+// JSON lesson packs bundled with the app. Each must pass LessonPackValidator;
+// see LessonPack in src/types for the format.
+
+import lineConfidence from './line-confidence.json';
+
+export const bundledLessonPacks: unknown[] = [
+  lineConfidence,
+];
@@ -25,6 +25,22 @@ import {
   Stroke,
 } from '../types';
 import { drawingEngine } from '../engines/drawing';
+import { LayerGroup, ClippingMask } from '../engines/drawing/LayerManager';
+import { documentStore } from '../engines/drawing/DocumentStore';
+import { pikasoFormat } from '../engines/drawing/PikasoFormat';
+import { svgExporter } from '../engines/drawing/SvgExporter';
+import { layeredExporter, ORA_FILE_EXTENSION, PSD_FILE_EXTENSION } from '../engines/drawing/LayeredExporter';
+import { timelapseRecorder, TimelapseRecording } from '../engines/drawing/TimelapseRecorder';
+import {
+  commandHistory,
+  applyCommand,
+  strokesForMerge,
+  isInvertibleMatrix,
+  CommandDirection,
+  CommandHistoryEntry,
+  DrawingCommand,
+  LayerMatrix,
+} from '../engines/drawing/CommandHistory';
 import { EventBus } from '../engines/core/EventBus';
 import { errorHandler } from '../engines/core/ErrorHandler';
 
@@ -54,6 +70,8 @@ export interface DrawingContextType {
   clearCanvas: () => void;
   undo: () => boolean;
   redo: () => boolean;
+  canUndo: boolean;
+  canRedo: boolean;
 
   // Tool Management - FIXED: Use DrawingTool
   setTool: (tool: DrawingTool) => void;
@@ -68,8 +86,16 @@ export interface DrawingContextType {
   setActiveLayer: (layerId: string) => void;
   duplicateLayer: (layerId: string) => Layer;
   mergeDown: (layerId: string) => void;
+  moveLayer: (layerId: string, toIndex: number) => void;
+  transformLayer: (layerId: string, matrix: LayerMatrix) => void;
   setLayerOpacity: (layerId: string, opacity: number) => void;
   setLayerVisibility: (layerId: string, visible: boolean) => void;
+  layerGroups: LayerGroup[];
+  clippingMasks: ClippingMask[];
+  createLayerGroup: (name: string, layerIds: string[]) => string;
+  removeLayerGroup: (groupId: string) => void;
+  createClippingMask: (maskLayerId: string, clippedLayerIds: string[]) => string;
+  removeClippingMask: (maskId: string) => void;
 
   // Canvas Settings
   updateCanvasSettings: (settings: Partial<CanvasSettings>) => void;
@@ -80,7 +106,13 @@ export interface DrawingContextType {
   // File Operations
   saveDrawing: (title?: string) => Promise<string>;
   loadDrawing: (drawingId: string) => Promise<void>;
-  exportImage: (format: 'png' | 'jpeg', quality?: number) => Promise<string>;
+  exportImage: (format: 'png' | 'jpeg' | 'svg' | 'ora' | 'psd', quality?: number) => Promise<string>;
+  importOpenRaster: (uri: string) => Promise<void>;
+
+  // Time-lapse
+  isRecordingTimelapse: boolean;
+  startTimelapse: () => void;
+  stopTimelapse: () => Promise<TimelapseRecording | null>;
 
   // Utilities
   getCanvasStats: () => DrawingStats;
@@ -188,6 +220,48 @@ const createDefaultDrawingState = (): DrawingState => ({
   savedPalettes: [],
 });
 
+interface LayerStructure {
+  groups: LayerGroup[];
+  clippingMasks: ClippingMask[];
+}
+
+const EMPTY_LAYER_STRUCTURE: LayerStructure = { groups: [], clippingMasks: [] };
+
+// Runs an undo command over the screen's layers, which are kept bottom to top
+const applyToDrawingState = (
+  state: DrawingState,
+  command: DrawingCommand,
+  direction: CommandDirection
+): DrawingState => {
+  const layers = applyCommand(state.layers, command, direction);
+
+  let activeLayerId = state.activeLayerId;
+  if (direction === 'do' && command.type === 'create_layer') {
+    activeLayerId = command.layer.id;
+  } else if (direction === 'do' && command.type === 'merge_layers' && activeLayerId === command.upper.id) {
+    activeLayerId = command.lowerLayerId;
+  }
+  if (!layers.some(layer => layer.id === activeLayerId)) {
+    activeLayerId = layers[0]?.id || '';
+  }
+
+  return {
+    ...state,
+    layers,
+    activeLayerId,
+    strokes: layers.flatMap(layer => layer.strokes),
+  };
+};
+
+// The shared history as the screen's history entries
+const toHistoryEntries = (entries: CommandHistoryEntry[]): HistoryEntry[] =>
+  entries.map(entry => ({
+    id: entry.id,
+    action: entry.label,
+    timestamp: entry.timestamp,
+    data: { steps: entry.steps },
+  }));
+
 // Context creation
 const DrawingContext = createContext<DrawingContextType | null>(null);
 
@@ -203,6 +277,14 @@ export function DrawingProvider({ children }: { children: ReactNode }) {
   const [error, setError] = useState<string | null>(null);
   const [currentStroke, setCurrentStroke] = useState<Stroke | null>(null);
   const [unsavedChanges, setUnsavedChanges] = useState(false);
+  // The open drawing's file, so saving again overwrites it
+  const [openDocument, setOpenDocument] = useState<{ id: string; title: string; createdAt: number } | null>(null);
+  const [isRecordingTimelapse, setIsRecordingTimelapse] = useState(false);
+  // A stopped time-lapse of a drawing not yet saved, kept until it is
+  const [pendingTimelapse, setPendingTimelapse] = useState<TimelapseRecording | null>(null);
+  const [historyStatus, setHistoryStatus] = useState({ canUndo: false, canRedo: false });
+  // Groups and clipping masks over the screen's layers, saved and exported with them
+  const [layerStructure, setLayerStructure] = useState<LayerStructure>(EMPTY_LAYER_STRUCTURE);
 
   // Initialize drawing system
   const initializeDrawing = useCallback(async () => {
@@ -216,6 +298,8 @@ export function DrawingProvider({ children }: { children: ReactNode }) {
         throw new Error('Failed to initialize drawing engine');
       }
 
+      await commandHistory.initialize();
+
       setIsInitialized(true);
       console.log('🎨 Drawing context initialized successfully');
     } catch (err) {
@@ -271,36 +355,17 @@ export function DrawingProvider({ children }: { children: ReactNode }) {
     // Add stroke to active layer
     const activeLayer = drawingState.layers.find(layer => layer.id === drawingState.activeLayerId);
     if (activeLayer) {
-      const updatedLayers = drawingState.layers.map(layer => 
-        layer.id === drawingState.activeLayerId
-          ? { ...layer, strokes: [...layer.strokes, currentStroke] }
-          : layer
-      );
+      commandHistory.execute('drawing', { type: 'add_stroke', layerId: activeLayer.id, stroke: currentStroke });
 
-      // Update drawing state
       setDrawingState(prev => ({
         ...prev,
-        layers: updatedLayers,
-        strokes: [...prev.strokes, currentStroke],
         stats: {
           ...prev.stats,
           totalStrokes: prev.stats.totalStrokes + 1,
         },
       }));
 
-      // Add to history
-      const historyEntry: HistoryEntry = {
-        id: `history_${Date.now()}`,
-        action: 'stroke_added',
-        timestamp: Date.now(),
-        data: { strokeId: currentStroke.id, layerId: drawingState.activeLayerId },
-      };
-
-      setDrawingState(prev => ({
-        ...prev,
-        history: [...prev.history.slice(0, prev.historyIndex + 1), historyEntry],
-        historyIndex: prev.historyIndex + 1,
-      }));
+      timelapseRecorder.record({ type: 'stroke', layerId: drawingState.activeLayerId, stroke: currentStroke });
     }
 
     setCurrentStroke(null);
@@ -312,20 +377,26 @@ export function DrawingProvider({ children }: { children: ReactNode }) {
   // Tool management - FIXED: Use DrawingTool
   const setTool = useCallback((tool: DrawingTool) => {
     setDrawingState(prev => ({ ...prev, currentTool: tool }));
+    timelapseRecorder.record({ type: 'tool', changes: { tool } });
     eventBus.emit('drawing:tool_changed', { tool });
   }, []);
 
   const setBrush = useCallback((brush: Brush) => {
     setDrawingState(prev => ({ ...prev, currentBrush: brush }));
+    timelapseRecorder.record({ type: 'tool', changes: { brushId: brush.id } });
     eventBus.emit('drawing:brush_changed', { brush });
   }, []);
 
   const setBrushSize = useCallback((size: number) => {
-    setDrawingState(prev => ({ ...prev, brushSize: Math.max(1, Math.min(100, size)) }));
+    const brushSize = Math.max(1, Math.min(100, size));
+    setDrawingState(prev => ({ ...prev, brushSize }));
+    timelapseRecorder.record({ type: 'tool', changes: { size: brushSize } });
   }, []);
 
   const setOpacity = useCallback((opacity: number) => {
-    setDrawingState(prev => ({ ...prev, opacity: Math.max(0, Math.min(1, opacity)) }));
+    const clamped = Math.max(0, Math.min(1, opacity));
+    setDrawingState(prev => ({ ...prev, opacity: clamped }));
+    timelapseRecorder.record({ type: 'tool', changes: { opacity: clamped } });
   }, []);
 
   const setColor = useCallback((color: Color) => {
@@ -337,55 +408,58 @@ export function DrawingProvider({ children }: { children: ReactNode }) {
         ...prev.recentColors.filter(c => c !== color.hex).slice(0, 9)
       ],
     }));
+    timelapseRecorder.record({ type: 'tool', changes: { color: color.hex } });
     eventBus.emit('drawing:color_changed', { color });
   }, []);
 
   // Canvas operations
   const clearCanvas = useCallback(() => {
-    const clearedLayers = drawingState.layers.map(layer => ({
-      ...layer,
-      strokes: [],
-    }));
+    const cleared = drawingState.layers
+      .filter(layer => layer.strokes.length > 0)
+      .map(layer => ({ layerId: layer.id, strokes: layer.strokes }));
+    if (cleared.length === 0) return;
 
-    setDrawingState(prev => ({
-      ...prev,
-      layers: clearedLayers,
-      strokes: [],
-    }));
+    commandHistory.execute('drawing', { type: 'clear', cleared });
 
     setUnsavedChanges(true);
+    timelapseRecorder.record({ type: 'clear' });
     eventBus.emit('drawing:canvas_cleared');
   }, [drawingState.layers]);
 
+  // Undo and redo step through the history shared with the layer manager
   const undo = useCallback((): boolean => {
-    if (drawingState.historyIndex <= 0) return false;
+    const entry = commandHistory.undo();
+    if (!entry) return false;
 
-    const newIndex = drawingState.historyIndex - 1;
     setDrawingState(prev => ({
       ...prev,
-      historyIndex: newIndex,
       stats: { ...prev.stats, undoCount: prev.stats.undoCount + 1 },
     }));
 
     setUnsavedChanges(true);
-    eventBus.emit('drawing:undo_performed');
+    if (entry.steps.some(step => step.target === 'drawing')) {
+      timelapseRecorder.record({ type: 'undo' });
+    }
+    eventBus.emit('drawing:undo_performed', { label: entry.label });
     return true;
-  }, [drawingState.historyIndex]);
+  }, []);
 
   const redo = useCallback((): boolean => {
-    if (drawingState.historyIndex >= drawingState.history.length - 1) return false;
+    const entry = commandHistory.redo();
+    if (!entry) return false;
 
-    const newIndex = drawingState.historyIndex + 1;
     setDrawingState(prev => ({
       ...prev,
-      historyIndex: newIndex,
       stats: { ...prev.stats, redoCount: prev.stats.redoCount + 1 },
     }));
 
     setUnsavedChanges(true);
-    eventBus.emit('drawing:redo_performed');
+    if (entry.steps.some(step => step.target === 'drawing')) {
+      timelapseRecorder.record({ type: 'redo' });
+    }
+    eventBus.emit('drawing:redo_performed', { label: entry.label });
     return true;
-  }, [drawingState.historyIndex, drawingState.history.length]);
+  }, []);
 
   // Layer management
   const addLayer = useCallback((name?: string): Layer => {
@@ -394,14 +468,14 @@ export function DrawingProvider({ children }: { children: ReactNode }) {
     const newLayer = createDefaultLayer(layerId, layerName);
     newLayer.order = drawingState.layers.length;
 
+    commandHistory.execute('drawing', { type: 'create_layer', layer: newLayer, index: newLayer.order });
     setDrawingState(prev => ({
       ...prev,
-      layers: [...prev.layers, newLayer],
-      activeLayerId: layerId,
       stats: { ...prev.stats, layersUsed: prev.stats.layersUsed + 1 },
     }));
 
     setUnsavedChanges(true);
+    timelapseRecorder.record({ type: 'layer_added', layer: newLayer });
     eventBus.emit('drawing:layer_added', { layer: newLayer });
     return newLayer;
   }, [drawingState.layers]);
@@ -409,23 +483,19 @@ export function DrawingProvider({ children }: { children: ReactNode }) {
   const deleteLayer = useCallback((layerId: string) => {
     if (drawingState.layers.length <= 1) return; // Don't delete last layer
 
-    const updatedLayers = drawingState.layers.filter(layer => layer.id !== layerId);
-    const newActiveLayerId = drawingState.activeLayerId === layerId
-      ? updatedLayers[0]?.id || ''
-      : drawingState.activeLayerId;
+    const index = drawingState.layers.findIndex(layer => layer.id === layerId);
+    if (index === -1) return;
 
-    setDrawingState(prev => ({
-      ...prev,
-      layers: updatedLayers,
-      activeLayerId: newActiveLayerId,
-    }));
+    commandHistory.execute('drawing', { type: 'delete_layer', layer: drawingState.layers[index], index });
 
     setUnsavedChanges(true);
+    timelapseRecorder.record({ type: 'layer_deleted', layerId });
     eventBus.emit('drawing:layer_deleted', { layerId });
-  }, [drawingState.layers, drawingState.activeLayerId]);
+  }, [drawingState.layers]);
 
   const setActiveLayer = useCallback((layerId: string) => {
     setDrawingState(prev => ({ ...prev, activeLayerId: layerId }));
+    timelapseRecorder.record({ type: 'active_layer', layerId });
     eventBus.emit('drawing:active_layer_changed', { layerId });
   }, []);
 
@@ -440,40 +510,130 @@ export function DrawingProvider({ children }: { children: ReactNode }) {
       order: drawingState.layers.length,
     };
 
-    setDrawingState(prev => ({
-      ...prev,
-      layers: [...prev.layers, duplicatedLayer],
-      activeLayerId: duplicatedLayer.id,
-    }));
+    commandHistory.execute('drawing', { type: 'create_layer', layer: duplicatedLayer, index: duplicatedLayer.order });
 
     setUnsavedChanges(true);
+    timelapseRecorder.record({ type: 'layer_duplicated', sourceLayerId: layerId, layer: duplicatedLayer });
     eventBus.emit('drawing:layer_duplicated', { originalLayer, duplicatedLayer });
     return duplicatedLayer;
   }, [drawingState.layers]);
 
   const mergeDown = useCallback((layerId: string) => {
-    // Implementation would merge layer with the one below it
-    console.log('Merge down not yet implemented for layer:', layerId);
-  }, []);
+    const index = drawingState.layers.findIndex(layer => layer.id === layerId);
+    if (index <= 0) return; // Nothing below to merge into
+
+    const upper = drawingState.layers[index];
+    const command: DrawingCommand = {
+      type: 'merge_layers',
+      upper,
+      upperIndex: index,
+      lowerLayerId: drawingState.layers[index - 1].id,
+      mergedStrokes: strokesForMerge(upper),
+    };
+    commandHistory.execute('drawing', command);
+
+    setUnsavedChanges(true);
+    timelapseRecorder.record({ type: 'command', command });
+    eventBus.emit('drawing:layers_merged', { layerId, intoLayerId: command.lowerLayerId });
+  }, [drawingState.layers]);
+
+  const moveLayer = useCallback((layerId: string, toIndex: number) => {
+    const from = drawingState.layers.findIndex(layer => layer.id === layerId);
+    const to = Math.max(0, Math.min(drawingState.layers.length - 1, toIndex));
+    if (from === -1 || from === to) return;
+
+    const command: DrawingCommand = { type: 'move_layer', layerId, from, to };
+    commandHistory.execute('drawing', command);
+
+    setUnsavedChanges(true);
+    timelapseRecorder.record({ type: 'command', command });
+    eventBus.emit('drawing:layer_moved', { layerId, from, to });
+  }, [drawingState.layers]);
+
+  const transformLayer = useCallback((layerId: string, matrix: LayerMatrix) => {
+    if (!drawingState.layers.some(layer => layer.id === layerId)) return;
+    if (!isInvertibleMatrix(matrix)) return; // It couldn't be undone
+
+    const command: DrawingCommand = { type: 'transform_layer', layerId, matrix };
+    commandHistory.execute('drawing', command, { coalesceKey: `transform:${layerId}` });
+
+    setUnsavedChanges(true);
+    timelapseRecorder.record({ type: 'command', command });
+    eventBus.emit('drawing:layer_transformed', { layerId, matrix });
+  }, [drawingState.layers]);
 
   const setLayerOpacity = useCallback((layerId: string, opacity: number) => {
-    const updatedLayers = drawingState.layers.map(layer =>
-      layer.id === layerId ? { ...layer, opacity: Math.max(0, Math.min(1, opacity)) } : layer
+    const layer = drawingState.layers.find(l => l.id === layerId);
+    if (!layer) return;
+
+    // A slider drag undoes as one change
+    const clamped = Math.max(0, Math.min(1, opacity));
+    commandHistory.execute(
+      'drawing',
+      { type: 'update_layer', layerId, before: { opacity: layer.opacity }, after: { opacity: clamped } },
+      { coalesceKey: `layer:${layerId}:opacity` }
     );
 
-    setDrawingState(prev => ({ ...prev, layers: updatedLayers }));
     setUnsavedChanges(true);
+    timelapseRecorder.record({ type: 'layer_changed', layerId, changes: { opacity: clamped } });
   }, [drawingState.layers]);
 
   const setLayerVisibility = useCallback((layerId: string, visible: boolean) => {
-    const updatedLayers = drawingState.layers.map(layer =>
-      layer.id === layerId ? { ...layer, visible } : layer
-    );
+    const layer = drawingState.layers.find(l => l.id === layerId);
+    if (!layer) return;
+
+    commandHistory.execute('drawing', { type: 'update_layer', layerId, before: { visible: layer.visible }, after: { visible } });
+
+    setUnsavedChanges(true);
+    timelapseRecorder.record({ type: 'layer_changed', layerId, changes: { visible } });
+  }, [drawingState.layers]);
+
+  const createLayerGroup = useCallback((name: string, layerIds: string[]): string => {
+    const groupId = `group_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const group: LayerGroup = {
+      id: groupId,
+      name,
+      layerIds: layerIds.filter(id => drawingState.layers.some(layer => layer.id === id)),
+      expanded: true,
+      visible: true,
+      opacity: 1,
+      blendMode: 'normal',
+      locked: false,
+    };
+
+    setLayerStructure(prev => ({ ...prev, groups: [...prev.groups, group] }));
+    setUnsavedChanges(true);
+    eventBus.emit('drawing:group_created', { group });
+    return groupId;
+  }, [drawingState.layers]);
+
+  const removeLayerGroup = useCallback((groupId: string) => {
+    setLayerStructure(prev => ({ ...prev, groups: prev.groups.filter(group => group.id !== groupId) }));
+    setUnsavedChanges(true);
+    eventBus.emit('drawing:group_removed', { groupId });
+  }, []);
+
+  const createClippingMask = useCallback((maskLayerId: string, clippedLayerIds: string[]): string => {
+    const maskId = `mask_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const mask: ClippingMask = {
+      id: maskId,
+      maskLayerId,
+      clippedLayerIds: clippedLayerIds.filter(id => id !== maskLayerId && drawingState.layers.some(layer => layer.id === id)),
+      inverted: false,
+    };
 
-    setDrawingState(prev => ({ ...prev, layers: updatedLayers }));
+    setLayerStructure(prev => ({ ...prev, clippingMasks: [...prev.clippingMasks, mask] }));
     setUnsavedChanges(true);
+    eventBus.emit('drawing:clipping_mask_created', { mask });
+    return maskId;
   }, [drawingState.layers]);
 
+  const removeClippingMask = useCallback((maskId: string) => {
+    setLayerStructure(prev => ({ ...prev, clippingMasks: prev.clippingMasks.filter(mask => mask.id !== maskId) }));
+    setUnsavedChanges(true);
+    eventBus.emit('drawing:clipping_mask_removed', { maskId });
+  }, []);
+
   // Canvas settings
   const updateCanvasSettings = useCallback((settings: Partial<CanvasSettings>) => {
     setDrawingState(prev => ({
@@ -485,6 +645,7 @@ export function DrawingProvider({ children }: { children: ReactNode }) {
   const setCanvasSize = useCallback((width: number, height: number) => {
     setDrawingState(prev => ({ ...prev, canvasWidth: width, canvasHeight: height }));
     setUnsavedChanges(true);
+    timelapseRecorder.record({ type: 'canvas_resized', width, height });
   }, []);
 
   const setPressureSensitivity = useCallback((enabled: boolean) => {
@@ -498,28 +659,51 @@ export function DrawingProvider({ children }: { children: ReactNode }) {
   // File operations
   const saveDrawing = useCallback(async (title?: string): Promise<string> => {
     try {
-      // In production, this would save to the user's portfolio
-      const drawingId = `drawing_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+      const drawingId = openDocument?.id || documentStore.createId();
+      const drawingTitle = title || openDocument?.title || 'Untitled';
       
-      // Mock save operation
-      console.log('Saving drawing:', { title, drawingId, state: drawingState });
+      const document = pikasoFormat.fromDrawingState(drawingState, {
+        id: drawingId,
+        title: drawingTitle,
+        createdAt: openDocument?.createdAt,
+        groups: layerStructure.groups,
+        clippingMasks: layerStructure.clippingMasks,
+      });
+      await documentStore.save(document);
       
+      // A time-lapse in progress is saved as far as it has got
+      const timelapse = timelapseRecorder.getRecording() || pendingTimelapse;
+      if (timelapse) {
+        await documentStore.saveTimelapse(drawingId, timelapse);
+        setPendingTimelapse(null);
+      }
+      
+      setOpenDocument({ id: drawingId, title: drawingTitle, createdAt: document.createdAt });
       setUnsavedChanges(false);
-      eventBus.emit('drawing:saved', { drawingId, title });
+      eventBus.emit('drawing:saved', { drawingId, title: drawingTitle });
       
       return drawingId;
     } catch (error) {
       console.error('Failed to save drawing:', error);
       throw error;
     }
-  }, [drawingState]);
+  }, [drawingState, layerStructure, openDocument, pendingTimelapse]);
 
   const loadDrawing = useCallback(async (drawingId: string): Promise<void> => {
     try {
-      // In production, this would load from storage
-      console.log('Loading drawing:', drawingId);
+      const document = await documentStore.load(drawingId);
+      if (!document) {
+        throw new Error(`Drawing not found: ${drawingId}`);
+      }
+      
+      setDrawingState(prev => pikasoFormat.toDrawingState(document, prev));
+      setLayerStructure({ groups: document.groups, clippingMasks: document.clippingMasks });
+      commandHistory.clear('drawing');
+      setCurrentStroke(null);
+      setIsDrawing(false);
+      setOpenDocument({ id: document.id, title: document.title, createdAt: document.createdAt });
+      setUnsavedChanges(false);
       
-      // Mock load operation - would restore drawing state
       eventBus.emit('drawing:loaded', { drawingId });
     } catch (error) {
       console.error('Failed to load drawing:', error);
@@ -527,8 +711,55 @@ export function DrawingProvider({ children }: { children: ReactNode }) {
     }
   }, []);
 
-  const exportImage = useCallback(async (format: 'png' | 'jpeg', quality: number = 1): Promise<string> => {
+  // A layered file opens as a new, unsaved drawing of raster layers
+  const importOpenRaster = useCallback(async (uri: string): Promise<void> => {
+    try {
+      const stack = layeredExporter.readOpenRaster(await documentStore.readFile(uri));
+      
+      setDrawingState(prev => layeredExporter.toDrawingState(stack, prev));
+      setLayerStructure(EMPTY_LAYER_STRUCTURE);
+      commandHistory.clear('drawing');
+      setCurrentStroke(null);
+      setIsDrawing(false);
+      setOpenDocument(null);
+      setUnsavedChanges(true);
+      
+      eventBus.emit('drawing:imported', { uri, layerCount: stack.layers.length });
+    } catch (error) {
+      console.error('Failed to import OpenRaster file:', error);
+      throw error;
+    }
+  }, []);
+
+  const exportImage = useCallback(async (format: 'png' | 'jpeg' | 'svg' | 'ora' | 'psd', quality: number = 1): Promise<string> => {
     try {
+      // Strokes keep their points, so SVG is built from them rather than rasterised
+      if (format === 'svg') {
+        const document = pikasoFormat.fromDrawingState(drawingState, {
+          id: openDocument?.id || documentStore.createId(),
+          title: openDocument?.title || 'Untitled',
+          createdAt: openDocument?.createdAt,
+          groups: layerStructure.groups,
+          clippingMasks: layerStructure.clippingMasks,
+        });
+        const svgUri = await documentStore.writeExport(document, '.svg', svgExporter.export(document));
+        
+        eventBus.emit('drawing:exported', { format, quality, uri: svgUri });
+        return svgUri;
+      }
+      
+      // Layered formats keep each layer's pixels for desktop painting apps
+      if (format === 'ora' || format === 'psd') {
+        const target = { id: openDocument?.id || documentStore.createId(), title: openDocument?.title || 'Untitled' };
+        const stack = layeredExporter.fromDrawingState(drawingState);
+        const layeredUri = format === 'ora'
+          ? await documentStore.writeExport(target, ORA_FILE_EXTENSION, layeredExporter.exportOpenRaster(stack))
+          : await documentStore.writeExport(target, PSD_FILE_EXTENSION, layeredExporter.exportPsd(stack));
+        
+        eventBus.emit('drawing:exported', { format, quality, uri: layeredUri });
+        return layeredUri;
+      }
+      
       // In production, this would export the canvas to image
       const imageUri = `mock_export_${Date.now()}.${format}`;
       console.log('Exporting image:', { format, quality, uri: imageUri });
@@ -539,7 +770,40 @@ export function DrawingProvider({ children }: { children: ReactNode }) {
       console.error('Failed to export image:', error);
       throw error;
     }
-  }, []);
+  }, [drawingState, layerStructure, openDocument]);
+
+  // Time-lapse
+  const startTimelapse = useCallback(() => {
+    timelapseRecorder.start({
+      canvasWidth: drawingState.canvasWidth,
+      canvasHeight: drawingState.canvasHeight,
+      layers: drawingState.layers,
+      activeLayerId: drawingState.activeLayerId,
+      tool: {
+        tool: drawingState.currentTool,
+        brushId: drawingState.currentBrush?.id,
+        size: drawingState.brushSize,
+        opacity: drawingState.opacity,
+        color: drawingState.currentColor.hex,
+      },
+    });
+
+    setDrawingState(prev => ({ ...prev, drawingMode: 'timelapse' }));
+    setIsRecordingTimelapse(true);
+  }, [drawingState]);
+
+  const stopTimelapse = useCallback(async (): Promise<TimelapseRecording | null> => {
+    const recording = timelapseRecorder.stop();
+    setDrawingState(prev => ({ ...prev, drawingMode: 'normal' }));
+    setIsRecordingTimelapse(false);
+
+    if (recording && openDocument) {
+      await documentStore.saveTimelapse(openDocument.id, recording);
+    } else if (recording) {
+      setPendingTimelapse(recording);
+    }
+    return recording;
+  }, [openDocument]);
 
   // Utilities
   const getCanvasStats = useCallback((): DrawingStats => {
@@ -556,9 +820,15 @@ export function DrawingProvider({ children }: { children: ReactNode }) {
 
   const resetToDefaults = useCallback(() => {
     setDrawingState(createDefaultDrawingState());
+    setLayerStructure(EMPTY_LAYER_STRUCTURE);
+    commandHistory.clear('drawing');
     setCurrentStroke(null);
     setIsDrawing(false);
     setUnsavedChanges(false);
+    setOpenDocument(null);
+    timelapseRecorder.stop();
+    setIsRecordingTimelapse(false);
+    setPendingTimelapse(null);
     eventBus.emit('drawing:reset');
   }, []);
 
@@ -567,6 +837,28 @@ export function DrawingProvider({ children }: { children: ReactNode }) {
     initializeDrawing();
   }, [initializeDrawing]);
 
+  // The screen's layers are an undo target; the history's state is mirrored into drawingState
+  useEffect(() => {
+    commandHistory.registerTarget('drawing', (command, direction) => {
+      setDrawingState(prev => applyToDrawingState(prev, command, direction));
+    });
+
+    const listenerId = eventBus.on('history:changed', (status: { canUndo: boolean; canRedo: boolean }) => {
+      setHistoryStatus({ canUndo: status.canUndo, canRedo: status.canRedo });
+      setDrawingState(prev => ({
+        ...prev,
+        history: toHistoryEntries(commandHistory.getEntries()),
+        historyIndex: commandHistory.getIndex(),
+      }));
+    });
+
+    return () => {
+      eventBus.off('history:changed', listenerId);
+      // Undo steps outlive a remount; opening or starting another drawing clears them
+      commandHistory.unregisterTarget('drawing');
+    };
+  }, []);
+
   // Create context value
   const contextValue = useMemo<DrawingContextType>(() => ({
     // Drawing State
@@ -593,6 +885,8 @@ export function DrawingProvider({ children }: { children: ReactNode }) {
     clearCanvas,
     undo,
     redo,
+    canUndo: historyStatus.canUndo,
+    canRedo: historyStatus.canRedo,
 
     // Tool Management
     setTool,
@@ -607,8 +901,16 @@ export function DrawingProvider({ children }: { children: ReactNode }) {
     setActiveLayer,
     duplicateLayer,
     mergeDown,
+    moveLayer,
+    transformLayer,
     setLayerOpacity,
     setLayerVisibility,
+    layerGroups: layerStructure.groups,
+    clippingMasks: layerStructure.clippingMasks,
+    createLayerGroup,
+    removeLayerGroup,
+    createClippingMask,
+    removeClippingMask,
 
     // Canvas Settings
     updateCanvasSettings,
@@ -620,6 +922,12 @@ export function DrawingProvider({ children }: { children: ReactNode }) {
     saveDrawing,
     loadDrawing,
     exportImage,
+    importOpenRaster,
+
+    // Time-lapse
+    isRecordingTimelapse,
+    startTimelapse,
+    stopTimelapse,
 
     // Utilities
     getCanvasStats,
@@ -630,9 +938,12 @@ export function DrawingProvider({ children }: { children: ReactNode }) {
     drawingState, isDrawing, isInitialized, isLoading, error,
     startStroke, addStrokePoint, endStroke, clearCanvas, undo, redo,
     setTool, setBrush, setBrushSize, setOpacity, setColor,
-    addLayer, deleteLayer, setActiveLayer, duplicateLayer, mergeDown,
-    setLayerOpacity, setLayerVisibility, updateCanvasSettings, setCanvasSize,
-    setPressureSensitivity, setSmoothing, saveDrawing, loadDrawing, exportImage,
+    historyStatus, addLayer, deleteLayer, setActiveLayer, duplicateLayer, mergeDown,
+    moveLayer, transformLayer,
+    setLayerOpacity, setLayerVisibility, layerStructure,
+    createLayerGroup, removeLayerGroup, createClippingMask, removeClippingMask, updateCanvasSettings, setCanvasSize,
+    setPressureSensitivity, setSmoothing, saveDrawing, loadDrawing, exportImage, importOpenRaster,
+    isRecordingTimelapse, startTimelapse, stopTimelapse,
     getCanvasStats, getCurrentStroke, hasUnsavedChanges, resetToDefaults,
   ]);
 
@@ -37,6 +37,7 @@ interface LearningContextState {
   unlockedLessons: string[];
   learningProgress: LearningProgress | null;
   completedLessons: string[];
+  skippableLessons: string[];
   currentStreak: number;
   recommendedLesson: Lesson | null;
   recommendedLessons: Lesson[];
@@ -61,6 +62,7 @@ type LearningAction =
   | { type: 'SET_AVAILABLE_LESSONS'; payload: Lesson[] }
   | { type: 'SET_LEARNING_PROGRESS'; payload: LearningProgress | null }
   | { type: 'SET_COMPLETED_LESSONS'; payload: string[] }
+  | { type: 'SET_SKIPPABLE_LESSONS'; payload: string[] }
   | { type: 'SET_CURRENT_STREAK'; payload: number }
   | { type: 'SET_RECOMMENDED_LESSONS'; payload: Lesson[] }
   | { type: 'SET_INSIGHTS'; payload: any[] }
@@ -78,6 +80,7 @@ const initialState: LearningContextState = {
   unlockedLessons: [],
   learningProgress: null,
   completedLessons: [],
+  skippableLessons: [],
   currentStreak: 0,
   recommendedLesson: null,
   recommendedLessons: [],
@@ -105,6 +108,8 @@ function learningReducer(state: LearningContextState, action: LearningAction): L
       return { ...state, learningProgress: action.payload };
     case 'SET_COMPLETED_LESSONS':
       return { ...state, completedLessons: action.payload };
+    case 'SET_SKIPPABLE_LESSONS':
+      return { ...state, skippableLessons: action.payload };
     case 'SET_CURRENT_STREAK':
       return { ...state, currentStreak: action.payload };
     case 'SET_RECOMMENDED_LESSONS':
@@ -167,23 +172,27 @@ export function LearningProvider({ children }: LearningProviderProps) {
       const completed = await dataManager.getCompletedLessons();
       dispatch({ type: 'SET_COMPLETED_LESSONS', payload: completed });
 
+      // Lessons the placement test made optional still count as prerequisites met
+      const skippable = skillTreeManager.getSkippableLessons();
+      dispatch({ type: 'SET_SKIPPABLE_LESSONS', payload: skippable });
+
       // Load skill trees and lessons
       const skillTrees = skillTreeManager.getAllSkillTrees();
       dispatch({ type: 'SET_SKILL_TREES', payload: skillTrees });
 
       // Get available lessons
       const allLessons = lessonEngine.getAllLessons();
-      const availableLessons = lessonEngine.getAvailableLessons(completed);
+      const availableLessons = lessonEngine.getAvailableLessons([...completed, ...skippable]);
       dispatch({ type: 'SET_AVAILABLE_LESSONS', payload: availableLessons });
 
       // Update unlocked lessons
       const unlockedLessonIds = availableLessons.map(lesson => lesson.id);
       dispatch({ type: 'UPDATE_UNLOCKED_LESSONS', payload: unlockedLessonIds });
 
-      // Set recommended lessons
-      const recommended = allLessons
-        .filter(lesson => !completed.includes(lesson.id))
-        .slice(0, 3);
+      // Set recommended lessons - refreshers for decayed skills first, then what's next
+      const recommended = skillTreeManager.getRecommendedLessons(3)
+        .map(lessonId => lessonEngine.getLessonById(lessonId))
+        .filter((lesson): lesson is Lesson => !!lesson);
       dispatch({ type: 'SET_RECOMMENDED_LESSONS', payload: recommended });
 
       // Load current streak
@@ -368,7 +377,7 @@ export function LearningProvider({ children }: LearningProviderProps) {
 
         // Update available lessons
         const completed = [...state.completedLessons, state.currentLesson.id];
-        const availableLessons = lessonEngine.getAvailableLessons(completed);
+        const availableLessons = lessonEngine.getAvailableLessons([...completed, ...state.skippableLessons]);
         dispatch({ type: 'SET_AVAILABLE_LESSONS', payload: availableLessons });
 
         // Update unlocked lessons
@@ -473,9 +482,9 @@ export function LearningProvider({ children }: LearningProviderProps) {
   }, [state.completedLessons]);
 
   const getNextLesson = useCallback((): Lesson | null => {
-    const available = lessonEngine.getAvailableLessons(state.completedLessons);
+    const available = lessonEngine.getAvailableLessons([...state.completedLessons, ...state.skippableLessons]);
     return available.length > 0 ? available[0] : null;
-  }, [state.completedLessons]);
+  }, [state.completedLessons, state.skippableLessons]);
 
   const getRecommendedLessons = useCallback((): Lesson[] => {
     return state.recommendedLessons;
@@ -486,9 +495,9 @@ export function LearningProvider({ children }: LearningProviderProps) {
     if (!lesson) return false;
     
     return lesson.prerequisites.every(prereq => 
-      state.completedLessons.includes(prereq)
+      state.completedLessons.includes(prereq) || state.skippableLessons.includes(prereq)
     );
-  }, [state.completedLessons]);
+  }, [state.completedLessons, state.skippableLessons]);
 
   const getDailyProgress = useCallback((): number => {
     // Calculate lessons completed today
@@ -544,6 +553,17 @@ export function LearningProvider({ children }: LearningProviderProps) {
     };
   }, [eventBus]);
 
+  // Placement completes and unlocks lessons outside the normal flow
+  useEffect(() => {
+    const listenerId = eventBus.on('placement:applied', () => {
+      initializeLearning();
+    });
+
+    return () => {
+      eventBus.off('placement:applied', listenerId);
+    };
+  }, [eventBus, initializeLearning]);
+
   // =================== CONTEXT VALUE ===================
 
   const contextValue: LearningContextType = {
@@ -559,6 +579,7 @@ export function LearningProvider({ children }: LearningProviderProps) {
     unlockedLessons: state.unlockedLessons,
     learningProgress: state.learningProgress,
     completedLessons: state.completedLessons,
+    skippableLessons: state.skippableLessons,
     currentStreak: state.currentStreak,
     
     // UI-specific properties
@@ -1,7 +1,7 @@
 // src/engines/core/DataManager.ts - ENTERPRISE DATA MANAGER V3.0
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { UserProfile, LearningProgress, Portfolio, LessonCompletionData } from '../../types';
+import { UserProfile, LearningProgress, Portfolio, LessonCompletionData, LessonSessionSnapshot } from '../../types';
 import { errorHandler } from './ErrorHandler';
 import { EventBus } from './EventBus';
 
@@ -1262,6 +1262,26 @@ class DataManager {
     }
   }
 
+  public async getLessonSession(lessonId: string): Promise<LessonSessionSnapshot | null> {
+    return this.get<LessonSessionSnapshot>(`lesson_session_${lessonId}`);
+  }
+
+  public async saveLessonSession(snapshot: LessonSessionSnapshot): Promise<void> {
+    try {
+      await this.set(`lesson_session_${snapshot.lessonId}`, snapshot);
+    } catch (error) {
+      console.error('Failed to save lesson session:', error);
+      errorHandler.handleError(
+        errorHandler.createError('PROGRESS_SAVE_ERROR', 'Failed to save lesson session', 'medium', { lessonId: snapshot.lessonId, error })
+      );
+      throw error;
+    }
+  }
+
+  public async clearLessonSession(lessonId: string): Promise<void> {
+    return this.remove(`lesson_session_${lessonId}`);
+  }
+
   // =================== PORTFOLIO METHODS ===================
 
   public async getPortfolio(userId: string): Promise<Portfolio | null> {
@@ -1308,6 +1328,10 @@ class DataManager {
   // Continue with all other existing methods...
   // [All remaining methods from the original with enhanced error handling]
 
+  /**
+   * @deprecated Drawings are saved as .pikaso files through DocumentStore.
+   * Entries written here are converted to files the first time they're opened.
+   */
   public async saveDrawing(drawingData: any): Promise<string> {
     try {
       const drawingId = `drawing_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
@@ -1327,6 +1351,19 @@ class DataManager {
     return this.get(`drawing_${drawingId}`);
   }
 
+  public async removeDrawing(drawingId: string): Promise<void> {
+    try {
+      await this.remove(`drawing_${drawingId}`);
+      const drawings = await this.getSavedDrawings();
+      if (drawings.includes(drawingId)) {
+        await this.set('saved_drawings', drawings.filter(id => id !== drawingId));
+      }
+    } catch (error) {
+      console.error('Failed to remove drawing:', error);
+      throw error;
+    }
+  }
+
   public async getSavedDrawings(): Promise<string[]> {
     const drawings = await this.get<string[]>('saved_drawings');
     return drawings || [];
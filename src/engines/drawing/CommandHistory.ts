@@ -0,0 +1,567 @@
+// src/engines/drawing/CommandHistory.ts - UNDO/REDO
+
+import { AppSettings, BlendMode, Layer, Stroke } from '../../types';
+import { dataManager } from '../core/DataManager';
+import { EventBus } from '../core/EventBus';
+
+/**
+ * COMMAND HISTORY
+ *
+ * One undo stack for everything that changes a drawing, wherever it lives:
+ * - Commands are plain data describing a change and everything needed to
+ *   take it back; `applyCommand` runs one forwards or backwards over a
+ *   bottom-to-top layer list
+ * - Each holder of layers (the drawing screen, the layer manager) registers
+ *   as a target, and entries remember which target they belong to
+ * - Grouping makes several commands one undo step; coalescing folds a quick
+ *   run of like changes, such as an opacity slider drag, into the last step
+ * - Depth follows the `drawing.maxUndoHistory` setting, and the oldest steps
+ *   also go once the strokes they hold pass a memory budget
+ */
+
+export type LayerMatrix = [number, number, number, number, number, number]; // a b c d e f: x' = ax + cy + e, y' = bx + dy + f
+
+export type DrawingCommand =
+  | { type: 'add_stroke'; layerId: string; stroke: Stroke }
+  | { type: 'remove_stroke'; layerId: string; stroke: Stroke; index: number }
+  | { type: 'create_layer'; layer: Layer; index: number }
+  | { type: 'delete_layer'; layer: Layer; index: number }
+  | { type: 'move_layer'; layerId: string; from: number; to: number }
+  | { type: 'merge_layers'; upper: Layer; upperIndex: number; lowerLayerId: string; mergedStrokes: Stroke[] }
+  | { type: 'update_layer'; layerId: string; before: Partial<Layer>; after: Partial<Layer> }
+  | { type: 'transform_layer'; layerId: string; matrix: LayerMatrix }
+  | { type: 'clear'; cleared: Array<{ layerId: string; strokes: Stroke[] }> };
+
+export type CommandDirection = 'do' | 'undo';
+
+export interface HistoryStep {
+  target: string;
+  command: DrawingCommand;
+}
+
+export interface CommandHistoryEntry {
+  id: string;
+  label: string;
+  timestamp: number; // Last change folded in
+  steps: HistoryStep[];
+  coalesceKey?: string;
+  memoryUsage: number; // Estimated bytes
+}
+
+export interface CommandOptions {
+  label?: string;
+  coalesceKey?: string; // Steps with the same key in quick succession undo together
+}
+
+type CommandTarget = (command: DrawingCommand, direction: CommandDirection) => void;
+
+export const COALESCE_WINDOW_MS = 750;
+const DEFAULT_MAX_DEPTH = 50; // Matches the settings default
+const MAX_HISTORY_BYTES = 32 * 1024 * 1024;
+const MIN_DETERMINANT = 1e-12;
+
+const COMMAND_LABELS: Record<DrawingCommand['type'], string> = {
+  add_stroke: 'Stroke',
+  remove_stroke: 'Erase Stroke',
+  create_layer: 'New Layer',
+  delete_layer: 'Delete Layer',
+  move_layer: 'Move Layer',
+  merge_layers: 'Merge Down',
+  update_layer: 'Layer Properties',
+  transform_layer: 'Transform',
+  clear: 'Clear',
+};
+
+export class CommandHistory {
+  private static instance: CommandHistory;
+  private eventBus = EventBus.getInstance();
+
+  private targets: Map<string, CommandTarget> = new Map();
+  private entries: CommandHistoryEntry[] = [];
+  private index = 0; // Entries before this are applied; the rest can be redone
+  private maxDepth = DEFAULT_MAX_DEPTH;
+  private loading: Promise<void> | null = null;
+
+  // Open groups, outermost first; their steps land as one entry when the outermost ends
+  private groups: Array<{ label: string; steps: HistoryStep[] }> = [];
+  private applying = false;
+
+  private constructor() {
+    // Private constructor for singleton
+  }
+
+  public static getInstance(): CommandHistory {
+    if (!CommandHistory.instance) {
+      CommandHistory.instance = new CommandHistory();
+    }
+    return CommandHistory.instance;
+  }
+
+  public initialize(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.load();
+      this.eventBus.on('settings:changed', (settings: AppSettings) => this.applySettings(settings));
+    }
+    return this.loading;
+  }
+
+  private async load(): Promise<void> {
+    try {
+      // DataManager types only its own defaults; the settings screen saves the full shape
+      const settings = await dataManager.getAppSettings();
+      this.applySettings(settings as unknown as Partial<AppSettings>);
+    } catch (error) {
+      console.error('❌ Failed to load undo settings:', error);
+    }
+  }
+
+  private applySettings(settings: Partial<AppSettings> | null): void {
+    const depth = settings?.drawing?.maxUndoHistory;
+    if (typeof depth === 'number' && depth >= 1) {
+      this.setMaxDepth(depth);
+    }
+  }
+
+  public setMaxDepth(depth: number): void {
+    this.maxDepth = Math.max(1, Math.min(1000, Math.round(depth)));
+    this.trim();
+    this.notify();
+  }
+
+  public getMaxDepth(): number {
+    return this.maxDepth;
+  }
+
+  // =================== TARGETS ===================
+
+  /** `apply` runs commands for `target` forwards or backwards; it must not record them again. */
+  public registerTarget(target: string, apply: CommandTarget): void {
+    this.targets.set(target, apply);
+    this.notify();
+  }
+
+  /**
+   * Detaches the target. Its steps are kept for when it registers again, such
+   * as a screen remounting, but can't be undone or redone until then; drop
+   * them with `clear(target)` when what they change is gone.
+   */
+  public unregisterTarget(target: string): void {
+    this.targets.delete(target);
+    this.notify();
+  }
+
+  // =================== RECORDING ===================
+
+  /** Applies `command` to its target and records it. */
+  public execute(target: string, command: DrawingCommand, options: CommandOptions = {}): void {
+    const apply = this.targets.get(target);
+    if (!apply) {
+      throw new Error(`No undo target registered as ${target}`);
+    }
+
+    this.applying = true;
+    try {
+      apply(command, 'do');
+    } finally {
+      this.applying = false;
+    }
+
+    this.record(target, command, options);
+  }
+
+  /** Records a change the target has already made. Changes made by undo and redo aren't recorded. */
+  public record(target: string, command: DrawingCommand, options: CommandOptions = {}): void {
+    if (this.applying) return;
+
+    const step = { target, command };
+    if (this.groups.length > 0) {
+      this.groups[this.groups.length - 1].steps.push(step);
+      return;
+    }
+
+    this.push([step], options.label || COMMAND_LABELS[command.type], options.coalesceKey);
+  }
+
+  /** Everything recorded until the matching `endGroup` undoes as one step. */
+  public beginGroup(label: string): void {
+    this.groups.push({ label, steps: [] });
+  }
+
+  public endGroup(): void {
+    const group = this.groups.pop();
+    if (!group || group.steps.length === 0) return;
+
+    if (this.groups.length > 0) {
+      this.groups[this.groups.length - 1].steps.push(...group.steps);
+    } else {
+      this.push(group.steps, group.label);
+    }
+  }
+
+  /** Runs `changes` as one undo step, closing the group even if they throw. */
+  public group<T>(label: string, changes: () => T): T {
+    this.beginGroup(label);
+    try {
+      return changes();
+    } finally {
+      this.endGroup();
+    }
+  }
+
+  private push(steps: HistoryStep[], label: string, coalesceKey?: string): void {
+    const now = Date.now();
+    const last = this.entries[this.index - 1];
+
+    // A new change drops whatever could have been redone
+    const hadRedo = this.index < this.entries.length;
+    this.entries = this.entries.slice(0, this.index);
+
+    if (coalesceKey && !hadRedo && last && last.coalesceKey === coalesceKey && now - last.timestamp <= COALESCE_WINDOW_MS) {
+      last.steps = coalesceSteps([...last.steps, ...steps]);
+      last.timestamp = now;
+      last.memoryUsage = stepsMemory(last.steps);
+    } else {
+      this.entries.push({
+        id: `history_${now}_${Math.random().toString(36).substr(2, 9)}`,
+        label,
+        timestamp: now,
+        steps,
+        coalesceKey,
+        memoryUsage: stepsMemory(steps),
+      });
+    }
+
+    this.index = this.entries.length;
+    this.trim();
+    this.notify();
+  }
+
+  // Oldest applied steps go first, then the furthest redo; the latest always stays
+  private trim(): void {
+    let memory = this.entries.reduce((total, entry) => total + entry.memoryUsage, 0);
+
+    while (this.entries.length > 1 && (this.entries.length > this.maxDepth || memory > MAX_HISTORY_BYTES)) {
+      let dropped: CommandHistoryEntry;
+      if (this.index > 1) {
+        dropped = this.entries.shift()!;
+        this.index--;
+      } else {
+        dropped = this.entries.pop()!;
+      }
+      memory -= dropped.memoryUsage;
+    }
+  }
+
+  // =================== UNDO/REDO ===================
+
+  public canUndo(): boolean {
+    return this.index > 0 && this.isAttached(this.entries[this.index - 1]);
+  }
+
+  public canRedo(): boolean {
+    return this.index < this.entries.length && this.isAttached(this.entries[this.index]);
+  }
+
+  private isAttached(entry: CommandHistoryEntry): boolean {
+    return entry.steps.every(step => this.targets.has(step.target));
+  }
+
+  public undo(): CommandHistoryEntry | null {
+    if (!this.canUndo()) return null;
+
+    const entry = this.entries[this.index - 1];
+    this.run([...entry.steps].reverse(), 'undo');
+    this.index--;
+
+    this.eventBus.emit('history:undo', { label: entry.label });
+    this.notify();
+    return entry;
+  }
+
+  public redo(): CommandHistoryEntry | null {
+    if (!this.canRedo()) return null;
+
+    const entry = this.entries[this.index];
+    this.run(entry.steps, 'do');
+    this.index++;
+
+    this.eventBus.emit('history:redo', { label: entry.label });
+    this.notify();
+    return entry;
+  }
+
+  private run(steps: HistoryStep[], direction: CommandDirection): void {
+    this.applying = true;
+    try {
+      for (const step of steps) {
+        const apply = this.targets.get(step.target);
+        if (!apply) {
+          throw new Error(`No undo target registered as ${step.target}`);
+        }
+        apply(step.command, direction);
+      }
+    } finally {
+      this.applying = false;
+    }
+  }
+
+  // =================== STATE ===================
+
+  public getEntries(): CommandHistoryEntry[] {
+    return [...this.entries];
+  }
+
+  /** How many entries are applied; the rest are redoable. */
+  public getIndex(): number {
+    return this.index;
+  }
+
+  public getUndoLabel(): string | null {
+    return this.canUndo() ? this.entries[this.index - 1].label : null;
+  }
+
+  public getRedoLabel(): string | null {
+    return this.canRedo() ? this.entries[this.index].label : null;
+  }
+
+  /** Forgets every entry, or only the steps of one target. */
+  public clear(target?: string): void {
+    if (target === undefined) {
+      this.entries = [];
+      this.index = 0;
+    } else {
+      const applied = this.entries.slice(0, this.index).map(entry => stripTarget(entry, target)).filter(Boolean);
+      const redoable = this.entries.slice(this.index).map(entry => stripTarget(entry, target)).filter(Boolean);
+      this.entries = [...applied, ...redoable] as CommandHistoryEntry[];
+      this.index = applied.length;
+    }
+
+    this.groups = [];
+    this.notify();
+  }
+
+  private notify(): void {
+    this.eventBus.emit('history:changed', {
+      canUndo: this.canUndo(),
+      canRedo: this.canRedo(),
+      index: this.index,
+      length: this.entries.length,
+      undoLabel: this.getUndoLabel(),
+      redoLabel: this.getRedoLabel(),
+    });
+  }
+}
+
+// =================== COMMANDS ===================
+
+/**
+ * Runs a command over bottom-to-top layers and returns the new list; layers
+ * it doesn't touch are kept as they are, and `order` follows position.
+ */
+export function applyCommand(layers: Layer[], command: DrawingCommand, direction: CommandDirection): Layer[] {
+  const forward = direction === 'do';
+  const updateLayer = (layerId: string, update: (layer: Layer) => Layer) =>
+    layers.map(layer => (layer.id === layerId ? update(layer) : layer));
+  const withoutStrokes = (strokes: Stroke[], removed: Stroke[]) => {
+    const ids = new Set(removed.map(stroke => stroke.id));
+    return strokes.filter(stroke => !ids.has(stroke.id));
+  };
+
+  let result: Layer[];
+  switch (command.type) {
+    case 'add_stroke':
+    case 'remove_stroke': {
+      const adding = (command.type === 'add_stroke') === forward;
+      result = updateLayer(command.layerId, layer => {
+        if (!adding) return { ...layer, strokes: withoutStrokes(layer.strokes, [command.stroke]) };
+        const strokes = [...layer.strokes];
+        strokes.splice(command.type === 'remove_stroke' ? command.index : strokes.length, 0, command.stroke);
+        return { ...layer, strokes };
+      });
+      break;
+    }
+
+    case 'create_layer':
+    case 'delete_layer': {
+      const creating = (command.type === 'create_layer') === forward;
+      result = layers.filter(layer => layer.id !== command.layer.id);
+      if (creating) {
+        result.splice(Math.min(command.index, result.length), 0, command.layer);
+      }
+      break;
+    }
+
+    case 'move_layer': {
+      const from = layers.findIndex(layer => layer.id === command.layerId);
+      if (from === -1) return layers;
+      result = [...layers];
+      const [moved] = result.splice(from, 1);
+      result.splice(Math.min(forward ? command.to : command.from, result.length), 0, moved);
+      break;
+    }
+
+    case 'merge_layers':
+      if (forward) {
+        result = layers
+          .filter(layer => layer.id !== command.upper.id)
+          .map(layer => (layer.id === command.lowerLayerId
+            ? { ...layer, strokes: [...layer.strokes, ...command.mergedStrokes] }
+            : layer));
+      } else {
+        result = updateLayer(command.lowerLayerId, layer => ({
+          ...layer,
+          strokes: withoutStrokes(layer.strokes, command.mergedStrokes),
+        }));
+        result.splice(Math.min(command.upperIndex, result.length), 0, command.upper);
+      }
+      break;
+
+    case 'update_layer':
+      result = updateLayer(command.layerId, layer => ({ ...layer, ...(forward ? command.after : command.before) }));
+      break;
+
+    case 'transform_layer': {
+      const matrix = forward ? command.matrix : invertMatrix(command.matrix);
+      result = updateLayer(command.layerId, layer => ({
+        ...layer,
+        strokes: layer.strokes.map(stroke => transformStroke(stroke, matrix)),
+      }));
+      break;
+    }
+
+    case 'clear': {
+      const cleared = new Map(command.cleared.map(entry => [entry.layerId, entry.strokes]));
+      result = layers.map(layer => {
+        const strokes = cleared.get(layer.id);
+        if (!strokes) return layer;
+        return { ...layer, strokes: forward ? [] : strokes };
+      });
+      break;
+    }
+  }
+
+  return result.map((layer, order) => (layer.order === order ? layer : { ...layer, order }));
+}
+
+/** The strokes of `layer` as they'd look merged into the layer below: its opacity carried onto each. */
+export function strokesForMerge(layer: Layer): Stroke[] {
+  return layer.strokes.map(stroke => ({
+    ...stroke,
+    opacity: stroke.opacity * layer.opacity,
+    blendMode: layer.blendMode !== 'normal' && stroke.blendMode === 'normal' ? layer.blendMode as BlendMode : stroke.blendMode,
+  }));
+}
+
+/** False for matrices that flatten the layer, such as a zero scale - those can't be undone. */
+export function isInvertibleMatrix([a, b, c, d, e, f]: LayerMatrix): boolean {
+  return [a, b, c, d, e, f].every(Number.isFinite) && Math.abs(a * d - b * c) >= MIN_DETERMINANT;
+}
+
+export function invertMatrix([a, b, c, d, e, f]: LayerMatrix): LayerMatrix {
+  const determinant = a * d - b * c;
+  if (Math.abs(determinant) < MIN_DETERMINANT) {
+    throw new Error('Transform cannot be undone: it flattens the layer');
+  }
+  return [
+    d / determinant,
+    -b / determinant,
+    -c / determinant,
+    a / determinant,
+    (c * f - d * e) / determinant,
+    (b * e - a * f) / determinant,
+  ];
+}
+
+// `second` after `first`
+function multiplyMatrices(second: LayerMatrix, first: LayerMatrix): LayerMatrix {
+  const [a2, b2, c2, d2, e2, f2] = second;
+  const [a1, b1, c1, d1, e1, f1] = first;
+  return [
+    a2 * a1 + c2 * b1,
+    b2 * a1 + d2 * b1,
+    a2 * c1 + c2 * d1,
+    b2 * c1 + d2 * d1,
+    a2 * e1 + c2 * f1 + e2,
+    b2 * e1 + d2 * f1 + f2,
+  ];
+}
+
+// Points move with the matrix; brush size scales with its average stretch
+function transformStroke(stroke: Stroke, [a, b, c, d, e, f]: LayerMatrix): Stroke {
+  const scale = Math.sqrt(Math.abs(a * d - b * c));
+  return {
+    ...stroke,
+    size: stroke.size * scale,
+    points: stroke.points.map(point => ({
+      ...point,
+      x: a * point.x + c * point.y + e,
+      y: b * point.x + d * point.y + f,
+    })),
+  };
+}
+
+// Folds runs of the same change into one: the first `before` with the last
+// `after`, or one matrix for a run of transforms
+function coalesceSteps(steps: HistoryStep[]): HistoryStep[] {
+  return steps.reduce<HistoryStep[]>((merged, step) => {
+    const previous = merged[merged.length - 1];
+    const a = previous?.command;
+    const b = step.command;
+
+    if (previous && previous.target === step.target && a.type === 'update_layer' && b.type === 'update_layer' && a.layerId === b.layerId) {
+      merged[merged.length - 1] = {
+        target: step.target,
+        command: { ...a, before: { ...b.before, ...a.before }, after: { ...a.after, ...b.after } },
+      };
+    } else if (previous && previous.target === step.target && a.type === 'transform_layer' && b.type === 'transform_layer' && a.layerId === b.layerId && isInvertibleMatrix(multiplyMatrices(b.matrix, a.matrix))) {
+      merged[merged.length - 1] = {
+        target: step.target,
+        command: { ...a, matrix: multiplyMatrices(b.matrix, a.matrix) },
+      };
+    } else {
+      merged.push(step);
+    }
+    return merged;
+  }, []);
+}
+
+function stripTarget(entry: CommandHistoryEntry, target: string): CommandHistoryEntry | null {
+  const steps = entry.steps.filter(step => step.target !== target);
+  return steps.length > 0 ? { ...entry, steps, memoryUsage: stepsMemory(steps) } : null;
+}
+
+// =================== MEMORY ===================
+
+const STROKE_BYTES = 200;
+const POINT_BYTES = 48;
+const COMMAND_BYTES = 100;
+
+function strokesMemory(strokes: Stroke[]): number {
+  return strokes.reduce((total, stroke) => total + STROKE_BYTES + (stroke.points?.length || 0) * POINT_BYTES, 0);
+}
+
+function commandMemory(command: DrawingCommand): number {
+  switch (command.type) {
+    case 'add_stroke':
+    case 'remove_stroke':
+      return COMMAND_BYTES + strokesMemory([command.stroke]);
+    case 'create_layer':
+    case 'delete_layer':
+      return COMMAND_BYTES + strokesMemory(command.layer.strokes);
+    case 'merge_layers':
+      return COMMAND_BYTES + strokesMemory(command.upper.strokes) + strokesMemory(command.mergedStrokes);
+    case 'update_layer':
+      return COMMAND_BYTES + strokesMemory(command.before.strokes || []) + strokesMemory(command.after.strokes || []);
+    case 'clear':
+      return COMMAND_BYTES + command.cleared.reduce((total, entry) => total + strokesMemory(entry.strokes), 0);
+    default:
+      return COMMAND_BYTES;
+  }
+}
+
+function stepsMemory(steps: HistoryStep[]): number {
+  return steps.reduce((total, step) => total + commandMemory(step.command), 0);
+}
+
+// Export singleton
+export const commandHistory = CommandHistory.getInstance();
@@ -0,0 +1,252 @@
+// src/engines/drawing/DocumentStore.ts - .PIKASO FILE STORAGE
+
+import * as FileSystem from 'expo-file-system';
+import { dataManager } from '../core/DataManager';
+import { errorHandler } from '../core/ErrorHandler';
+import { pikasoFormat, PikasoDocument, PIKASO_FILE_EXTENSION } from './PikasoFormat';
+import { TimelapseRecording } from './TimelapseRecorder';
+
+/**
+ * DOCUMENT STORE
+ *
+ * Saved drawings as `.pikaso` files in `<documentDirectory>/drawings/`,
+ * one per drawing, named by drawing id. Drawings still in AsyncStorage
+ * from before the format are converted on first load and their old
+ * entries removed. A drawing's time-lapse, if it has one, sits beside it as
+ * `<id>.timelapse.json`. Exports to other formats go to `<documentDirectory>/exports/`.
+ */
+
+const TIMELAPSE_FILE_SUFFIX = '.timelapse.json';
+
+export class DocumentStore {
+  private static instance: DocumentStore;
+
+  private constructor() {
+    // Private constructor for singleton
+  }
+
+  public static getInstance(): DocumentStore {
+    if (!DocumentStore.instance) {
+      DocumentStore.instance = new DocumentStore();
+    }
+    return DocumentStore.instance;
+  }
+
+  public getDirectory(): string | null {
+    return FileSystem.documentDirectory ? `${FileSystem.documentDirectory}drawings/` : null;
+  }
+
+  public getFileUri(drawingId: string): string | null {
+    const directory = this.getDirectory();
+    return directory ? `${directory}${drawingId}${PIKASO_FILE_EXTENSION}` : null;
+  }
+
+  public createId(): string {
+    return `drawing_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  // =================== SAVING ===================
+
+  public async save(document: PikasoDocument): Promise<string> {
+    const directory = this.getDirectory();
+    const uri = this.getFileUri(document.id);
+
+    try {
+      if (!directory || !uri) {
+        throw new Error('No document directory on this platform');
+      }
+
+      const info = await FileSystem.getInfoAsync(directory);
+      if (!info.exists) {
+        await FileSystem.makeDirectoryAsync(directory, { intermediates: true });
+      }
+
+      const bytes = pikasoFormat.encode(document);
+      await FileSystem.writeAsStringAsync(uri, pikasoFormat.toBase64(bytes), {
+        encoding: FileSystem.EncodingType.Base64,
+      });
+
+      console.log(`💾 Saved ${document.id}${PIKASO_FILE_EXTENSION} (${bytes.length} bytes)`);
+      return uri;
+    } catch (error) {
+      errorHandler.handleError(
+        errorHandler.createError('SAVE_ERROR', 'Failed to save drawing', 'medium', {
+          drawingId: document.id,
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+      throw error;
+    }
+  }
+
+  /** Writes an export of the drawing, named after its title; returns the file's uri. */
+  public async writeExport(document: Pick<PikasoDocument, 'id' | 'title'>, extension: string, contents: string | Uint8Array): Promise<string> {
+    const uri = `${await this.getExportDirectory()}${exportName(document)}${extension}`;
+    await this.writeContents(uri, contents);
+    return uri;
+  }
+
+  /**
+   * Writes `count` files from `render` into a folder named after the drawing,
+   * as frame_00001 onwards, one at a time; returns the folder's uri.
+   */
+  public async writeExportSequence(
+    document: Pick<PikasoDocument, 'id' | 'title'>,
+    extension: string,
+    count: number,
+    render: (index: number) => string | Uint8Array
+  ): Promise<string> {
+    const directory = `${await this.getExportDirectory()}${exportName(document)}-frames/`;
+    await FileSystem.deleteAsync(directory, { idempotent: true });
+    await FileSystem.makeDirectoryAsync(directory, { intermediates: true });
+
+    for (let i = 0; i < count; i++) {
+      await this.writeContents(`${directory}frame_${String(i + 1).padStart(5, '0')}${extension}`, render(i));
+    }
+
+    return directory;
+  }
+
+  public async saveTimelapse(drawingId: string, recording: TimelapseRecording): Promise<void> {
+    const directory = this.getDirectory();
+    if (!directory) {
+      throw new Error('No document directory on this platform');
+    }
+
+    const info = await FileSystem.getInfoAsync(directory);
+    if (!info.exists) {
+      await FileSystem.makeDirectoryAsync(directory, { intermediates: true });
+    }
+
+    await FileSystem.writeAsStringAsync(`${directory}${drawingId}${TIMELAPSE_FILE_SUFFIX}`, JSON.stringify(recording));
+  }
+
+  private async getExportDirectory(): Promise<string> {
+    if (!FileSystem.documentDirectory) {
+      throw new Error('No document directory on this platform');
+    }
+
+    const directory = `${FileSystem.documentDirectory}exports/`;
+    const info = await FileSystem.getInfoAsync(directory);
+    if (!info.exists) {
+      await FileSystem.makeDirectoryAsync(directory, { intermediates: true });
+    }
+    return directory;
+  }
+
+  private async writeContents(uri: string, contents: string | Uint8Array): Promise<void> {
+    if (typeof contents === 'string') {
+      await FileSystem.writeAsStringAsync(uri, contents);
+    } else {
+      await FileSystem.writeAsStringAsync(uri, pikasoFormat.toBase64(contents), {
+        encoding: FileSystem.EncodingType.Base64,
+      });
+    }
+  }
+
+  // =================== LOADING ===================
+
+  /** The drawing, or null when there's none by that id or it can't be read. */
+  public async load(drawingId: string): Promise<PikasoDocument | null> {
+    const uri = this.getFileUri(drawingId);
+
+    try {
+      if (uri && (await FileSystem.getInfoAsync(uri)).exists) {
+        const base64 = await FileSystem.readAsStringAsync(uri, { encoding: FileSystem.EncodingType.Base64 });
+        return pikasoFormat.decode(pikasoFormat.fromBase64(base64));
+      }
+
+      return await this.migrateLegacy(drawingId);
+    } catch (error) {
+      errorHandler.handleError(
+        errorHandler.createError('LOAD_ERROR', 'Failed to open drawing', 'medium', {
+          drawingId,
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+      return null;
+    }
+  }
+
+  /** A file picked for import, such as a layered file from another app. */
+  public async readFile(uri: string): Promise<Uint8Array> {
+    const base64 = await FileSystem.readAsStringAsync(uri, { encoding: FileSystem.EncodingType.Base64 });
+    return pikasoFormat.fromBase64(base64);
+  }
+
+  /** The drawing's time-lapse, or null when it wasn't recorded. */
+  public async loadTimelapse(drawingId: string): Promise<TimelapseRecording | null> {
+    const directory = this.getDirectory();
+    const uri = directory ? `${directory}${drawingId}${TIMELAPSE_FILE_SUFFIX}` : null;
+
+    try {
+      if (!uri || !(await FileSystem.getInfoAsync(uri)).exists) return null;
+      return JSON.parse(await FileSystem.readAsStringAsync(uri));
+    } catch (error) {
+      errorHandler.handleError(
+        errorHandler.createError('LOAD_ERROR', 'Failed to open time-lapse', 'low', {
+          drawingId,
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+      return null;
+    }
+  }
+
+  /** Ids of every saved drawing, including ones not yet moved out of AsyncStorage. */
+  public async listIds(): Promise<string[]> {
+    const ids = new Set<string>();
+    const directory = this.getDirectory();
+
+    if (directory) {
+      const info = await FileSystem.getInfoAsync(directory);
+      if (info.exists && info.isDirectory) {
+        (await FileSystem.readDirectoryAsync(directory))
+          .filter(name => name.endsWith(PIKASO_FILE_EXTENSION))
+          .forEach(name => ids.add(name.slice(0, -PIKASO_FILE_EXTENSION.length)));
+      }
+    }
+
+    (await dataManager.getSavedDrawings()).forEach(id => ids.add(id));
+    return Array.from(ids);
+  }
+
+  public async delete(drawingId: string): Promise<void> {
+    const uri = this.getFileUri(drawingId);
+    if (uri) {
+      await FileSystem.deleteAsync(uri, { idempotent: true });
+      await FileSystem.deleteAsync(`${this.getDirectory()}${drawingId}${TIMELAPSE_FILE_SUFFIX}`, { idempotent: true });
+    }
+    await dataManager.removeDrawing(drawingId);
+  }
+
+  // Converts a pre-format AsyncStorage drawing to a file; the file is
+  // written before the old entry goes, so a failure loses nothing
+  private async migrateLegacy(drawingId: string): Promise<PikasoDocument | null> {
+    const legacy = await dataManager.getDrawing(drawingId);
+    if (!legacy) return null;
+
+    const document = pikasoFormat.fromLegacy(drawingId, legacy);
+
+    // Where there's no file storage the drawing stays where it is, and still opens
+    try {
+      await this.save(document);
+    } catch (error) {
+      console.warn(`⚠️ Drawing ${drawingId} left in AsyncStorage:`, error);
+      return document;
+    }
+    await dataManager.removeDrawing(drawingId);
+
+    console.log(`📦 Moved drawing ${drawingId} from AsyncStorage to ${PIKASO_FILE_EXTENSION}`);
+    return document;
+  }
+}
+
+// Title without characters file systems object to, then the id to keep names unique
+function exportName(document: Pick<PikasoDocument, 'id' | 'title'>): string {
+  const name = (document.title || 'Untitled').replace(/[^A-Za-z0-9 _-]/g, '').trim() || 'Untitled';
+  return `${name}-${document.id}`;
+}
+
+// Export singleton
+export const documentStore = DocumentStore.getInstance();
@@ -22,6 +22,7 @@ import {
 } from '../../types';
 import { CompatSkia, SkSurface, SkCanvas, SkPaint, SkImage } from './SkiaCompatibility';
 import { EventBus } from '../core/EventBus';
+import { commandHistory, applyCommand, strokesForMerge, isInvertibleMatrix, DrawingCommand, CommandDirection, LayerMatrix } from './CommandHistory';
 
 // ===== LAYER INTERFACES =====
 
@@ -33,7 +34,7 @@ interface LayerComposite {
   memoryUsage: number;
 }
 
-interface LayerGroup {
+export interface LayerGroup {
   id: string;
   name: string;
   layerIds: string[];
@@ -45,7 +46,7 @@ interface LayerGroup {
   parentGroupId?: string;
 }
 
-interface ClippingMask {
+export interface ClippingMask {
   id: string;
   maskLayerId: string;
   clippedLayerIds: string[];
@@ -61,15 +62,6 @@ interface LayerEffect {
   opacity: number;
 }
 
-interface LayerHistory {
-  id: string;
-  action: 'create' | 'delete' | 'modify' | 'move' | 'group' | 'ungroup' | 'duplicate';
-  timestamp: number;
-  layerId: string;
-  beforeState?: any;
-  afterState?: any;
-}
-
 interface LayerStats {
   totalLayers: number;
   visibleLayers: number;
@@ -79,6 +71,11 @@ interface LayerStats {
   cacheHitRate: number;
 }
 
+export interface RenderedLayers {
+  images: Map<string, NonNullable<SkImage>>; // Each layer's own pixels, by layer id
+  merged: NonNullable<SkImage>;
+}
+
 // ===== LAYER MANAGER =====
 
 export class LayerManager {
@@ -102,11 +99,6 @@ export class LayerManager {
   private canvasWidth = 0;
   private canvasHeight = 0;
   
-  // History and undo
-  private layerHistory: LayerHistory[] = [];
-  private historyIndex = -1;
-  private maxHistorySize = 100;
-  
   // Performance and caching
   private needsComposite = true;
   private compositingInProgress = false;
@@ -135,8 +127,12 @@ export class LayerManager {
   private initializeLayerSystem(): void {
     console.log('🎨 Initializing Enterprise Layer System...');
     
-    // Create default background layer
+    // Layer changes undo through the shared command history
+    commandHistory.registerTarget('layers', (command, direction) => this.applyHistoryCommand(command, direction));
+    
+    // Create default background layer; it isn't something to undo
     this.createDefaultLayer();
+    commandHistory.clear('layers');
     
     console.log('✅ Layer System initialized');
   }
@@ -199,7 +195,11 @@ export class LayerManager {
       this.createLayerComposite(layer.id);
       
       // Record history
-      this.recordHistory('create', layer.id, undefined, layer);
+      commandHistory.record('layers', {
+        type: 'create_layer',
+        layer: { ...layer, strokes: [...layer.strokes] },
+        index: this.toStackIndex(this.layerOrder.indexOf(layer.id)),
+      });
       
       // Update stats
       this.updateStats();
@@ -230,7 +230,11 @@ export class LayerManager {
       }
       
       // Record history before removal
-      this.recordHistory('delete', layerId, layer, undefined);
+      commandHistory.record('layers', {
+        type: 'delete_layer',
+        layer,
+        index: this.toStackIndex(this.layerOrder.indexOf(layerId)),
+      });
       
       // Clean up composites
       this.cleanupLayerComposite(layerId);
@@ -311,7 +315,12 @@ export class LayerManager {
       if (currentIndex === newIndex) return true;
       
       // Record history
-      this.recordHistory('move', layerId, { index: currentIndex }, { index: newIndex });
+      commandHistory.record('layers', {
+        type: 'move_layer',
+        layerId,
+        from: this.toStackIndex(currentIndex),
+        to: this.toStackIndex(newIndex),
+      });
       
       // Move in order array
       this.layerOrder.splice(currentIndex, 1);
@@ -339,13 +348,18 @@ export class LayerManager {
       const layer = this.layers.get(layerId);
       if (!layer) return false;
       
-      const oldLayer = { ...layer };
       const updatedLayer = { ...layer, ...updates };
       
       this.layers.set(layerId, updatedLayer);
       
-      // Record history
-      this.recordHistory('modify', layerId, oldLayer, updatedLayer);
+      // Record history; a run of the same change, like a slider drag, undoes as one
+      const keys = Object.keys(updates) as Array<keyof Layer>;
+      commandHistory.record('layers', {
+        type: 'update_layer',
+        layerId,
+        before: Object.fromEntries(keys.map(key => [key, layer[key]])),
+        after: { ...updates },
+      }, { coalesceKey: `layer:${layerId}:${keys.sort().join(',')}` });
       
       // Mark layer composite for update
       this.markLayerForUpdate(layerId);
@@ -409,6 +423,18 @@ export class LayerManager {
     return this.layerOrder.indexOf(layerId);
   }
 
+  /** The layer's own pixels, without its opacity or blend mode - for layered export. */
+  public getLayerImage(layerId: string): SkImage | null {
+    const composite = this.layerComposites.get(layerId);
+    if (!composite || !composite.surface) return null;
+    
+    if (composite.needsUpdate) {
+      this.updateLayerComposite(layerId);
+    }
+    
+    return composite.surface.makeImageSnapshot();
+  }
+
   // ===== STROKE MANAGEMENT =====
 
   public addStroke(stroke: Stroke): boolean {
@@ -419,8 +445,9 @@ export class LayerManager {
         return false;
       }
       
-      // Add stroke to layer
-      layer.strokes.push(stroke);
+      // Add stroke to layer; layers are replaced rather than edited, as history holds on to them
+      this.layers.set(layer.id, { ...layer, strokes: [...layer.strokes, stroke] });
+      commandHistory.record('layers', { type: 'add_stroke', layerId: layer.id, stroke });
       
       // Mark layer for update
       this.markLayerForUpdate(stroke.layerId);
@@ -443,7 +470,9 @@ export class LayerManager {
       const strokeIndex = layer.strokes.findIndex(s => s.id === strokeId);
       if (strokeIndex === -1) return false;
       
-      const removedStroke = layer.strokes.splice(strokeIndex, 1)[0];
+      const removedStroke = layer.strokes[strokeIndex];
+      this.layers.set(layerId, { ...layer, strokes: layer.strokes.filter((_, i) => i !== strokeIndex) });
+      commandHistory.record('layers', { type: 'remove_stroke', layerId, stroke: removedStroke, index: strokeIndex });
       
       // Mark layer for update
       this.markLayerForUpdate(layerId);
@@ -463,8 +492,9 @@ export class LayerManager {
       const layer = this.layers.get(layerId);
       if (!layer) return false;
       
-      const oldStrokes = [...layer.strokes];
-      layer.strokes = [];
+      const oldStrokes = layer.strokes;
+      this.layers.set(layerId, { ...layer, strokes: [] });
+      commandHistory.record('layers', { type: 'clear', cleared: [{ layerId, strokes: oldStrokes }] });
       
       // Mark layer for update
       this.markLayerForUpdate(layerId);
@@ -498,9 +528,6 @@ export class LayerManager {
     
     this.layerGroups.set(groupId, group);
     
-    // Record history
-    this.recordHistory('group', groupId, undefined, group);
-    
     this.eventBus.emit('layer:group_created', { groupId, group });
     
     console.log(`📁 Layer group created: ${name} (${layerIds.length} layers)`);
@@ -512,9 +539,6 @@ export class LayerManager {
       const group = this.layerGroups.get(groupId);
       if (!group) return false;
       
-      // Record history
-      this.recordHistory('ungroup', groupId, group, undefined);
-      
       // Remove group
       this.layerGroups.delete(groupId);
       
@@ -585,6 +609,10 @@ export class LayerManager {
     }
   }
 
+  public getAllClippingMasks(): ClippingMask[] {
+    return Array.from(this.clippingMasks.values());
+  }
+
   // ===== COMPOSITING =====
 
   public composite(): SkImage | null {
@@ -645,22 +673,49 @@ export class LayerManager {
         this.updateLayerComposite(layer.id);
       }
       
-      // Get layer image
-      const layerImage = layerComposite.surface.makeImageSnapshot();
-      
-      // Create paint for blending
-      const paint = CompatSkia.Paint();
-      paint.setAlphaf(layer.opacity);
-      paint.setBlendMode(this.convertBlendMode(layer.blendMode));
-      
-      // Draw layer
-      canvas.drawImage(layerImage, 0, 0, paint);
+      this.drawLayerImage(canvas, layer, layerComposite.surface.makeImageSnapshot());
       
     } catch (error) {
       console.error(`❌ Failed to composite layer ${layer.id}:`, error);
     }
   }
 
+  // Draws a layer's pixels with its opacity and blend mode
+  private drawLayerImage(canvas: SkCanvas, layer: Layer, layerImage: NonNullable<SkImage>): void {
+    const paint = CompatSkia.Paint();
+    paint.setAlphaf(layer.opacity);
+    paint.setBlendMode(this.convertBlendMode(layer.blendMode));
+    
+    canvas.drawImage(layerImage, 0, 0, paint);
+  }
+
+  /**
+   * Renders a layer stack other than the manager's own, top first, onto fresh
+   * surfaces - each layer's pixels and the visible layers merged. Used to
+   * export the drawing screen's layers.
+   */
+  public renderLayers(layers: Layer[], width: number, height: number): RenderedLayers | null {
+    const mergedSurface = CompatSkia.Surface.Make(width, height);
+    if (!mergedSurface) return null;
+    
+    const images = new Map<string, NonNullable<SkImage>>();
+    for (const layer of layers) {
+      const surface = CompatSkia.Surface.Make(width, height);
+      if (!surface) return null;
+      
+      // Fresh surfaces start out transparent
+      this.drawLayerContent(surface.getCanvas(), layer);
+      images.set(layer.id, surface.makeImageSnapshot());
+    }
+    
+    const canvas = mergedSurface.getCanvas();
+    [...layers].reverse()
+      .filter(layer => layer.visible)
+      .forEach(layer => this.drawLayerImage(canvas, layer, images.get(layer.id)!));
+    
+    return { images, merged: mergedSurface.makeImageSnapshot() };
+  }
+
   private convertBlendMode(mode: BlendMode): number {
     const blendModeMap: Record<BlendMode, number> = {
       'normal': 3,      // SrcOver
@@ -734,10 +789,7 @@ export class LayerManager {
       // Clear layer surface
       canvas.clear(CompatSkia.Color('transparent'));
       
-      // Render all strokes in layer
-      for (const stroke of layer.strokes) {
-        this.renderStrokeToCanvas(canvas, stroke);
-      }
+      this.drawLayerContent(canvas, layer);
       
       // Mark as updated
       composite.needsUpdate = false;
@@ -748,6 +800,18 @@ export class LayerManager {
     }
   }
 
+  private drawLayerContent(canvas: SkCanvas, layer: Layer): void {
+    // Imported raster layers keep their pixels as an image under any new strokes
+    if (layer.data?.image) {
+      canvas.drawImage(layer.data.image, layer.data.x || 0, layer.data.y || 0);
+    }
+    
+    // Render all strokes in layer
+    for (const stroke of layer.strokes) {
+      this.renderStrokeToCanvas(canvas, stroke);
+    }
+  }
+
   private renderStrokeToCanvas(canvas: SkCanvas, stroke: Stroke): void {
     try {
       if (stroke.points.length === 0) return;
@@ -865,30 +929,6 @@ export class LayerManager {
     this.stats.memoryUsage = totalMemory / (1024 * 1024); // Convert to MB
   }
 
-  private recordHistory(action: LayerHistory['action'], layerId: string, beforeState?: any, afterState?: any): void {
-    const historyEntry: LayerHistory = {
-      id: `history_${Date.now()}`,
-      action,
-      timestamp: Date.now(),
-      layerId,
-      beforeState,
-      afterState,
-    };
-    
-    // Remove any history after current index
-    this.layerHistory = this.layerHistory.slice(0, this.historyIndex + 1);
-    
-    // Add new entry
-    this.layerHistory.push(historyEntry);
-    this.historyIndex++;
-    
-    // Limit history size
-    if (this.layerHistory.length > this.maxHistorySize) {
-      this.layerHistory = this.layerHistory.slice(-this.maxHistorySize);
-      this.historyIndex = this.layerHistory.length - 1;
-    }
-  }
-
   // ===== PUBLIC GETTERS =====
 
   public needsCompositing(): boolean {
@@ -924,21 +964,19 @@ export class LayerManager {
 
   // ===== UNDO/REDO =====
 
+  // Undo is shared with the drawing screen, so these step through its changes too
   public canUndo(): boolean {
-    return this.historyIndex >= 0;
+    return commandHistory.canUndo();
   }
 
   public canRedo(): boolean {
-    return this.historyIndex < this.layerHistory.length - 1;
+    return commandHistory.canRedo();
   }
 
   public undo(): boolean {
-    if (!this.canUndo()) return false;
-    
     try {
-      const historyEntry = this.layerHistory[this.historyIndex];
-      this.applyHistoryEntry(historyEntry, true); // Reverse = true for undo
-      this.historyIndex--;
+      const historyEntry = commandHistory.undo();
+      if (!historyEntry) return false;
       
       this.eventBus.emit('layer:undo', { historyEntry });
       return true;
@@ -950,52 +988,91 @@ export class LayerManager {
   }
 
   public redo(): boolean {
-    if (!this.canRedo()) return false;
-    
     try {
-      this.historyIndex++;
-      const historyEntry = this.layerHistory[this.historyIndex];
-      this.applyHistoryEntry(historyEntry, false); // Reverse = false for redo
+      const historyEntry = commandHistory.redo();
+      if (!historyEntry) return false;
       
       this.eventBus.emit('layer:redo', { historyEntry });
       return true;
       
     } catch (error) {
       console.error('❌ Redo failed:', error);
-      this.historyIndex--;
       return false;
     }
   }
 
-  private applyHistoryEntry(entry: LayerHistory, reverse: boolean): void {
-    switch (entry.action) {
-      case 'create':
-        if (reverse) {
-          this.removeLayer(entry.layerId);
-        } else {
-          this.addLayer(entry.afterState);
-        }
-        break;
-        
-      case 'delete':
-        if (reverse) {
-          this.addLayer(entry.beforeState);
-        } else {
-          this.removeLayer(entry.layerId);
-        }
-        break;
-        
-      case 'modify':
-        const targetState = reverse ? entry.beforeState : entry.afterState;
-        this.layers.set(entry.layerId, targetState);
-        this.markLayerForUpdate(entry.layerId);
-        break;
-        
-      case 'move':
-        const targetIndex = reverse ? entry.beforeState.index : entry.afterState.index;
-        this.moveLayer(entry.layerId, targetIndex);
-        break;
+  /** Merges the layer into the one below it, as one undoable step. */
+  public mergeDown(layerId: string): boolean {
+    const index = this.layerOrder.indexOf(layerId);
+    const upper = this.layers.get(layerId);
+    const lowerId = this.layerOrder[index + 1];
+    if (!upper || !lowerId) return false;
+    
+    commandHistory.execute('layers', {
+      type: 'merge_layers',
+      upper,
+      upperIndex: this.toStackIndex(index),
+      lowerLayerId: lowerId,
+      mergedStrokes: strokesForMerge(upper),
+    });
+    
+    this.eventBus.emit('layer:merged', { layerId, intoLayerId: lowerId });
+    return true;
+  }
+
+  /** Moves, scales or rotates everything on the layer by an affine matrix. */
+  public transformLayer(layerId: string, matrix: LayerMatrix): boolean {
+    if (!this.layers.has(layerId)) return false;
+    
+    // A flattening transform couldn't be undone, and would leave the history stuck
+    if (!isInvertibleMatrix(matrix)) {
+      console.warn(`⚠️ Transform rejected for ${layerId}: it can't be undone`);
+      return false;
     }
+    
+    commandHistory.execute('layers', { type: 'transform_layer', layerId, matrix }, { coalesceKey: `transform:${layerId}` });
+    
+    this.eventBus.emit('layer:transformed', { layerId, matrix });
+    return true;
+  }
+
+  // Runs a history command over the layers, then brings composites, the
+  // active layer and selection in line with what it changed
+  private applyHistoryCommand(command: DrawingCommand, direction: CommandDirection): void {
+    const before = [...this.layerOrder].reverse().map(id => this.layers.get(id)!).filter(Boolean);
+    const after = applyCommand(before, command, direction);
+    const previous = new Map(before.map(layer => [layer.id, layer]));
+    
+    this.layers = new Map(after.map(layer => [layer.id, layer]));
+    this.layerOrder = after.map(layer => layer.id).reverse();
+    this.updateLayerOrders();
+    
+    for (const layerId of previous.keys()) {
+      if (!this.layers.has(layerId)) {
+        this.cleanupLayerComposite(layerId);
+        this.selectedLayerIds.delete(layerId);
+      }
+    }
+    
+    for (const layer of after) {
+      if (!previous.has(layer.id)) {
+        this.createLayerComposite(layer.id);
+      } else if (previous.get(layer.id) !== layer) {
+        this.markLayerForUpdate(layer.id);
+      }
+    }
+    
+    if (!this.activeLayerId || !this.layers.has(this.activeLayerId)) {
+      this.activeLayerId = this.layerOrder[0] || null;
+    }
+    
+    this.updateStats();
+    this.markForComposite();
+  }
+
+  // History indexes count from the bottom layer, like the drawing screen's
+  private toStackIndex(orderIndex: number): number {
+    return this.layerOrder.length - 1 - orderIndex;
   }
 
   // ===== CLEANUP =====
@@ -1016,8 +1093,7 @@ export class LayerManager {
     this.selectedLayerIds.clear();
     
     // Clear history
-    this.layerHistory = [];
-    this.historyIndex = -1;
+    commandHistory.clear('layers');
     
     // Reset state
     this.activeLayerId = null;
@@ -0,0 +1,458 @@
+// src/engines/drawing/LayeredExporter.ts - LAYERED EXPORT
+
+import { DrawingState, Layer } from '../../types';
+import { layerManager, RenderedLayers } from './LayerManager';
+import { CompatSkia, SkImage as MaybeSkImage, ColorType, AlphaType, ImageFormat } from './SkiaCompatibility';
+import { zipArchive, utf8Bytes, utf8String } from './ZipArchive';
+
+/**
+ * LAYERED EXPORTER
+ *
+ * Layered files for desktop painting apps, from a stack of layers rendered
+ * by the layer manager:
+ * - OpenRaster (.ora) - a zip of one PNG per layer plus `stack.xml`, opened
+ *   by Krita, GIMP and MyPaint; imported back as raster layers
+ * - Photoshop (.psd) - uncompressed 8-bit RGBA with layer names, opacity,
+ *   visibility and blend modes, which Photoshop, Affinity and Photopea read
+ * Every layer is written at full canvas size; groups and clipping masks are
+ * flattened away, as neither format maps them one to one.
+ */
+
+type SkImage = NonNullable<MaybeSkImage>;
+
+export const ORA_FILE_EXTENSION = '.ora';
+export const PSD_FILE_EXTENSION = '.psd';
+
+export interface LayerStack {
+  width: number;
+  height: number;
+  layers: Layer[]; // Top first, like the layer manager
+}
+
+const ORA_MIMETYPE = 'image/openraster';
+const THUMBNAIL_SIZE = 256;
+
+// OpenRaster 0.0.5 composite ops; modes without one are written as normal
+const ORA_COMPOSITE_OPS: Record<string, string> = {
+  'normal': 'svg:src-over',
+  'multiply': 'svg:multiply',
+  'screen': 'svg:screen',
+  'overlay': 'svg:overlay',
+  'darken': 'svg:darken',
+  'lighten': 'svg:lighten',
+  'color-dodge': 'svg:color-dodge',
+  'color-burn': 'svg:color-burn',
+  'hard-light': 'svg:hard-light',
+  'soft-light': 'svg:soft-light',
+  'difference': 'svg:difference',
+  'color': 'svg:color',
+  'luminosity': 'svg:luminosity',
+  'hue': 'svg:hue',
+  'saturation': 'svg:saturation',
+  'plus': 'svg:plus',
+};
+
+// Photoshop blend mode keys; modes without one are written as normal
+const PSD_BLEND_KEYS: Record<string, string> = {
+  'normal': 'norm',
+  'multiply': 'mul ',
+  'screen': 'scrn',
+  'overlay': 'over',
+  'darken': 'dark',
+  'lighten': 'lite',
+  'color-dodge': 'div ',
+  'color-burn': 'idiv',
+  'hard-light': 'hLit',
+  'soft-light': 'sLit',
+  'difference': 'diff',
+  'exclusion': 'smud',
+  'hue': 'hue ',
+  'saturation': 'sat ',
+  'color': 'colr',
+  'luminosity': 'lum ',
+  'plus': 'lddg',
+};
+
+export class LayeredExporter {
+  private static instance: LayeredExporter;
+
+  private constructor() {
+    // Private constructor for singleton
+  }
+
+  public static getInstance(): LayeredExporter {
+    if (!LayeredExporter.instance) {
+      LayeredExporter.instance = new LayeredExporter();
+    }
+    return LayeredExporter.instance;
+  }
+
+  // =================== DRAWING SCREEN ===================
+
+  /** The drawing screen's layers as a stack; the screen keeps them bottom to top. */
+  public fromDrawingState(state: DrawingState): LayerStack {
+    return {
+      width: state.canvasWidth,
+      height: state.canvasHeight,
+      layers: [...state.layers].reverse(),
+    };
+  }
+
+  /** The drawing screen's state with the stack's layers in place of its own, the top one active. */
+  public toDrawingState(stack: LayerStack, base: DrawingState): DrawingState {
+    const layers = [...stack.layers].reverse().map((layer, order) => ({ ...layer, order }));
+
+    return {
+      ...base,
+      layers,
+      activeLayerId: layers[layers.length - 1]?.id || '',
+      strokes: layers.flatMap(layer => layer.strokes),
+      canvasWidth: stack.width,
+      canvasHeight: stack.height,
+      history: [],
+      historyIndex: 0,
+      stats: {
+        ...base.stats,
+        totalStrokes: layers.reduce((total, layer) => total + layer.strokes.length, 0),
+        layersUsed: layers.length,
+      },
+    };
+  }
+
+  // =================== OPENRASTER ===================
+
+  public exportOpenRaster(stack: LayerStack): Uint8Array {
+    const { width, height, layers } = stack;
+    const { images, merged } = this.render(stack);
+
+    const entries = layers.map((layer, i) => ({
+      name: `data/layer${i}.png`,
+      data: images.get(layer.id)!.encodeToBytes(ImageFormat.PNG),
+    }));
+
+    const stackXml = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<image version="0.0.5" w="${width}" h="${height}">`,
+      '  <stack>',
+      ...layers.map((layer, i) => '    <layer ' + [
+        `name="${escapeXml(layer.name)}"`,
+        `src="${entries[i].name}"`,
+        'x="0" y="0"',
+        `opacity="${Math.round(layer.opacity * 1000) / 1000}"`,
+        `visibility="${layer.visible ? 'visible' : 'hidden'}"`,
+        `composite-op="${ORA_COMPOSITE_OPS[layer.blendMode] || 'svg:src-over'}"`,
+      ].join(' ') + '/>'),
+      '  </stack>',
+      '</image>',
+      '',
+    ].join('\n');
+
+    return zipArchive.write([
+      // Must come first, uncompressed, so the file can be identified by its first bytes
+      { name: 'mimetype', data: utf8Bytes(ORA_MIMETYPE) },
+      { name: 'stack.xml', data: utf8Bytes(stackXml) },
+      ...entries,
+      { name: 'mergedimage.png', data: merged.encodeToBytes(ImageFormat.PNG) },
+      { name: 'Thumbnails/thumbnail.png', data: this.thumbnail(merged).encodeToBytes(ImageFormat.PNG) },
+    ]);
+  }
+
+  /** Reads an OpenRaster file into raster layers, their pixels kept as each layer's image. */
+  public readOpenRaster(bytes: Uint8Array): LayerStack {
+    const files = zipArchive.read(bytes);
+
+    const mimetype = files.get('mimetype');
+    if (!mimetype || utf8String(mimetype).trim() !== ORA_MIMETYPE) {
+      throw new Error('Not an OpenRaster file');
+    }
+
+    const stackXml = files.get('stack.xml');
+    if (!stackXml) {
+      throw new Error('Corrupt OpenRaster file: no stack.xml');
+    }
+
+    const stack = utf8String(stackXml);
+    const imageTag = stack.match(/<image\b[^>]*>/);
+    const image = imageTag ? parseAttributes(imageTag[0]) : {};
+    const width = parseInt(image.w, 10);
+    const height = parseInt(image.h, 10);
+    if (!(width > 0) || !(height > 0)) {
+      throw new Error('Corrupt OpenRaster file: no canvas size');
+    }
+
+    // Nested stacks are flattened; document order is already top first
+    const createdAt = Date.now();
+    const layers: Layer[] = (stack.match(/<layer\b[^>]*>/g) || []).map((tag, i) => {
+      const attributes = parseAttributes(tag);
+      const png = files.get(attributes.src);
+      if (!png) {
+        throw new Error(`Corrupt OpenRaster file: missing ${attributes.src}`);
+      }
+
+      const decoded = CompatSkia.Image.MakeFromEncoded(CompatSkia.Data.fromBytes(png));
+      if (!decoded) {
+        throw new Error(`Corrupt OpenRaster file: unreadable ${attributes.src}`);
+      }
+
+      const opacity = parseFloat(attributes.opacity);
+      return {
+        id: `layer_${createdAt}_${i}`,
+        name: attributes.name || `Layer ${i + 1}`,
+        type: 'raster' as const,
+        strokes: [],
+        opacity: isNaN(opacity) ? 1 : Math.min(1, Math.max(0, opacity)),
+        blendMode: blendModeFromCompositeOp(attributes['composite-op']),
+        visible: attributes.visibility !== 'hidden',
+        locked: false,
+        data: {
+          image: decoded,
+          x: parseInt(attributes.x, 10) || 0,
+          y: parseInt(attributes.y, 10) || 0,
+        },
+        order: i,
+      };
+    });
+
+    return { width, height, layers };
+  }
+
+  // =================== PHOTOSHOP ===================
+
+  public exportPsd(stack: LayerStack): Uint8Array {
+    const { width, height, layers } = stack;
+    const { images, merged } = this.render(stack);
+    const writer = new BigEndianWriter();
+    const planeSize = width * height;
+
+    // File header: RGB, 8 bits per channel, with alpha
+    writer.ascii('8BPS');
+    writer.uint16(1);
+    writer.zeros(6);
+    writer.uint16(4);
+    writer.uint32(height);
+    writer.uint32(width);
+    writer.uint16(8);
+    writer.uint16(3);
+
+    writer.uint32(0); // Color mode data
+    writer.uint32(0); // Image resources
+
+    // Photoshop lists layers bottom first
+    const bottomFirst = [...layers].reverse();
+    const pixels = bottomFirst.map(layer => this.readRgba(images.get(layer.id)!, width, height));
+
+    const layerInfo = new BigEndianWriter();
+    // A negative count says the merged image's alpha is its transparency
+    layerInfo.int16(-bottomFirst.length);
+
+    bottomFirst.forEach(layer => {
+      layerInfo.int32(0);
+      layerInfo.int32(0);
+      layerInfo.int32(height);
+      layerInfo.int32(width);
+
+      layerInfo.uint16(4);
+      [-1, 0, 1, 2].forEach(channelId => {
+        layerInfo.int16(channelId);
+        layerInfo.uint32(2 + planeSize); // Compression marker + raw plane
+      });
+
+      layerInfo.ascii('8BIM');
+      layerInfo.ascii(PSD_BLEND_KEYS[layer.blendMode] || 'norm');
+      layerInfo.uint8(Math.round(Math.min(1, Math.max(0, layer.opacity)) * 255));
+      layerInfo.uint8(0); // Clipping: base
+      layerInfo.uint8(layer.visible ? 0 : 0x02);
+      layerInfo.uint8(0);
+
+      const extra = new BigEndianWriter();
+      extra.uint32(0); // Layer mask
+      extra.uint32(0); // Blending ranges
+      extra.pascalString(layer.name, 4);
+      // Full Unicode name; the Pascal string above is a Latin-1 fallback
+      const name = layer.name;
+      extra.ascii('8BIM');
+      extra.ascii('luni');
+      extra.uint32(4 + name.length * 2 + (name.length % 2 === 0 ? 0 : 2));
+      extra.uint32(name.length);
+      for (let i = 0; i < name.length; i++) extra.uint16(name.charCodeAt(i));
+      extra.padTo(4);
+
+      layerInfo.uint32(extra.length);
+      layerInfo.bytes(extra.toBytes());
+    });
+
+    // Channel data in record order: alpha, red, green, blue per layer
+    pixels.forEach(rgba => {
+      [3, 0, 1, 2].forEach(offset => {
+        layerInfo.uint16(0); // Raw
+        layerInfo.bytes(plane(rgba, offset, planeSize));
+      });
+    });
+    layerInfo.padTo(2);
+
+    writer.uint32(4 + layerInfo.length + 4);
+    writer.uint32(layerInfo.length);
+    writer.bytes(layerInfo.toBytes());
+    writer.uint32(0); // Global layer mask
+
+    // Merged image, planar red, green, blue, alpha
+    const mergedRgba = this.readRgba(merged, width, height);
+    writer.uint16(0);
+    [0, 1, 2, 3].forEach(offset => writer.bytes(plane(mergedRgba, offset, planeSize)));
+
+    return writer.toBytes();
+  }
+
+  // =================== PIXELS ===================
+
+  private render(stack: LayerStack): RenderedLayers {
+    const rendered = layerManager.renderLayers(stack.layers, stack.width, stack.height);
+    if (!rendered) {
+      throw new Error(`Could not render a ${stack.width}x${stack.height} canvas`);
+    }
+    return rendered;
+  }
+
+  private readRgba(image: SkImage, width: number, height: number): Uint8Array {
+    const pixels = image.readPixels(0, 0, {
+      width,
+      height,
+      colorType: ColorType.RGBA_8888,
+      alphaType: AlphaType.Unpremul,
+    });
+    if (!(pixels instanceof Uint8Array)) {
+      throw new Error('Could not read layer pixels');
+    }
+    return pixels;
+  }
+
+  private thumbnail(image: SkImage): SkImage {
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(image.width(), image.height()));
+    if (scale === 1) return image;
+
+    const width = Math.max(1, Math.round(image.width() * scale));
+    const height = Math.max(1, Math.round(image.height() * scale));
+    const surface = CompatSkia.Surface.Make(width, height);
+    if (!surface) return image;
+
+    surface.getCanvas().drawImageRect(
+      image,
+      CompatSkia.XYWHRect(0, 0, image.width(), image.height()),
+      CompatSkia.XYWHRect(0, 0, width, height),
+      CompatSkia.Paint()
+    );
+    return surface.makeImageSnapshot();
+  }
+}
+
+// =================== HELPERS ===================
+
+// Big-endian, as Photoshop files are
+class BigEndianWriter {
+  private chunks: Uint8Array[] = [];
+  public length = 0;
+
+  public bytes(data: Uint8Array): void {
+    this.chunks.push(data);
+    this.length += data.length;
+  }
+
+  public uint8(value: number): void {
+    this.bytes(new Uint8Array([value & 0xff]));
+  }
+
+  public uint16(value: number): void {
+    this.bytes(new Uint8Array([(value >> 8) & 0xff, value & 0xff]));
+  }
+
+  public int16(value: number): void {
+    this.uint16(value & 0xffff);
+  }
+
+  public uint32(value: number): void {
+    this.bytes(new Uint8Array([(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff]));
+  }
+
+  public int32(value: number): void {
+    this.uint32(value >>> 0);
+  }
+
+  public ascii(text: string): void {
+    this.bytes(new Uint8Array(Array.from(text, char => char.charCodeAt(0) & 0xff)));
+  }
+
+  public zeros(count: number): void {
+    this.bytes(new Uint8Array(count));
+  }
+
+  public padTo(multiple: number): void {
+    const remainder = this.length % multiple;
+    if (remainder) this.zeros(multiple - remainder);
+  }
+
+  // Length byte plus up to 255 Latin-1 characters, padded with the length byte to `multiple`
+  public pascalString(text: string, multiple: number): void {
+    const latin1 = Array.from(text, char => (char.charCodeAt(0) < 256 ? char : '?')).join('').slice(0, 255);
+    const start = this.length;
+    this.uint8(latin1.length);
+    this.ascii(latin1);
+    const remainder = (this.length - start) % multiple;
+    if (remainder) this.zeros(multiple - remainder);
+  }
+
+  public toBytes(): Uint8Array {
+    const output = new Uint8Array(this.length);
+    let position = 0;
+    for (const chunk of this.chunks) {
+      output.set(chunk, position);
+      position += chunk.length;
+    }
+    return output;
+  }
+}
+
+// One channel of interleaved RGBA pixels
+function plane(rgba: Uint8Array, offset: number, size: number): Uint8Array {
+  const channel = new Uint8Array(size);
+  for (let i = 0; i < size; i++) {
+    channel[i] = rgba[i * 4 + offset];
+  }
+  return channel;
+}
+
+function blendModeFromCompositeOp(op: string | undefined): string {
+  const match = Object.keys(ORA_COMPOSITE_OPS).find(mode => ORA_COMPOSITE_OPS[mode] === op);
+  return match || 'normal';
+}
+
+function parseAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(tag))) {
+    attributes[match[1]] = unescapeXml(match[2] ?? match[3]);
+  }
+  return attributes;
+}
+
+function escapeXml(text: string): string {
+  return String(text)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function unescapeXml(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, decimal) => String.fromCodePoint(parseInt(decimal, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+// Export singleton
+export const layeredExporter = LayeredExporter.getInstance();
@@ -0,0 +1,514 @@
+// src/engines/drawing/PikasoFormat.ts - .PIKASO DOCUMENT FORMAT
+
+import { CanvasSettings, Color, DrawingState, Layer, Point, Stroke } from '../../types';
+import { LayerGroup, ClippingMask } from './LayerManager';
+
+/**
+ * .PIKASO DOCUMENT FORMAT
+ *
+ * One drawing per file - layers, strokes with pressure and tilt, layer
+ * groups, clipping masks, palettes and canvas settings. Little-endian:
+ *
+ *   offset   size  field
+ *   0        4     magic "PKSO"
+ *   4        2     format version (uint16)
+ *   6        4     manifest length n in bytes (uint32)
+ *   10       n     manifest - JSON, ASCII only (other characters \u-escaped)
+ *   10 + n   ...   point data
+ *
+ * The manifest is the PikasoDocument with each stroke's `points` replaced
+ * by `pointData: { offset, byteLength, count, channels }`, pointing into the
+ * point data. Points are stored one after another, channel by channel:
+ *
+ *   x, y       always        1/100 px
+ *   timestamp  always        1 ms
+ *   pressure   channels & 1  1/1000
+ *   tiltX      channels & 2  1/1000 rad
+ *   tiltY      channels & 4  1/1000 rad
+ *
+ * Each value is rounded to its step, stored as the difference from the same
+ * channel of the previous point (the first point from 0), zigzag-encoded and
+ * written as an unsigned LEB128 varint. Optional channels are kept only
+ * when every point in the stroke has them.
+ *
+ * Files from older format versions are upgraded on read by MIGRATIONS, one
+ * version at a time; files from newer versions are refused. Version 0 is
+ * the raw JSON drawings used to be stored as in AsyncStorage.
+ */
+
+export const PIKASO_FORMAT_VERSION = 1;
+export const PIKASO_FILE_EXTENSION = '.pikaso';
+
+export interface PikasoDocument {
+  id: string;
+  title: string;
+  createdAt: number;
+  modifiedAt: number;
+  canvas: {
+    width: number;
+    height: number;
+    settings: Partial<CanvasSettings>;
+  };
+  layers: Layer[]; // Bottom to top; runtime layer `data` and stroke `path` aren't stored
+  activeLayerId: string;
+  groups: LayerGroup[];
+  clippingMasks: ClippingMask[];
+  palettes: Color[][];
+  recentColors: string[];
+  metadata: Record<string, unknown>; // App data, e.g. the lesson a drawing was made in
+}
+
+// Where a stroke's points sit in the point data
+interface PointDataRef {
+  offset: number;
+  byteLength: number;
+  count: number;
+  channels: number;
+}
+
+const MAGIC = [0x50, 0x4b, 0x53, 0x4f]; // "PKSO"
+const HEADER_SIZE = 10;
+const POSITION_SCALE = 100;
+const OPTIONAL_CHANNELS: Array<{ key: 'pressure' | 'tiltX' | 'tiltY'; flag: number; scale: number }> = [
+  { key: 'pressure', flag: 1, scale: 1000 },
+  { key: 'tiltX', flag: 2, scale: 1000 },
+  { key: 'tiltY', flag: 4, scale: 1000 },
+];
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const BASE64_INDEX: Record<string, number> = Object.fromEntries(BASE64_ALPHABET.split('').map((char, i) => [char, i]));
+const DEFAULT_CANVAS_WIDTH = 1024;
+const DEFAULT_CANVAS_HEIGHT = 768;
+
+// =================== MIGRATIONS ===================
+
+// MIGRATIONS[n] upgrades a version n document to version n + 1
+const MIGRATIONS: Record<number, (document: any) => any> = {
+  // Legacy AsyncStorage JSON: a DrawingState, or { lessonId, contentId, strokes } saved by lessons
+  0: legacy => {
+    const layers: Layer[] = Array.isArray(legacy.layers) && legacy.layers.length > 0
+      ? legacy.layers.map((layer: Layer) => ({ ...layer, strokes: (layer.strokes || []).map(toStroke), data: {} }))
+      : [strokesLayer(legacy.strokes || [])];
+    const bounds = strokeBounds(layers.flatMap(layer => layer.strokes));
+    const timestamp = legacy.timestamp || Date.now();
+
+    return {
+      id: legacy.id,
+      title: legacy.title || 'Untitled',
+      createdAt: timestamp,
+      modifiedAt: timestamp,
+      canvas: {
+        width: legacy.canvasWidth || bounds.width,
+        height: legacy.canvasHeight || bounds.height,
+        settings: legacy.settings || {},
+      },
+      layers,
+      activeLayerId: legacy.activeLayerId || layers[layers.length - 1].id,
+      groups: [],
+      clippingMasks: [],
+      palettes: legacy.savedPalettes || [],
+      recentColors: legacy.recentColors || [],
+      metadata: legacy.lessonId ? { lessonId: legacy.lessonId, contentId: legacy.contentId } : {},
+    };
+  },
+};
+
+export class PikasoFormat {
+  private static instance: PikasoFormat;
+
+  private constructor() {
+    // Private constructor for singleton
+  }
+
+  public static getInstance(): PikasoFormat {
+    if (!PikasoFormat.instance) {
+      PikasoFormat.instance = new PikasoFormat();
+    }
+    return PikasoFormat.instance;
+  }
+
+  // =================== BUILDING ===================
+
+  /** The drawing screen's state as a document; groups and masks not on its layers are dropped. */
+  public fromDrawingState(
+    state: DrawingState,
+    options: {
+      id: string;
+      title: string;
+      createdAt?: number;
+      groups?: LayerGroup[];
+      clippingMasks?: ClippingMask[];
+      metadata?: Record<string, unknown>;
+    }
+  ): PikasoDocument {
+    const layerIds = new Set(state.layers.map(layer => layer.id));
+    const now = Date.now();
+
+    return {
+      id: options.id,
+      title: options.title,
+      createdAt: options.createdAt ?? now,
+      modifiedAt: now,
+      canvas: {
+        width: state.canvasWidth,
+        height: state.canvasHeight,
+        settings: state.settings,
+      },
+      layers: [...state.layers].sort((a, b) => a.order - b.order),
+      activeLayerId: state.activeLayerId,
+      groups: (options.groups || [])
+        .map(group => ({ ...group, layerIds: group.layerIds.filter(id => layerIds.has(id)) }))
+        .filter(group => group.layerIds.length > 0),
+      clippingMasks: (options.clippingMasks || [])
+        .filter(mask => layerIds.has(mask.maskLayerId))
+        .map(mask => ({ ...mask, clippedLayerIds: mask.clippedLayerIds.filter(id => layerIds.has(id)) }))
+        .filter(mask => mask.clippedLayerIds.length > 0),
+      palettes: state.savedPalettes,
+      recentColors: state.recentColors,
+      metadata: options.metadata || {},
+    };
+  }
+
+  /**
+   * A one-layer document for strokes drawn outside the drawing screen, such
+   * as in a lesson, where the canvas keeps each stroke's points as `path`.
+   */
+  public fromStrokes(
+    strokes: any[],
+    options: { id: string; title: string; metadata?: Record<string, unknown> }
+  ): PikasoDocument {
+    const layer = strokesLayer(strokes);
+    const bounds = strokeBounds(layer.strokes);
+    const now = Date.now();
+
+    return {
+      id: options.id,
+      title: options.title,
+      createdAt: now,
+      modifiedAt: now,
+      canvas: { width: bounds.width, height: bounds.height, settings: {} },
+      layers: [layer],
+      activeLayerId: layer.id,
+      groups: [],
+      clippingMasks: [],
+      palettes: [],
+      recentColors: [],
+      metadata: options.metadata || {},
+    };
+  }
+
+  /** `base` with the document's drawing in place of its own; history starts fresh. */
+  public toDrawingState(document: PikasoDocument, base: DrawingState): DrawingState {
+    return {
+      ...base,
+      layers: document.layers.map((layer, order) => ({ ...layer, order })),
+      activeLayerId: document.activeLayerId,
+      strokes: document.layers.flatMap(layer => layer.strokes),
+      canvasWidth: document.canvas.width,
+      canvasHeight: document.canvas.height,
+      settings: { ...base.settings, ...document.canvas.settings },
+      recentColors: document.recentColors.length > 0 ? document.recentColors : base.recentColors,
+      savedPalettes: document.palettes,
+      history: [],
+      historyIndex: 0,
+      stats: {
+        ...base.stats,
+        totalStrokes: document.layers.reduce((total, layer) => total + layer.strokes.length, 0),
+        layersUsed: document.layers.length,
+      },
+    };
+  }
+
+  // =================== ENCODING ===================
+
+  public encode(document: PikasoDocument): Uint8Array {
+    const points = new ByteWriter();
+
+    const manifest = {
+      ...document,
+      layers: document.layers.map(({ data, ...layer }) => ({
+        ...layer,
+        strokes: layer.strokes.map(({ points: strokePoints, path, ...stroke }) => ({
+          ...stroke,
+          pointData: this.packPoints(strokePoints, points),
+        })),
+      })),
+    };
+
+    const manifestBytes = asciiBytes(
+      JSON.stringify(manifest).replace(/[\u0080-\uffff]/g, char => '\\u' + char.charCodeAt(0).toString(16).padStart(4, '0'))
+    );
+    const pointBytes = points.toBytes();
+
+    const bytes = new Uint8Array(HEADER_SIZE + manifestBytes.length + pointBytes.length);
+    const view = new DataView(bytes.buffer);
+    bytes.set(MAGIC, 0);
+    view.setUint16(4, PIKASO_FORMAT_VERSION, true);
+    view.setUint32(6, manifestBytes.length, true);
+    bytes.set(manifestBytes, HEADER_SIZE);
+    bytes.set(pointBytes, HEADER_SIZE + manifestBytes.length);
+
+    return bytes;
+  }
+
+  private packPoints(points: Point[], writer: ByteWriter): PointDataRef {
+    const offset = writer.length;
+    const channels = OPTIONAL_CHANNELS
+      .filter(channel => points.length > 0 && points.every(point => typeof point[channel.key] === 'number'))
+      .reduce((flags, channel) => flags | channel.flag, 0);
+    const included = OPTIONAL_CHANNELS.filter(channel => channels & channel.flag);
+
+    let previous = [0, 0, 0, ...included.map(() => 0)];
+    points.forEach(point => {
+      const values = [
+        Math.round(point.x * POSITION_SCALE),
+        Math.round(point.y * POSITION_SCALE),
+        Math.round(point.timestamp || 0),
+        ...included.map(channel => Math.round(point[channel.key]! * channel.scale)),
+      ];
+      values.forEach((value, i) => writer.varint(zigzag(value - previous[i])));
+      previous = values;
+    });
+
+    return { offset, byteLength: writer.length - offset, count: points.length, channels };
+  }
+
+  // =================== DECODING ===================
+
+  public decode(bytes: Uint8Array): PikasoDocument {
+    if (bytes.length < HEADER_SIZE || MAGIC.some((byte, i) => bytes[i] !== byte)) {
+      throw new Error('Not a .pikaso file');
+    }
+
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const version = view.getUint16(4, true);
+    if (version > PIKASO_FORMAT_VERSION) {
+      throw new Error(`This drawing was saved by a newer version of Pikaso (format ${version}) - update the app to open it`);
+    }
+
+    const manifestLength = view.getUint32(6, true);
+    if (HEADER_SIZE + manifestLength > bytes.length) {
+      throw new Error('Corrupt .pikaso file: manifest runs past the end of the file');
+    }
+
+    const manifest = JSON.parse(asciiString(bytes.subarray(HEADER_SIZE, HEADER_SIZE + manifestLength)));
+    if (!Array.isArray(manifest?.layers)) {
+      throw new Error('Corrupt .pikaso file: manifest has no layers');
+    }
+
+    // Every version so far shares the point encoding, so points are
+    // unpacked first and migrations see whole documents
+    const pointBytes = bytes.subarray(HEADER_SIZE + manifestLength);
+    manifest.layers = manifest.layers.map((layer: any) => ({
+      ...layer,
+      data: {},
+      strokes: (layer.strokes || []).map(({ pointData, ...stroke }: any) => ({
+        ...stroke,
+        points: this.unpackPoints(pointData, pointBytes),
+      })),
+    }));
+
+    return this.migrate(manifest, version);
+  }
+
+  private unpackPoints(ref: PointDataRef, bytes: Uint8Array): Point[] {
+    if (!ref || ref.offset + ref.byteLength > bytes.length) {
+      throw new Error('Corrupt .pikaso file: stroke points run past the end of the file');
+    }
+
+    const reader = new ByteReader(bytes.subarray(ref.offset, ref.offset + ref.byteLength));
+    const included = OPTIONAL_CHANNELS.filter(channel => ref.channels & channel.flag);
+    const previous = [0, 0, 0, ...included.map(() => 0)];
+    const points: Point[] = [];
+
+    for (let n = 0; n < ref.count; n++) {
+      for (let i = 0; i < previous.length; i++) {
+        previous[i] += unzigzag(reader.varint());
+      }
+
+      const point: Point = {
+        x: previous[0] / POSITION_SCALE,
+        y: previous[1] / POSITION_SCALE,
+        timestamp: previous[2],
+      };
+      included.forEach((channel, i) => {
+        point[channel.key] = previous[3 + i] / channel.scale;
+      });
+      points.push(point);
+    }
+
+    return points;
+  }
+
+  // =================== MIGRATION ===================
+
+  /** Upgrades a document from `fromVersion` to the current format version. */
+  public migrate(document: any, fromVersion: number): PikasoDocument {
+    let migrated = document;
+    for (let version = fromVersion; version < PIKASO_FORMAT_VERSION; version++) {
+      const migration = MIGRATIONS[version];
+      if (!migration) {
+        throw new Error(`No migration from .pikaso format ${version} to ${version + 1}`);
+      }
+      migrated = migration(migrated);
+    }
+    return migrated;
+  }
+
+  /** A drawing saved as raw JSON before the format existed, as a document. */
+  public fromLegacy(id: string, legacy: any): PikasoDocument {
+    return this.migrate({ ...legacy, id }, 0);
+  }
+
+  // =================== BASE64 ===================
+
+  // expo-file-system reads and writes binary files as base64
+  public toBase64(bytes: Uint8Array): string {
+    let base64 = '';
+    for (let i = 0; i < bytes.length; i += 3) {
+      const chunk = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+      base64 += BASE64_ALPHABET[chunk >> 18] + BASE64_ALPHABET[(chunk >> 12) & 63] +
+        (i + 1 < bytes.length ? BASE64_ALPHABET[(chunk >> 6) & 63] : '=') +
+        (i + 2 < bytes.length ? BASE64_ALPHABET[chunk & 63] : '=');
+    }
+    return base64;
+  }
+
+  public fromBase64(base64: string): Uint8Array {
+    const clean = base64.replace(/[^A-Za-z0-9+/]/g, '');
+    const bytes = new Uint8Array(Math.floor((clean.length * 3) / 4));
+    let length = 0;
+    for (let i = 0; i < clean.length; i += 4) {
+      const chunk = [0, 1, 2, 3].reduce((value, j) => (value << 6) | (BASE64_INDEX[clean[i + j]] ?? 0), 0);
+      bytes[length++] = chunk >> 16;
+      if (i + 2 < clean.length) bytes[length++] = (chunk >> 8) & 255;
+      if (i + 3 < clean.length) bytes[length++] = chunk & 255;
+    }
+    return bytes.subarray(0, length);
+  }
+}
+
+// =================== HELPERS ===================
+
+function strokesLayer(strokes: any[]): Layer {
+  return {
+    id: 'layer_1',
+    name: 'Layer 1',
+    type: 'raster',
+    strokes: strokes.map(toStroke),
+    opacity: 1,
+    blendMode: 'normal',
+    visible: true,
+    locked: false,
+    data: {},
+    order: 0,
+  };
+}
+
+// Lesson canvases draw `{ path, color, size, tool, opacity }`, with the
+// points in `path`; anything else a stroke lacks gets the drawing defaults
+function toStroke(raw: any, index: number): Stroke {
+  const source = Array.isArray(raw?.points) ? raw.points : Array.isArray(raw?.path) ? raw.path : [];
+  const points: Point[] = source
+    .filter((point: any) => point && Number.isFinite(point.x) && Number.isFinite(point.y))
+    .map((point: any) => ({ ...point, timestamp: Number.isFinite(point.timestamp) ? point.timestamp : 0 }));
+
+  const { path, tool, ...stroke } = raw || {};
+  return {
+    ...stroke,
+    id: raw?.id || `stroke_${index + 1}`,
+    points,
+    color: raw?.color || '#000000',
+    brushId: raw?.brushId || tool || 'default',
+    size: typeof raw?.size === 'number' ? raw.size : 10,
+    opacity: typeof raw?.opacity === 'number' ? raw.opacity : 1,
+    blendMode: raw?.blendMode || 'normal',
+    smoothing: typeof raw?.smoothing === 'number' ? raw.smoothing : 0,
+  };
+}
+
+// The canvas a set of strokes needs, never smaller than the default canvas
+function strokeBounds(strokes: Stroke[]): { width: number; height: number } {
+  let width = DEFAULT_CANVAS_WIDTH;
+  let height = DEFAULT_CANVAS_HEIGHT;
+  strokes.forEach(stroke => (stroke.points || []).forEach(point => {
+    width = Math.max(width, Math.ceil(point.x));
+    height = Math.max(height, Math.ceil(point.y));
+  }));
+  return { width, height };
+}
+
+function zigzag(value: number): number {
+  return value >= 0 ? value * 2 : -value * 2 - 1;
+}
+
+function unzigzag(value: number): number {
+  return value % 2 === 0 ? value / 2 : -(value + 1) / 2;
+}
+
+// Byte strings, one char per byte - the manifest is ASCII so this round-trips
+function asciiString(bytes: Uint8Array): string {
+  let result = '';
+  for (let i = 0; i < bytes.length; i += 8192) {
+    result += String.fromCharCode(...bytes.subarray(i, i + 8192));
+  }
+  return result;
+}
+
+function asciiBytes(text: string): Uint8Array {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) {
+    bytes[i] = text.charCodeAt(i);
+  }
+  return bytes;
+}
+
+// Growable buffer; varints use arithmetic rather than bit operations so
+// millisecond timestamps beyond 32 bits survive
+class ByteWriter {
+  private buffer = new Uint8Array(1024);
+  public length = 0;
+
+  public varint(value: number): void {
+    while (value >= 0x80) {
+      this.byte((value % 0x80) + 0x80);
+      value = Math.floor(value / 0x80);
+    }
+    this.byte(value);
+  }
+
+  public toBytes(): Uint8Array {
+    return this.buffer.slice(0, this.length);
+  }
+
+  private byte(value: number): void {
+    if (this.length === this.buffer.length) {
+      const grown = new Uint8Array(this.buffer.length * 2);
+      grown.set(this.buffer);
+      this.buffer = grown;
+    }
+    this.buffer[this.length++] = value;
+  }
+}
+
+class ByteReader {
+  private position = 0;
+
+  constructor(private bytes: Uint8Array) {}
+
+  public varint(): number {
+    let value = 0;
+    let multiplier = 1;
+    for (;;) {
+      if (this.position >= this.bytes.length) {
+        throw new Error('Corrupt .pikaso file: stroke points end mid-value');
+      }
+      const byte = this.bytes[this.position++];
+      value += (byte % 0x80) * multiplier;
+      if (byte < 0x80) return value;
+      multiplier *= 0x80;
+    }
+  }
+}
+
+// Export singleton
+export const pikasoFormat = PikasoFormat.getInstance();
@@ -32,6 +32,7 @@ import { GestureHandlerRootView } from 'react-native-gesture-handler';
 interface ProfessionalCanvasProps {
   width?: number;
   height?: number;
+  initialStrokes?: any[]; // Strokes to show on mount, e.g. a restored drawing
   onStrokeAdded?: (stroke: any) => void;
   onDrawingStateChange?: (isDrawing: boolean) => void;
   disabled?: boolean;
@@ -40,12 +41,32 @@ interface ProfessionalCanvasProps {
   brushSize?: number;
   opacity?: number;
   showDebugInfo?: boolean;
+  highlightedStrokes?: number[]; // Stroke indices to draw in the highlight color
+  highlightColor?: string;
+  guidePaths?: CanvasGuidePath[]; // Non-interactive guides drawn under the strokes
+  ghostPaths?: CanvasGuidePath[]; // Smoothed, non-interactive strokes over the guides, e.g. a demonstration
   style?: any;
 }
 
+export interface CanvasGuidePath {
+  points: Array<{ x: number; y: number }>;
+  color?: string;
+  opacity?: number;
+  width?: number;
+}
+
+// Force is 0 on screens without pressure sensing - leave pressure unset there
+const createPoint = (touch: TouchInfo) => ({
+  x: touch.x,
+  y: touch.y,
+  timestamp: Date.now(),
+  ...(touch.force > 0 ? { pressure: touch.force } : {}),
+});
+
 export const ProfessionalCanvas: React.FC<ProfessionalCanvasProps> = ({
   width: propWidth,
   height: propHeight,
+  initialStrokes = [],
   onStrokeAdded,
   onDrawingStateChange,
   disabled = false,
@@ -54,6 +75,10 @@ export const ProfessionalCanvas: React.FC<ProfessionalCanvasProps> = ({
   brushSize = 10,
   opacity = 1,
   showDebugInfo = false,
+  highlightedStrokes = [],
+  highlightColor = '#FF3B30',
+  guidePaths = [],
+  ghostPaths = [],
   style,
 }) => {
   const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
@@ -61,7 +86,7 @@ export const ProfessionalCanvas: React.FC<ProfessionalCanvasProps> = ({
   const height = propHeight || screenHeight - 200;
 
   // Canvas state
-  const [paths, setPaths] = useState<any[]>([]);
+  const [paths, setPaths] = useState<any[]>(initialStrokes);
   const [currentPath, setCurrentPath] = useState<any[]>([]);
   const [isDrawing, setIsDrawing] = useState(false);
   
@@ -88,7 +113,7 @@ export const ProfessionalCanvas: React.FC<ProfessionalCanvasProps> = ({
       if (disabled) return;
       
       runOnJS(() => {
-        const newPath = [{ x: touch.x, y: touch.y }];
+        const newPath = [createPoint(touch)];
         pathRef.current = newPath;
         setCurrentPath(newPath);
         setIsDrawing(true);
@@ -100,7 +125,7 @@ export const ProfessionalCanvas: React.FC<ProfessionalCanvasProps> = ({
       if (disabled || !isDrawing) return;
       
       runOnJS(() => {
-        const updatedPath = [...pathRef.current, { x: touch.x, y: touch.y }];
+        const updatedPath = [...pathRef.current, createPoint(touch)];
         pathRef.current = updatedPath;
         setCurrentPath(updatedPath);
       })();
@@ -147,6 +172,19 @@ export const ProfessionalCanvas: React.FC<ProfessionalCanvasProps> = ({
     return path;
   }, []);
 
+  // Straight segments for guides - they are already densely sampled
+  const createLinePath = useCallback((points: Array<{ x: number; y: number }>) => {
+    if (points.length < 2) return null;
+
+    const path = Skia.Path.Make();
+    path.moveTo(points[0].x, points[0].y);
+    for (let i = 1; i < points.length; i++) {
+      path.lineTo(points[i].x, points[i].y);
+    }
+
+    return path;
+  }, []);
+
   // Clear canvas
   const clear = useCallback(() => {
     setPaths([]);
@@ -174,13 +212,60 @@ export const ProfessionalCanvas: React.FC<ProfessionalCanvasProps> = ({
           style={{ flex: 1 }}
           onTouch={touchHandler}
         >
+          {/* Render guides */}
+          {guidePaths.map((guide, index) => {
+            const path = createLinePath(guide.points);
+            if (!path) return null;
+
+            const guidePaint = Skia.Paint();
+            guidePaint.setColor(Skia.Color(guide.color || '#8E8E93'));
+            guidePaint.setStrokeWidth(guide.width || 3);
+            guidePaint.setAlphaf(guide.opacity ?? 0.4);
+            guidePaint.setAntiAlias(true);
+            guidePaint.setStyle(1); // Stroke
+            guidePaint.setStrokeCap(1); // Round
+
+            return (
+              <Path
+                key={`guide-${index}`}
+                path={path}
+                paint={guidePaint}
+              />
+            );
+          })}
+
+          {/* Render ghost layer */}
+          {ghostPaths.map((ghost, index) => {
+            const path = createPath(ghost.points);
+            if (!path) return null;
+
+            const ghostPaint = Skia.Paint();
+            ghostPaint.setColor(Skia.Color(ghost.color || '#007AFF'));
+            ghostPaint.setStrokeWidth(ghost.width || 5);
+            ghostPaint.setAlphaf(ghost.opacity ?? 0.35);
+            ghostPaint.setAntiAlias(true);
+            ghostPaint.setStyle(1); // Stroke
+            ghostPaint.setStrokeCap(1); // Round
+            ghostPaint.setStrokeJoin(1); // Round
+
+            return (
+              <Path
+                key={`ghost-${index}`}
+                path={path}
+                paint={ghostPaint}
+              />
+            );
+          })}
+
           {/* Render completed strokes */}
           {paths.map((stroke, index) => {
             const path = createPath(stroke.path);
             if (!path) return null;
             
             const strokePaint = Skia.Paint();
-            strokePaint.setColor(Skia.Color(stroke.color));
+            strokePaint.setColor(Skia.Color(
+              highlightedStrokes.includes(index) ? highlightColor : stroke.color
+            ));
             strokePaint.setStrokeWidth(stroke.size);
             strokePaint.setAlphaf(stroke.opacity);
             strokePaint.setAntiAlias(true);
@@ -34,6 +34,7 @@ import {
   AlphaType,
   FilterMode,
   MipmapMode,
+  ImageFormat,
 } from '@shopify/react-native-skia';
 import { Platform } from 'react-native';
 
@@ -64,6 +65,7 @@ export {
   AlphaType,
   FilterMode,
   MipmapMode,
+  ImageFormat,
 };
 
 // ===== ENTERPRISE ERROR HANDLING =====
@@ -680,6 +682,8 @@ export class SkiaCompatibility {
   }
 
   private static validateColor(color: string): boolean {
+    // Surfaces are cleared with it
+    if (color === 'transparent') return true;
     if (!color.startsWith('#')) return false;
     const hex = color.slice(1);
     return /^[0-9A-Fa-f]{6}$/.test(hex) || /^[0-9A-Fa-f]{8}$/.test(hex);
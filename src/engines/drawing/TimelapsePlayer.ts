@@ -0,0 +1,450 @@
+// src/engines/drawing/TimelapsePlayer.ts - TIME-LAPSE PLAYBACK
+
+import { Layer, Stroke } from '../../types';
+import { EventBus } from '../core/EventBus';
+import { applyCommand, COALESCE_WINDOW_MS } from './CommandHistory';
+import { documentStore } from './DocumentStore';
+import { PikasoDocument } from './PikasoFormat';
+import { CompatSkia, Skia, ImageFormat } from './SkiaCompatibility';
+import { svgExporter } from './SvgExporter';
+import { TimelapseEvent, TimelapseRecording, TimelapseToolState } from './TimelapseRecorder';
+
+/**
+ * TIME-LAPSE PLAYER
+ *
+ * Replays a recording stroke by stroke, drawing each stroke point by point
+ * at the pace it was drawn:
+ * - Speed scales the whole replay; at 4 a ten-minute drawing plays in 2.5
+ *   minutes, before compression
+ * - Idle compression shortens every pause - between strokes or mid-stroke -
+ *   to at most `maxIdleMs`, so time spent thinking doesn't play as a still
+ * - Undo and redo step back and forth over strokes, clears and layer
+ *   changes, as they did while drawing
+ * - Frames can be exported as a numbered PNG or SVG sequence for video tools
+ * Times passed in and out are playback milliseconds, after speed and
+ * compression.
+ */
+
+export interface TimelapsePlaybackOptions {
+  speed?: number;
+  maxIdleMs?: number;
+}
+
+export interface TimelapseFrame {
+  time: number; // Playback milliseconds
+  progress: number; // 0 to 1
+  canvas: { width: number; height: number };
+  layers: Layer[]; // Bottom to top, including the stroke being drawn
+  activeLayerId: string;
+  tool: TimelapseToolState;
+}
+
+export interface TimelapseFrameExportOptions {
+  fps?: number;
+  format?: 'png' | 'svg';
+  background?: string;
+}
+
+// Where an event sits on the compressed timeline, before speed
+interface TimelineEntry {
+  event: TimelapseEvent;
+  start: number;
+  end: number;
+  pointOffsets?: number[]; // Strokes only: each point's time after `start`
+}
+
+const DEFAULT_MAX_IDLE_MS = 1000;
+const MIN_MAX_IDLE_MS = 50; // Lower would flatten the gaps between a stroke's own points
+const DEFAULT_FPS = 30;
+const FALLBACK_POINT_INTERVAL_MS = 8; // Points without usable timestamps, at ~120 Hz
+const MIN_SPEED = 0.1;
+const MAX_SPEED = 64;
+
+export class TimelapsePlayer {
+  private static instance: TimelapsePlayer;
+  private eventBus = EventBus.getInstance();
+
+  private recording: TimelapseRecording | null = null;
+  private timeline: TimelineEntry[] = [];
+  private timelineDuration = 0;
+  private speed = 1;
+  private maxIdleMs = DEFAULT_MAX_IDLE_MS;
+
+  // Replay state up to `applied` entries, so playing forward doesn't start over each frame
+  private state: ReplayState | null = null;
+  private applied = 0;
+
+  private position = 0; // Timeline milliseconds
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private lastTick = 0;
+
+  private constructor() {
+    // Private constructor for singleton
+  }
+
+  public static getInstance(): TimelapsePlayer {
+    if (!TimelapsePlayer.instance) {
+      TimelapsePlayer.instance = new TimelapsePlayer();
+    }
+    return TimelapsePlayer.instance;
+  }
+
+  // =================== LOADING ===================
+
+  public load(recording: TimelapseRecording, options: TimelapsePlaybackOptions = {}): void {
+    this.pause();
+    this.recording = recording;
+    this.speed = clampSpeed(options.speed ?? 1);
+    this.maxIdleMs = Math.max(MIN_MAX_IDLE_MS, options.maxIdleMs ?? DEFAULT_MAX_IDLE_MS);
+    this.buildTimeline();
+    this.position = 0;
+  }
+
+  public unload(): void {
+    this.pause();
+    this.recording = null;
+    this.timeline = [];
+    this.timelineDuration = 0;
+    this.state = null;
+    this.applied = 0;
+    this.position = 0;
+  }
+
+  /** Playback length in milliseconds at the current speed. */
+  public getDuration(): number {
+    return this.timelineDuration / this.speed;
+  }
+
+  public getSpeed(): number {
+    return this.speed;
+  }
+
+  public setSpeed(speed: number): void {
+    this.speed = clampSpeed(speed);
+  }
+
+  /** Changes idle compression, keeping the playhead at the same point in the drawing. */
+  public setMaxIdle(maxIdleMs: number): void {
+    const progress = this.timelineDuration > 0 ? this.position / this.timelineDuration : 0;
+    this.maxIdleMs = Math.max(MIN_MAX_IDLE_MS, maxIdleMs);
+    this.buildTimeline();
+    this.position = progress * this.timelineDuration;
+  }
+
+  private buildTimeline(): void {
+    this.timeline = [];
+    this.state = null;
+    this.applied = 0;
+    if (!this.recording) return;
+
+    let cursor = 0; // Compressed
+    let lastRealEnd = 0;
+
+    [...this.recording.events]
+      .sort((a, b) => a.time - b.time)
+      .forEach(event => {
+        const realOffsets = event.type === 'stroke' ? realPointOffsets(event.stroke) : [0];
+        const realDuration = realOffsets[realOffsets.length - 1];
+        // Strokes are recorded as they finish; they began their drawing time earlier
+        const realStart = Math.max(lastRealEnd, event.time - realDuration);
+
+        const start = cursor + Math.min(realStart - lastRealEnd, this.maxIdleMs);
+        const pointOffsets = this.compress(realOffsets);
+        const end = start + pointOffsets[pointOffsets.length - 1];
+
+        this.timeline.push({ event, start, end, ...(event.type === 'stroke' ? { pointOffsets } : {}) });
+        cursor = end;
+        lastRealEnd = Math.max(lastRealEnd, realStart + realDuration);
+      });
+
+    this.timelineDuration = cursor;
+  }
+
+  // Shortens each pause between points to the idle limit
+  private compress(offsets: number[]): number[] {
+    let total = 0;
+    return offsets.map((offset, i) => {
+      if (i > 0) total += Math.min(offset - offsets[i - 1], this.maxIdleMs);
+      return total;
+    });
+  }
+
+  // =================== FRAMES ===================
+
+  /** The drawing as it stands `time` playback milliseconds in. */
+  public getFrame(time: number): TimelapseFrame {
+    if (!this.recording) {
+      throw new Error('No time-lapse loaded');
+    }
+
+    const position = Math.min(Math.max(0, time * this.speed), this.timelineDuration);
+
+    // Seeking backwards replays from the start
+    if (!this.state || (this.applied > 0 && this.timeline[this.applied - 1].end > position)) {
+      this.state = new ReplayState(this.recording);
+      this.applied = 0;
+    }
+
+    while (this.applied < this.timeline.length && this.timeline[this.applied].end <= position) {
+      this.state.apply(this.timeline[this.applied].event);
+      this.applied++;
+    }
+
+    // A stroke part way through is drawn up to the playhead
+    let layers = this.state.layers;
+    const next = this.timeline[this.applied];
+    if (next && next.event.type === 'stroke' && next.start <= position) {
+      const stroke = next.event.stroke;
+      const elapsed = position - next.start;
+      const drawn = next.pointOffsets!.filter(offset => offset <= elapsed).length;
+      layers = this.state.withStroke(next.event.layerId, { ...stroke, points: stroke.points.slice(0, drawn) });
+    }
+
+    return {
+      time: position / this.speed,
+      progress: this.timelineDuration > 0 ? position / this.timelineDuration : 1,
+      canvas: { ...this.state.canvas },
+      layers,
+      activeLayerId: this.state.activeLayerId,
+      tool: { ...this.state.tool },
+    };
+  }
+
+  /** A frame as a document, for the exporters. */
+  public toDocument(frame: TimelapseFrame, target: { id: string; title: string }): PikasoDocument {
+    const timestamp = this.recording ? this.recording.startedAt : Date.now();
+
+    return {
+      id: target.id,
+      title: target.title,
+      createdAt: timestamp,
+      modifiedAt: timestamp,
+      canvas: { ...frame.canvas, settings: {} },
+      layers: frame.layers,
+      activeLayerId: frame.activeLayerId,
+      groups: [],
+      clippingMasks: [],
+      palettes: [],
+      recentColors: [],
+      metadata: {},
+    };
+  }
+
+  // =================== PLAYBACK ===================
+
+  public play(onFrame: (frame: TimelapseFrame) => void, fps: number = DEFAULT_FPS): void {
+    if (!this.recording) {
+      throw new Error('No time-lapse loaded');
+    }
+
+    this.pause();
+    if (this.position >= this.timelineDuration) {
+      this.position = 0;
+    }
+
+    this.lastTick = Date.now();
+    this.timer = setInterval(() => {
+      const now = Date.now();
+      this.position = Math.min(this.timelineDuration, this.position + (now - this.lastTick) * this.speed);
+      this.lastTick = now;
+
+      onFrame(this.getFrame(this.position / this.speed));
+
+      if (this.position >= this.timelineDuration) {
+        this.pause();
+        this.eventBus.emit('timelapse:playback_finished', { duration: this.getDuration() });
+      }
+    }, 1000 / Math.max(1, fps));
+
+    this.eventBus.emit('timelapse:playback_started', { speed: this.speed, duration: this.getDuration() });
+  }
+
+  public pause(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  public isPlaying(): boolean {
+    return this.timer !== null;
+  }
+
+  /** Moves the playhead to `time` playback milliseconds and returns that frame. */
+  public seek(time: number): TimelapseFrame {
+    this.position = Math.min(Math.max(0, time * this.speed), this.timelineDuration);
+    this.lastTick = Date.now();
+    return this.getFrame(this.position / this.speed);
+  }
+
+  // =================== EXPORT ===================
+
+  /**
+   * Writes one image per frame at `fps`, named frame_00001 onwards, into a
+   * folder of the export directory; returns the folder's uri.
+   */
+  public async exportFrames(
+    target: { id: string; title: string },
+    options: TimelapseFrameExportOptions = {}
+  ): Promise<{ uri: string; frameCount: number }> {
+    if (!this.recording) {
+      throw new Error('No time-lapse loaded');
+    }
+
+    const fps = Math.max(1, options.fps ?? DEFAULT_FPS);
+    const format = options.format ?? 'png';
+    const background = options.background ?? '#FFFFFF';
+    const frameCount = Math.floor((this.getDuration() / 1000) * fps) + 1;
+
+    const uri = await documentStore.writeExportSequence(target, `.${format}`, frameCount, index => {
+      const frame = this.getFrame((index * 1000) / fps);
+      const svg = svgExporter.export(this.toDocument(frame, target), { background });
+      return format === 'svg' ? svg : this.renderPng(svg, frame.canvas.width, frame.canvas.height);
+    });
+
+    this.eventBus.emit('timelapse:frames_exported', { uri, frameCount, format });
+    console.log(`🎞️ Exported ${frameCount} time-lapse frames`);
+    return { uri, frameCount };
+  }
+
+  // Rasterises through the SVG export, so frames match the vector export exactly
+  private renderPng(svg: string, width: number, height: number): Uint8Array {
+    const surface = CompatSkia.Surface.Make(width, height);
+    const svgDom = Skia.SVG.MakeFromString(svg);
+    if (!surface || !svgDom) {
+      throw new Error('Could not render time-lapse frame');
+    }
+
+    surface.getCanvas().drawSvg(svgDom, width, height);
+    const image = surface.makeImageSnapshot();
+    return image.encodeToBytes(ImageFormat.PNG);
+  }
+}
+
+// =================== REPLAY ===================
+
+// The drawing as the recording left it so far. Layers are replaced, never
+// edited, so undo snapshots are just the earlier arrays
+class ReplayState {
+  public layers: Layer[];
+  public activeLayerId: string;
+  public tool: TimelapseToolState;
+  public canvas: { width: number; height: number };
+
+  private undoStack: Layer[][] = [];
+  private redoStack: Layer[][] = [];
+  private lastEdit: { coalesceKey?: string; time: number } | null = null;
+
+  constructor(recording: TimelapseRecording) {
+    this.layers = recording.initialLayers;
+    this.activeLayerId = recording.initialActiveLayerId;
+    this.tool = { ...recording.initialTool };
+    this.canvas = { ...recording.canvas };
+  }
+
+  public apply(event: TimelapseEvent): void {
+    switch (event.type) {
+      case 'stroke':
+        this.edit(this.withStroke(event.layerId, event.stroke));
+        break;
+      case 'clear':
+        this.edit(this.layers.map(layer => ({ ...layer, strokes: [] })));
+        break;
+      case 'layer_added':
+        this.edit([...this.layers, event.layer]);
+        this.activeLayerId = event.layer.id;
+        break;
+      case 'layer_deleted':
+        this.edit(this.layers.filter(layer => layer.id !== event.layerId));
+        if (this.activeLayerId === event.layerId) {
+          this.activeLayerId = this.layers[0]?.id || '';
+        }
+        break;
+      case 'layer_duplicated': {
+        // The copy takes the source's strokes as they are in the replay
+        const source = this.layers.find(layer => layer.id === event.sourceLayerId);
+        this.edit([...this.layers, { ...event.layer, strokes: source ? source.strokes : event.layer.strokes }]);
+        this.activeLayerId = event.layer.id;
+        break;
+      }
+      case 'layer_changed': {
+        // Opacity slider drags undo as one change, as they do while drawing
+        const coalesceKey = Object.keys(event.changes).join() === 'opacity' ? `layer:${event.layerId}:opacity` : undefined;
+        this.edit(this.layers.map(layer => (layer.id === event.layerId ? { ...layer, ...event.changes } : layer)), event.time, coalesceKey);
+        break;
+      }
+      case 'command': {
+        const { command } = event;
+        this.edit(applyCommand(this.layers, command, 'do'), event.time, command.type === 'transform_layer' ? `transform:${command.layerId}` : undefined);
+        if (!this.layers.some(layer => layer.id === this.activeLayerId)) {
+          this.activeLayerId = command.type === 'merge_layers' ? command.lowerLayerId : this.layers[0]?.id || '';
+        }
+        break;
+      }
+      case 'undo':
+        if (this.undoStack.length > 0) {
+          this.redoStack.push(this.layers);
+          this.layers = this.undoStack.pop()!;
+          this.lastEdit = null;
+        }
+        break;
+      case 'redo':
+        if (this.redoStack.length > 0) {
+          this.undoStack.push(this.layers);
+          this.layers = this.redoStack.pop()!;
+          this.lastEdit = null;
+        }
+        break;
+      case 'active_layer':
+        this.activeLayerId = event.layerId;
+        break;
+      case 'tool':
+        this.tool = { ...this.tool, ...event.changes };
+        break;
+      case 'canvas_resized':
+        this.canvas = { width: event.width, height: event.height };
+        break;
+    }
+  }
+
+  /** The layers with `stroke` added to one of them; strokes on layers since deleted are dropped. */
+  public withStroke(layerId: string, stroke: Stroke): Layer[] {
+    return this.layers.map(layer => (layer.id === layerId ? { ...layer, strokes: [...layer.strokes, stroke] } : layer));
+  }
+
+  private edit(layers: Layer[], time = 0, coalesceKey?: string): void {
+    const last = this.lastEdit;
+    const coalesce = coalesceKey !== undefined && last !== null && this.redoStack.length === 0
+      && last.coalesceKey === coalesceKey && time - last.time <= COALESCE_WINDOW_MS;
+
+    if (!coalesce) {
+      this.undoStack.push(this.layers);
+    }
+    this.redoStack = [];
+    this.layers = layers;
+    this.lastEdit = { coalesceKey, time };
+  }
+}
+
+// =================== HELPERS ===================
+
+// Each point's time after the stroke's first, from the point timestamps when
+// they run forward, otherwise evenly spaced
+function realPointOffsets(stroke: Stroke): number[] {
+  const points = stroke.points || [];
+  if (points.length === 0) return [0];
+
+  const first = points[0].timestamp;
+  const usable = points.every((point, i) =>
+    Number.isFinite(point.timestamp) && (i === 0 || point.timestamp >= points[i - 1].timestamp)
+  ) && points[points.length - 1].timestamp > first;
+
+  return points.map((point, i) => (usable ? point.timestamp - first : i * FALLBACK_POINT_INTERVAL_MS));
+}
+
+function clampSpeed(speed: number): number {
+  return Math.min(MAX_SPEED, Math.max(MIN_SPEED, speed || 1));
+}
+
+// Export singleton
+export const timelapsePlayer = TimelapsePlayer.getInstance();
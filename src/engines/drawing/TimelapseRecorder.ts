@@ -0,0 +1,143 @@
+// src/engines/drawing/TimelapseRecorder.ts - TIME-LAPSE RECORDING
+
+import { DrawingTool, Layer, Stroke } from '../../types';
+import { EventBus } from '../core/EventBus';
+import { DrawingCommand } from './CommandHistory';
+
+/**
+ * TIME-LAPSE RECORDER
+ *
+ * Logs what happens on the drawing screen while a time-lapse is running:
+ * every finished stroke with its timed points, undo and redo, layer
+ * operations and tool changes, each stamped with the milliseconds since
+ * recording started. The recording starts from a copy of the layers as they
+ * were, so a drawing opened part way through replays from where it stood.
+ * Recordings are plain JSON; `timelapsePlayer` plays them back.
+ */
+
+export const TIMELAPSE_FORMAT_VERSION = 1;
+
+export type TimelapseEvent =
+  | { type: 'stroke'; time: number; layerId: string; stroke: Stroke }
+  | { type: 'undo'; time: number }
+  | { type: 'redo'; time: number }
+  | { type: 'clear'; time: number }
+  | { type: 'layer_added'; time: number; layer: Layer }
+  | { type: 'layer_deleted'; time: number; layerId: string }
+  | { type: 'layer_duplicated'; time: number; sourceLayerId: string; layer: Layer }
+  | { type: 'layer_changed'; time: number; layerId: string; changes: Partial<Pick<Layer, 'opacity' | 'visible' | 'name' | 'blendMode'>> }
+  | { type: 'active_layer'; time: number; layerId: string }
+  | { type: 'tool'; time: number; changes: TimelapseToolState }
+  | { type: 'canvas_resized'; time: number; width: number; height: number }
+  | { type: 'command'; time: number; command: DrawingCommand }; // Merges, moves and transforms
+
+// An event as passed to `record`, which stamps the time
+type WithoutTime<E> = E extends unknown ? Omit<E, 'time'> : never;
+export type TimelapseEventInput = WithoutTime<TimelapseEvent>;
+
+export interface TimelapseToolState {
+  tool?: DrawingTool;
+  brushId?: string;
+  size?: number;
+  opacity?: number;
+  color?: string;
+}
+
+export interface TimelapseRecording {
+  version: number;
+  startedAt: number; // Wall-clock time of the first frame
+  duration: number; // Milliseconds from start to stop
+  canvas: { width: number; height: number };
+  initialLayers: Layer[]; // Bottom to top
+  initialActiveLayerId: string;
+  initialTool: TimelapseToolState;
+  events: TimelapseEvent[];
+}
+
+export class TimelapseRecorder {
+  private static instance: TimelapseRecorder;
+  private eventBus = EventBus.getInstance();
+
+  private recording: TimelapseRecording | null = null;
+
+  private constructor() {
+    // Private constructor for singleton
+  }
+
+  public static getInstance(): TimelapseRecorder {
+    if (!TimelapseRecorder.instance) {
+      TimelapseRecorder.instance = new TimelapseRecorder();
+    }
+    return TimelapseRecorder.instance;
+  }
+
+  // =================== RECORDING ===================
+
+  public start(state: {
+    canvasWidth: number;
+    canvasHeight: number;
+    layers: Layer[];
+    activeLayerId: string;
+    tool: TimelapseToolState;
+  }): void {
+    this.recording = {
+      version: TIMELAPSE_FORMAT_VERSION,
+      startedAt: Date.now(),
+      duration: 0,
+      canvas: { width: state.canvasWidth, height: state.canvasHeight },
+      initialLayers: [...state.layers].sort((a, b) => a.order - b.order).map(copyLayer),
+      initialActiveLayerId: state.activeLayerId,
+      initialTool: { ...state.tool },
+      events: [],
+    };
+
+    this.eventBus.emit('timelapse:recording_started', { startedAt: this.recording.startedAt });
+    console.log('⏺️ Time-lapse recording started');
+  }
+
+  /** Adds an event to the running recording; does nothing when none is running. */
+  public record(event: TimelapseEventInput): void {
+    if (!this.recording) return;
+
+    const time = Date.now() - this.recording.startedAt;
+    const copied = event.type === 'layer_added' || event.type === 'layer_duplicated'
+      ? { ...event, layer: copyLayer(event.layer) }
+      : event;
+
+    this.recording.events.push({ ...copied, time } as TimelapseEvent);
+  }
+
+  public stop(): TimelapseRecording | null {
+    const recording = this.recording;
+    if (!recording) return null;
+
+    recording.duration = Date.now() - recording.startedAt;
+    this.recording = null;
+
+    this.eventBus.emit('timelapse:recording_stopped', {
+      duration: recording.duration,
+      eventCount: recording.events.length,
+    });
+    console.log(`⏹️ Time-lapse recorded: ${recording.events.length} events over ${Math.round(recording.duration / 1000)}s`);
+    return recording;
+  }
+
+  public isRecording(): boolean {
+    return this.recording !== null;
+  }
+
+  /** The recording so far, as it would be if stopped now, without stopping it. */
+  public getRecording(): TimelapseRecording | null {
+    if (!this.recording) return null;
+    return { ...this.recording, duration: Date.now() - this.recording.startedAt, events: [...this.recording.events] };
+  }
+}
+
+// Layer arrays are replaced, never edited, on the drawing screen; copying
+// the layer and its stroke list keeps later edits out of the recording
+function copyLayer(layer: Layer): Layer {
+  return { ...layer, strokes: [...layer.strokes], data: {} };
+}
+
+// Export singleton
+export const timelapseRecorder = TimelapseRecorder.getInstance();
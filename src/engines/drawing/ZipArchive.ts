@@ -0,0 +1,352 @@
+// src/engines/drawing/ZipArchive.ts - ZIP CONTAINERS
+
+/**
+ * ZIP ARCHIVE
+ *
+ * Just enough ZIP for layered file formats like OpenRaster:
+ * - Writing stores entries uncompressed, in the order given - OpenRaster
+ *   needs its `mimetype` entry first and stored, and layer PNGs are
+ *   compressed already
+ * - Reading handles stored and DEFLATE entries, which covers files saved
+ *   by Krita, GIMP and MyPaint
+ * No ZIP64, encryption or multi-disk archives.
+ */
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export class ZipArchive {
+  private static instance: ZipArchive;
+
+  private constructor() {
+    // Private constructor for singleton
+  }
+
+  public static getInstance(): ZipArchive {
+    if (!ZipArchive.instance) {
+      ZipArchive.instance = new ZipArchive();
+    }
+    return ZipArchive.instance;
+  }
+
+  // =================== WRITING ===================
+
+  public write(entries: ZipEntry[]): Uint8Array {
+    const names = entries.map(entry => utf8Bytes(entry.name));
+    const localSize = entries.reduce((size, entry, i) => size + 30 + names[i].length + entry.data.length, 0);
+    const centralSize = names.reduce((size, name) => size + 46 + name.length, 0);
+
+    const bytes = new Uint8Array(localSize + centralSize + 22);
+    const view = new DataView(bytes.buffer);
+    const offsets: number[] = [];
+    const crcs = entries.map(entry => this.crc32(entry.data));
+    let position = 0;
+
+    entries.forEach((entry, i) => {
+      offsets.push(position);
+      view.setUint32(position, LOCAL_HEADER, true);
+      view.setUint16(position + 4, 20, true); // Version needed: 2.0
+      view.setUint16(position + 6, 0x0800, true); // Names are UTF-8
+      view.setUint16(position + 8, 0, true); // Stored
+      view.setUint16(position + 10, 0, true); // Time
+      view.setUint16(position + 12, 0x21, true); // Date: 1980-01-01
+      view.setUint32(position + 14, crcs[i], true);
+      view.setUint32(position + 18, entry.data.length, true);
+      view.setUint32(position + 22, entry.data.length, true);
+      view.setUint16(position + 26, names[i].length, true);
+      view.setUint16(position + 28, 0, true);
+      bytes.set(names[i], position + 30);
+      bytes.set(entry.data, position + 30 + names[i].length);
+      position += 30 + names[i].length + entry.data.length;
+    });
+
+    const centralStart = position;
+    entries.forEach((entry, i) => {
+      view.setUint32(position, CENTRAL_HEADER, true);
+      view.setUint16(position + 4, 20, true); // Version made by
+      view.setUint16(position + 6, 20, true); // Version needed
+      view.setUint16(position + 8, 0x0800, true);
+      view.setUint16(position + 10, 0, true);
+      view.setUint16(position + 12, 0, true);
+      view.setUint16(position + 14, 0x21, true);
+      view.setUint32(position + 16, crcs[i], true);
+      view.setUint32(position + 20, entry.data.length, true);
+      view.setUint32(position + 24, entry.data.length, true);
+      view.setUint16(position + 28, names[i].length, true);
+      // Extra field, comment, disk and attributes stay zero
+      view.setUint32(position + 42, offsets[i], true);
+      bytes.set(names[i], position + 46);
+      position += 46 + names[i].length;
+    });
+
+    view.setUint32(position, END_OF_CENTRAL_DIRECTORY, true);
+    view.setUint16(position + 8, entries.length, true);
+    view.setUint16(position + 10, entries.length, true);
+    view.setUint32(position + 12, position - centralStart, true);
+    view.setUint32(position + 16, centralStart, true);
+
+    return bytes;
+  }
+
+  public crc32(data: Uint8Array): number {
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) {
+      crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+  }
+
+  // =================== READING ===================
+
+  /** Every file in the archive by name; directories are skipped. */
+  public read(bytes: Uint8Array): Map<string, Uint8Array> {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+    // The end record sits in the last 22 bytes, before a comment of up to 64 KB
+    let end = -1;
+    for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+      if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+        end = i;
+        break;
+      }
+    }
+    if (end < 0) {
+      throw new Error('Not a ZIP archive');
+    }
+
+    const count = view.getUint16(end + 10, true);
+    let position = view.getUint32(end + 16, true);
+    const files = new Map<string, Uint8Array>();
+
+    for (let i = 0; i < count; i++) {
+      if (position + 46 > bytes.length || view.getUint32(position, true) !== CENTRAL_HEADER) {
+        throw new Error('Corrupt ZIP archive: bad central directory');
+      }
+
+      const method = view.getUint16(position + 10, true);
+      const compressedSize = view.getUint32(position + 20, true);
+      const size = view.getUint32(position + 24, true);
+      const nameLength = view.getUint16(position + 28, true);
+      const extraLength = view.getUint16(position + 30, true);
+      const commentLength = view.getUint16(position + 32, true);
+      const localOffset = view.getUint32(position + 42, true);
+      const name = utf8String(bytes.subarray(position + 46, position + 46 + nameLength));
+      position += 46 + nameLength + extraLength + commentLength;
+
+      if (name.endsWith('/')) continue;
+
+      // The local header's own name and extra lengths can differ from the central copy
+      const dataStart = localOffset + 30 +
+        view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+      const data = bytes.subarray(dataStart, dataStart + compressedSize);
+
+      if (method === 0) {
+        files.set(name, data);
+      } else if (method === 8) {
+        files.set(name, inflate(data, size));
+      } else {
+        throw new Error(`Unsupported ZIP compression method ${method} for ${name}`);
+      }
+    }
+
+    return files;
+  }
+}
+
+// =================== DEFLATE (RFC 1951) ===================
+
+interface Huffman {
+  counts: Uint16Array; // Codes of each bit length
+  symbols: Uint16Array; // Symbols ordered by code
+}
+
+const LENGTH_BASE = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258];
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+const DISTANCE_BASE = [1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577];
+const DISTANCE_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+const FIXED_LITERALS = buildHuffman(Array.from({ length: 288 }, (_, i) => (i < 144 ? 8 : i < 256 ? 9 : i < 280 ? 7 : 8)));
+const FIXED_DISTANCES = buildHuffman(new Array(30).fill(5));
+
+function inflate(input: Uint8Array, size: number): Uint8Array {
+  const output = new Uint8Array(size);
+  let out = 0;
+  let bitPosition = 0;
+
+  const bit = (): number => {
+    const byte = input[bitPosition >> 3];
+    if (byte === undefined) throw new Error('Corrupt DEFLATE data: unexpected end');
+    return (byte >> (bitPosition++ & 7)) & 1;
+  };
+  const bits = (count: number): number => {
+    let value = 0;
+    for (let i = 0; i < count; i++) value |= bit() << i;
+    return value;
+  };
+  const decode = (huffman: Huffman): number => {
+    let code = 0;
+    let first = 0;
+    let index = 0;
+    for (let length = 1; length < 16; length++) {
+      code |= bit();
+      const count = huffman.counts[length];
+      if (code - first < count) return huffman.symbols[index + code - first];
+      index += count;
+      first = (first + count) << 1;
+      code <<= 1;
+    }
+    throw new Error('Corrupt DEFLATE data: bad Huffman code');
+  };
+  const emit = (byte: number) => {
+    if (out >= size) throw new Error('Corrupt DEFLATE data: longer than its stated size');
+    output[out++] = byte;
+  };
+
+  let final = 0;
+  while (!final) {
+    final = bit();
+    const type = bits(2);
+
+    if (type === 0) {
+      // Stored block: byte-aligned length, its complement, then raw bytes
+      bitPosition = (bitPosition + 7) & ~7;
+      const start = bitPosition >> 3;
+      const length = input[start] | (input[start + 1] << 8);
+      for (let i = 0; i < length; i++) emit(input[start + 4 + i]);
+      bitPosition = (start + 4 + length) * 8;
+      continue;
+    }
+
+    let literals = FIXED_LITERALS;
+    let distances = FIXED_DISTANCES;
+    if (type === 2) {
+      ({ literals, distances } = readDynamicTables(bits, decode));
+    } else if (type !== 1) {
+      throw new Error('Corrupt DEFLATE data: bad block type');
+    }
+
+    for (;;) {
+      const symbol = decode(literals);
+      if (symbol < 256) {
+        emit(symbol);
+      } else if (symbol === 256) {
+        break;
+      } else {
+        const length = LENGTH_BASE[symbol - 257] + bits(LENGTH_EXTRA[symbol - 257]);
+        const distanceSymbol = decode(distances);
+        const distance = DISTANCE_BASE[distanceSymbol] + bits(DISTANCE_EXTRA[distanceSymbol]);
+        if (distance > out) throw new Error('Corrupt DEFLATE data: distance before start');
+        for (let i = 0; i < length; i++) emit(output[out - distance]);
+      }
+    }
+  }
+
+  return output.subarray(0, out);
+}
+
+function readDynamicTables(
+  bits: (count: number) => number,
+  decode: (huffman: Huffman) => number
+): { literals: Huffman; distances: Huffman } {
+  const literalCount = bits(5) + 257;
+  const distanceCount = bits(5) + 1;
+  const codeLengthCount = bits(4) + 4;
+
+  const codeLengthLengths = new Array(19).fill(0);
+  for (let i = 0; i < codeLengthCount; i++) {
+    codeLengthLengths[CODE_LENGTH_ORDER[i]] = bits(3);
+  }
+  const codeLengths = buildHuffman(codeLengthLengths);
+
+  const lengths: number[] = [];
+  while (lengths.length < literalCount + distanceCount) {
+    const symbol = decode(codeLengths);
+    if (symbol < 16) {
+      lengths.push(symbol);
+    } else if (symbol === 16) {
+      if (lengths.length === 0) throw new Error('Corrupt DEFLATE data: repeat with nothing to repeat');
+      const previous = lengths[lengths.length - 1];
+      for (let i = 3 + bits(2); i > 0; i--) lengths.push(previous);
+    } else {
+      for (let i = symbol === 17 ? 3 + bits(3) : 11 + bits(7); i > 0; i--) lengths.push(0);
+    }
+  }
+
+  return {
+    literals: buildHuffman(lengths.slice(0, literalCount)),
+    distances: buildHuffman(lengths.slice(literalCount, literalCount + distanceCount)),
+  };
+}
+
+// Canonical Huffman table from code lengths, as decoded by `decode` above
+function buildHuffman(lengths: number[]): Huffman {
+  const counts = new Uint16Array(16);
+  lengths.forEach(length => counts[length]++);
+  counts[0] = 0;
+
+  const offsets = new Uint16Array(16);
+  for (let length = 1; length < 15; length++) {
+    offsets[length + 1] = offsets[length] + counts[length];
+  }
+
+  const symbols = new Uint16Array(lengths.length);
+  lengths.forEach((length, symbol) => {
+    if (length !== 0) symbols[offsets[length]++] = symbol;
+  });
+
+  return { counts, symbols };
+}
+
+// =================== TEXT ===================
+
+export function utf8Bytes(text: string): Uint8Array {
+  const bytes: number[] = [];
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    if (code < 0x80) {
+      bytes.push(code);
+    } else if (code < 0x800) {
+      bytes.push(0xc0 | (code >> 6), 0x80 | (code & 63));
+    } else if (code < 0x10000) {
+      bytes.push(0xe0 | (code >> 12), 0x80 | ((code >> 6) & 63), 0x80 | (code & 63));
+    } else {
+      bytes.push(0xf0 | (code >> 18), 0x80 | ((code >> 12) & 63), 0x80 | ((code >> 6) & 63), 0x80 | (code & 63));
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+export function utf8String(bytes: Uint8Array): string {
+  let text = '';
+  for (let i = 0; i < bytes.length; ) {
+    const byte = bytes[i];
+    const extra = byte >= 0xf0 ? 3 : byte >= 0xe0 ? 2 : byte >= 0xc0 ? 1 : 0;
+    let code = extra === 0 ? byte : byte & (0x3f >> extra);
+    for (let j = 1; j <= extra; j++) code = (code << 6) | (bytes[i + j] & 63);
+    text += String.fromCodePoint(code);
+    i += extra + 1;
+  }
+  return text;
+}
+
+// Export singleton
+export const zipArchive = ZipArchive.getInstance();
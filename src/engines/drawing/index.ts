@@ -57,6 +57,32 @@ export {
   ConnectedProfessionalCanvas 
 } from './ProfessionalCanvas';
 
+// ===== DOCUMENTS =====
+export { pikasoFormat, PIKASO_FORMAT_VERSION, PIKASO_FILE_EXTENSION } from './PikasoFormat';
+export type { PikasoFormat, PikasoDocument } from './PikasoFormat';
+export { documentStore } from './DocumentStore';
+export type { DocumentStore } from './DocumentStore';
+export { svgExporter } from './SvgExporter';
+export type { SvgExporter, SvgExportOptions } from './SvgExporter';
+export { layeredExporter, ORA_FILE_EXTENSION, PSD_FILE_EXTENSION } from './LayeredExporter';
+export type { LayeredExporter, LayerStack } from './LayeredExporter';
+export { zipArchive } from './ZipArchive';
+export type { ZipArchive, ZipEntry } from './ZipArchive';
+export { timelapseRecorder, TIMELAPSE_FORMAT_VERSION } from './TimelapseRecorder';
+export type { TimelapseRecorder, TimelapseRecording, TimelapseEvent, TimelapseToolState } from './TimelapseRecorder';
+export { timelapsePlayer } from './TimelapsePlayer';
+export type { TimelapsePlayer, TimelapseFrame, TimelapsePlaybackOptions, TimelapseFrameExportOptions } from './TimelapsePlayer';
+export { commandHistory, applyCommand, strokesForMerge, invertMatrix, isInvertibleMatrix, COALESCE_WINDOW_MS } from './CommandHistory';
+export type {
+  CommandHistory,
+  CommandHistoryEntry,
+  CommandOptions,
+  CommandDirection,
+  DrawingCommand,
+  HistoryStep,
+  LayerMatrix,
+} from './CommandHistory';
+
 // ===== CORE ENGINE INTERFACES =====
 
 import { 
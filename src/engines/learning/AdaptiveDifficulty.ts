@@ -0,0 +1,279 @@
+// src/engines/learning/AdaptiveDifficulty.ts - PER-SKILL DIFFICULTY
+
+import {
+  AppSettings,
+  DifficultyAdjustment,
+  DifficultyChange,
+  LessonContent,
+  SkillDifficulty,
+  ValidationResult,
+} from '../../types';
+import { dataManager } from '../core/DataManager';
+import { EventBus } from '../core/EventBus';
+
+/**
+ * ADAPTIVE DIFFICULTY
+ *
+ * Tunes content to the learner, one skill at a time:
+ * - A skill is the item's validation rule type (`shape_accuracy`), or its
+ *   content type for quizzes
+ * - Every submission feeds a rolling performance window; the rating is how
+ *   far the window sits above or below the target success rate
+ * - In adaptive mode, items are adjusted as they come up: pass thresholds,
+ *   the attempt that reveals the hint, and time limits
+ * - Each adjustment records a plain-language reason for the learner
+ *
+ * Active when `learning.difficulty` is 'adaptive' and `adaptiveDifficultyAI`
+ * isn't switched off. Outcomes are recorded in every mode.
+ */
+
+const MODEL_KEY = 'difficulty_model';
+const LOG_KEY = 'difficulty_adjustments';
+const MAX_LOG_ENTRIES = 50;
+
+const WINDOW_SIZE = 8;
+const TARGET_PERFORMANCE = 0.7;
+const MIN_OBSERVATIONS = 3;
+// Ratings this close to zero leave content as authored
+const DEAD_ZONE = 0.15;
+
+const THRESHOLD_SWING = 0.15; // +-15% of the authored threshold at full rating
+const TIME_LIMIT_SWING = 0.25;
+const HINT_RATING = 0.4; // Rating beyond which the hint moves by one attempt
+
+const DRAWING_TYPES: Array<LessonContent['type']> = ['drawing_exercise', 'guided_step', 'shape_practice'];
+
+export class AdaptiveDifficulty {
+  private static instance: AdaptiveDifficulty;
+  private eventBus: EventBus = EventBus.getInstance();
+  private skills: Map<string, SkillDifficulty> = new Map();
+  private log: DifficultyAdjustment[] = [];
+  private enabled: boolean = false;
+  private loading: Promise<void> | null = null;
+
+  private constructor() {
+    // Private constructor for singleton
+  }
+
+  public static getInstance(): AdaptiveDifficulty {
+    if (!AdaptiveDifficulty.instance) {
+      AdaptiveDifficulty.instance = new AdaptiveDifficulty();
+    }
+    return AdaptiveDifficulty.instance;
+  }
+
+  public initialize(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.load();
+      this.eventBus.on('settings:changed', (settings: AppSettings) => this.applySettings(settings));
+    }
+    return this.loading;
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const [model, log, settings] = await Promise.all([
+        dataManager.get<Record<string, SkillDifficulty>>(MODEL_KEY),
+        dataManager.get<DifficultyAdjustment[]>(LOG_KEY),
+        dataManager.getAppSettings(),
+      ]);
+      this.skills = new Map(Object.entries(model || {}));
+      this.log = log || [];
+      // DataManager types only its own defaults; the settings screen saves the full shape
+      this.applySettings(settings as unknown as Partial<AppSettings>);
+      console.log(`🎚️ Adaptive difficulty ${this.enabled ? 'on' : 'off'} - ${this.skills.size} skills tracked`);
+    } catch (error) {
+      console.error('❌ Failed to load difficulty model:', error);
+    }
+  }
+
+  private applySettings(settings: Partial<AppSettings> | null): void {
+    const learning = settings?.learning;
+    this.enabled = learning?.difficulty === 'adaptive' && learning.adaptiveDifficultyAI !== false;
+  }
+
+  public isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  public setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+  }
+
+  // =================== MODEL ===================
+
+  public skillFor(content: LessonContent): string {
+    return content.validation?.type || content.type;
+  }
+
+  public recordOutcome(content: LessonContent, result: ValidationResult, attemptCount: number): SkillDifficulty {
+    const skill = this.skillFor(content);
+    const model: SkillDifficulty = this.skills.get(skill) || {
+      skill,
+      rating: 0,
+      observations: 0,
+      recentScores: [],
+      updatedAt: Date.now(),
+    };
+
+    // Later attempts count for less; graded drawings blend in how close they were
+    let performance = result.isCorrect ? 1 / attemptCount : 0;
+    if (typeof result.score === 'number' && Number.isFinite(result.score)) {
+      performance = (performance + Math.max(0, Math.min(1, result.score))) / 2;
+    }
+
+    model.recentScores = [...model.recentScores, performance].slice(-WINDOW_SIZE);
+    model.observations++;
+    model.rating = ratingFor(model.recentScores);
+    model.updatedAt = Date.now();
+
+    this.skills.set(skill, model);
+    this.saveModel();
+
+    return model;
+  }
+
+  public getSkill(skill: string): SkillDifficulty | null {
+    return this.skills.get(skill) || null;
+  }
+
+  public getAllSkills(): SkillDifficulty[] {
+    return Array.from(this.skills.values());
+  }
+
+  // =================== ADJUSTMENT ===================
+
+  /**
+   * The item as this learner should see it. Returns the authored content
+   * untouched when adaptive mode is off or the skill has too little history.
+   */
+  public adjust(lessonId: string, content: LessonContent): { content: LessonContent; adjustment: DifficultyAdjustment | null } {
+    const skill = this.skillFor(content);
+    const model = this.skills.get(skill);
+
+    if (!this.enabled || !model || model.observations < MIN_OBSERVATIONS || Math.abs(model.rating) < DEAD_ZONE) {
+      return { content, adjustment: null };
+    }
+
+    const rating = model.rating;
+    const changes: DifficultyChange[] = [];
+    let adjusted: LessonContent = content;
+
+    const threshold = content.validation?.threshold;
+    if (content.validation && typeof threshold === 'number') {
+      const to = round(clamp(threshold * (1 + THRESHOLD_SWING * rating), Math.min(threshold, 0.3), Math.max(threshold, 0.95)), 2);
+      if (to !== threshold) {
+        changes.push({ field: 'threshold', from: threshold, to });
+        adjusted = { ...adjusted, validation: { ...content.validation, threshold: to } };
+      }
+    }
+
+    if (content.hint && Math.abs(rating) >= HINT_RATING) {
+      const from = this.baselineHintAttempt(content);
+      const to = Math.max(1, from + (rating > 0 ? 1 : -1));
+      if (to !== from) {
+        changes.push({ field: 'hintAfterAttempts', from, to });
+      }
+    }
+
+    if (typeof content.timeLimit === 'number') {
+      // Struggling learners get more time
+      const to = Math.max(1, Math.round(content.timeLimit * (1 - TIME_LIMIT_SWING * rating)));
+      if (to !== content.timeLimit) {
+        changes.push({ field: 'timeLimit', from: content.timeLimit, to });
+        adjusted = { ...adjusted, timeLimit: to };
+      }
+    }
+
+    if (changes.length === 0) {
+      return { content, adjustment: null };
+    }
+
+    const adjustment: DifficultyAdjustment = {
+      lessonId,
+      contentId: content.id,
+      skill,
+      rating: round(rating, 2),
+      direction: rating > 0 ? 'harder' : 'easier',
+      changes,
+      reason: describeAdjustment(model, changes),
+      createdAt: Date.now(),
+    };
+
+    this.log = [adjustment, ...this.log].slice(0, MAX_LOG_ENTRIES);
+    this.saveLog();
+
+    return { content: adjusted, adjustment };
+  }
+
+  /** The attempt on which content handlers reveal the hint. */
+  public baselineHintAttempt(content: LessonContent): number {
+    return DRAWING_TYPES.includes(content.type) ? 1 : 2;
+  }
+
+  public getAdjustmentLog(limit: number = MAX_LOG_ENTRIES): DifficultyAdjustment[] {
+    return this.log.slice(0, limit);
+  }
+
+  // =================== PERSISTENCE ===================
+
+  private async saveModel(): Promise<void> {
+    try {
+      await dataManager.set(MODEL_KEY, Object.fromEntries(this.skills));
+    } catch (error) {
+      console.error('❌ Failed to save difficulty model:', error);
+    }
+  }
+
+  private async saveLog(): Promise<void> {
+    try {
+      await dataManager.set(LOG_KEY, this.log);
+    } catch (error) {
+      console.error('❌ Failed to save difficulty log:', error);
+    }
+  }
+}
+
+// =================== HELPERS ===================
+
+function ratingFor(scores: number[]): number {
+  if (scores.length === 0) return 0;
+  const average = scores.reduce((sum, s) => sum + s, 0) / scores.length;
+  // Target maps to 0, perfect to 1, nothing to -1
+  return average >= TARGET_PERFORMANCE
+    ? (average - TARGET_PERFORMANCE) / (1 - TARGET_PERFORMANCE)
+    : (average - TARGET_PERFORMANCE) / TARGET_PERFORMANCE;
+}
+
+function describeAdjustment(model: SkillDifficulty, changes: DifficultyChange[]): string {
+  const average = Math.round((model.recentScores.reduce((sum, s) => sum + s, 0) / model.recentScores.length) * 100);
+  const skill = model.skill.replace(/_/g, ' ');
+  const summary = model.rating > 0
+    ? `You're averaging ${average}% on ${skill} over your last ${model.recentScores.length} tries, so this one is a bit harder`
+    : `${skill.charAt(0).toUpperCase() + skill.slice(1)} has been tricky lately (${average}% over your last ${model.recentScores.length} tries), so this one is a bit easier`;
+
+  const details = changes.map(change => {
+    switch (change.field) {
+      case 'threshold':
+        return `pass mark ${Math.round((change.from || 0) * 100)}% → ${Math.round(change.to * 100)}%`;
+      case 'hintAfterAttempts':
+        return `hint after ${change.to} attempt${change.to === 1 ? '' : 's'}`;
+      case 'timeLimit':
+        return `time limit ${change.from}s → ${change.to}s`;
+    }
+  });
+
+  return `${summary}: ${details.join(', ')}.`;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+function round(value: number, digits: number): number {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+}
+
+// Export singleton
+export const adaptiveDifficulty = AdaptiveDifficulty.getInstance();
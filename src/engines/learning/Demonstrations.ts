@@ -0,0 +1,158 @@
+// src/engines/learning/Demonstrations.ts - DEMONSTRATION PLAYBACK
+
+import { Demonstration, DemonstrationStroke, LessonContent, Stroke } from '../../types';
+import { syntheticStrokes } from './SyntheticStrokes';
+
+/**
+ * DEMONSTRATIONS
+ *
+ * Timed strokes that show how an item is drawn:
+ * - Authored as a `Demonstration` on the item, or generated from the item's
+ *   ideal strokes when it only carries a caption (or nothing)
+ * - `record` turns canvas strokes into a demonstration, shortening long
+ *   pauses between strokes
+ * - `frameAt` is the drawing as it stands at a point in playback, scaled
+ *   to the player's canvas
+ */
+
+export const DEMONSTRATION_VERSION = 1;
+
+// Pauses longer than this between strokes are cut down to it
+const MAX_PAUSE_MS = 600;
+// Synthetic strokes are laid out on a 400x400 working area
+const SYNTHETIC_SIZE = 400;
+const DEFAULT_COLOR = '#007AFF';
+const DEFAULT_SIZE = 5;
+
+export interface DemonstrationFramePath {
+  points: Array<{ x: number; y: number }>;
+  color: string;
+  width: number;
+}
+
+export class Demonstrations {
+  private static instance: Demonstrations;
+
+  private constructor() {
+    // Private constructor for singleton
+  }
+
+  public static getInstance(): Demonstrations {
+    if (!Demonstrations.instance) {
+      Demonstrations.instance = new Demonstrations();
+    }
+    return Demonstrations.instance;
+  }
+
+  // =================== SOURCES ===================
+
+  /** The item's demonstration, or null when it has none and no ideal strokes to generate one from. */
+  public forContent(content: LessonContent): Demonstration | null {
+    const authored = content.demonstration;
+    if (authored && typeof authored === 'object') {
+      return authored.strokes.length > 0 ? authored : null;
+    }
+
+    const strokes = syntheticStrokes.forContent(content);
+    if (!strokes || strokes.length === 0) return null;
+
+    return this.record(strokes, { width: SYNTHETIC_SIZE, height: SYNTHETIC_SIZE }, authored || undefined);
+  }
+
+  public captionFor(content: LessonContent): string | undefined {
+    const demonstration = content.demonstration;
+    return typeof demonstration === 'string' ? demonstration : demonstration?.caption;
+  }
+
+  /** Builds a demonstration from timestamped strokes, e.g. a recording of the canvas. */
+  public record(strokes: Stroke[], size: { width: number; height: number }, caption?: string): Demonstration {
+    const recorded: DemonstrationStroke[] = [];
+    let offset = 0; // Time cut from pauses so far
+    let previousEnd: number | null = null;
+
+    strokes.forEach(stroke => {
+      if (stroke.points.length < 2) return;
+
+      const start = stroke.points[0].timestamp;
+      if (previousEnd === null) {
+        offset = start;
+      } else if (start - previousEnd > MAX_PAUSE_MS) {
+        offset += start - previousEnd - MAX_PAUSE_MS;
+      }
+
+      let last = 0;
+      recorded.push({
+        points: stroke.points.map(point => {
+          // Clock skew between touch events must not run playback backwards
+          last = Math.max(last, point.timestamp - offset);
+          return {
+            x: point.x,
+            y: point.y,
+            t: last,
+            ...(point.pressure !== undefined ? { pressure: point.pressure } : {}),
+          };
+        }),
+        color: stroke.color,
+        size: stroke.size,
+      });
+
+      previousEnd = stroke.points[stroke.points.length - 1].timestamp;
+    });
+
+    const lastStroke = recorded[recorded.length - 1];
+
+    return {
+      version: DEMONSTRATION_VERSION,
+      width: size.width,
+      height: size.height,
+      duration: lastStroke ? lastStroke.points[lastStroke.points.length - 1].t : 0,
+      strokes: recorded,
+      ...(caption ? { caption } : {}),
+    };
+  }
+
+  // =================== PLAYBACK ===================
+
+  /**
+   * Everything drawn by `time` ms into the demonstration, fitted and centred
+   * on a canvas of the given size.
+   */
+  public frameAt(demonstration: Demonstration, time: number, size: { width: number; height: number }): DemonstrationFramePath[] {
+    const scale = Math.min(size.width / demonstration.width, size.height / demonstration.height);
+    const dx = (size.width - demonstration.width * scale) / 2;
+    const dy = (size.height - demonstration.height * scale) / 2;
+    const project = (x: number, y: number) => ({ x: x * scale + dx, y: y * scale + dy });
+
+    const paths: DemonstrationFramePath[] = [];
+
+    for (const stroke of demonstration.strokes) {
+      const points = stroke.points;
+      if (points.length === 0 || points[0].t > time) break;
+
+      const visible = points.filter(point => point.t <= time).map(point => project(point.x, point.y));
+
+      // Interpolate into the segment being drawn so slow playback stays smooth
+      const next = points[visible.length];
+      if (next) {
+        const previous = points[visible.length - 1];
+        const span = next.t - previous.t;
+        const progress = span > 0 ? (time - previous.t) / span : 1;
+        visible.push(project(
+          previous.x + (next.x - previous.x) * progress,
+          previous.y + (next.y - previous.y) * progress
+        ));
+      }
+
+      paths.push({
+        points: visible,
+        color: stroke.color || DEFAULT_COLOR,
+        width: (stroke.size || DEFAULT_SIZE) * scale,
+      });
+    }
+
+    return paths;
+  }
+}
+
+// Export singleton
+export const demonstrations = Demonstrations.getInstance();
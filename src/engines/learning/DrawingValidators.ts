@@ -0,0 +1,526 @@
+// src/engines/learning/DrawingValidators.ts - BUILT-IN DRAWING RULES
+
+import { strokeAnalyzer, LineAnalysis, LineOrientation } from './StrokeAnalyzer';
+import { shapeRecognizer, RecognizedShape } from './ShapeRecognizer';
+import { valueAnalyzer } from './ValueAnalyzer';
+import { ValidatorDefinition, RuleOutcome } from './ValidatorRegistry';
+
+/**
+ * DRAWING VALIDATORS
+ *
+ * The rule types used by the bundled curriculum, registered with the
+ * validator registry by LessonEngine:
+ * - Line rules: line_straightness, line_count, parallel_lines
+ * - Shape rules: shape_accuracy, multiple_shapes, contains_shapes, shape_combination
+ * - Value rules: value_gradient, shaded_form
+ * - Ungraded rules: completion and the exercises we can't score yet
+ */
+
+const ORIENTATIONS = ['any', 'horizontal', 'vertical', 'diagonal'] as const;
+const LIGHT_DIRECTIONS = ['top-left', 'top-right', 'bottom-left', 'bottom-right', 'top', 'bottom', 'left', 'right'] as const;
+const ARRANGEMENTS = ['stacked', 'tree', 'any'] as const;
+
+// Strokes shorter than this don't count as lines
+const MIN_LINE_LENGTH = 20;
+
+// =================== LINE RULES ===================
+
+const lineStraightness: ValidatorDefinition<{}> = {
+  type: 'line_straightness',
+  description: 'Average straightness of every stroke',
+  params: {},
+  validate: ({ rule, strokes }) => {
+    const threshold = rule.threshold ?? 0.5;
+    const analyses = strokes
+      .map(stroke => strokeAnalyzer.analyzeLine(stroke))
+      .filter((analysis): analysis is LineAnalysis => analysis !== null);
+
+    if (analyses.length === 0) {
+      return {
+        isCorrect: false,
+        score: 0,
+        feedback: 'That looks like a dot - drag to draw a full line.',
+      };
+    }
+
+    const score = analyses.reduce((sum, a) => sum + a.score, 0) / analyses.length;
+
+    // Feedback targets the weakest line so the learner knows what to fix
+    const worst = analyses.reduce((min, a) => (a.score < min.score ? a : min));
+
+    return {
+      isCorrect: score >= threshold,
+      score,
+      feedback: strokeAnalyzer.describeLine(worst),
+      details: {
+        threshold,
+        lines: analyses.map(a => ({
+          score: a.score,
+          angle: a.fit.angle,
+          length: a.fit.length,
+          maxDeviation: a.maxDeviation,
+          meanDeviation: a.meanDeviation,
+          deviationLocation: a.deviationLocation,
+          overshoot: a.overshoot,
+          speedConsistency: a.speedConsistency,
+        })),
+      },
+    };
+  },
+};
+
+const lineCount: ValidatorDefinition<{}> = {
+  type: 'line_count',
+  description: 'Number of line strokes against `target`, scaled by straightness',
+  params: {},
+  target: { kind: 'number', required: true, min: 1 },
+  validate: ({ rule, strokes }) => {
+    const required: number = rule.target;
+    const threshold = rule.threshold ?? 0.8;
+    const lines = strokes
+      .map(stroke => strokeAnalyzer.analyzeLine(stroke))
+      .filter((analysis): analysis is LineAnalysis => analysis !== null && analysis.fit.length >= MIN_LINE_LENGTH);
+
+    const counted = Math.min(lines.length, required);
+    const straightness = counted > 0
+      ? lines.slice(0, required).reduce((sum, a) => sum + a.score, 0) / counted
+      : 0;
+    const score = (counted / required) * (0.5 + 0.5 * straightness);
+    const isCorrect = lines.length >= required && score >= threshold;
+
+    let feedback: string;
+    if (lines.length < required) {
+      feedback = `Draw ${required} lines to complete this exercise (${lines.length} so far).`;
+    } else if (!isCorrect) {
+      const worst = lines.reduce((min, a) => (a.score < min.score ? a : min));
+      feedback = strokeAnalyzer.describeLine(worst);
+    } else {
+      feedback = `All ${required} lines look great!`;
+    }
+
+    return {
+      isCorrect,
+      score,
+      feedback,
+      details: { threshold, required, found: lines.length, straightness },
+    };
+  },
+};
+
+interface ParallelLinesParams {
+  count: number;
+  orientation: LineOrientation;
+  angleTolerance: number;
+}
+
+const parallelLines: ValidatorDefinition<ParallelLinesParams> = {
+  type: 'parallel_lines',
+  description: 'Parallel, evenly spaced lines in a given orientation',
+  params: {
+    count: { kind: 'number', min: 1 },
+    orientation: { kind: 'string', values: ORIENTATIONS },
+    angleTolerance: { kind: 'number', min: 0, max: 90 },
+  },
+  validate: ({ rule, params, strokes }) => {
+    const required = params.count || 2;
+    const orientation = params.orientation || 'any';
+    const threshold = rule.threshold ?? 0.6;
+    const tolerance = params.angleTolerance ?? rule.tolerance;
+
+    const analysis = strokeAnalyzer.analyzeParallelLines(strokes, orientation, tolerance);
+    const lineCount = analysis?.lines.length || 0;
+
+    if (!analysis || lineCount < required) {
+      return {
+        isCorrect: false,
+        score: analysis ? analysis.score * (lineCount / required) : 0,
+        feedback: `Draw ${required} lines to complete this exercise (${lineCount} so far).`,
+        details: { threshold, required, lines: analysis?.lines || [] },
+      };
+    }
+
+    return {
+      isCorrect: analysis.score >= threshold,
+      score: analysis.score,
+      feedback: strokeAnalyzer.describeParallelLines(analysis, orientation),
+      details: {
+        threshold,
+        required,
+        targetAngle: analysis.targetAngle,
+        angleStdDev: analysis.angleStdDev,
+        meanSpacing: analysis.meanSpacing,
+        spacingEvenness: analysis.spacingEvenness,
+        lines: analysis.lines,
+        driftedStrokes: analysis.lines.filter(line => line.drifted).map(line => line.strokeIndex),
+      },
+    };
+  },
+};
+
+// =================== SHAPE RULES ===================
+
+const shapeAccuracy: ValidatorDefinition<{}> = {
+  type: 'shape_accuracy',
+  description: 'Best-matching shape against `target`',
+  params: {},
+  target: { kind: 'string' },
+  validate: ({ rule, strokes }) => {
+    const target: string = rule.target || 'circle';
+    const threshold = rule.threshold ?? 0.6;
+    const shapes = shapeRecognizer.recognize(strokes);
+    const { shape, score } = shapeRecognizer.findBestMatch(shapes, target);
+    const isCorrect = shape !== null && score >= threshold;
+
+    let feedback: string;
+    if (!shape) {
+      feedback = `Draw a ${target} to continue.`;
+    } else if (isCorrect) {
+      feedback = `Nice ${target}! ${Math.round(score * 100)}% accurate.`;
+    } else {
+      feedback = describeShapeMiss(shape, target);
+    }
+
+    return shapeOutcome(isCorrect, score, feedback, shapes, { target, threshold });
+  },
+};
+
+interface MultipleShapesParams {
+  shape: string;
+  count: number;
+  sizeVariation: boolean;
+}
+
+const multipleShapes: ValidatorDefinition<MultipleShapesParams> = {
+  type: 'multiple_shapes',
+  description: 'Several shapes of one kind, optionally in different sizes',
+  params: {
+    shape: { kind: 'string' },
+    count: { kind: 'number', min: 1 },
+    sizeVariation: { kind: 'boolean' },
+  },
+  target: { kind: 'string' },
+  validate: ({ rule, params, strokes }) => {
+    const target = params.shape || rule.target || 'circle';
+    const required = params.count || 1;
+    const threshold = rule.threshold ?? 0.5;
+
+    const shapes = shapeRecognizer.recognize(strokes);
+    const matches = shapes
+      .map(shape => ({ shape, score: shapeRecognizer.scoreAgainstTarget(shape, target, shapes) }))
+      .filter(match => match.score >= threshold)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, required);
+
+    let sizesVary = true;
+    if (params.sizeVariation && matches.length > 1) {
+      const sizes = matches.map(m => m.shape.size).sort((a, b) => a - b);
+      // Each shape should be at least 15% bigger than the next smaller one
+      sizesVary = sizes.every((size, i) => i === 0 || size >= sizes[i - 1] * 1.15);
+    }
+
+    const score = matches.reduce((sum, m) => sum + m.score, 0) / required;
+    const isCorrect = matches.length >= required && sizesVary;
+
+    let feedback: string;
+    if (matches.length < required) {
+      feedback = `Found ${matches.length} of ${required} ${target}s - keep going!`;
+    } else if (!sizesVary) {
+      feedback = `Good ${target}s! Now make each one a different size.`;
+    } else {
+      feedback = `All ${required} ${target}s look great!`;
+    }
+
+    return shapeOutcome(isCorrect, score, feedback, shapes, {
+      target,
+      required,
+      found: matches.length,
+      sizesVary,
+      threshold,
+    });
+  },
+};
+
+const containsShapes: ValidatorDefinition<{ required: string[] }> = {
+  type: 'contains_shapes',
+  description: 'Every listed shape appears somewhere in the drawing',
+  params: {
+    required: { kind: 'string[]' },
+  },
+  validate: ({ rule, params, strokes }) => {
+    const required = params.required || rule.targets || [];
+    const threshold = rule.threshold ?? 0.5;
+
+    const shapes = shapeRecognizer.recognize(strokes);
+    const matches = shapeRecognizer.matchTargets(shapes, required);
+    const missing = required.filter((_, i) => matches[i].score < threshold);
+
+    const score = required.length > 0
+      ? matches.reduce((sum, m) => sum + m.score, 0) / required.length
+      : 1;
+    const isCorrect = missing.length === 0;
+
+    const feedback = isCorrect
+      ? 'Every shape is there - nicely done!'
+      : `Still missing: ${missing.map(name => name.replace('_', ' ')).join(', ')}.`;
+
+    return shapeOutcome(isCorrect, score, feedback, shapes, { required, missing, threshold });
+  },
+};
+
+interface ShapeCombinationParams {
+  shapes: string[];
+  arrangement: string;
+}
+
+const shapeCombination: ValidatorDefinition<ShapeCombinationParams> = {
+  type: 'shape_combination',
+  description: 'Listed shapes arranged relative to each other',
+  params: {
+    shapes: { kind: 'string[]', required: true },
+    arrangement: { kind: 'string', values: ARRANGEMENTS },
+  },
+  validate: ({ rule, params, strokes }) => {
+    const required = params.shapes || [];
+    const arrangement = params.arrangement;
+    const threshold = rule.threshold ?? 0.5;
+
+    const shapes = shapeRecognizer.recognize(strokes);
+    const matches = shapeRecognizer.matchTargets(shapes, required);
+    const missing = required.filter((_, i) => matches[i].score < threshold);
+
+    // 'stacked' and 'tree' both read bottom-up: each listed shape sits on the previous one
+    let arranged = true;
+    if (missing.length === 0 && (arrangement === 'stacked' || arrangement === 'tree')) {
+      for (let i = 1; i < matches.length; i++) {
+        if (!shapeRecognizer.isStackedAbove(matches[i].shape!, matches[i - 1].shape!)) {
+          arranged = false;
+        }
+      }
+    }
+
+    const matchScore = required.length > 0
+      ? matches.reduce((sum, m) => sum + m.score, 0) / required.length
+      : 1;
+    const score = arranged ? matchScore : matchScore * 0.5;
+    const isCorrect = missing.length === 0 && arranged;
+
+    let feedback: string;
+    if (missing.length > 0) {
+      feedback = `Still missing: ${missing.join(', ')}.`;
+    } else if (!arranged) {
+      feedback = `All the shapes are there - now place the ${required[required.length - 1]} on top of the ${required[0]}.`;
+    } else {
+      feedback = 'The shapes fit together perfectly!';
+    }
+
+    return shapeOutcome(isCorrect, score, feedback, shapes, {
+      required,
+      missing,
+      arrangement,
+      arranged,
+      threshold,
+    });
+  },
+};
+
+// =================== VALUE RULES ===================
+
+interface ValueGradientParams {
+  steps: number;
+  smoothness: number;
+  axis: 'horizontal' | 'vertical';
+}
+
+const valueGradient: ValidatorDefinition<ValueGradientParams> = {
+  type: 'value_gradient',
+  description: 'A value scale from light to dark in even steps',
+  params: {
+    steps: { kind: 'number', min: 2 },
+    smoothness: { kind: 'number', min: 0, max: 1 },
+    axis: { kind: 'string', values: ['horizontal', 'vertical'] },
+  },
+  validate: ({ rule, params, strokes }) => {
+    const steps = params.steps || 5;
+    const threshold = rule.threshold ?? 0.6;
+    const minSmoothness = params.smoothness;
+
+    const analysis = valueAnalyzer.analyzeValueGradient(strokes, steps, params.axis);
+    if (!analysis) {
+      return {
+        isCorrect: false,
+        score: 0,
+        feedback: `Shade ${steps} boxes from light to dark.`,
+      };
+    }
+
+    const smoothEnough = minSmoothness === undefined || analysis.evenness >= minSmoothness;
+    const isCorrect = analysis.score >= threshold && smoothEnough;
+
+    let feedback: string;
+    if (analysis.reversedSteps.length > 0) {
+      const step = analysis.reversedSteps[0] + 1;
+      feedback = `Step ${step} isn't darker than step ${step - 1}. Each step should be a clear jump in value.`;
+    } else if (analysis.contrast < 0.25) {
+      feedback = 'Push your darks further - the darkest step should be much darker than the lightest.';
+    } else if (!smoothEnough) {
+      feedback = 'The jumps between steps are uneven. Aim for equal changes in value.';
+    } else {
+      feedback = 'Smooth, even value scale!';
+    }
+
+    return {
+      isCorrect,
+      score: analysis.score,
+      feedback,
+      details: {
+        threshold,
+        steps,
+        axis: analysis.axis,
+        direction: analysis.direction,
+        bandValues: analysis.bandValues,
+        monotonicity: analysis.monotonicity,
+        evenness: analysis.evenness,
+        contrast: analysis.contrast,
+        reversedSteps: analysis.reversedSteps,
+      },
+    };
+  },
+};
+
+interface ShadedFormParams {
+  shape: string;
+  lightDirection: string;
+  bands: number;
+}
+
+const shadedForm: ValidatorDefinition<ShadedFormParams> = {
+  type: 'shaded_form',
+  description: 'A form shaded consistently with a light direction',
+  params: {
+    shape: { kind: 'string', values: ['sphere'] },
+    lightDirection: { kind: 'string', values: LIGHT_DIRECTIONS },
+    bands: { kind: 'number', min: 2 },
+  },
+  validate: ({ rule, params, strokes }) => {
+    const lightDirection = params.lightDirection || 'top-right';
+    const threshold = rule.threshold ?? 0.6;
+
+    const analysis = valueAnalyzer.analyzeShadedForm(strokes, lightDirection, params.bands);
+    if (!analysis) {
+      return {
+        isCorrect: false,
+        score: 0,
+        feedback: 'Draw the form, then shade it.',
+      };
+    }
+
+    const lightLabel = lightDirection.replace('-', ' ');
+
+    let feedback: string;
+    if (analysis.coverage < 0.15) {
+      feedback = 'Add more shading inside the form.';
+    } else if (analysis.contrast <= 0) {
+      feedback = `The light is coming from the ${lightLabel} - that side should stay lightest.`;
+    } else if (analysis.monotonicity < 0.75) {
+      feedback = 'Let the shadow build gradually from the lit side to the dark side.';
+    } else {
+      feedback = 'That really looks three-dimensional!';
+    }
+
+    return {
+      isCorrect: analysis.score >= threshold,
+      score: analysis.score,
+      feedback,
+      details: {
+        threshold,
+        lightDirection,
+        bandValues: analysis.bandValues,
+        monotonicity: analysis.monotonicity,
+        contrast: analysis.contrast,
+        coverage: analysis.coverage,
+        outlineFound: analysis.outlineFound,
+      },
+    };
+  },
+};
+
+// =================== UNGRADED RULES ===================
+
+/** Any drawing passes. Used for exercises we can't score automatically yet. */
+function ungraded(type: string, description: string): ValidatorDefinition<{}> {
+  return {
+    type,
+    description,
+    params: {},
+    validate: () => ({
+      isCorrect: true,
+      score: 1,
+      feedback: 'Good effort! Keep practicing!',
+    }),
+  };
+}
+
+// =================== HELPERS ===================
+
+function describeShapeMiss(shape: RecognizedShape, target: string): string {
+  const drawn = shapeRecognizer.describe(shape);
+
+  if (drawn !== target && !(target === 'rectangle' && drawn === 'square')) {
+    return `That looks more like a ${drawn} than a ${target}.`;
+  }
+  if (shape.closure < 0.8) {
+    return `Close the gap - your ${target}'s ends are ${Math.round(shape.closureGap)}px apart.`;
+  }
+  if (shape.type === 'circle' || shape.type === 'ellipse') {
+    return `Your ${target} is a little lopsided. Keep the same distance from the center all the way round.`;
+  }
+  if (shape.cornerSharpness < 0.6) {
+    return 'Your corners are rounded - pause briefly and change direction sharply.';
+  }
+  return `Almost! Keep the sides of your ${target} straighter.`;
+}
+
+function shapeOutcome(
+  isCorrect: boolean,
+  score: number,
+  feedback: string,
+  shapes: RecognizedShape[],
+  extra: Record<string, any>
+): RuleOutcome {
+  return {
+    isCorrect,
+    score,
+    feedback,
+    details: {
+      ...extra,
+      shapes: shapes.map(shape => ({
+        type: shapeRecognizer.describe(shape),
+        confidence: shape.confidence,
+        bounds: shape.bounds,
+        closure: shape.closure,
+        roundness: shape.roundness,
+        cornerSharpness: shape.cornerSharpness,
+        strokeIndices: shape.strokeIndices,
+      })),
+    },
+  };
+}
+
+export const drawingValidators: ValidatorDefinition<any>[] = [
+  lineStraightness,
+  lineCount,
+  parallelLines,
+  shapeAccuracy,
+  multipleShapes,
+  containsShapes,
+  shapeCombination,
+  valueGradient,
+  shadedForm,
+  ungraded('completion', 'Any drawing passes'),
+  ungraded('curve_detection', 'Ungraded: curved strokes'),
+  ungraded('point_placement', 'Ungraded: vanishing point placement'),
+  ungraded('perspective_lines', 'Ungraded: lines converging on a vanishing point'),
+];
+
+/** Rule types that pass any drawing, so they say nothing about skill. */
+export const UNGRADED_RULE_TYPES = ['completion', 'curve_detection', 'point_placement', 'perspective_lines'];
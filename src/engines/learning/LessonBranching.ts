@@ -0,0 +1,155 @@
+// src/engines/learning/LessonBranching.ts - BRANCHING LESSON FLOW
+
+import { ContentBranch, LessonContent } from '../../types';
+
+/**
+ * LESSON BRANCHING
+ *
+ * Picks the item that follows another, from the item's `branches`:
+ * - 'failed' fires once `afterAttempts` attempts have missed - typically
+ *   into a remedial item
+ * - 'passed' / 'perfect' fire on success, e.g. to skip practice the
+ *   learner clearly doesn't need
+ * - Without a matching branch the lesson moves to the next item that
+ *   isn't `remedial`
+ *
+ * Branches only jump forward, so every lesson still ends.
+ */
+
+export const BRANCH_CONDITIONS: Array<ContentBranch['when']> = ['failed', 'passed', 'perfect'];
+
+// How an item went, as far as branching cares
+export interface ItemOutcome {
+  isCorrect: boolean;
+  score?: number;
+  attempts: number;
+  hintsUsed: number;
+}
+
+export interface BranchProblem {
+  contentIndex: number;
+  branchIndex?: number; // Unset for problems with the item itself
+  message: string;
+}
+
+export class LessonBranching {
+  private static instance: LessonBranching;
+
+  private constructor() {
+    // Private constructor for singleton
+  }
+
+  public static getInstance(): LessonBranching {
+    if (!LessonBranching.instance) {
+      LessonBranching.instance = new LessonBranching();
+    }
+    return LessonBranching.instance;
+  }
+
+  // =================== ROUTING ===================
+
+  /** Index of the first item a learner sees; content.length when every item is remedial. */
+  public firstIndex(content: LessonContent[]): number {
+    return this.nextLinearIndex(content, -1);
+  }
+
+  /** The item after `fromIndex`, and the branch that chose it, if any. */
+  public nextIndex(
+    content: LessonContent[],
+    fromIndex: number,
+    outcome: ItemOutcome | null
+  ): { index: number; branch: ContentBranch | null } {
+    const branch = outcome ? this.matchBranch(content[fromIndex], outcome) : null;
+    if (branch) {
+      const target = content.findIndex(c => c.id === branch.goTo);
+      if (target > fromIndex) {
+        return { index: target, branch };
+      }
+    }
+    return { index: this.nextLinearIndex(content, fromIndex), branch: null };
+  }
+
+  /** Items the learner would still see from `fromIndex` if no further branch fires. */
+  public remainingRoute(content: LessonContent[], fromIndex: number): LessonContent[] {
+    const route: LessonContent[] = [];
+    for (let i = this.nextLinearIndex(content, fromIndex); i < content.length; i = this.nextLinearIndex(content, i)) {
+      route.push(content[i]);
+    }
+    return route;
+  }
+
+  /**
+   * Whether the item has a 'failed' branch still waiting on more misses -
+   * the learner should get another try before moving on.
+   */
+  public canRetry(item: LessonContent, outcome: ItemOutcome): boolean {
+    if (outcome.isCorrect) return false;
+    return (item.branches || []).some(branch =>
+      branch.when === 'failed' && outcome.attempts < (branch.afterAttempts ?? 1)
+    );
+  }
+
+  private matchBranch(item: LessonContent | undefined, outcome: ItemOutcome): ContentBranch | null {
+    return (item?.branches || []).find(branch => this.matches(branch, outcome)) || null;
+  }
+
+  private matches(branch: ContentBranch, outcome: ItemOutcome): boolean {
+    // Ungraded scores count as full marks on a pass
+    const score = outcome.score ?? (outcome.isCorrect ? 1 : 0);
+
+    switch (branch.when) {
+      case 'failed':
+        return !outcome.isCorrect && outcome.attempts >= (branch.afterAttempts ?? 1);
+      case 'passed':
+        return outcome.isCorrect && score >= (branch.minScore ?? 0);
+      case 'perfect':
+        return outcome.isCorrect && outcome.attempts === 1 && outcome.hintsUsed === 0 && score >= (branch.minScore ?? 1);
+      default:
+        return false;
+    }
+  }
+
+  private nextLinearIndex(content: LessonContent[], fromIndex: number): number {
+    let index = fromIndex + 1;
+    while (index < content.length && content[index].remedial) {
+      index++;
+    }
+    return index;
+  }
+
+  // =================== CHECKS ===================
+
+  /**
+   * Branches that can't be followed - targets that are missing or not ahead -
+   * and remedial items no branch leads to.
+   */
+  public checkBranches(content: LessonContent[]): BranchProblem[] {
+    const problems: BranchProblem[] = [];
+    const indices = new Map(content.map((item, i) => [item.id, i]));
+    const targeted = new Set<string>();
+
+    content.forEach((item, contentIndex) => {
+      (item.branches || []).forEach((branch, branchIndex) => {
+        const target = indices.get(branch.goTo);
+        if (target === undefined) {
+          problems.push({ contentIndex, branchIndex, message: `goTo "${branch.goTo}" is not an item in this lesson` });
+        } else if (target <= contentIndex) {
+          problems.push({ contentIndex, branchIndex, message: `goTo "${branch.goTo}" must come after this item - branches only jump forward` });
+        } else {
+          targeted.add(branch.goTo);
+        }
+      });
+    });
+
+    content.forEach((item, contentIndex) => {
+      if (item.remedial && !targeted.has(item.id)) {
+        problems.push({ contentIndex, message: 'remedial item is not the target of any branch, so it is never shown' });
+      }
+    });
+
+    return problems;
+  }
+}
+
+// Export singleton
+export const lessonBranching = LessonBranching.getInstance();
@@ -6,16 +6,50 @@ import {
   LessonProgress,
   ValidationResult,
   LessonCompletionData,
+  LessonCompletedEvent,
   LessonStateCallback,
   ContentHandler,
+  StrokeQualityReport,
+  LessonSessionSnapshot,
+  DifficultyAdjustment,
+  HintLevel,
+  DrillTiming,
+  DrillRecord,
 } from '../../types';
 import { dataManager } from '../core/DataManager';
 import { errorHandler } from '../core/ErrorHandler';
 import { EventBus } from '../core/EventBus';
+import { overlayComparator, OverlayComparison } from './OverlayComparator';
+import { validatorRegistry } from './ValidatorRegistry';
+import { drawingValidators } from './DrawingValidators';
+import { strokeMetrics } from './StrokeMetrics';
+import { lessonPackLoader } from './LessonPackLoader';
+import { spacedRepetition, REVIEW_LESSON_ID } from './SpacedRepetition';
+import { adaptiveDifficulty } from './AdaptiveDifficulty';
+import { syntheticStrokes } from './SyntheticStrokes';
+import { lessonBranching, ItemOutcome } from './LessonBranching';
+import { lessonSkills } from './LessonSkills';
+import { documentStore } from '../drawing/DocumentStore';
+import { pikasoFormat } from '../drawing/PikasoFormat';
 
 // Import the drawing lessons we created
 import { coreCurriculum } from '../../content/lessons/core-curriculum';
 import { fundamentalLessons } from '../../content/lessons/fundamentals';
+import { drillLessons } from '../../content/lessons/drills';
+
+// Bump when the snapshot shape changes; older snapshots are discarded
+const SESSION_SNAPSHOT_VERSION = 1;
+
+// Each hint level revealed takes this share off the item's XP, down to the floor
+const HINT_XP_PENALTY = 0.2;
+const MIN_HINT_XP_SHARE = 0.4;
+const DEMONSTRATION_HINT = 'Watch how it\'s drawn, then try it yourself.';
+
+// Drill items answered instantly earn this much extra XP, tapering to none at the buzzer
+const MAX_SPEED_BONUS = 0.5;
+const DRILL_RECORDS_KEY = 'drill_records';
+// Drills can be run again and again: runs that don't beat the best score earn only this much
+const DRILL_REPEAT_XP = 5;
 
 /**
  * ENTERPRISE LESSON ENGINE V3.0 - FAANG GRADE
@@ -26,6 +60,12 @@ import { fundamentalLessons } from '../../content/lessons/fundamentals';
  * - Hybrid content support
  * - iPhone + iPad optimization
  * - Production-ready validation
+ * - Resumable sessions, snapshotted on every step and when backgrounded
+ * - Daily review lesson built from spaced-repetition due items
+ * - Adaptive difficulty applied to each item as it comes up
+ * - Progressive hint ladders, each level costing a share of the item's XP
+ * - Timed drills: item time limits enforced with auto-submit, XP scaled by speed
+ * - Branching: items can send the learner to a remedial item or skip ahead
  */
 export class LessonEngine {
   private static instance: LessonEngine;
@@ -36,6 +76,7 @@ export class LessonEngine {
   private contentIndex: number = 0;
   private startTime: number = 0;
   private sessionData: any = {};
+  private itemTimer: ReturnType<typeof setTimeout> | null = null;
   private subscribers: Set<LessonStateCallback> = new Set();
   private isInitialized: boolean = false;
   
@@ -71,6 +112,13 @@ export class LessonEngine {
       // Load ALL lessons (quiz + drawing)
       await this.loadAllLessons();
       
+      // Reject lessons whose validation rules we can't run
+      this.assertValidationRules();
+      
+      // Review scheduling listens for answers, so it must be up before any lesson starts
+      await spacedRepetition.initialize();
+      await adaptiveDifficulty.initialize();
+      
       // Setup event listeners
       this.setupEventListeners();
       
@@ -96,6 +144,9 @@ export class LessonEngine {
     this.contentHandlers.set('true_false', new TrueFalseHandler());
     this.contentHandlers.set('color_match', new ColorMatchHandler());
     this.contentHandlers.set('visual_selection', new VisualSelectionHandler());
+    this.contentHandlers.set('ordering', new OrderingHandler());
+    this.contentHandlers.set('matching', new MatchingHandler());
+    this.contentHandlers.set('hotspot', new HotspotHandler());
     
     // Drawing handlers (new)
     this.contentHandlers.set('drawing_exercise', new DrawingExerciseHandler());
@@ -107,6 +158,9 @@ export class LessonEngine {
     this.contentHandlers.set('assessment', new AssessmentHandler());
     this.contentHandlers.set('portfolio_project', new PortfolioProjectHandler());
     
+    // Built-in drawing rules; content packs can register more on validatorRegistry
+    validatorRegistry.registerAll(drawingValidators);
+    
     console.log(`✅ Initialized ${this.contentHandlers.size} content handlers`);
   }
 
@@ -125,22 +179,66 @@ export class LessonEngine {
         this.lessons.set(lesson.id, lesson);
       });
       
+      // Warm-up drills sit outside the curriculum
+      drillLessons.forEach(lesson => {
+        this.lessons.set(lesson.id, lesson);
+      });
+      
       // Create hybrid lessons that combine quiz + drawing
       const hybridLessons = this.createHybridLessons();
       hybridLessons.forEach(lesson => {
         this.lessons.set(lesson.id, lesson);
       });
       
+      // Load JSON lesson packs (bundled + device); built-in lessons win on id clashes
+      const { lessons: packLessons } = await lessonPackLoader.loadAll();
+      packLessons.forEach(lesson => {
+        if (this.lessons.has(lesson.id)) {
+          console.warn(`⚠️ Pack lesson ${lesson.id} clashes with a built-in lesson - skipped`);
+          return;
+        }
+        this.lessons.set(lesson.id, lesson);
+      });
+      
       console.log(`📚 Loaded ${this.lessons.size} total lessons:`);
       console.log(`   - ${fundamentalLessons.length} quiz lessons`);
       console.log(`   - ${coreCurriculum.length} drawing lessons`);
       console.log(`   - ${hybridLessons.length} hybrid lessons`);
+      console.log(`   - ${drillLessons.length} drills`);
+      console.log(`   - ${packLessons.length} pack lessons`);
       
     } catch (error) {
       console.error('❌ Failed to load lessons:', error);
     }
   }
 
+  private assertValidationRules(): void {
+    const problems: string[] = [];
+
+    this.lessons.forEach(lesson => {
+      (lesson.content || []).forEach(content => {
+        if (!content.validation) return;
+        validatorRegistry
+          .checkRule(content.validation)
+          .forEach(problem => problems.push(`${lesson.id}/${content.id}: ${problem}`));
+      });
+
+      lessonBranching.checkBranches(lesson.content || []).forEach(problem => {
+        const content = lesson.content[problem.contentIndex];
+        const branch = problem.branchIndex !== undefined ? `branches[${problem.branchIndex}]: ` : '';
+        problems.push(`${lesson.id}/${content.id}: ${branch}${problem.message}`);
+      });
+    });
+
+    if (problems.length > 0) {
+      const message = `Invalid lesson validation rules or branches:\n${problems.join('\n')}`;
+      errorHandler.handleError(
+        errorHandler.createError('VALIDATION_ERROR', message, 'high', { problems })
+      );
+      throw new Error(message);
+    }
+  }
+
   private createHybridLessons(): Lesson[] {
     // Create lessons that combine theory + practice
     return [
@@ -225,6 +323,9 @@ export class LessonEngine {
     
     // iPhone/iPad specific events
     this.eventBus.on('device:orientation_changed', this.handleOrientationChange.bind(this));
+    
+    // The app may be killed while in the background
+    this.eventBus.on('app:background', this.handleAppBackground.bind(this));
   }
 
   // =================== PUBLIC API ===================
@@ -259,19 +360,71 @@ export class LessonEngine {
   public getQuizLessons(): Lesson[] {
     return this.getAllLessons().filter(lesson => 
       lesson.content.every(c => 
-        ['multiple_choice', 'true_false', 'color_match'].includes(c.type)
+        ['multiple_choice', 'true_false', 'color_match', 'ordering', 'matching', 'hotspot'].includes(c.type)
       )
     );
   }
 
+  // =================== REVIEW ===================
+
+  /**
+   * Today's review session: due quiz items from completed lessons, as a
+   * lesson that runs through the normal flow. Null when nothing is due.
+   */
+  public async getReviewLesson(now: number = Date.now()): Promise<Lesson | null> {
+    const completed = await dataManager.getCompletedLessons();
+    const content: LessonContent[] = [];
+
+    spacedRepetition.getDueCards(completed, now).forEach(card => {
+      const source = this.lessons.get(card.lessonId)?.content.find(c => c.id === card.contentId);
+      if (source) {
+        content.push({ ...source, id: card.key });
+      }
+    });
+
+    if (content.length === 0) return null;
+
+    return {
+      id: REVIEW_LESSON_ID,
+      title: 'Daily Review',
+      description: `${content.length} question${content.length === 1 ? '' : 's'} due for review`,
+      type: 'assessment',
+      skillTree: 'review',
+      order: 0,
+      estimatedTime: Math.max(1, Math.ceil(content.length / 2)),
+      difficulty: 1,
+      prerequisites: [],
+      content,
+      objectives: [],
+      // Revisiting known material earns half the original XP
+      rewards: { xp: Math.round(content.reduce((sum, c) => sum + (c.xp || 10), 0) / 2) },
+      status: 'available',
+      progress: 0,
+      attempts: 0,
+      timeSpent: 0,
+      tags: ['review'],
+    };
+  }
+
+  public isReviewLesson(lessonId: string | undefined): boolean {
+    return lessonId === REVIEW_LESSON_ID;
+  }
+
   // =================== LESSON FLOW ===================
 
-  public async startLesson(lesson: Lesson): Promise<void> {
+  public async startLesson(lesson: Lesson, options: { resume?: boolean } = {}): Promise<void> {
     try {
       console.log(`🎓 Starting lesson: ${lesson.title}`);
       
+      // Starting over drops any saved session
+      const snapshot = options.resume ? await this.loadSession(lesson) : null;
+      if (!snapshot) {
+        await dataManager.clearLessonSession(lesson.id);
+      }
+      
+      this.clearItemTimer();
       this.currentLesson = lesson;
-      this.contentIndex = 0;
+      this.contentIndex = lessonBranching.firstIndex(lesson.content);
       this.startTime = Date.now();
       this.sessionData = {
         answers: new Map(),
@@ -280,28 +433,40 @@ export class LessonEngine {
         score: 0,
         maxScore: 0,
         strokes: new Map(), // Store drawing strokes
+        strokeMetrics: new Map(), // Latest quality report per content
+        draftStrokes: [], // Unsubmitted drawing on the current content
+        adjusted: new Map(), // Content as adapted for this learner, per content id
+        hintsUsed: new Map(), // Hint levels revealed per content id
+        hintXPDeducted: new Map(), // XP lost to hints per content id
+        itemStartedAt: new Map(), // When each timed item's clock started
+        timings: new Map(), // Drill timing per content id
+        outcomes: new Map(), // Latest result per content id, for branching
       };
       
       // Initialize progress
       this.lessonProgress = {
         lessonId: lesson.id,
         userId: 'current-user',
-        currentContentIndex: 0,
+        currentContentIndex: this.contentIndex,
         completedContent: [],
         contentProgress: 0,
-        totalContent: lesson.content.length,
+        totalContent: 0,
         score: 0,
         attempts: 0,
         timeSpent: 0,
         completed: false,
         startedAt: Date.now(),
         progress: 0,
+        path: lesson.content[this.contentIndex] ? [lesson.content[this.contentIndex].id] : [],
       };
       
-      // Calculate max possible score
-      this.sessionData.maxScore = lesson.content.reduce((sum, content) => {
-        return sum + (content.xp || 10);
-      }, 0);
+      if (snapshot) {
+        this.restoreSession(snapshot);
+      }
+      
+      this.updateRoute();
+      
+      this.startItemTimer();
       
       // Emit lesson started
       this.eventBus.emit('lesson:started', { 
@@ -309,12 +474,15 @@ export class LessonEngine {
         lessonType: lesson.type,
         contentCount: lesson.content.length,
         hasDrawing: this.hasDrawingContent(lesson),
+        resumed: !!snapshot,
       });
       
       // Notify subscribers
       this.notifySubscribers();
       
-      console.log(`📊 Lesson started - ${lesson.content.length} items, max score: ${this.sessionData.maxScore}`);
+      console.log(snapshot
+        ? `📊 Lesson resumed at item ${this.lessonProgress!.path!.length}/${this.lessonProgress!.totalContent}`
+        : `📊 Lesson started - ${this.lessonProgress.totalContent} items, max score: ${this.sessionData.maxScore}`);
       
     } catch (error) {
       console.error('❌ Failed to start lesson:', error);
@@ -332,7 +500,32 @@ export class LessonEngine {
     if (!this.currentLesson || this.contentIndex >= this.currentLesson.content.length) {
       return null;
     }
-    return this.currentLesson.content[this.contentIndex];
+    return this.getAdjustedContent(this.currentLesson.content[this.contentIndex]).content;
+  }
+
+  public getDifficultyAdjustment(contentId: string): DifficultyAdjustment | null {
+    return this.sessionData.adjusted?.get(contentId)?.adjustment || null;
+  }
+
+  // Adjusted once per item per session, so every attempt is graded the same way
+  private getAdjustedContent(content: LessonContent): { content: LessonContent; adjustment: DifficultyAdjustment | null } {
+    const adjusted: Map<string, { content: LessonContent; adjustment: DifficultyAdjustment | null }> | undefined =
+      this.sessionData.adjusted;
+    if (!adjusted || !this.currentLesson) {
+      return { content, adjustment: null };
+    }
+
+    let entry = adjusted.get(content.id);
+    if (!entry) {
+      entry = adaptiveDifficulty.adjust(this.currentLesson.id, content);
+      adjusted.set(content.id, entry);
+
+      if (entry.adjustment) {
+        console.log(`🎚️ ${entry.adjustment.reason}`);
+        this.eventBus.emit('lesson:difficulty_adjusted', entry.adjustment);
+      }
+    }
+    return entry;
   }
 
   public getLessonProgress(): LessonProgress | null {
@@ -365,29 +558,69 @@ export class LessonEngine {
       const attemptCount = (this.sessionData.attempts.get(contentId) || 0) + 1;
       this.sessionData.attempts.set(contentId, attemptCount);
 
-      // Store drawing strokes if applicable
-      if (answer.strokes) {
+      const timing = this.stopItemTimer(currentContent);
+
+      // Store drawing strokes and their quality metrics if applicable
+      let metrics: StrokeQualityReport | undefined;
+      if (answer?.strokes) {
         this.sessionData.strokes.set(contentId, answer.strokes);
+        metrics = strokeMetrics.measure(answer.strokes);
+        this.sessionData.strokeMetrics.set(contentId, metrics);
       }
 
-      // Validate answer
-      const result = await handler.validateAnswer(currentContent, answer, attemptCount);
+      // Validate answer - running out of time with nothing to submit is a miss
+      const result: ValidationResult = timing?.timedOut && isEmptyAnswer(answer)
+        ? { isCorrect: false, feedback: 'Time\'s up!', xpAwarded: 0 }
+        : await handler.validateAnswer(currentContent, answer, attemptCount);
+      
+      // Adaptive hint timing overrides the handler's default attempt
+      const adjustment = this.getDifficultyAdjustment(contentId);
+      const hintChange = adjustment?.changes.find(change => change.field === 'hintAfterAttempts');
+      if (hintChange) {
+        result.showHint = !result.isCorrect && attemptCount >= hintChange.to;
+      }
+      if (adjustment) {
+        result.difficulty = adjustment;
+      }
+      
+      adaptiveDifficulty.recordOutcome(currentContent, result, attemptCount);
       
       // Store answer
       this.sessionData.answers.set(contentId, answer);
       
+      const hintsUsed = this.getHintsUsed(contentId);
+      result.hintsUsed = hintsUsed;
+      
       if (result.isCorrect) {
         // Award XP
         const baseXP = result.xpAwarded || currentContent.xp || 10;
-        const xpEarned = attemptCount === 1 ? baseXP : Math.floor(baseXP * 0.7);
+        const attemptXP = attemptCount === 1 ? baseXP : Math.floor(baseXP * 0.7);
+        const hintedXP = Math.floor(attemptXP * this.getHintXPShare(hintsUsed));
+        // Handler defaults can exceed the item's xp; the max score is built from xp
+        const xpEarned = Math.min(
+          this.getMaxItemXP(currentContent),
+          Math.floor(hintedXP * (1 + (timing?.speedBonus || 0)))
+        );
         this.sessionData.score += xpEarned;
+        this.sessionData.hintXPDeducted.set(contentId, attemptXP - hintedXP);
         result.xpAwarded = xpEarned;
         
-        console.log(`✅ Correct! +${xpEarned} XP (attempt ${attemptCount})`);
+        console.log(`✅ Correct! +${xpEarned} XP (attempt ${attemptCount}${hintsUsed > 0 ? `, ${hintsUsed} hint(s)` : ''})`);
+      } else if (timing) {
+        // Finishing early doesn't count for a miss
+        timing.speedBonus = 0;
+        console.log(`❌ Incorrect (attempt ${attemptCount}${timing.timedOut ? ', timed out' : ''})`);
       } else {
         console.log(`❌ Incorrect (attempt ${attemptCount})`);
       }
 
+      if (timing) {
+        result.timing = timing;
+        this.sessionData.timings.set(contentId, timing);
+      }
+
+      this.sessionData.outcomes.set(contentId, { isCorrect: !!result.isCorrect, score: result.score });
+
       // Update progress
       this.updateProgressTracking();
 
@@ -399,6 +632,7 @@ export class LessonEngine {
         isCorrect: result.isCorrect,
         attempt: attemptCount,
         xpEarned: result.xpAwarded,
+        strokeMetrics: metrics,
       });
 
       // Notify subscribers
@@ -416,6 +650,203 @@ export class LessonEngine {
     }
   }
 
+  /**
+   * Grades an answer with the content's handler, outside any lesson: no
+   * attempts, XP, events or difficulty tracking. Used by the placement test.
+   */
+  public async gradeAnswer(content: LessonContent, answer: any, attemptCount: number = 1): Promise<ValidationResult> {
+    const handler = this.contentHandlers.get(content.type);
+    if (!handler) {
+      throw new Error(`No handler for content type: ${content.type}`);
+    }
+    return handler.validateAnswer(content, answer, attemptCount);
+  }
+
+  // =================== HINTS ===================
+
+  /**
+   * The item's hint ladder. Drawing items with known ideal strokes end on a
+   * demonstration, added as its own level when there's only one text hint.
+   * Guided steps play their demonstration up front, so their hints are text.
+   */
+  public getHintLadder(content: LessonContent): HintLevel[] {
+    const texts = content.hints?.length ? content.hints : content.hint ? [content.hint] : [];
+    const ladder: HintLevel[] = texts.map((text, index) => ({ level: index + 1, text }));
+
+    const isDrawing = ['drawing_exercise', 'shape_practice'].includes(content.type);
+    const demonstration = isDrawing ? syntheticStrokes.forContent(content) : null;
+    if (demonstration && demonstration.length > 0) {
+      if (ladder.length < 2) {
+        ladder.push({ level: ladder.length + 1, text: DEMONSTRATION_HINT });
+      }
+      ladder[ladder.length - 1].demonstration = demonstration;
+    }
+
+    return ladder;
+  }
+
+  public getHintsUsed(contentId: string): number {
+    return this.sessionData.hintsUsed?.get(contentId) || 0;
+  }
+
+  /** Hints revealed so far on the current item. */
+  public getRevealedHints(contentId: string): HintLevel[] {
+    const content = this.getCurrentContent();
+    if (!content || content.id !== contentId) return [];
+    return this.getHintLadder(content).slice(0, this.getHintsUsed(contentId));
+  }
+
+  /** Reveals the next hint level on the current item, or null when the ladder is exhausted. */
+  public requestHint(contentId: string): HintLevel | null {
+    const content = this.getCurrentContent();
+    if (!this.currentLesson || !content || content.id !== contentId) return null;
+
+    const ladder = this.getHintLadder(content);
+    const used = this.getHintsUsed(contentId);
+    if (used >= ladder.length) return null;
+
+    this.sessionData.hintsUsed.set(contentId, used + 1);
+    this.eventBus.emit('lesson:hint_used', {
+      lessonId: this.currentLesson.id,
+      contentId,
+      level: used + 1,
+      totalLevels: ladder.length,
+    });
+    this.notifySubscribers();
+
+    return ladder[used];
+  }
+
+  /** Share of an item's XP still on offer after `hintsUsed` levels. */
+  public getHintXPShare(hintsUsed: number): number {
+    return Math.max(MIN_HINT_XP_SHARE, 1 - HINT_XP_PENALTY * hintsUsed);
+  }
+
+  // =================== TIMED DRILLS ===================
+
+  public isDrillLesson(lesson: Lesson | null = this.currentLesson): boolean {
+    return lesson?.type === 'drill';
+  }
+
+  public getDrillLessons(): Lesson[] {
+    return this.getAllLessons()
+      .filter(lesson => this.isDrillLesson(lesson))
+      .sort((a, b) => a.order - b.order);
+  }
+
+  /** Time left on the current item in ms, or null when it isn't timed. */
+  public getTimeRemaining(): number | null {
+    const content = this.getCurrentContent();
+    const limit = content ? this.getTimeLimitMs(content) : null;
+    const startedAt: number | undefined = content ? this.sessionData.itemStartedAt?.get(content.id) : undefined;
+    if (limit === null || startedAt === undefined) return null;
+    return Math.max(0, limit - (Date.now() - startedAt));
+  }
+
+  // Time limits are enforced in drills; elsewhere they're guidance for the UI
+  private getTimeLimitMs(content: LessonContent): number | null {
+    return this.isDrillLesson() && typeof content.timeLimit === 'number' ? content.timeLimit * 1000 : null;
+  }
+
+  private startItemTimer(): void {
+    this.clearItemTimer();
+
+    const content = this.getCurrentContent();
+    const limit = content ? this.getTimeLimitMs(content) : null;
+    if (!content || limit === null || this.isItemPassed(content.id)) return;
+
+    this.sessionData.itemStartedAt.set(content.id, Date.now());
+    this.itemTimer = setTimeout(() => this.handleTimeUp(content.id), limit);
+  }
+
+  // Any answer is kept, missed or not; only a pass ends an item's clock for good
+  private isItemPassed(contentId: string): boolean {
+    return this.sessionData.outcomes?.get(contentId)?.isCorrect === true;
+  }
+
+  private clearItemTimer(): void {
+    if (this.itemTimer) {
+      clearTimeout(this.itemTimer);
+      this.itemTimer = null;
+    }
+  }
+
+  /** Stops the clock on a timed item and measures the answer against it. */
+  private stopItemTimer(content: LessonContent): DrillTiming | undefined {
+    const limit = this.getTimeLimitMs(content);
+    const startedAt: number | undefined = this.sessionData.itemStartedAt?.get(content.id);
+    if (limit === null || startedAt === undefined) return undefined;
+
+    this.clearItemTimer();
+
+    const elapsed = Math.min(limit, Date.now() - startedAt);
+    const timedOut = elapsed >= limit;
+
+    return {
+      timeLimit: content.timeLimit!,
+      elapsed,
+      timedOut,
+      speedBonus: timedOut ? 0 : Math.round(MAX_SPEED_BONUS * (1 - elapsed / limit) * 100) / 100,
+    };
+  }
+
+  private async handleTimeUp(contentId: string): Promise<void> {
+    this.itemTimer = null;
+
+    const content = this.getCurrentContent();
+    if (!this.currentLesson || !content || content.id !== contentId || this.isItemPassed(contentId)) {
+      return;
+    }
+
+    console.log(`⏰ Time's up on ${contentId}`);
+
+    // Whatever is on the canvas when time runs out is the answer
+    const strokes: any[] = this.sessionData.draftStrokes || [];
+    const answer = strokes.length > 0 ? { strokes, strokeCount: strokes.length } : null;
+    const result = await this.submitAnswer(contentId, answer);
+
+    this.eventBus.emit('lesson:time_up', {
+      lessonId: this.currentLesson.id,
+      contentId,
+      result,
+    });
+  }
+
+  public async getDrillRecords(): Promise<Record<string, DrillRecord>> {
+    return (await dataManager.get<Record<string, DrillRecord>>(DRILL_RECORDS_KEY)) || {};
+  }
+
+  /** Saves the run; true when its score beats every earlier run's. */
+  private async recordDrillRun(lessonId: string, score: number, timeSpent: number): Promise<boolean> {
+    try {
+      const records = await this.getDrillRecords();
+      const previous = records[lessonId];
+      const isBestScore = !previous || score > previous.bestScore;
+      const isBest = isBestScore || (score === previous.bestScore && timeSpent < previous.bestTime);
+
+      records[lessonId] = {
+        lessonId,
+        runs: (previous?.runs || 0) + 1,
+        bestScore: isBest ? score : previous.bestScore,
+        lastScore: score,
+        bestTime: isBest ? timeSpent : previous.bestTime,
+        lastRunAt: Date.now(),
+      };
+
+      await dataManager.set(DRILL_RECORDS_KEY, records);
+      return isBestScore;
+    } catch (error) {
+      console.error('❌ Failed to save drill record:', error);
+      return false;
+    }
+  }
+
+  // The lesson's XP by score for a new best score, a token amount otherwise
+  private getDrillRunXP(lesson: Lesson, score: number, isBestScore: boolean): number {
+    const xp = Math.round((lesson.rewards.xp * score) / 100);
+    return isBestScore ? xp : Math.min(xp, DRILL_REPEAT_XP);
+  }
+
   // =================== PROGRESS MANAGEMENT ===================
 
   private updateProgressTracking(): void {
@@ -429,10 +860,73 @@ export class LessonEngine {
       (this.sessionData.score / this.sessionData.maxScore) * 100
     );
     
-    // Update content progress
+    // Update content progress - against the learner's route, not every item in the lesson
     const answeredCount = this.sessionData.answers.size;
     this.lessonProgress.contentProgress = 
-      (answeredCount / this.currentLesson.content.length) * 100;
+      (answeredCount / Math.max(1, this.lessonProgress.totalContent || 0)) * 100;
+  }
+
+  /**
+   * Items taken so far plus those still ahead if no branch fires. Sizes the
+   * progress bar and the max score, so skipping ahead or detouring through
+   * a remedial item keeps both honest.
+   */
+  private getRoute(): LessonContent[] {
+    if (!this.currentLesson || !this.lessonProgress) return [];
+
+    const content = this.currentLesson.content;
+    const taken = (this.lessonProgress.path || [])
+      .map(id => content.find(c => c.id === id))
+      .filter((c): c is LessonContent => !!c);
+
+    return [...taken, ...lessonBranching.remainingRoute(content, this.contentIndex)];
+  }
+
+  private updateRoute(): void {
+    if (!this.currentLesson || !this.lessonProgress) return;
+
+    const route = this.getRoute();
+    this.lessonProgress.totalContent = route.length;
+
+    // Calculate max possible score
+    this.sessionData.maxScore = route.reduce((sum, content) => sum + this.getMaxItemXP(content), 0);
+
+    this.updateProgressTracking();
+  }
+
+  /** The most XP an item can award - in a drill, speed is part of the score. */
+  public getMaxItemXP(content: LessonContent, lesson: Lesson | null = this.currentLesson): number {
+    const speedShare = this.isDrillLesson(lesson) ? 1 + MAX_SPEED_BONUS : 1;
+    return Math.floor((content.xp || 10) * speedShare);
+  }
+
+  private getItemOutcome(contentId: string): ItemOutcome | null {
+    const outcome = this.sessionData.outcomes?.get(contentId);
+    if (!outcome) return null;
+
+    return {
+      ...outcome,
+      attempts: this.sessionData.attempts.get(contentId) || 0,
+      hintsUsed: this.getHintsUsed(contentId),
+    };
+  }
+
+  /** Whether a missed item should be tried again before moving on - its failure branch needs more attempts. */
+  public canRetry(contentId: string): boolean {
+    const content = this.currentLesson?.content.find(c => c.id === contentId);
+    const outcome = this.getItemOutcome(contentId);
+    return !!content && !!outcome && lessonBranching.canRetry(content, outcome);
+  }
+
+  /** Starts another attempt at a missed item: a clean canvas and, in a drill, a fresh clock. */
+  public retryContent(contentId: string): boolean {
+    const content = this.getCurrentContent();
+    if (!content || content.id !== contentId || !this.canRetry(contentId)) return false;
+
+    this.sessionData.draftStrokes = [];
+    this.startItemTimer();
+    this.notifySubscribers();
+    return true;
   }
 
   public async nextContent(): Promise<boolean> {
@@ -440,19 +934,46 @@ export class LessonEngine {
       return false;
     }
 
-    this.contentIndex++;
+    const content = this.currentLesson.content;
+    const from = content[this.contentIndex];
+    const { index, branch } = lessonBranching.nextIndex(
+      content,
+      this.contentIndex,
+      from ? this.getItemOutcome(from.id) : null
+    );
+
+    this.contentIndex = index;
     this.lessonProgress.currentContentIndex = this.contentIndex;
+    this.sessionData.draftStrokes = [];
+    this.clearItemTimer();
+
+    if (this.contentIndex < content.length) {
+      this.lessonProgress.path = [...(this.lessonProgress.path || []), content[this.contentIndex].id];
+    }
     
     // Update progress
-    this.updateProgressTracking();
+    this.updateRoute();
+
+    if (branch && from) {
+      console.log(`🔀 Branching from ${from.id} to ${branch.goTo} (${branch.when})`);
+      this.eventBus.emit('lesson:branched', {
+        lessonId: this.currentLesson.id,
+        from: from.id,
+        to: branch.goTo,
+        when: branch.when,
+      });
+    }
 
-    console.log(`➡️ Moving to content ${this.contentIndex + 1}/${this.currentLesson.content.length}`);
+    console.log(`➡️ Moving to content ${this.lessonProgress.path?.length}/${this.lessonProgress.totalContent}`);
 
     // Check if complete
     if (this.contentIndex >= this.currentLesson.content.length) {
       return await this.completeLesson();
     }
 
+    await this.saveSession();
+    this.startItemTimer();
+
     // Emit progress
     this.eventBus.emit('lesson:progress', {
       lessonId: this.currentLesson.id,
@@ -493,9 +1014,23 @@ export class LessonEngine {
         timeSpent: this.lessonProgress.timeSpent,
         completedAt: this.lessonProgress.completedAt,
         attempts: Object.fromEntries(this.sessionData.attempts),
+        strokeMetrics: this.sessionData.strokeMetrics.size > 0
+          ? Object.fromEntries(this.sessionData.strokeMetrics)
+          : undefined,
+        hintsUsed: Object.fromEntries(this.sessionData.hintsUsed),
+        hintXPDeducted: Array.from(this.sessionData.hintXPDeducted.values() as Iterable<number>)
+          .reduce((sum, xp) => sum + xp, 0),
+        path: this.lessonProgress.path,
       };
 
-      await dataManager.saveLessonCompletion(completionData);
+      // Reviews reschedule cards and drills are repeatable - neither completes a lesson
+      if (this.isDrillLesson()) {
+        const isBestScore = await this.recordDrillRun(this.currentLesson.id, finalScore, this.lessonProgress.timeSpent);
+        this.lessonProgress.xpEarned = this.getDrillRunXP(this.currentLesson, finalScore, isBestScore);
+      } else if (!this.isReviewLesson(this.currentLesson.id)) {
+        await dataManager.saveLessonCompletion(completionData);
+      }
+      await dataManager.clearLessonSession(this.currentLesson.id);
 
       // Save any drawings
       if (this.sessionData.strokes.size > 0) {
@@ -503,14 +1038,16 @@ export class LessonEngine {
       }
 
       // Emit completion
-      this.eventBus.emit('lesson:completed', {
+      const completedEvent: LessonCompletedEvent = {
         lessonId: this.currentLesson.id,
         score: finalScore,
         xpEarned: this.sessionData.score,
         timeSpent: this.lessonProgress.timeSpent,
         achievements: this.currentLesson.rewards.achievements || [],
         hasDrawings: this.sessionData.strokes.size > 0,
-      });
+        skills: lessonSkills.forLesson(this.currentLesson),
+      };
+      this.eventBus.emit('lesson:completed', completedEvent);
 
       this.notifySubscribers();
 
@@ -523,18 +1060,141 @@ export class LessonEngine {
     }
   }
 
+  // Save drawings for portfolio - a drawing that can't be saved doesn't undo finishing the lesson
   private async saveDrawings(): Promise<void> {
-    // Save drawings for portfolio
     for (const [contentId, strokes] of this.sessionData.strokes) {
-      await dataManager.saveDrawing({
-        lessonId: this.currentLesson!.id,
-        contentId,
-        strokes,
-        timestamp: Date.now(),
-      });
+      try {
+        await documentStore.save(pikasoFormat.fromStrokes(strokes, {
+          id: documentStore.createId(),
+          title: this.currentLesson!.title,
+          metadata: { lessonId: this.currentLesson!.id, contentId },
+        }));
+      } catch (error) {
+        console.error(`❌ Failed to save drawing for ${contentId}:`, error);
+      }
     }
   }
 
+  // =================== SESSION PERSISTENCE ===================
+
+  /** The saved session for a lesson, if it can still be resumed. */
+  public async getResumableSession(lessonId: string): Promise<LessonSessionSnapshot | null> {
+    const lesson = this.lessons.get(lessonId);
+    return lesson ? this.loadSession(lesson) : null;
+  }
+
+  public async discardSession(lessonId: string): Promise<void> {
+    await dataManager.clearLessonSession(lessonId);
+  }
+
+  /** Called by the UI as the student draws, so an unsubmitted drawing survives an interruption. */
+  public updateDraftStrokes(strokes: any[]): void {
+    if (this.currentLesson) {
+      this.sessionData.draftStrokes = strokes;
+    }
+  }
+
+  public getDraftStrokes(): any[] {
+    return this.sessionData.draftStrokes || [];
+  }
+
+  public getSubmittedAnswer(contentId: string): any {
+    return this.sessionData.answers?.get(contentId);
+  }
+
+  private async loadSession(lesson: Lesson): Promise<LessonSessionSnapshot | null> {
+    try {
+      const snapshot = await dataManager.getLessonSession(lesson.id);
+      if (!snapshot) return null;
+
+      // Content edited since the snapshot was taken - indices and answers no longer line up
+      const contentIds = lesson.content.map(c => c.id);
+      const isStale =
+        snapshot.version !== SESSION_SNAPSHOT_VERSION ||
+        snapshot.contentIds.join('|') !== contentIds.join('|') ||
+        snapshot.contentIndex >= contentIds.length;
+
+      if (isStale) {
+        console.warn(`⚠️ Discarding stale session for ${lesson.id}`);
+        await dataManager.clearLessonSession(lesson.id);
+        return null;
+      }
+
+      return snapshot;
+    } catch (error) {
+      console.error('❌ Failed to load lesson session:', error);
+      return null;
+    }
+  }
+
+  private async saveSession(): Promise<void> {
+    if (!this.currentLesson || !this.lessonProgress || this.lessonProgress.completed) return;
+    
+    // Due items change daily, so a review is rebuilt rather than resumed; a drill is just run again
+    if (this.isReviewLesson(this.currentLesson.id) || this.isDrillLesson()) return;
+
+    // Built synchronously so callers can reset state right after calling
+    const snapshot = this.createSnapshot();
+    try {
+      await dataManager.saveLessonSession(snapshot);
+    } catch (error) {
+      console.error('❌ Failed to save lesson session:', error);
+    }
+  }
+
+  private createSnapshot(): LessonSessionSnapshot {
+    const lesson = this.currentLesson!;
+    const elapsed = Date.now() - this.startTime;
+
+    return {
+      version: SESSION_SNAPSHOT_VERSION,
+      lessonId: lesson.id,
+      contentIds: lesson.content.map(c => c.id),
+      contentIndex: this.contentIndex,
+      answers: Object.fromEntries(this.sessionData.answers),
+      attempts: Object.fromEntries(this.sessionData.attempts),
+      timeSpent: Object.fromEntries(this.sessionData.timeSpent),
+      strokes: Object.fromEntries(this.sessionData.strokes),
+      strokeMetrics: Object.fromEntries(this.sessionData.strokeMetrics),
+      draftStrokes: this.sessionData.draftStrokes,
+      hintsUsed: Object.fromEntries(this.sessionData.hintsUsed),
+      hintXPDeducted: Object.fromEntries(this.sessionData.hintXPDeducted),
+      outcomes: Object.fromEntries(this.sessionData.outcomes),
+      score: this.sessionData.score,
+      maxScore: this.sessionData.maxScore,
+      elapsed,
+      progress: { ...this.lessonProgress!, timeSpent: elapsed },
+      savedAt: Date.now(),
+    };
+  }
+
+  private restoreSession(snapshot: LessonSessionSnapshot): void {
+    this.contentIndex = snapshot.contentIndex;
+    this.startTime = Date.now() - snapshot.elapsed;
+
+    this.sessionData.answers = new Map(Object.entries(snapshot.answers));
+    this.sessionData.attempts = new Map(Object.entries(snapshot.attempts));
+    this.sessionData.timeSpent = new Map(Object.entries(snapshot.timeSpent));
+    this.sessionData.strokes = new Map(Object.entries(snapshot.strokes));
+    this.sessionData.strokeMetrics = new Map(Object.entries(snapshot.strokeMetrics));
+    this.sessionData.draftStrokes = snapshot.draftStrokes || [];
+    this.sessionData.hintsUsed = new Map(Object.entries(snapshot.hintsUsed || {}));
+    this.sessionData.hintXPDeducted = new Map(Object.entries(snapshot.hintXPDeducted || {}));
+    this.sessionData.outcomes = new Map(Object.entries(snapshot.outcomes || {}));
+    this.sessionData.score = snapshot.score;
+
+    // Sessions saved before branching ran straight through the lesson
+    const path = snapshot.progress.path ||
+      this.currentLesson!.content.slice(0, snapshot.contentIndex + 1).map(c => c.id);
+
+    this.lessonProgress = {
+      ...snapshot.progress,
+      currentContentIndex: snapshot.contentIndex,
+      timeSpent: snapshot.elapsed,
+      path,
+    };
+  }
+
   // =================== STATE MANAGEMENT ===================
 
   public subscribeToLessonState(callback: LessonStateCallback): () => void {
@@ -592,7 +1252,14 @@ export class LessonEngine {
   }
 
   public exitLesson(): void {
-    if (this.currentLesson && this.lessonProgress) {
+    this.clearItemTimer();
+    
+    if (
+      this.currentLesson &&
+      this.lessonProgress &&
+      !this.isReviewLesson(this.currentLesson.id) &&
+      !this.isDrillLesson()
+    ) {
       this.lessonProgress.timeSpent = Date.now() - this.startTime;
       
       // Save progress
@@ -600,6 +1267,9 @@ export class LessonEngine {
         this.lessonProgress.lessonId, 
         this.lessonProgress.contentProgress
       );
+      
+      // Snapshot is taken before the reset below
+      this.saveSession();
     }
     
     // Reset
@@ -622,11 +1292,22 @@ export class LessonEngine {
     }
   }
 
+  private handleAppBackground(): void {
+    if (this.currentLesson) {
+      console.log('📱 App backgrounded - saving lesson session');
+      this.saveSession();
+    }
+  }
+
   private handleXPChange(event: any): void {
     console.log(`💎 XP earned: ${event.amount}`);
   }
 }
 
+function isEmptyAnswer(answer: any): boolean {
+  return answer === null || answer === undefined || (Array.isArray(answer.strokes) && answer.strokes.length === 0);
+}
+
 // =================== CONTENT HANDLERS ===================
 
 class MultipleChoiceHandler implements ContentHandler {
@@ -690,6 +1371,137 @@ class VisualSelectionHandler implements ContentHandler {
   }
 }
 
+// =================== PARTIAL-CREDIT HANDLERS ===================
+
+// Fraction of the answer that must be right to pass, unless the item sets passingScore
+const DEFAULT_PASSING_SCORE = 0.75;
+
+function partialCreditResult(
+  content: LessonContent,
+  score: number,
+  attemptCount: number,
+  feedback: { perfect: string; partial: string; miss: string },
+  details: Record<string, any>
+): ValidationResult {
+  const passingScore = content.passingScore ?? DEFAULT_PASSING_SCORE;
+  const isCorrect = score >= passingScore;
+
+  return {
+    isCorrect,
+    score,
+    feedback: score >= 1 ? feedback.perfect : isCorrect ? feedback.partial : feedback.miss,
+    explanation: content.explanation,
+    details,
+    // Passing with mistakes earns a share of the XP
+    xpAwarded: isCorrect ? Math.max(1, Math.round((content.xp || 10) * score)) : 0,
+    showHint: !isCorrect && attemptCount >= 2,
+    hint: content.hint,
+  };
+}
+
+class OrderingHandler implements ContentHandler {
+  async validateAnswer(content: LessonContent, answer: any, attemptCount: number): Promise<ValidationResult> {
+    const expected: number[] = Array.isArray(content.correctAnswer) ? content.correctAnswer : [];
+    const order: number[] = Array.isArray(answer) ? answer : [];
+
+    // Share of step pairs in the right relative order, so one misplaced step costs little
+    const rank = new Map(order.map((option, position) => [option, position]));
+    let pairs = 0;
+    let inOrder = 0;
+    for (let i = 0; i < expected.length; i++) {
+      for (let j = i + 1; j < expected.length; j++) {
+        pairs++;
+        const a = rank.get(expected[i]);
+        const b = rank.get(expected[j]);
+        if (a !== undefined && b !== undefined && a < b) inOrder++;
+      }
+    }
+    const score = pairs > 0 ? inOrder / pairs : 0;
+    const correctPositions = expected.map((option, position) => order[position] === option);
+    const placed = correctPositions.filter(Boolean).length;
+
+    return partialCreditResult(
+      content,
+      score,
+      attemptCount,
+      {
+        perfect: 'Perfect order!',
+        partial: `Nearly there - ${placed} of ${expected.length} steps in the right spot.`,
+        miss: `${placed} of ${expected.length} steps in the right spot. Think about what has to happen first.`,
+      },
+      { correctPositions }
+    );
+  }
+}
+
+class MatchingHandler implements ContentHandler {
+  async validateAnswer(content: LessonContent, answer: any, attemptCount: number): Promise<ValidationResult> {
+    const pairs = content.pairs || [];
+    // answer[i] is the pair index whose definition was matched to term i
+    const matches: Array<number | null | undefined> = Array.isArray(answer) ? answer : [];
+
+    const correctPairs = pairs.map((_, index) => matches[index] === index);
+    const matched = correctPairs.filter(Boolean).length;
+    const score = pairs.length > 0 ? matched / pairs.length : 0;
+
+    return partialCreditResult(
+      content,
+      score,
+      attemptCount,
+      {
+        perfect: 'All pairs matched!',
+        partial: `${matched} of ${pairs.length} pairs matched - close!`,
+        miss: `${matched} of ${pairs.length} pairs matched.`,
+      },
+      { correctPairs }
+    );
+  }
+}
+
+class HotspotHandler implements ContentHandler {
+  async validateAnswer(content: LessonContent, answer: any, attemptCount: number): Promise<ValidationResult> {
+    const regions = content.hotspots || [];
+    const target = regions[content.correctAnswer];
+    const tap = answer && typeof answer.x === 'number' && typeof answer.y === 'number' ? answer : null;
+
+    if (!target || !tap) {
+      return partialCreditResult(
+        content,
+        0,
+        attemptCount,
+        { perfect: '', partial: '', miss: 'Tap the image to answer.' },
+        { hitRegion: null }
+      );
+    }
+
+    const distanceTo = (region: { x: number; y: number }) => Math.hypot(tap.x - region.x, tap.y - region.y);
+    const hitRegion = regions.findIndex(region => distanceTo(region) <= region.radius);
+
+    // Inside the target scores full marks; near misses fade out over one radius,
+    // but landing on a distractor scores nothing
+    let score = 0;
+    if (hitRegion === content.correctAnswer) {
+      score = 1;
+    } else if (hitRegion === -1) {
+      score = Math.max(0, 1 - (distanceTo(target) - target.radius) / target.radius);
+    }
+
+    return partialCreditResult(
+      content,
+      score,
+      attemptCount,
+      {
+        perfect: 'Spot on!',
+        partial: 'Close - just off the mark.',
+        miss: hitRegion !== -1 && regions[hitRegion].label
+          ? `That's the ${regions[hitRegion].label}.`
+          : 'Not quite - look again.',
+      },
+      { hitRegion: hitRegion === -1 ? null : hitRegion, targetRegion: content.correctAnswer }
+    );
+  }
+}
+
 // =================== DRAWING HANDLERS ===================
 
 class DrawingExerciseHandler implements ContentHandler {
@@ -715,50 +1527,16 @@ class DrawingExerciseHandler implements ContentHandler {
       };
     }
 
-    // Simple validation based on type
-    const strokeCount = answer.strokes.length;
-    let isCorrect = false;
-    let feedback = '';
-
-    switch (validation.type) {
-      case 'line_straightness':
-        // For lines: 1-5 strokes is good
-        isCorrect = strokeCount >= 1 && strokeCount <= 5;
-        feedback = isCorrect 
-          ? 'Great lines! Try to make them even straighter.' 
-          : 'Too many strokes - try drawing smoother lines.';
-        break;
-
-      case 'shape_accuracy':
-        // For shapes: just need strokes
-        isCorrect = strokeCount >= 1;
-        const shape = validation.target || 'shape';
-        feedback = isCorrect
-          ? `Nice ${shape}! Keep practicing for perfection.`
-          : `Draw a ${shape} to continue.`;
-        break;
-
-      case 'parallel_lines':
-        // Check stroke count matches requirement
-        const required = validation.params?.count || 2;
-        isCorrect = strokeCount >= required;
-        feedback = isCorrect
-          ? 'Good parallel lines! Focus on keeping them evenly spaced.'
-          : `Draw ${required} lines to complete this exercise.`;
-        break;
-
-      default:
-        // Default: any drawing passes
-        isCorrect = true;
-        feedback = 'Good effort! Keep practicing!';
-    }
+    const outcome = validatorRegistry.run(validation, content, answer.strokes, attemptCount);
 
     return {
-      isCorrect,
-      feedback,
+      isCorrect: outcome.isCorrect,
+      score: outcome.score,
+      feedback: outcome.feedback,
       explanation: content.explanation,
-      xpAwarded: isCorrect ? (content.xp || 15) : 0,
-      showHint: !isCorrect && attemptCount >= 1,
+      details: outcome.details,
+      xpAwarded: outcome.isCorrect ? (content.xp || 15) : 0,
+      showHint: !outcome.isCorrect && attemptCount >= 1,
       hint: content.hint,
     };
   }
@@ -777,6 +1555,19 @@ class GuidedStepHandler implements ContentHandler {
       };
     }
 
+    // Tracing exercises are graded against the overlay geometry
+    if (content.overlay) {
+      const comparison = overlayComparator.compare(answer.strokes, content.overlay);
+      if (comparison) {
+        return this.buildTracingResult(content, comparison, attemptCount);
+      }
+    }
+
+    // Otherwise apply the step's drawing rule, if it has one
+    if (content.validation) {
+      return new DrawingExerciseHandler().validateAnswer(content, answer, attemptCount);
+    }
+
     // Any attempt at drawing passes
     return {
       isCorrect: true,
@@ -784,6 +1575,34 @@ class GuidedStepHandler implements ContentHandler {
       xpAwarded: content.xp || 20,
     };
   }
+
+  private buildTracingResult(content: LessonContent, comparison: OverlayComparison, attemptCount: number): ValidationResult {
+    const threshold = content.validation?.threshold ?? 0.6;
+    const isCorrect = comparison.accuracy >= threshold;
+
+    return {
+      isCorrect,
+      score: comparison.accuracy,
+      feedback: overlayComparator.describe(comparison),
+      explanation: content.explanation,
+      details: {
+        threshold,
+        accuracyPercent: Math.round(comparison.accuracy * 100),
+        coverage: comparison.coverage,
+        meanDistance: comparison.meanDistance,
+        hausdorffDistance: comparison.hausdorffDistance,
+        tolerance: comparison.tolerance,
+        missedRegions: comparison.missedRegions.map(region => ({
+          center: region.center,
+          length: region.length,
+          points: region.points,
+        })),
+      },
+      xpAwarded: isCorrect ? (content.xp || 20) : 0,
+      showHint: !isCorrect && attemptCount >= 1,
+      hint: content.hint || 'Try following the demonstration',
+    };
+  }
 }
 
 class ShapePracticeHandler implements ContentHandler {
@@ -0,0 +1,199 @@
+// src/engines/learning/LessonPackLoader.ts - JSON LESSON PACKS
+
+import * as FileSystem from 'expo-file-system';
+import {
+  Lesson,
+  LessonPack,
+  LessonPackError,
+  LessonPackLesson,
+  LessonPackSkillTree,
+  SkillTree,
+} from '../../types';
+import { errorHandler } from '../core/ErrorHandler';
+import { LessonPackValidator, isObject } from './LessonPackValidator';
+import { validatorRegistry } from './ValidatorRegistry';
+import { drawingValidators } from './DrawingValidators';
+import { bundledLessonPacks } from '../../content/packs';
+
+/**
+ * LESSON PACK LOADER
+ *
+ * Loads versioned JSON lesson packs from two sources:
+ * - Bundled packs compiled into the app (src/content/packs)
+ * - `.json` files in `<documentDirectory>/lesson-packs/` on the device
+ *
+ * Packs that fail validation are skipped as a whole and their errors
+ * reported; the rest still load. Results are cached so LessonEngine and
+ * SkillTreeManager share a single load.
+ */
+
+export interface LoadedLessonPacks {
+  packs: LessonPack[];
+  lessons: Lesson[];
+  skillTrees: SkillTree[];
+  errors: LessonPackError[];
+}
+
+export class LessonPackLoader {
+  private static instance: LessonPackLoader;
+  private loading: Promise<LoadedLessonPacks> | null = null;
+
+  private constructor() {
+    // Private constructor for singleton
+  }
+
+  public static getInstance(): LessonPackLoader {
+    if (!LessonPackLoader.instance) {
+      LessonPackLoader.instance = new LessonPackLoader();
+    }
+    return LessonPackLoader.instance;
+  }
+
+  public getPackDirectory(): string | null {
+    return FileSystem.documentDirectory ? `${FileSystem.documentDirectory}lesson-packs/` : null;
+  }
+
+  // =================== LOADING ===================
+
+  public loadAll(): Promise<LoadedLessonPacks> {
+    if (!this.loading) {
+      this.loading = this.loadAllSources();
+    }
+    return this.loading;
+  }
+
+  public reload(): Promise<LoadedLessonPacks> {
+    this.loading = null;
+    return this.loadAll();
+  }
+
+  public async loadFromFile(uri: string): Promise<{ pack: LessonPack | null; errors: LessonPackError[] }> {
+    try {
+      const json = await FileSystem.readAsStringAsync(uri);
+      return this.parse(JSON.parse(json), uri);
+    } catch (error) {
+      return {
+        pack: null,
+        errors: [{ source: uri, path: '', message: `could not read pack: ${error instanceof Error ? error.message : String(error)}` }],
+      };
+    }
+  }
+
+  public parse(data: unknown, source: string): { pack: LessonPack | null; errors: LessonPackError[] } {
+    const errors = LessonPackValidator.validate(data, source);
+    return { pack: errors.length === 0 ? (data as LessonPack) : null, errors };
+  }
+
+  private async loadAllSources(): Promise<LoadedLessonPacks> {
+    const result: LoadedLessonPacks = { packs: [], lessons: [], skillTrees: [], errors: [] };
+
+    // Rules are checked against the registry, which may not be populated yet
+    validatorRegistry.registerAll(drawingValidators);
+
+    bundledLessonPacks.forEach((data, index) => {
+      const source = `bundled:${isObject(data) && typeof data.id === 'string' ? data.id : index}`;
+      this.addPack(result, this.parse(data, source), source);
+    });
+
+    for (const uri of await this.listDevicePacks()) {
+      this.addPack(result, await this.loadFromFile(uri), uri);
+    }
+
+    if (result.errors.length > 0) {
+      console.warn(`⚠️ ${result.errors.length} lesson pack error(s):`);
+      result.errors.forEach(e => console.warn(`   ${e.source}: ${e.path || '(root)'}: ${e.message}`));
+      errorHandler.handleError(
+        errorHandler.createError('VALIDATION_ERROR', 'Invalid lesson packs were skipped', 'medium', {
+          errors: result.errors,
+        })
+      );
+    }
+
+    console.log(`📦 Loaded ${result.packs.length} lesson packs (${result.lessons.length} lessons)`);
+    return result;
+  }
+
+  private async listDevicePacks(): Promise<string[]> {
+    const directory = this.getPackDirectory();
+    if (!directory) return [];
+
+    try {
+      const info = await FileSystem.getInfoAsync(directory);
+      if (!info.exists || !info.isDirectory) return [];
+
+      const files = await FileSystem.readDirectoryAsync(directory);
+      return files
+        .filter(name => name.toLowerCase().endsWith('.json'))
+        .sort()
+        .map(name => `${directory}${name}`);
+    } catch (error) {
+      console.warn('⚠️ Could not list device lesson packs:', error);
+      return [];
+    }
+  }
+
+  private addPack(
+    result: LoadedLessonPacks,
+    parsed: { pack: LessonPack | null; errors: LessonPackError[] },
+    source: string
+  ): void {
+    result.errors.push(...parsed.errors);
+    const pack = parsed.pack;
+    if (!pack) return;
+
+    if (result.packs.some(p => p.id === pack.id)) {
+      result.errors.push({ source, path: 'id', message: `pack "${pack.id}" is already loaded` });
+      return;
+    }
+
+    // Ids must be unique across packs, not just within one
+    const lessonIds = new Set(result.lessons.map(l => l.id));
+    const clash = pack.lessons.findIndex(l => lessonIds.has(l.id));
+    if (clash !== -1) {
+      result.errors.push({ source, path: `lessons[${clash}].id`, message: `lesson "${pack.lessons[clash].id}" is defined by another pack` });
+      return;
+    }
+
+    result.packs.push(pack);
+    result.lessons.push(...pack.lessons.map(lesson => this.toLesson(lesson, pack)));
+    (pack.skillTrees || []).forEach(tree => {
+      if (!result.skillTrees.some(t => t.id === tree.id)) {
+        result.skillTrees.push(this.toSkillTree(tree));
+      }
+    });
+  }
+
+  // =================== RUNTIME SHAPES ===================
+
+  public toLesson(lesson: LessonPackLesson, pack: LessonPack): Lesson {
+    const prerequisites = lesson.prerequisites || [];
+
+    return {
+      ...lesson,
+      prerequisites,
+      objectives: lesson.objectives || [],
+      tags: [...(lesson.tags || []), `pack:${pack.id}`],
+      status: prerequisites.length === 0 ? 'available' : 'locked',
+      progress: 0,
+      attempts: 0,
+      timeSpent: 0,
+      xpReward: lesson.rewards.xp,
+    };
+  }
+
+  /** Lessons are attached by SkillTreeManager, which knows about trees outside the pack. */
+  private toSkillTree(tree: LessonPackSkillTree): SkillTree {
+    return {
+      ...tree,
+      prerequisites: tree.prerequisites || [],
+      lessons: [],
+      totalXP: 0,
+      estimatedDuration: 0,
+      progress: 0,
+      completionPercentage: 0,
+    };
+  }
+}
+
+// Export singleton
+export const lessonPackLoader = LessonPackLoader.getInstance();
@@ -0,0 +1,475 @@
+// src/engines/learning/LessonPackValidator.ts - LESSON PACK SCHEMA
+
+import { LessonContent, LessonPackError, ValidationRule } from '../../types';
+import { validatorRegistry } from './ValidatorRegistry';
+import { lessonBranching, BRANCH_CONDITIONS } from './LessonBranching';
+import { SKILL_CATEGORIES } from './LessonSkills';
+
+/**
+ * LESSON PACK VALIDATOR
+ *
+ * Structural schema check for JSON lesson packs:
+ * - Every error carries the JSON path it was found at
+ * - Unknown format versions are rejected up front
+ * - Validation rules are checked against the validator registry, so drawing
+ *   validators must be registered before packs are validated
+ * - Branch targets are resolved within the lesson once its items check out
+ */
+
+export const LESSON_PACK_FORMAT_VERSION = 1;
+
+const LESSON_TYPES = ['theory', 'practice', 'challenge', 'guided', 'assessment', 'video', 'drill'];
+const SKILL_LEVELS = ['beginner', 'intermediate', 'advanced'];
+const OBJECTIVE_TYPES = ['primary', 'secondary', 'bonus'];
+const CONTENT_TYPES: Array<LessonContent['type']> = [
+  'multiple_choice', 'true_false', 'color_match', 'visual_selection',
+  'ordering', 'matching', 'hotspot',
+  'drawing_exercise', 'guided_step', 'shape_practice', 'video_lesson',
+  'assessment', 'portfolio_project',
+];
+const DRAWING_CONTENT_TYPES: Array<LessonContent['type']> = ['drawing_exercise', 'guided_step', 'shape_practice'];
+const CHOICE_CONTENT_TYPES: Array<LessonContent['type']> = ['multiple_choice', 'visual_selection'];
+
+type Report = (path: string, message: string) => void;
+
+export class LessonPackValidator {
+  public static validate(data: unknown, source: string): LessonPackError[] {
+    const errors: LessonPackError[] = [];
+    const report: Report = (path, message) => errors.push({ source, path, message });
+
+    if (!isObject(data)) {
+      report('', 'pack must be a JSON object');
+      return errors;
+    }
+
+    if (data.formatVersion !== LESSON_PACK_FORMAT_VERSION) {
+      report(
+        'formatVersion',
+        typeof data.formatVersion === 'number'
+          ? `unsupported format version ${data.formatVersion} (supported: ${LESSON_PACK_FORMAT_VERSION})`
+          : 'required number'
+      );
+      return errors;
+    }
+
+    requireString(data, 'id', '', report);
+    requireString(data, 'version', '', report);
+    requireString(data, 'title', '', report);
+    optionalString(data, 'description', '', report);
+
+    if (data.skillTrees !== undefined) {
+      if (!Array.isArray(data.skillTrees)) {
+        report('skillTrees', 'expected an array');
+      } else {
+        data.skillTrees.forEach((tree, i) => this.validateSkillTree(tree, `skillTrees[${i}]`, report));
+        checkUniqueIds(data.skillTrees, 'skillTrees', report);
+      }
+    }
+
+    if (!Array.isArray(data.lessons) || data.lessons.length === 0) {
+      report('lessons', 'expected a non-empty array');
+    } else {
+      data.lessons.forEach((lesson, i) => this.validateLesson(lesson, `lessons[${i}]`, report));
+      checkUniqueIds(data.lessons, 'lessons', report);
+    }
+
+    return errors;
+  }
+
+  // =================== SKILL TREES ===================
+
+  private static validateSkillTree(tree: unknown, path: string, report: Report): void {
+    if (!isObject(tree)) {
+      report(path, 'expected an object');
+      return;
+    }
+
+    requireString(tree, 'id', path, report);
+    requireString(tree, 'name', path, report);
+    requireString(tree, 'description', path, report);
+    requireString(tree, 'category', path, report);
+    requireNumber(tree, 'order', path, report, { min: 0 });
+    requireEnum(tree, 'difficultyLevel', SKILL_LEVELS, path, report);
+    optionalStringArray(tree, 'prerequisites', path, report);
+    optionalString(tree, 'iconUrl', path, report);
+  }
+
+  // =================== LESSONS ===================
+
+  private static validateLesson(lesson: unknown, path: string, report: Report): void {
+    if (!isObject(lesson)) {
+      report(path, 'expected an object');
+      return;
+    }
+
+    requireString(lesson, 'id', path, report);
+    requireString(lesson, 'title', path, report);
+    requireString(lesson, 'description', path, report);
+    requireEnum(lesson, 'type', LESSON_TYPES, path, report);
+    requireString(lesson, 'skillTree', path, report);
+    requireNumber(lesson, 'order', path, report, { min: 0 });
+    requireNumber(lesson, 'estimatedTime', path, report, { min: 0 });
+    requireNumber(lesson, 'difficulty', path, report, { min: 1, max: 5 });
+    optionalStringArray(lesson, 'prerequisites', path, report);
+    optionalStringArray(lesson, 'tags', path, report);
+    optionalEnumArray(lesson, 'skills', SKILL_CATEGORIES, path, report);
+
+    if (lesson.theoryContent !== undefined || lesson.practiceContent !== undefined) {
+      report(path, 'theoryContent / practiceContent are not supported in packs - use content');
+    }
+
+    if (!isObject(lesson.rewards)) {
+      report(join(path, 'rewards'), 'required object');
+    } else {
+      requireNumber(lesson.rewards, 'xp', join(path, 'rewards'), report, { min: 0 });
+      optionalStringArray(lesson.rewards, 'achievements', join(path, 'rewards'), report);
+      optionalStringArray(lesson.rewards, 'unlocks', join(path, 'rewards'), report);
+    }
+
+    if (lesson.objectives !== undefined) {
+      if (!Array.isArray(lesson.objectives)) {
+        report(join(path, 'objectives'), 'expected an array');
+      } else {
+        lesson.objectives.forEach((objective, i) => {
+          const objectivePath = `${join(path, 'objectives')}[${i}]`;
+          if (!isObject(objective)) {
+            report(objectivePath, 'expected an object');
+            return;
+          }
+          requireString(objective, 'id', objectivePath, report);
+          requireString(objective, 'description', objectivePath, report);
+          optionalBoolean(objective, 'required', objectivePath, report);
+          if (objective.type !== undefined) requireEnum(objective, 'type', OBJECTIVE_TYPES, objectivePath, report);
+        });
+      }
+    }
+
+    if (!Array.isArray(lesson.content) || lesson.content.length === 0) {
+      report(join(path, 'content'), 'expected a non-empty array');
+    } else {
+      const contentPath = join(path, 'content');
+      let contentErrors = 0;
+      const reportContent: Report = (itemPath, message) => {
+        contentErrors++;
+        report(itemPath, message);
+      };
+      lesson.content.forEach((content, i) => this.validateContent(content, `${contentPath}[${i}]`, reportContent));
+      checkUniqueIds(lesson.content, contentPath, reportContent);
+
+      // Targets can only be resolved once every item is well-formed
+      if (contentErrors === 0) {
+        lessonBranching.checkBranches(lesson.content as LessonContent[]).forEach(problem => {
+          const itemPath = `${contentPath}[${problem.contentIndex}]`;
+          report(
+            problem.branchIndex !== undefined ? `${join(itemPath, 'branches')}[${problem.branchIndex}]` : itemPath,
+            problem.message
+          );
+        });
+      }
+    }
+  }
+
+  // =================== CONTENT ===================
+
+  private static validateContent(content: unknown, path: string, report: Report): void {
+    if (!isObject(content)) {
+      report(path, 'expected an object');
+      return;
+    }
+
+    requireString(content, 'id', path, report);
+    requireEnum(content, 'type', CONTENT_TYPES, path, report);
+    requireNumber(content, 'xp', path, report, { min: 0 });
+    optionalNumber(content, 'timeLimit', path, report, { min: 1 });
+    optionalNumber(content, 'passingScore', path, report, { min: 0, max: 1 });
+    ['question', 'instruction', 'explanation', 'hint', 'image', 'video'].forEach(key =>
+      optionalString(content, key, path, report)
+    );
+    optionalStringArray(content, 'hints', path, report);
+
+    const type = content.type as LessonContent['type'];
+
+    if (CHOICE_CONTENT_TYPES.includes(type)) {
+      requireString(content, 'question', path, report);
+      if (!Array.isArray(content.options) || content.options.length < 2 || content.options.some(o => typeof o !== 'string')) {
+        report(join(path, 'options'), 'expected at least two strings');
+      } else if (
+        typeof content.correctAnswer !== 'number' ||
+        !Number.isInteger(content.correctAnswer) ||
+        content.correctAnswer < 0 ||
+        content.correctAnswer >= content.options.length
+      ) {
+        report(join(path, 'correctAnswer'), `expected an option index between 0 and ${content.options.length - 1}`);
+      }
+    } else if (type === 'true_false') {
+      requireString(content, 'question', path, report);
+      if (typeof content.correctAnswer !== 'boolean') {
+        report(join(path, 'correctAnswer'), 'expected a boolean');
+      }
+    } else if (type === 'ordering') {
+      requireString(content, 'question', path, report);
+      if (!Array.isArray(content.options) || content.options.length < 2 || content.options.some(o => typeof o !== 'string')) {
+        report(join(path, 'options'), 'expected at least two strings');
+      } else if (!isPermutation(content.correctAnswer, content.options.length)) {
+        report(join(path, 'correctAnswer'), `expected each option index 0-${content.options.length - 1} exactly once`);
+      }
+    } else if (type === 'matching') {
+      requireString(content, 'question', path, report);
+      if (!Array.isArray(content.pairs) || content.pairs.length < 2) {
+        report(join(path, 'pairs'), 'expected at least two pairs');
+      } else {
+        content.pairs.forEach((pair, i) => {
+          const pairPath = `${join(path, 'pairs')}[${i}]`;
+          if (!isObject(pair)) {
+            report(pairPath, 'expected an object');
+          } else {
+            requireString(pair, 'term', pairPath, report);
+            requireString(pair, 'definition', pairPath, report);
+          }
+        });
+      }
+    } else if (type === 'hotspot') {
+      requireString(content, 'question', path, report);
+      requireString(content, 'image', path, report);
+      if (!Array.isArray(content.hotspots) || content.hotspots.length === 0) {
+        report(join(path, 'hotspots'), 'expected at least one region');
+      } else {
+        content.hotspots.forEach((region, i) => {
+          const regionPath = `${join(path, 'hotspots')}[${i}]`;
+          if (!isObject(region)) {
+            report(regionPath, 'expected an object');
+          } else {
+            requireNumber(region, 'x', regionPath, report, { min: 0, max: 1 });
+            requireNumber(region, 'y', regionPath, report, { min: 0, max: 1 });
+            requireNumber(region, 'radius', regionPath, report, { min: 0.01, max: 1 });
+            optionalString(region, 'label', regionPath, report);
+          }
+        });
+        if (
+          typeof content.correctAnswer !== 'number' ||
+          !Number.isInteger(content.correctAnswer) ||
+          content.correctAnswer < 0 ||
+          content.correctAnswer >= content.hotspots.length
+        ) {
+          report(join(path, 'correctAnswer'), `expected a region index between 0 and ${content.hotspots.length - 1}`);
+        }
+      }
+    } else if (DRAWING_CONTENT_TYPES.includes(type)) {
+      requireString(content, 'instruction', path, report);
+    }
+
+    if (content.validation !== undefined) {
+      if (!isValidationRule(content.validation)) {
+        report(join(path, 'validation'), 'expected a rule object with a type');
+      } else {
+        // Registry paths are relative to the rule ('validation.params.count: ...')
+        validatorRegistry.checkRule(content.validation).forEach(problem => {
+          const separator = problem.indexOf(': ');
+          report(join(path, problem.slice(0, separator)), problem.slice(separator + 2));
+        });
+      }
+    }
+
+    optionalBoolean(content, 'remedial', path, report);
+    if (content.branches !== undefined) {
+      this.validateBranches(content.branches, join(path, 'branches'), report);
+    }
+
+    if (isObject(content.demonstration)) {
+      this.validateDemonstration(content.demonstration, join(path, 'demonstration'), report);
+    } else {
+      optionalString(content, 'demonstration', path, report);
+    }
+
+    if (content.overlay !== undefined) {
+      const overlayPath = join(path, 'overlay');
+      if (!isObject(content.overlay)) {
+        report(overlayPath, 'expected an object');
+      } else {
+        requireString(content.overlay, 'type', overlayPath, report);
+        requireNumber(content.overlay, 'size', overlayPath, report, { min: 1 });
+        requireNumber(content.overlay, 'opacity', overlayPath, report, { min: 0, max: 1 });
+        if (!isObject(content.overlay.position)) {
+          report(join(overlayPath, 'position'), 'required object');
+        } else {
+          requireNumber(content.overlay.position, 'x', join(overlayPath, 'position'), report);
+          requireNumber(content.overlay.position, 'y', join(overlayPath, 'position'), report);
+        }
+      }
+    }
+  }
+
+  private static validateBranches(branches: unknown, path: string, report: Report): void {
+    if (!Array.isArray(branches)) {
+      report(path, 'expected an array');
+      return;
+    }
+
+    branches.forEach((branch, i) => {
+      const branchPath = `${path}[${i}]`;
+      if (!isObject(branch)) {
+        report(branchPath, 'expected an object');
+        return;
+      }
+      requireEnum(branch, 'when', BRANCH_CONDITIONS, branchPath, report);
+      requireString(branch, 'goTo', branchPath, report);
+      optionalNumber(branch, 'minScore', branchPath, report, { min: 0, max: 1 });
+      optionalNumber(branch, 'afterAttempts', branchPath, report, { min: 1 });
+      if (branch.afterAttempts !== undefined && !Number.isInteger(branch.afterAttempts)) {
+        report(join(branchPath, 'afterAttempts'), 'expected a whole number');
+      }
+      if (branch.afterAttempts !== undefined && branch.when !== 'failed') {
+        report(join(branchPath, 'afterAttempts'), 'only applies to "failed" branches');
+      }
+      if (branch.minScore !== undefined && branch.when === 'failed') {
+        report(join(branchPath, 'minScore'), 'only applies to "passed" and "perfect" branches');
+      }
+    });
+  }
+
+  private static validateDemonstration(demo: JsonObject, path: string, report: Report): void {
+    requireNumber(demo, 'version', path, report, { min: 1 });
+    requireNumber(demo, 'width', path, report, { min: 1 });
+    requireNumber(demo, 'height', path, report, { min: 1 });
+    requireNumber(demo, 'duration', path, report, { min: 0 });
+    optionalString(demo, 'caption', path, report);
+
+    if (!Array.isArray(demo.strokes) || demo.strokes.length === 0) {
+      report(join(path, 'strokes'), 'expected at least one stroke');
+      return;
+    }
+
+    demo.strokes.forEach((stroke, i) => {
+      const strokePath = `${join(path, 'strokes')}[${i}]`;
+      if (!isObject(stroke)) {
+        report(strokePath, 'expected an object');
+        return;
+      }
+      optionalString(stroke, 'color', strokePath, report);
+      optionalNumber(stroke, 'size', strokePath, report, { min: 0 });
+
+      const points = stroke.points;
+      if (!Array.isArray(points) || points.length < 2) {
+        report(join(strokePath, 'points'), 'expected at least two points');
+        return;
+      }
+
+      const times: number[] = [];
+      for (const point of points) {
+        if (!isObject(point) || [point.x, point.y, point.t].some(v => typeof v !== 'number' || !Number.isFinite(v))) {
+          report(join(strokePath, 'points'), 'expected points with numeric x, y and t');
+          return;
+        }
+        times.push(point.t as number);
+      }
+      if (times.some((t, j) => j > 0 && t < times[j - 1])) {
+        report(join(strokePath, 'points'), 't must not decrease');
+      }
+    });
+  }
+}
+
+// =================== HELPERS ===================
+
+type JsonObject = Record<string, unknown>;
+
+export function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// The registry checks the rest of the rule
+function isValidationRule(value: unknown): value is ValidationRule {
+  return isObject(value) && typeof value.type === 'string';
+}
+
+function isPermutation(value: unknown, length: number): boolean {
+  if (!Array.isArray(value) || value.length !== length) return false;
+  const seen = new Set(value);
+  return seen.size === length && value.every(v => Number.isInteger(v) && v >= 0 && v < length);
+}
+
+function join(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+function requireString(obj: JsonObject, key: string, path: string, report: Report): void {
+  if (typeof obj[key] !== 'string' || (obj[key] as string).trim() === '') {
+    report(join(path, key), 'required non-empty string');
+  }
+}
+
+function optionalString(obj: JsonObject, key: string, path: string, report: Report): void {
+  if (obj[key] !== undefined && typeof obj[key] !== 'string') {
+    report(join(path, key), 'expected a string');
+  }
+}
+
+function optionalBoolean(obj: JsonObject, key: string, path: string, report: Report): void {
+  if (obj[key] !== undefined && typeof obj[key] !== 'boolean') {
+    report(join(path, key), 'expected a boolean');
+  }
+}
+
+function optionalStringArray(obj: JsonObject, key: string, path: string, report: Report): void {
+  const value = obj[key];
+  if (value !== undefined && (!Array.isArray(value) || value.some(v => typeof v !== 'string'))) {
+    report(join(path, key), 'expected an array of strings');
+  }
+}
+
+function requireNumber(
+  obj: JsonObject,
+  key: string,
+  path: string,
+  report: Report,
+  range: { min?: number; max?: number } = {}
+): void {
+  if (obj[key] === undefined) {
+    report(join(path, key), 'required number');
+    return;
+  }
+  optionalNumber(obj, key, path, report, range);
+}
+
+function optionalNumber(
+  obj: JsonObject,
+  key: string,
+  path: string,
+  report: Report,
+  range: { min?: number; max?: number } = {}
+): void {
+  const value = obj[key];
+  if (value === undefined) return;
+
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    report(join(path, key), 'expected a number');
+  } else if (range.min !== undefined && value < range.min) {
+    report(join(path, key), `must be >= ${range.min}`);
+  } else if (range.max !== undefined && value > range.max) {
+    report(join(path, key), `must be <= ${range.max}`);
+  }
+}
+
+function requireEnum(obj: JsonObject, key: string, values: string[], path: string, report: Report): void {
+  if (typeof obj[key] !== 'string' || !values.includes(obj[key] as string)) {
+    report(join(path, key), `expected one of ${values.join(', ')}`);
+  }
+}
+
+function optionalEnumArray(obj: JsonObject, key: string, values: string[], path: string, report: Report): void {
+  const value = obj[key];
+  if (value !== undefined && (!Array.isArray(value) || value.some(v => typeof v !== 'string' || !values.includes(v)))) {
+    report(join(path, key), `expected an array of ${values.join(', ')}`);
+  }
+}
+
+function checkUniqueIds(items: unknown[], path: string, report: Report): void {
+  const seen = new Set<string>();
+  items.forEach((item, i) => {
+    if (!isObject(item) || typeof item.id !== 'string') return;
+    if (seen.has(item.id)) {
+      report(`${path}[${i}].id`, `duplicate id "${item.id}"`);
+    }
+    seen.add(item.id);
+  });
+}
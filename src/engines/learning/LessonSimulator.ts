@@ -0,0 +1,396 @@
+// src/engines/learning/LessonSimulator.ts - HEADLESS LESSON RUNS
+
+import { Lesson, LessonCompletedEvent, LessonContent, Stroke, ValidationResult } from '../../types';
+import { EventBus } from '../core/EventBus';
+import { lessonEngine } from './LessonEngine';
+import { validatorRegistry } from './ValidatorRegistry';
+import { syntheticStrokes } from './SyntheticStrokes';
+import { UNGRADED_RULE_TYPES } from './DrawingValidators';
+
+/**
+ * LESSON SIMULATOR
+ *
+ * Drives LessonEngine through startLesson -> submitAnswer -> nextContent
+ * without a UI, so content authors can check lessons before shipping:
+ * - Answers come from a script, or default to the ideal answer
+ *   (correctAnswer for quizzes, synthetic strokes for drawings)
+ * - Reports per-item results, XP and the final score
+ * - Flags zero-XP items, XP beyond the max score, thresholds the ideal
+ *   answer can't reach, and lessons that can never be unlocked or completed
+ *
+ * Runs go through the real engine, so completions are saved via DataManager.
+ * Use scripts/simulate-lessons.ts to run it from Node.
+ */
+
+export const IDEAL_ANSWER = 'ideal';
+export const BLANK_ANSWER = 'blank';
+
+/** A raw answer, or `{ strokes: 'ideal' | 'blank' | Stroke[] }` for drawings. */
+export type SimulatedAnswer = any;
+
+// Answers per content id, one per attempt; the last is repeated if attempts remain
+export type SimulationScript = Record<string, SimulatedAnswer[]>;
+
+export interface SimulationOptions {
+  script?: SimulationScript;
+  maxAttempts?: number;
+  knownLessonIds?: string[]; // For prerequisite checks; defaults to the engine's lessons
+}
+
+export type SimulationIssueType =
+  | 'zero_xp'
+  | 'xp_overrun'
+  | 'impossible_threshold'
+  | 'unreachable_completion'
+  | 'invalid_rule'
+  | 'no_fixture'
+  | 'ungraded'
+  | 'submit_error';
+
+export interface SimulationIssue {
+  type: SimulationIssueType;
+  severity: 'error' | 'warning' | 'info';
+  contentId?: string;
+  message: string;
+}
+
+export interface SimulatedAttempt {
+  answer: string; // Short description of what was submitted
+  isCorrect: boolean;
+  score?: number;
+  feedback: string;
+  xpAwarded: number;
+}
+
+export interface ContentSimulationResult {
+  contentId: string;
+  type: LessonContent['type'];
+  rule?: string;
+  attempts: SimulatedAttempt[];
+  passed: boolean;
+  xpAwarded: number;
+}
+
+export interface LessonSimulationReport {
+  lessonId: string;
+  title: string;
+  contents: ContentSimulationResult[];
+  xpEarned: number;
+  maxXP: number;
+  finalScore: number | null;
+  completed: boolean;
+  issues: SimulationIssue[];
+}
+
+const DRAWING_TYPES: Array<LessonContent['type']> = ['drawing_exercise', 'guided_step', 'shape_practice'];
+const DEFAULT_MAX_ATTEMPTS = 3;
+const COMPLETION_EVENT_WAIT_MS = 1000; // Events are delivered in batches, a frame apart
+
+export class LessonSimulator {
+  private static instance: LessonSimulator;
+  private eventBus = EventBus.getInstance();
+
+  private constructor() {
+    // Private constructor for singleton
+  }
+
+  public static getInstance(): LessonSimulator {
+    if (!LessonSimulator.instance) {
+      LessonSimulator.instance = new LessonSimulator();
+    }
+    return LessonSimulator.instance;
+  }
+
+  // =================== SIMULATION ===================
+
+  public async simulateAll(options: SimulationOptions = {}): Promise<LessonSimulationReport[]> {
+    await lessonEngine.initialize();
+
+    const reports: LessonSimulationReport[] = [];
+    for (const lesson of lessonEngine.getAllLessons()) {
+      reports.push(await this.simulateLesson(lesson, options));
+    }
+    return reports;
+  }
+
+  public async simulateLesson(lesson: Lesson, options: SimulationOptions = {}): Promise<LessonSimulationReport> {
+    await lessonEngine.initialize();
+
+    const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+    const knownLessonIds = options.knownLessonIds ?? lessonEngine.getAllLessons().map(l => l.id);
+    const issues = this.auditLesson(lesson, knownLessonIds);
+    const contents: ContentSimulationResult[] = [];
+
+    // A lesson is only complete once the rest of the app has heard so
+    let completionEmitted = false;
+    const listenerId = this.eventBus.on('lesson:completed', (event: LessonCompletedEvent) => {
+      if (event?.lessonId === lesson.id) completionEmitted = true;
+    });
+
+    try {
+      await lessonEngine.startLesson(lesson);
+
+      // One extra step so a lesson that never finishes is caught instead of looping
+      for (let step = 0; step <= lesson.content.length; step++) {
+        const content = lessonEngine.getCurrentContent();
+        if (!content) break;
+
+        const scripted = options.script?.[content.id];
+        const result = await this.runContent(content, scripted || [IDEAL_ANSWER], maxAttempts, issues);
+        contents.push(result);
+
+        if (!result.passed && !scripted && this.isGraded(content)) {
+          issues.push({
+            type: 'impossible_threshold',
+            severity: 'error',
+            contentId: content.id,
+            message: `Ideal answer failed ${result.attempts.length} time(s): "${result.attempts[result.attempts.length - 1]?.feedback}"`,
+          });
+        }
+
+        const hasNext = await lessonEngine.nextContent();
+        if (!hasNext) break;
+      }
+
+      const progress = lessonEngine.getLessonProgress();
+      const finished = progress?.completed === true;
+      const completed = finished && await this.waitFor(() => completionEmitted, COMPLETION_EVENT_WAIT_MS);
+      const finalScore = typeof progress?.score === 'number' && Number.isFinite(progress.score) ? progress.score : null;
+
+      if (finished && !completed) {
+        issues.push({
+          type: 'unreachable_completion',
+          severity: 'error',
+          message: 'Lesson finished but completing it failed - lesson:completed was never emitted',
+        });
+      } else if (!completed) {
+        issues.push({
+          type: 'unreachable_completion',
+          severity: 'error',
+          message: `Lesson did not complete after ${contents.length} of ${lesson.content.length} items`,
+        });
+      } else if (finalScore === null) {
+        issues.push({
+          type: 'unreachable_completion',
+          severity: 'error',
+          message: 'Lesson completed without a valid final score',
+        });
+      }
+
+      // LessonEngine's max score: 10 XP for items without xp, plus the speed bonus in drills
+      const maxXP = lesson.content.reduce((sum, c) => sum + lessonEngine.getMaxItemXP(c, lesson), 0);
+      const xpEarned = contents.reduce((sum, c) => sum + c.xpAwarded, 0);
+      if (xpEarned > maxXP) {
+        issues.push({
+          type: 'xp_overrun',
+          severity: 'warning',
+          message: `Earned ${xpEarned} of ${maxXP} XP - items awarded more than the engine's max score allows`,
+        });
+      }
+
+      return {
+        lessonId: lesson.id,
+        title: lesson.title,
+        contents,
+        xpEarned,
+        maxXP,
+        finalScore,
+        completed,
+        issues,
+      };
+    } finally {
+      this.eventBus.off('lesson:completed', listenerId);
+      lessonEngine.exitLesson();
+    }
+  }
+
+  private async waitFor(condition: () => boolean, timeoutMs: number): Promise<boolean> {
+    const deadline = Date.now() + timeoutMs;
+    while (!condition() && Date.now() < deadline) {
+      await new Promise<void>(resolve => setTimeout(() => resolve(), 10));
+    }
+    return condition();
+  }
+
+  private async runContent(
+    content: LessonContent,
+    answers: SimulatedAnswer[],
+    maxAttempts: number,
+    issues: SimulationIssue[]
+  ): Promise<ContentSimulationResult> {
+    const attempts: SimulatedAttempt[] = [];
+    let passed = false;
+    let xpAwarded = 0;
+
+    for (let attempt = 0; attempt < maxAttempts && !passed; attempt++) {
+      const scripted = answers[Math.min(attempt, answers.length - 1)];
+      const { answer, description } = this.resolveAnswer(content, scripted);
+
+      if (answer === undefined) {
+        issues.push({
+          type: 'no_fixture',
+          severity: 'info',
+          contentId: content.id,
+          message: content.validation
+            ? `No synthetic strokes for rule "${content.validation.type}" - submitted a single line`
+            : 'No validation rule to build strokes from - submitted a single line',
+        });
+      }
+
+      const result: ValidationResult = await lessonEngine.submitAnswer(
+        content.id,
+        answer === undefined ? { strokes: [syntheticStrokes.line({ x: 80, y: 200 }, { x: 320, y: 200 })] } : answer
+      );
+
+      if (result.feedback === 'Error processing answer') {
+        issues.push({ type: 'submit_error', severity: 'error', contentId: content.id, message: 'Engine threw while validating' });
+      }
+
+      passed = result.isCorrect === true;
+      xpAwarded = passed ? result.xpAwarded || 0 : 0;
+      attempts.push({
+        answer: description,
+        isCorrect: passed,
+        score: result.score,
+        feedback: result.feedback || '',
+        xpAwarded,
+      });
+    }
+
+    if (passed && xpAwarded <= 0) {
+      issues.push({ type: 'zero_xp', severity: 'warning', contentId: content.id, message: 'Passed but awarded no XP' });
+    }
+
+    return {
+      contentId: content.id,
+      type: content.type,
+      rule: content.validation?.type,
+      attempts,
+      passed,
+      xpAwarded,
+    };
+  }
+
+  /** Turns a script entry into the answer LessonEngine expects. `answer` is undefined when no fixture exists. */
+  private resolveAnswer(content: LessonContent, scripted: SimulatedAnswer): { answer: any; description: string } {
+    const isDrawing = DRAWING_TYPES.includes(content.type);
+
+    if (scripted === IDEAL_ANSWER) {
+      if (isDrawing) {
+        const strokes = syntheticStrokes.forContent(content);
+        return strokes
+          ? { answer: { strokes }, description: `ideal (${strokes.length} strokes)` }
+          : { answer: undefined, description: 'fallback line' };
+      }
+      return { answer: this.idealQuizAnswer(content), description: 'ideal' };
+    }
+
+    if (scripted === BLANK_ANSWER) {
+      return { answer: isDrawing ? { strokes: [] } : null, description: 'blank' };
+    }
+
+    if (isDrawing && scripted && typeof scripted === 'object' && 'strokes' in scripted) {
+      if (scripted.strokes === IDEAL_ANSWER || scripted.strokes === BLANK_ANSWER) {
+        return this.resolveAnswer(content, scripted.strokes);
+      }
+      const strokes: Stroke[] = scripted.strokes;
+      return { answer: { strokes }, description: `scripted (${strokes.length} strokes)` };
+    }
+
+    return { answer: scripted, description: `scripted ${JSON.stringify(scripted)}` };
+  }
+
+  private idealQuizAnswer(content: LessonContent): any {
+    // Color matches are graded against the option value, not its index
+    if (content.type === 'color_match' && typeof content.correctAnswer === 'number' && content.options) {
+      return content.options[content.correctAnswer];
+    }
+    // Every term matched to its own pair
+    if (content.type === 'matching') {
+      return (content.pairs || []).map((_, index) => index);
+    }
+    // A tap on the centre of the target region
+    if (content.type === 'hotspot') {
+      const target = content.hotspots?.[content.correctAnswer];
+      return target ? { x: target.x, y: target.y } : null;
+    }
+    return content.correctAnswer;
+  }
+
+  private isGraded(content: LessonContent): boolean {
+    if (DRAWING_TYPES.includes(content.type)) {
+      return !!(content.validation || content.overlay);
+    }
+    if (content.type === 'matching') {
+      return (content.pairs || []).length > 0;
+    }
+    return content.correctAnswer !== undefined;
+  }
+
+  // =================== STATIC CHECKS ===================
+
+  public auditLesson(lesson: Lesson, knownLessonIds: string[]): SimulationIssue[] {
+    const issues: SimulationIssue[] = [];
+    const known = new Set(knownLessonIds);
+
+    (lesson.prerequisites || []).forEach(prerequisite => {
+      if (!known.has(prerequisite)) {
+        issues.push({
+          type: 'unreachable_completion',
+          severity: 'error',
+          message: `Prerequisite "${prerequisite}" does not exist - the lesson can never unlock`,
+        });
+      }
+    });
+
+    (lesson.rewards?.unlocks || []).forEach(unlock => {
+      if (!known.has(unlock)) {
+        issues.push({ type: 'unreachable_completion', severity: 'warning', message: `Unlocks unknown lesson "${unlock}"` });
+      }
+    });
+
+    if (!lesson.rewards || lesson.rewards.xp <= 0) {
+      issues.push({ type: 'zero_xp', severity: 'warning', message: 'Lesson reward XP is zero' });
+    }
+
+    if (lesson.content.length === 0) {
+      issues.push({ type: 'unreachable_completion', severity: 'error', message: 'Lesson has no content' });
+    }
+
+    lesson.content.forEach(content => {
+      if (!content.xp || content.xp <= 0) {
+        issues.push({
+          type: 'zero_xp',
+          severity: 'warning',
+          contentId: content.id,
+          message: 'Item has no XP - the engine falls back to its default',
+        });
+      }
+
+      const rule = content.validation;
+      if (rule) {
+        validatorRegistry.checkRule(rule).forEach(problem =>
+          issues.push({ type: 'invalid_rule', severity: 'error', contentId: content.id, message: problem })
+        );
+        if (rule.threshold !== undefined && rule.threshold >= 1 && !UNGRADED_RULE_TYPES.includes(rule.type)) {
+          issues.push({
+            type: 'impossible_threshold',
+            severity: 'warning',
+            contentId: content.id,
+            message: `Threshold ${rule.threshold} requires a perfect score`,
+          });
+        }
+        if (UNGRADED_RULE_TYPES.includes(rule.type) && !content.overlay) {
+          issues.push({ type: 'ungraded', severity: 'info', contentId: content.id, message: `Rule "${rule.type}" passes any drawing` });
+        }
+      } else if (DRAWING_TYPES.includes(content.type) && !content.overlay) {
+        issues.push({ type: 'ungraded', severity: 'info', contentId: content.id, message: 'No validation - any drawing passes' });
+      }
+    });
+
+    return issues;
+  }
+}
+
+// Export singleton
+export const lessonSimulator = LessonSimulator.getInstance();
@@ -0,0 +1,63 @@
+// src/engines/learning/LessonSkills.ts - LESSON SKILLS
+
+import { Lesson, SkillCategory } from '../../types';
+
+/**
+ * LESSON SKILLS
+ *
+ * Which progression skills a lesson trains. Lessons can name them in
+ * `skills`; otherwise they're read from the tags. A lesson without a
+ * recognised tag trains none, so it's left out of skill decay rather than
+ * flagged whenever general drawing fades.
+ */
+
+export const SKILL_CATEGORIES: SkillCategory[] = ['drawing', 'color', 'composition', 'perspective', 'anatomy'];
+
+const TAG_SKILLS: Record<string, SkillCategory> = {
+  lines: 'drawing',
+  shapes: 'drawing',
+  circles: 'drawing',
+  construction: 'drawing',
+  shading: 'drawing',
+  color: 'color',
+  light: 'color',
+  composition: 'composition',
+  perspective: 'perspective',
+  depth: 'perspective',
+  '3d': 'perspective',
+  anatomy: 'anatomy',
+  gesture: 'anatomy',
+  figure: 'anatomy',
+};
+
+export class LessonSkills {
+  private static instance: LessonSkills;
+
+  private constructor() {
+    // Private constructor for singleton
+  }
+
+  public static getInstance(): LessonSkills {
+    if (!LessonSkills.instance) {
+      LessonSkills.instance = new LessonSkills();
+    }
+    return LessonSkills.instance;
+  }
+
+  public forLesson(lesson: Pick<Lesson, 'skills' | 'tags'>): SkillCategory[] {
+    if (lesson.skills && lesson.skills.length > 0) {
+      return Array.from(new Set(lesson.skills));
+    }
+
+    const skills = new Set<SkillCategory>();
+    (lesson.tags || []).forEach(tag => {
+      const skill = TAG_SKILLS[tag.toLowerCase()];
+      if (skill) skills.add(skill);
+    });
+
+    return Array.from(skills);
+  }
+}
+
+// Export singleton
+export const lessonSkills = LessonSkills.getInstance();
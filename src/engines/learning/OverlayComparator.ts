@@ -0,0 +1,282 @@
+// src/engines/learning/OverlayComparator.ts - TRACE-OVER ACCURACY
+
+import { LessonContent } from '../../types';
+import { strokeAnalyzer, AnalysisPoint } from './StrokeAnalyzer';
+
+/**
+ * OVERLAY COMPARATOR
+ *
+ * Grades guided tracing exercises against `LessonContent.overlay`:
+ * - Builds reference geometry from the overlay descriptor
+ *   (`position` is the center, `size` the diameter / side length)
+ * - Coverage: fraction of the reference the student traced over
+ * - Mean distance and Hausdorff distance between strokes and reference
+ * - Missed regions: contiguous stretches of the reference left untraced
+ */
+
+export type LessonOverlay = NonNullable<LessonContent['overlay']>;
+
+export interface MissedRegion {
+  startIndex: number; // Indices into the reference samples
+  endIndex: number;
+  points: Array<{ x: number; y: number }>;
+  center: { x: number; y: number };
+  length: number; // px
+}
+
+export interface OverlayComparison {
+  reference: Array<Array<{ x: number; y: number }>>; // One polyline per reference path
+  tolerance: number; // px a stroke may stray and still count as on the line
+  coverage: number; // 0-1
+  meanDistance: number; // px from student points to the reference
+  hausdorffDistance: number; // px, worst case in either direction
+  precision: number; // 0-1 derived from mean distance
+  accuracy: number; // 0-1 combined score
+  missedRegions: MissedRegion[];
+}
+
+// Spacing of reference samples in px
+const SAMPLE_SPACING = 4;
+// Tolerance as a fraction of the overlay size, with a floor for small overlays
+const TOLERANCE_RATIO = 0.08;
+const MIN_TOLERANCE = 8;
+// Missed stretches shorter than this are ignored
+const MIN_MISSED_LENGTH = 12;
+
+const ACCURACY_WEIGHTS = {
+  coverage: 0.6,
+  precision: 0.4,
+};
+
+export class OverlayComparator {
+  private static instance: OverlayComparator;
+
+  private constructor() {
+    // Private constructor for singleton
+  }
+
+  public static getInstance(): OverlayComparator {
+    if (!OverlayComparator.instance) {
+      OverlayComparator.instance = new OverlayComparator();
+    }
+    return OverlayComparator.instance;
+  }
+
+  // =================== REFERENCE GEOMETRY ===================
+
+  /**
+   * Builds reference polylines for an overlay. Returns null for overlay
+   * types that have no geometric reference (e.g. image overlays).
+   */
+  public buildReference(overlay: LessonOverlay): Array<Array<{ x: number; y: number }>> | null {
+    const { x: cx, y: cy } = overlay.position;
+    const size = overlay.size;
+    const half = size / 2;
+
+    switch (overlay.type) {
+      case 'circle': {
+        const circumference = Math.PI * size;
+        const count = Math.max(16, Math.ceil(circumference / SAMPLE_SPACING));
+        const points = Array.from({ length: count + 1 }, (_, i) => {
+          const angle = (i / count) * Math.PI * 2;
+          return { x: cx + half * Math.cos(angle), y: cy + half * Math.sin(angle) };
+        });
+        return [points];
+      }
+
+      case 'square':
+        return [samplePolyline([
+          { x: cx - half, y: cy - half },
+          { x: cx + half, y: cy - half },
+          { x: cx + half, y: cy + half },
+          { x: cx - half, y: cy + half },
+          { x: cx - half, y: cy - half },
+        ])];
+
+      case 'triangle': {
+        // Equilateral, point up, centered on its bounding box
+        const height = (Math.sqrt(3) / 2) * size;
+        return [samplePolyline([
+          { x: cx, y: cy - height / 2 },
+          { x: cx + half, y: cy + height / 2 },
+          { x: cx - half, y: cy + height / 2 },
+          { x: cx, y: cy - height / 2 },
+        ])];
+      }
+
+      case 'line':
+      case 'horizontal_line':
+        return [samplePolyline([{ x: cx - half, y: cy }, { x: cx + half, y: cy }])];
+
+      case 'vertical_line':
+        return [samplePolyline([{ x: cx, y: cy - half }, { x: cx, y: cy + half }])];
+
+      case 'diagonal_line': {
+        const d = half / Math.SQRT2;
+        return [samplePolyline([{ x: cx - d, y: cy + d }, { x: cx + d, y: cy - d }])];
+      }
+
+      default:
+        return null;
+    }
+  }
+
+  // =================== COMPARISON ===================
+
+  public compare(strokes: any[], overlay: LessonOverlay): OverlayComparison | null {
+    const reference = this.buildReference(overlay);
+    if (!reference) return null;
+
+    const referencePoints = reference.flat();
+    const studentPoints = strokes.flatMap(stroke => densify(strokeAnalyzer.getPoints(stroke)));
+    const tolerance = Math.max(MIN_TOLERANCE, overlay.size * TOLERANCE_RATIO);
+
+    if (studentPoints.length === 0 || referencePoints.length === 0) {
+      return {
+        reference,
+        tolerance,
+        coverage: 0,
+        meanDistance: Infinity,
+        hausdorffDistance: Infinity,
+        precision: 0,
+        accuracy: 0,
+        missedRegions: [],
+      };
+    }
+
+    // Reference -> student: which parts of the guide were traced
+    const referenceDistances = referencePoints.map(p => nearestDistance(p, studentPoints));
+    const covered = referenceDistances.map(d => d <= tolerance);
+    const coverage = covered.filter(Boolean).length / covered.length;
+
+    // Student -> reference: how closely the strokes followed the guide
+    const studentDistances = studentPoints.map(p => nearestDistance(p, referencePoints));
+    const meanDistance = studentDistances.reduce((sum, d) => sum + d, 0) / studentDistances.length;
+
+    const hausdorffDistance = Math.max(
+      Math.max(...referenceDistances),
+      Math.max(...studentDistances)
+    );
+
+    // Mean distance at 2x tolerance scores zero precision
+    const precision = clamp01(1 - meanDistance / (tolerance * 2));
+    const accuracy =
+      coverage * ACCURACY_WEIGHTS.coverage +
+      precision * ACCURACY_WEIGHTS.precision;
+
+    return {
+      reference,
+      tolerance,
+      coverage,
+      meanDistance,
+      hausdorffDistance,
+      precision,
+      accuracy: clamp01(accuracy),
+      missedRegions: this.findMissedRegions(reference, covered),
+    };
+  }
+
+  private findMissedRegions(reference: Array<Array<{ x: number; y: number }>>, covered: boolean[]): MissedRegion[] {
+    const regions: MissedRegion[] = [];
+    let offset = 0;
+
+    reference.forEach(polyline => {
+      let runStart = -1;
+
+      const closeRun = (end: number) => {
+        const points = polyline.slice(runStart, end + 1);
+        const length = polylineLength(points);
+        if (length >= MIN_MISSED_LENGTH) {
+          const mid = points[Math.floor(points.length / 2)];
+          regions.push({
+            startIndex: offset + runStart,
+            endIndex: offset + end,
+            points,
+            center: { x: mid.x, y: mid.y },
+            length,
+          });
+        }
+        runStart = -1;
+      };
+
+      polyline.forEach((_, i) => {
+        if (!covered[offset + i]) {
+          if (runStart === -1) runStart = i;
+        } else if (runStart !== -1) {
+          closeRun(i - 1);
+        }
+      });
+      if (runStart !== -1) closeRun(polyline.length - 1);
+
+      offset += polyline.length;
+    });
+
+    return regions.sort((a, b) => b.length - a.length);
+  }
+
+  // =================== FEEDBACK ===================
+
+  public describe(comparison: OverlayComparison): string {
+    const percent = Math.round(comparison.accuracy * 100);
+    const largest = comparison.missedRegions[0];
+
+    if (comparison.coverage < 0.5) {
+      return `You traced ${Math.round(comparison.coverage * 100)}% of the guide. Follow it all the way round.`;
+    }
+    if (comparison.precision < 0.7) {
+      return `${percent}% accurate - your line wandered about ${Math.round(comparison.meanDistance)}px off the guide.`;
+    }
+    if (largest) {
+      return `${percent}% accurate - you missed a ${Math.round(largest.length)}px stretch of the guide.`;
+    }
+    return `${percent}% accurate - great tracing!`;
+  }
+}
+
+// =================== HELPERS ===================
+
+function clamp01(value: number): number {
+  if (!Number.isFinite(value)) return 0;
+  return Math.max(0, Math.min(1, value));
+}
+
+function samplePolyline(vertices: Array<{ x: number; y: number }>): Array<{ x: number; y: number }> {
+  const points: Array<{ x: number; y: number }> = [];
+  for (let i = 0; i < vertices.length - 1; i++) {
+    const a = vertices[i];
+    const b = vertices[i + 1];
+    const steps = Math.max(1, Math.ceil(Math.hypot(b.x - a.x, b.y - a.y) / SAMPLE_SPACING));
+    for (let s = 0; s < steps; s++) {
+      points.push({ x: a.x + ((b.x - a.x) * s) / steps, y: a.y + ((b.y - a.y) * s) / steps });
+    }
+  }
+  const last = vertices[vertices.length - 1];
+  points.push({ x: last.x, y: last.y });
+  return points;
+}
+
+/** Fills gaps between sparse touch samples so coverage isn't under-counted. */
+function densify(points: AnalysisPoint[]): Array<{ x: number; y: number }> {
+  if (points.length < 2) return points.map(p => ({ x: p.x, y: p.y }));
+  return samplePolyline(points.map(p => ({ x: p.x, y: p.y })));
+}
+
+function nearestDistance(point: { x: number; y: number }, candidates: Array<{ x: number; y: number }>): number {
+  let min = Infinity;
+  for (let i = 0; i < candidates.length; i++) {
+    const d = Math.hypot(candidates[i].x - point.x, candidates[i].y - point.y);
+    if (d < min) min = d;
+  }
+  return min;
+}
+
+function polylineLength(points: Array<{ x: number; y: number }>): number {
+  let length = 0;
+  for (let i = 1; i < points.length; i++) {
+    length += Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y);
+  }
+  return length;
+}
+
+// Export singleton
+export const overlayComparator = OverlayComparator.getInstance();
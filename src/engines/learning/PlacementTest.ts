@@ -0,0 +1,281 @@
+// src/engines/learning/PlacementTest.ts - ONBOARDING PLACEMENT
+
+import {
+  Lesson,
+  LessonContent,
+  PlacementItem,
+  PlacementResponse,
+  PlacementResult,
+  SkillLevel,
+  ValidationResult,
+} from '../../types';
+import { dataManager } from '../core/DataManager';
+import { lessonEngine } from './LessonEngine';
+import { skillTreeManager } from './SkillTreeManager';
+import { UNGRADED_RULE_TYPES } from './DrawingValidators';
+import { REVIEW_LESSON_ID } from './SpacedRepetition';
+
+/**
+ * PLACEMENT TEST
+ *
+ * A short adaptive assessment run after onboarding:
+ * - Items are graded quiz and drawing items borrowed from the lessons; an
+ *   item's tier is its lesson's difficulty
+ * - Starts at the tier matching the self-reported SkillLevel, moves up a
+ *   tier after a pass and down after a miss, alternating quiz and drawing
+ * - The placed tier is the highest one passed at PASS_RATE or better
+ *
+ * Lessons whose items were all passed (at or below the placed tier) are
+ * tested out and marked completed. The rest of the lessons at or below the
+ * placed tier, and the prerequisites of tested-out lessons, become
+ * skippable - unless the learner missed one of their items.
+ */
+
+const MAX_ITEMS = 8;
+const PASS_RATE = 2 / 3;
+const MAX_MISSES_AT_FLOOR = 2; // Misses on the easiest tier that end the test early
+
+const SKILL_LEVEL_TIERS: Record<SkillLevel, number> = {
+  beginner: 1,
+  intermediate: 2,
+  advanced: 3,
+};
+
+const QUIZ_TYPES: Array<LessonContent['type']> = ['multiple_choice', 'true_false'];
+const DRAWING_TYPES: Array<LessonContent['type']> = ['drawing_exercise', 'guided_step', 'shape_practice'];
+
+interface PlacementSession {
+  selfReported: SkillLevel;
+  bank: PlacementItem[];
+  tiers: number[];
+  tier: number;
+  current: PlacementItem | null;
+  asked: Set<string>;
+  responses: PlacementResponse[];
+  missesAtFloor: number;
+}
+
+export class PlacementTest {
+  private static instance: PlacementTest;
+  private session: PlacementSession | null = null;
+
+  private constructor() {
+    // Private constructor for singleton
+  }
+
+  public static getInstance(): PlacementTest {
+    if (!PlacementTest.instance) {
+      PlacementTest.instance = new PlacementTest();
+    }
+    return PlacementTest.instance;
+  }
+
+  // =================== SESSION ===================
+
+  /** Starts a new test and returns its first item, or null when no lesson has gradable items. */
+  public async start(selfReported: SkillLevel): Promise<PlacementItem | null> {
+    await lessonEngine.initialize();
+
+    const bank = this.buildBank(lessonEngine.getAllLessons());
+    const tiers = Array.from(new Set(bank.map(item => item.tier))).sort((a, b) => a - b);
+    const target = SKILL_LEVEL_TIERS[selfReported] ?? 1;
+    // The highest tier not above the self-reported level
+    const tier = tiers.filter(t => t <= target).pop() ?? tiers[0] ?? 1;
+
+    this.session = {
+      selfReported,
+      bank,
+      tiers,
+      tier,
+      current: null,
+      asked: new Set(),
+      responses: [],
+      missesAtFloor: 0,
+    };
+    this.session.current = this.pickItem(this.session);
+
+    console.log(`🧭 Placement test started at tier ${tier} (${bank.length} items available)`);
+    return this.session.current;
+  }
+
+  public getCurrentItem(): PlacementItem | null {
+    return this.session?.current || null;
+  }
+
+  public getProgress(): { answered: number; total: number } {
+    const answered = this.session?.responses.length || 0;
+    return { answered, total: this.session ? Math.min(MAX_ITEMS, this.session.bank.length) : MAX_ITEMS };
+  }
+
+  public isComplete(): boolean {
+    return !!this.session && !this.session.current;
+  }
+
+  /** Grades the current item, then moves to the next one. Each item gets a single attempt. */
+  public async submitAnswer(answer: any): Promise<ValidationResult> {
+    const session = this.session;
+    const item = session?.current;
+    if (!session || !item) {
+      throw new Error('No active placement item');
+    }
+
+    const result = await lessonEngine.gradeAnswer(item.content, answer);
+
+    session.responses.push({
+      lessonId: item.lessonId,
+      contentId: item.content.id,
+      tier: item.tier,
+      isCorrect: result.isCorrect === true,
+      score: result.score,
+    });
+
+    const index = session.tiers.indexOf(session.tier);
+    if (result.isCorrect === true) {
+      session.tier = session.tiers[Math.min(index + 1, session.tiers.length - 1)];
+    } else if (index > 0) {
+      session.tier = session.tiers[index - 1];
+    } else {
+      session.missesAtFloor++;
+    }
+
+    const finished = session.responses.length >= MAX_ITEMS || session.missesAtFloor >= MAX_MISSES_AT_FLOOR;
+    session.current = finished ? null : this.pickItem(session);
+
+    return result;
+  }
+
+  /** Scores the test and seeds lesson progress from it. */
+  public async finish(): Promise<PlacementResult | null> {
+    if (!this.session) return null;
+
+    const result = this.score(this.session.selfReported, this.session.responses, lessonEngine.getAllLessons());
+    this.session = null;
+
+    // The Learn tab reads completions from DataManager; record them before the
+    // skill tree announces the placement
+    for (const lessonId of result.testedOut) {
+      await dataManager.addCompletedLesson(lessonId);
+    }
+
+    await skillTreeManager.initialize();
+    await skillTreeManager.applyPlacement(result);
+
+    console.log(`🧭 Placed at tier ${result.placedTier} from ${result.responses.length} answers`);
+    return result;
+  }
+
+  public cancel(): void {
+    this.session = null;
+  }
+
+  // =================== SCORING ===================
+
+  public score(selfReported: SkillLevel, responses: PlacementResponse[], lessons: Lesson[]): PlacementResult {
+    const tiers = Array.from(new Set(responses.map(r => r.tier))).sort((a, b) => a - b);
+
+    // Climb until a tier falls short; an untested tier between two passes doesn't break the climb
+    let placedTier = 0;
+    for (const tier of tiers) {
+      const atTier = responses.filter(r => r.tier === tier);
+      if (atTier.filter(r => r.isCorrect).length / atTier.length < PASS_RATE) break;
+      placedTier = tier;
+    }
+
+    const missed = new Set(responses.filter(r => !r.isCorrect).map(r => r.lessonId));
+    const byId = new Map(lessons.map(lesson => [lesson.id, lesson]));
+
+    const testedOut = Array.from(new Set(responses.map(r => r.lessonId))).filter(lessonId => {
+      const lesson = byId.get(lessonId);
+      return !!lesson && lesson.difficulty <= placedTier && !missed.has(lessonId);
+    });
+
+    const skippable = new Set<string>();
+    lessons.forEach(lesson => {
+      if (lesson.difficulty <= placedTier) skippable.add(lesson.id);
+    });
+
+    // Anything a tested-out lesson builds on is already covered
+    const pending = [...testedOut];
+    while (pending.length > 0) {
+      byId.get(pending.pop()!)?.prerequisites.forEach(prereq => {
+        if (!skippable.has(prereq)) {
+          skippable.add(prereq);
+          pending.push(prereq);
+        }
+      });
+    }
+
+    return {
+      selfReported,
+      placedTier,
+      testedOut,
+      skippable: Array.from(skippable).filter(id => byId.has(id) && !testedOut.includes(id) && !missed.has(id)),
+      responses,
+      completedAt: Date.now(),
+    };
+  }
+
+  // =================== ITEM BANK ===================
+
+  private buildBank(lessons: Lesson[]): PlacementItem[] {
+    const bank: PlacementItem[] = [];
+
+    lessons
+      .filter(lesson => lesson.id !== REVIEW_LESSON_ID && lesson.type !== 'drill')
+      .forEach(lesson => {
+        lesson.content
+          .filter(content => this.isPlacementItem(content))
+          .forEach(content => bank.push({ lessonId: lesson.id, tier: lesson.difficulty, content }));
+      });
+
+    return bank;
+  }
+
+  /** Items a single unaided attempt can be fairly graded on. */
+  private isPlacementItem(content: LessonContent): boolean {
+    if (QUIZ_TYPES.includes(content.type)) {
+      return content.correctAnswer !== undefined;
+    }
+    if (DRAWING_TYPES.includes(content.type)) {
+      // Tracing needs its guide on screen, and ungraded rules pass anything
+      return !!content.validation && !content.overlay && !UNGRADED_RULE_TYPES.includes(content.validation.type);
+    }
+    return false;
+  }
+
+  private pickItem(session: PlacementSession): PlacementItem | null {
+    const unasked = session.bank.filter(item => !session.asked.has(itemKey(item)));
+    if (unasked.length === 0) return null;
+
+    // Nearest tier that still has items, preferring easier on a tie
+    const tier = session.tiers
+      .filter(t => unasked.some(item => item.tier === t))
+      .sort((a, b) => Math.abs(a - session.tier) - Math.abs(b - session.tier) || a - b)[0];
+
+    const probed = session.responses.map(r => r.lessonId);
+    const lastKind = session.current ? kindOf(session.current.content) : null;
+
+    const candidates = unasked
+      .filter(item => item.tier === tier)
+      .sort((a, b) =>
+        // Cover new lessons first, then switch between quiz and drawing
+        probed.filter(id => id === a.lessonId).length - probed.filter(id => id === b.lessonId).length ||
+        Number(kindOf(a.content) === lastKind) - Number(kindOf(b.content) === lastKind)
+      );
+
+    const item = candidates[0];
+    session.asked.add(itemKey(item));
+    return item;
+  }
+}
+
+function itemKey(item: PlacementItem): string {
+  return `${item.lessonId}/${item.content.id}`;
+}
+
+function kindOf(content: LessonContent): 'quiz' | 'drawing' {
+  return QUIZ_TYPES.includes(content.type) ? 'quiz' : 'drawing';
+}
+
+// Export singleton
+export const placementTest = PlacementTest.getInstance();
@@ -0,0 +1,655 @@
+// src/engines/learning/ShapeRecognizer.ts - LESSON SHAPE RECOGNITION
+
+import { strokeAnalyzer, AnalysisPoint } from './StrokeAnalyzer';
+
+/**
+ * SHAPE RECOGNIZER
+ *
+ * Classifies groups of lesson strokes as basic geometric shapes:
+ * - Groups open strokes whose endpoints meet (a square drawn in 4 strokes)
+ * - Measures closure, roundness, ellipse fit and corner sharpness
+ * - Detects corners with Douglas-Peucker simplification
+ * - Scores a recognized shape against a lesson target ('circle', 'square', ...)
+ */
+
+export type ShapeType = 'circle' | 'ellipse' | 'rectangle' | 'triangle' | 'polygon' | 'line';
+
+export interface ShapeBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface RecognizedShape {
+  type: ShapeType;
+  confidence: number; // 0-1 how well the strokes fit `type`
+  strokeIndices: number[];
+  bounds: ShapeBounds;
+  center: { x: number; y: number };
+  size: number; // Bounding box diagonal in px
+  perimeter: number;
+  closure: number; // 0-1, 1 = endpoints meet
+  closureGap: number; // px between first and last point
+  roundness: number; // 0-1, constant radius from the centroid
+  ellipseFit: number; // 0-1, constant radius after normalizing the principal axes
+  cornerSharpness: number; // 0-1, 0 when there are no corners
+  corners: Array<{ x: number; y: number }>;
+  aspectRatio: number; // 0-1, short side / long side
+  regularity: number; // 0-1, shortest edge / longest edge for polygons
+}
+
+export interface ShapeMatch {
+  shape: RecognizedShape | null;
+  score: number;
+}
+
+const RESAMPLE_COUNT = 64;
+// Open strokes whose endpoints are this close are joined into one shape
+const JOIN_DISTANCE = 24;
+// A stroke closes on itself when its gap is below this fraction of its length
+const SELF_CLOSURE_RATIO = 0.2;
+// Douglas-Peucker tolerance as a fraction of the perimeter
+const SIMPLIFY_RATIO = 0.05;
+// Minimum turn (degrees) for a simplified vertex to count as a corner
+const MIN_CORNER_ANGLE = 30;
+// A square's sides may differ by this much
+const SQUARE_ASPECT = 0.8;
+// A "small" shape is under this fraction of the largest shape's size
+const SMALL_SHAPE_RATIO = 0.6;
+
+export class ShapeRecognizer {
+  private static instance: ShapeRecognizer;
+
+  private constructor() {
+    // Private constructor for singleton
+  }
+
+  public static getInstance(): ShapeRecognizer {
+    if (!ShapeRecognizer.instance) {
+      ShapeRecognizer.instance = new ShapeRecognizer();
+    }
+    return ShapeRecognizer.instance;
+  }
+
+  // =================== PUBLIC API ===================
+
+  public recognize(strokes: any[]): RecognizedShape[] {
+    const groups = this.groupStrokes(strokes);
+
+    return groups
+      .map(group => this.classify(group.points, group.strokeIndices))
+      .filter((shape): shape is RecognizedShape => shape !== null);
+  }
+
+  /**
+   * Scores one shape against a lesson target. `others` is the full set of
+   * recognized shapes, used for relative targets like 'small_square'.
+   */
+  public scoreAgainstTarget(shape: RecognizedShape, target: string, others: RecognizedShape[] = []): number {
+    const normalized = target.toLowerCase();
+
+    if (normalized.startsWith('small_')) {
+      const largest = Math.max(...others.map(s => s.size), shape.size);
+      if (shape.size > largest * SMALL_SHAPE_RATIO) return 0;
+      return this.scoreAgainstTarget(shape, normalized.slice('small_'.length), others);
+    }
+
+    const polygonQuality = shape.closure * 0.3 + shape.cornerSharpness * 0.3 + shape.confidence * 0.4;
+
+    switch (normalized) {
+      case 'circle':
+        if (shape.type === 'circle') return shape.closure * 0.3 + shape.roundness * 0.7;
+        if (shape.type === 'ellipse') return (shape.closure * 0.3 + shape.roundness * 0.7) * 0.8;
+        return shape.roundness * 0.4;
+
+      case 'ellipse':
+      case 'oval':
+        if (shape.type === 'ellipse' || shape.type === 'circle') {
+          return shape.closure * 0.3 + shape.ellipseFit * 0.7;
+        }
+        return shape.ellipseFit * 0.4;
+
+      case 'square':
+        if (shape.type !== 'rectangle') return shape.type === 'polygon' ? polygonQuality * 0.4 : 0;
+        return shape.aspectRatio >= SQUARE_ASPECT
+          ? polygonQuality * 0.8 + shape.aspectRatio * 0.2
+          : polygonQuality * shape.aspectRatio * 0.8;
+
+      case 'rectangle':
+        if (shape.type !== 'rectangle') return shape.type === 'polygon' ? polygonQuality * 0.4 : 0;
+        return polygonQuality;
+
+      case 'triangle':
+        if (shape.type !== 'triangle') return shape.type === 'polygon' ? polygonQuality * 0.4 : 0;
+        return polygonQuality * 0.8 + shape.regularity * 0.2;
+
+      case 'polygon':
+        return ['triangle', 'rectangle', 'polygon'].includes(shape.type) ? polygonQuality : 0;
+
+      case 'line':
+        return shape.type === 'line' ? shape.confidence : 0;
+
+      default:
+        return shape.type === normalized ? shape.confidence : 0;
+    }
+  }
+
+  public findBestMatch(shapes: RecognizedShape[], target: string, exclude: Set<RecognizedShape> = new Set()): ShapeMatch {
+    let best: ShapeMatch = { shape: null, score: 0 };
+
+    shapes.forEach(shape => {
+      if (exclude.has(shape)) return;
+      const score = this.scoreAgainstTarget(shape, target, shapes);
+      if (score > best.score) {
+        best = { shape, score };
+      }
+    });
+
+    return best;
+  }
+
+  /**
+   * Greedily assigns each target to a distinct shape, hardest targets first.
+   */
+  public matchTargets(shapes: RecognizedShape[], targets: string[]): ShapeMatch[] {
+    const used = new Set<RecognizedShape>();
+    const order = targets
+      .map((target, index) => ({ target, index }))
+      .sort((a, b) => Number(b.target.startsWith('small_')) - Number(a.target.startsWith('small_')));
+
+    const matches: ShapeMatch[] = new Array(targets.length);
+    order.forEach(({ target, index }) => {
+      const match = this.findBestMatch(shapes, target, used);
+      if (match.shape) used.add(match.shape);
+      matches[index] = match;
+    });
+
+    return matches;
+  }
+
+  /**
+   * True when `top` sits on top of `base`: above it, overlapping horizontally,
+   * and close enough vertically to read as one object.
+   */
+  public isStackedAbove(top: RecognizedShape, base: RecognizedShape): boolean {
+    const overlap =
+      Math.min(top.bounds.x + top.bounds.width, base.bounds.x + base.bounds.width) -
+      Math.max(top.bounds.x, base.bounds.x);
+    const minWidth = Math.min(top.bounds.width, base.bounds.width);
+    const gap = base.bounds.y - (top.bounds.y + top.bounds.height);
+
+    return (
+      top.center.y < base.center.y &&
+      overlap >= minWidth * 0.5 &&
+      gap <= base.bounds.height * 0.25
+    );
+  }
+
+  public describe(shape: RecognizedShape): string {
+    switch (shape.type) {
+      case 'rectangle':
+        return shape.aspectRatio >= SQUARE_ASPECT ? 'square' : 'rectangle';
+      default:
+        return shape.type;
+    }
+  }
+
+  // =================== STROKE GROUPING ===================
+
+  private groupStrokes(strokes: any[]): Array<{ points: AnalysisPoint[]; strokeIndices: number[] }> {
+    const entries = strokes
+      .map((stroke, index) => ({ index, points: strokeAnalyzer.getPoints(stroke) }))
+      .filter(entry => entry.points.length >= 2);
+
+    const parent = entries.map((_, i) => i);
+    const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+
+    const isSelfClosed = entries.map(entry => {
+      const length = pathLength(entry.points);
+      return length > 0 && endpointGap(entry.points) <= length * SELF_CLOSURE_RATIO;
+    });
+
+    // Join open strokes whose endpoints touch
+    for (let i = 0; i < entries.length; i++) {
+      if (isSelfClosed[i]) continue;
+      for (let j = i + 1; j < entries.length; j++) {
+        if (isSelfClosed[j]) continue;
+        if (minEndpointDistance(entries[i].points, entries[j].points) <= JOIN_DISTANCE) {
+          parent[find(j)] = find(i);
+        }
+      }
+    }
+
+    const groups = new Map<number, number[]>();
+    entries.forEach((_, i) => {
+      const root = find(i);
+      groups.set(root, [...(groups.get(root) || []), i]);
+    });
+
+    return Array.from(groups.values()).map(members => ({
+      points: chainStrokes(members.map(m => entries[m].points)),
+      strokeIndices: members.map(m => entries[m].index),
+    }));
+  }
+
+  // =================== CLASSIFICATION ===================
+
+  private classify(rawPoints: AnalysisPoint[], strokeIndices: number[]): RecognizedShape | null {
+    const perimeter = pathLength(rawPoints);
+    if (perimeter === 0) return null;
+
+    const bounds = getBounds(rawPoints);
+    const size = Math.hypot(bounds.width, bounds.height);
+    const closureGap = endpointGap(rawPoints);
+    const closure = clamp01(1 - closureGap / (perimeter * 0.25));
+
+    const closed = closure > 0.5;
+    const resampled = resample(rawPoints, RESAMPLE_COUNT);
+    // A closed loop's last sample repeats its first
+    const points = closed ? resampled.slice(0, -1) : resampled;
+    const center = centroid(points);
+
+    const roundness = this.measureRoundness(points, center);
+    const { fit: ellipseFit, axisRatio } = this.measureEllipse(points, center);
+    const corners = this.findCorners(points, closed, perimeter);
+    const cornerSharpness = this.measureCornerSharpness(points, corners.map(c => c.index), closed);
+    const polygonFit = corners.length >= 3
+      ? this.measurePolygonFit(points, corners.map(c => c.point), perimeter)
+      : 0;
+
+    const base = {
+      strokeIndices,
+      bounds,
+      center,
+      size,
+      perimeter,
+      closure,
+      closureGap,
+      roundness,
+      ellipseFit,
+      cornerSharpness,
+      corners: corners.map(c => c.point),
+    };
+
+    // Open and straight: a line
+    if (closure < 0.35) {
+      const line = strokeAnalyzer.analyzeLine({ points: rawPoints });
+      if (line && line.straightnessScore >= 0.5) {
+        return {
+          ...base,
+          type: 'line',
+          confidence: line.straightnessScore,
+          corners: [],
+          cornerSharpness: 0,
+          aspectRatio: 0,
+          regularity: 1,
+        };
+      }
+    }
+
+    const closureWeight = 0.7 + 0.3 * closure;
+    // Thin ellipses look "sharp" at their ends, so the edge fit dominates
+    const roundScore = Math.max(roundness, ellipseFit);
+    const polygonScore = polygonFit * 0.7 + cornerSharpness * 0.3;
+
+    if (corners.length >= 3 && polygonScore > roundScore) {
+      const edges = polygonEdges(corners.map(c => c.point));
+      const regularity = edges.length > 0 ? Math.min(...edges) / Math.max(...edges) : 0;
+
+      if (corners.length === 3) {
+        return {
+          ...base,
+          type: 'triangle',
+          confidence: clamp01(polygonScore * closureWeight),
+          aspectRatio: regularity,
+          regularity,
+        };
+      }
+
+      if (corners.length === 4) {
+        const rightAngleError = meanRightAngleError(corners.map(c => c.point));
+        // Opposite sides averaged give width/height even when drawn at an angle
+        const sideA = (edges[0] + edges[2]) / 2;
+        const sideB = (edges[1] + edges[3]) / 2;
+        const aspectRatio = Math.min(sideA, sideB) / Math.max(sideA, sideB);
+
+        if (rightAngleError <= 25) {
+          return {
+            ...base,
+            type: 'rectangle',
+            confidence: clamp01(polygonScore * closureWeight * (1 - rightAngleError / 90)),
+            aspectRatio,
+            regularity,
+          };
+        }
+      }
+
+      return {
+        ...base,
+        type: 'polygon',
+        confidence: clamp01(polygonScore * closureWeight),
+        aspectRatio: bounds.width > 0 && bounds.height > 0
+          ? Math.min(bounds.width, bounds.height) / Math.max(bounds.width, bounds.height)
+          : 0,
+        regularity,
+      };
+    }
+
+    const isCircle = axisRatio >= 0.8;
+    return {
+      ...base,
+      type: isCircle ? 'circle' : 'ellipse',
+      confidence: clamp01((isCircle ? roundness : ellipseFit) * closureWeight),
+      corners: [],
+      cornerSharpness: 0,
+      aspectRatio: axisRatio,
+      regularity: 1,
+    };
+  }
+
+  // =================== MEASUREMENTS ===================
+
+  private measureRoundness(points: AnalysisPoint[], center: { x: number; y: number }): number {
+    const radii = points.map(p => Math.hypot(p.x - center.x, p.y - center.y));
+    return clamp01(1 - coefficientOfVariation(radii) / 0.2);
+  }
+
+  private measureEllipse(points: AnalysisPoint[], center: { x: number; y: number }): { fit: number; axisRatio: number } {
+    let sxx = 0;
+    let syy = 0;
+    let sxy = 0;
+    points.forEach(p => {
+      const dx = p.x - center.x;
+      const dy = p.y - center.y;
+      sxx += dx * dx;
+      syy += dy * dy;
+      sxy += dx * dy;
+    });
+
+    const theta = 0.5 * Math.atan2(2 * sxy, sxx - syy);
+    const cos = Math.cos(theta);
+    const sin = Math.sin(theta);
+
+    const major: number[] = [];
+    const minor: number[] = [];
+    points.forEach(p => {
+      const dx = p.x - center.x;
+      const dy = p.y - center.y;
+      major.push(dx * cos + dy * sin);
+      minor.push(-dx * sin + dy * cos);
+    });
+
+    const majorStd = Math.sqrt(major.reduce((s, v) => s + v * v, 0) / points.length);
+    const minorStd = Math.sqrt(minor.reduce((s, v) => s + v * v, 0) / points.length);
+    if (majorStd === 0 || minorStd === 0) {
+      return { fit: 0, axisRatio: 0 };
+    }
+
+    const normalizedRadii = major.map((m, i) => Math.hypot(m / majorStd, minor[i] / minorStd));
+    return {
+      fit: clamp01(1 - coefficientOfVariation(normalizedRadii) / 0.2),
+      axisRatio: minorStd / majorStd,
+    };
+  }
+
+  private findCorners(
+    points: AnalysisPoint[],
+    closed: boolean,
+    perimeter: number
+  ): Array<{ index: number; point: { x: number; y: number } }> {
+    const epsilon = perimeter * SIMPLIFY_RATIO;
+    let indices: number[];
+
+    if (closed) {
+      // Split the loop at the point farthest from the start, simplify both halves
+      let farthest = 0;
+      let farthestDistance = 0;
+      points.forEach((p, i) => {
+        const d = Math.hypot(p.x - points[0].x, p.y - points[0].y);
+        if (d > farthestDistance) {
+          farthestDistance = d;
+          farthest = i;
+        }
+      });
+      const firstHalf = douglasPeucker(points, 0, farthest, epsilon);
+      const secondHalf = douglasPeucker(points, farthest, points.length - 1, epsilon);
+      indices = [...firstHalf, ...secondHalf.slice(1, -1)];
+    } else {
+      indices = douglasPeucker(points, 0, points.length - 1, epsilon);
+    }
+
+    const count = indices.length;
+    return indices
+      .filter((index, i) => {
+        if (!closed && (i === 0 || i === count - 1)) return false;
+        const prev = points[indices[(i - 1 + count) % count]];
+        const next = points[indices[(i + 1) % count]];
+        return turnAngle(prev, points[index], next) >= MIN_CORNER_ANGLE;
+      })
+      .map(index => ({ index, point: { x: points[index].x, y: points[index].y } }));
+  }
+
+  /**
+   * Sharp corners turn within a couple of samples; rounded ones spread the
+   * same turn over a wider window.
+   */
+  private measureCornerSharpness(points: AnalysisPoint[], cornerIndices: number[], closed: boolean): number {
+    if (cornerIndices.length === 0) return 0;
+
+    const n = points.length;
+    const at = (i: number) => (closed ? points[((i % n) + n) % n] : points[Math.max(0, Math.min(n - 1, i))]);
+
+    const ratios = cornerIndices.map(i => {
+      const narrow = turnAngle(at(i - 2), at(i), at(i + 2));
+      const wide = turnAngle(at(i - 5), at(i), at(i + 5));
+      if (wide === 0) return 0;
+      return narrow / wide;
+    });
+
+    const mean = ratios.reduce((s, r) => s + r, 0) / ratios.length;
+    // A perfect arc gives ~0.4 at this sampling density
+    return clamp01((mean - 0.4) / 0.6);
+  }
+
+  private measurePolygonFit(points: AnalysisPoint[], corners: Array<{ x: number; y: number }>, perimeter: number): number {
+    const total = points.reduce((sum, p) => {
+      let nearest = Infinity;
+      for (let i = 0; i < corners.length; i++) {
+        const d = distanceToSegment(p, corners[i], corners[(i + 1) % corners.length]);
+        if (d < nearest) nearest = d;
+      }
+      return sum + nearest;
+    }, 0);
+
+    return clamp01(1 - total / points.length / (perimeter * 0.03));
+  }
+}
+
+// =================== GEOMETRY HELPERS ===================
+
+function clamp01(value: number): number {
+  if (!Number.isFinite(value)) return 0;
+  return Math.max(0, Math.min(1, value));
+}
+
+function pathLength(points: AnalysisPoint[]): number {
+  let length = 0;
+  for (let i = 1; i < points.length; i++) {
+    length += Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y);
+  }
+  return length;
+}
+
+function endpointGap(points: AnalysisPoint[]): number {
+  const first = points[0];
+  const last = points[points.length - 1];
+  return Math.hypot(last.x - first.x, last.y - first.y);
+}
+
+function minEndpointDistance(a: AnalysisPoint[], b: AnalysisPoint[]): number {
+  const aEnds = [a[0], a[a.length - 1]];
+  const bEnds = [b[0], b[b.length - 1]];
+  let min = Infinity;
+  aEnds.forEach(p => bEnds.forEach(q => {
+    min = Math.min(min, Math.hypot(p.x - q.x, p.y - q.y));
+  }));
+  return min;
+}
+
+/**
+ * Orders strokes into one polyline, reversing strokes so that each one
+ * starts where the previous one ended.
+ */
+function chainStrokes(strokes: AnalysisPoint[][]): AnalysisPoint[] {
+  if (strokes.length === 1) return strokes[0];
+
+  const remaining = strokes.slice(1);
+  let chain = [...strokes[0]];
+
+  while (remaining.length > 0) {
+    const tail = chain[chain.length - 1];
+    let bestIndex = 0;
+    let bestReversed = false;
+    let bestDistance = Infinity;
+
+    remaining.forEach((stroke, i) => {
+      const toStart = Math.hypot(stroke[0].x - tail.x, stroke[0].y - tail.y);
+      const toEnd = Math.hypot(stroke[stroke.length - 1].x - tail.x, stroke[stroke.length - 1].y - tail.y);
+      if (toStart < bestDistance) {
+        bestDistance = toStart;
+        bestIndex = i;
+        bestReversed = false;
+      }
+      if (toEnd < bestDistance) {
+        bestDistance = toEnd;
+        bestIndex = i;
+        bestReversed = true;
+      }
+    });
+
+    const [next] = remaining.splice(bestIndex, 1);
+    chain = chain.concat(bestReversed ? [...next].reverse() : next);
+  }
+
+  return chain;
+}
+
+function resample(points: AnalysisPoint[], count: number): AnalysisPoint[] {
+  const total = pathLength(points);
+  if (total === 0) return [points[0]];
+
+  const interval = total / (count - 1);
+  const result: AnalysisPoint[] = [{ x: points[0].x, y: points[0].y }];
+  let carried = 0;
+
+  for (let i = 1; i < points.length; i++) {
+    let prev = points[i - 1];
+    const curr = points[i];
+    let segment = Math.hypot(curr.x - prev.x, curr.y - prev.y);
+
+    while (carried + segment >= interval && result.length < count) {
+      const t = (interval - carried) / segment;
+      const point = { x: prev.x + t * (curr.x - prev.x), y: prev.y + t * (curr.y - prev.y) };
+      result.push(point);
+      segment -= interval - carried;
+      prev = point;
+      carried = 0;
+    }
+    carried += segment;
+  }
+
+  while (result.length < count) {
+    const last = points[points.length - 1];
+    result.push({ x: last.x, y: last.y });
+  }
+
+  return result;
+}
+
+function centroid(points: AnalysisPoint[]): { x: number; y: number } {
+  const sum = points.reduce((acc, p) => ({ x: acc.x + p.x, y: acc.y + p.y }), { x: 0, y: 0 });
+  return { x: sum.x / points.length, y: sum.y / points.length };
+}
+
+function getBounds(points: AnalysisPoint[]): ShapeBounds {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  points.forEach(p => {
+    minX = Math.min(minX, p.x);
+    minY = Math.min(minY, p.y);
+    maxX = Math.max(maxX, p.x);
+    maxY = Math.max(maxY, p.y);
+  });
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+function coefficientOfVariation(values: number[]): number {
+  const mean = values.reduce((s, v) => s + v, 0) / values.length;
+  if (mean === 0) return Infinity;
+  const variance = values.reduce((s, v) => s + (v - mean) * (v - mean), 0) / values.length;
+  return Math.sqrt(variance) / mean;
+}
+
+function distanceToSegment(p: { x: number; y: number }, a: { x: number; y: number }, b: { x: number; y: number }): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  if (lengthSq === 0) return Math.hypot(p.x - a.x, p.y - a.y);
+  const t = Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq));
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+}
+
+function douglasPeucker(points: AnalysisPoint[], start: number, end: number, epsilon: number): number[] {
+  if (end <= start + 1) return [start, end];
+
+  let maxDistance = 0;
+  let index = start;
+  for (let i = start + 1; i < end; i++) {
+    const d = distanceToSegment(points[i], points[start], points[end]);
+    if (d > maxDistance) {
+      maxDistance = d;
+      index = i;
+    }
+  }
+
+  if (maxDistance <= epsilon) return [start, end];
+
+  const left = douglasPeucker(points, start, index, epsilon);
+  const right = douglasPeucker(points, index, end, epsilon);
+  return [...left.slice(0, -1), ...right];
+}
+
+/** Direction change in degrees at `b` when travelling a -> b -> c. */
+function turnAngle(a: { x: number; y: number }, b: { x: number; y: number }, c: { x: number; y: number }): number {
+  const v1x = b.x - a.x;
+  const v1y = b.y - a.y;
+  const v2x = c.x - b.x;
+  const v2y = c.y - b.y;
+  const l1 = Math.hypot(v1x, v1y);
+  const l2 = Math.hypot(v2x, v2y);
+  if (l1 === 0 || l2 === 0) return 0;
+  const cos = Math.max(-1, Math.min(1, (v1x * v2x + v1y * v2y) / (l1 * l2)));
+  return (Math.acos(cos) * 180) / Math.PI;
+}
+
+function polygonEdges(corners: Array<{ x: number; y: number }>): number[] {
+  return corners.map((c, i) => {
+    const next = corners[(i + 1) % corners.length];
+    return Math.hypot(next.x - c.x, next.y - c.y);
+  });
+}
+
+function meanRightAngleError(corners: Array<{ x: number; y: number }>): number {
+  const n = corners.length;
+  const errors = corners.map((c, i) => {
+    const interior = 180 - turnAngle(corners[(i - 1 + n) % n], c, corners[(i + 1) % n]);
+    return Math.abs(interior - 90);
+  });
+  return errors.reduce((s, e) => s + e, 0) / n;
+}
+
+// Export singleton
+export const shapeRecognizer = ShapeRecognizer.getInstance();
@@ -0,0 +1,342 @@
+// src/engines/learning/SkillGraph.ts - PREREQUISITE GRAPH
+
+import {
+  Lesson,
+  LessonStatus,
+  SkillGraphEdge,
+  SkillGraphLane,
+  SkillGraphLayout,
+  SkillGraphNode,
+  SkillTree,
+} from '../../types';
+
+/**
+ * SKILL GRAPH
+ *
+ * Lessons and skill trees as one prerequisite DAG:
+ * - A lesson's prerequisites are its `prerequisites` plus any
+ *   `unlockRequirements`; tree prerequisites gate whole trees
+ * - `check` finds cycles, prerequisites that name nothing, and lessons in
+ *   unknown trees - anything that would leave a lesson locked forever
+ * - `order` is a topological "next best" ordering of what's left to learn
+ * - `layout` places lessons on a grid for the Learn tab's tree map
+ */
+
+export interface PrerequisiteGraph {
+  trees: Map<string, SkillTree>;
+  lessons: Map<string, Lesson>;
+  prerequisites: Map<string, string[]>; // Lesson id -> prerequisite lesson ids, deduplicated
+  dependents: Map<string, string[]>; // Lesson id -> lessons that require it
+}
+
+export interface SkillGraphProblem {
+  type: 'cycle' | 'dangling_prerequisite' | 'unknown_tree';
+  id: string; // The lesson or tree the problem was found on
+  message: string;
+}
+
+export interface LearnerState {
+  completed: Set<string>;
+  skippable: Set<string>; // Placement results: count as met, but still open
+  needsPractice?: Set<string>; // Completed lessons whose skills have decayed
+  isTreeUnlocked: (treeId: string) => boolean;
+}
+
+export class SkillGraph {
+  private static instance: SkillGraph;
+
+  private constructor() {
+    // Private constructor for singleton
+  }
+
+  public static getInstance(): SkillGraph {
+    if (!SkillGraph.instance) {
+      SkillGraph.instance = new SkillGraph();
+    }
+    return SkillGraph.instance;
+  }
+
+  // =================== BUILDING ===================
+
+  public build(trees: SkillTree[], lessons: Lesson[]): PrerequisiteGraph {
+    const graph: PrerequisiteGraph = {
+      trees: new Map(trees.map(tree => [tree.id, tree])),
+      lessons: new Map(lessons.map(lesson => [lesson.id, lesson])),
+      prerequisites: new Map(),
+      dependents: new Map(),
+    };
+
+    lessons.forEach(lesson => {
+      const prerequisites = Array.from(new Set([
+        ...(lesson.prerequisites || []),
+        ...(lesson.unlockRequirements || []),
+      ]));
+      graph.prerequisites.set(lesson.id, prerequisites);
+      prerequisites.forEach(prerequisite => {
+        graph.dependents.set(prerequisite, [...(graph.dependents.get(prerequisite) || []), lesson.id]);
+      });
+    });
+
+    return graph;
+  }
+
+  /** The lesson's tree - `skillTree`, falling back to the legacy `skillTreeId`. */
+  public treeIdOf(lesson: Lesson): string {
+    return lesson.skillTree || lesson.skillTreeId || '';
+  }
+
+  public prerequisitesOf(graph: PrerequisiteGraph, lessonId: string): string[] {
+    return graph.prerequisites.get(lessonId) || [];
+  }
+
+  // =================== CHECKS ===================
+
+  public check(graph: PrerequisiteGraph): SkillGraphProblem[] {
+    const problems: SkillGraphProblem[] = [];
+
+    graph.lessons.forEach(lesson => {
+      this.prerequisitesOf(graph, lesson.id).forEach(prerequisite => {
+        if (!graph.lessons.has(prerequisite)) {
+          problems.push({
+            type: 'dangling_prerequisite',
+            id: lesson.id,
+            message: `Lesson ${lesson.id} requires unknown lesson "${prerequisite}"`,
+          });
+        }
+      });
+
+      const treeId = this.treeIdOf(lesson);
+      if (!graph.trees.has(treeId)) {
+        problems.push({
+          type: 'unknown_tree',
+          id: lesson.id,
+          message: `Lesson ${lesson.id} belongs to unknown skill tree "${treeId}"`,
+        });
+      }
+    });
+
+    graph.trees.forEach(tree => {
+      tree.prerequisites.forEach(prerequisite => {
+        if (!graph.trees.has(prerequisite)) {
+          problems.push({
+            type: 'dangling_prerequisite',
+            id: tree.id,
+            message: `Skill tree ${tree.id} requires unknown skill tree "${prerequisite}"`,
+          });
+        }
+      });
+    });
+
+    this.findCycles(Array.from(graph.lessons.keys()), id => this.prerequisitesOf(graph, id))
+      .forEach(cycle => problems.push({
+        type: 'cycle',
+        id: cycle[0],
+        message: `Lesson prerequisites form a cycle, each requiring the next: ${cycle.join(' → ')}`,
+      }));
+
+    this.findCycles(Array.from(graph.trees.keys()), id => graph.trees.get(id)?.prerequisites || [])
+      .forEach(cycle => problems.push({
+        type: 'cycle',
+        id: cycle[0],
+        message: `Skill tree prerequisites form a cycle, each requiring the next: ${cycle.join(' → ')}`,
+      }));
+
+    return problems;
+  }
+
+  // Each cycle once, as a closed path (a → b → a), found by depth-first search
+  private findCycles(ids: string[], next: (id: string) => string[]): string[][] {
+    const cycles: string[][] = [];
+    const state = new Map<string, 'visiting' | 'done'>();
+    const stack: string[] = [];
+    const known = new Set(ids);
+
+    const visit = (id: string) => {
+      state.set(id, 'visiting');
+      stack.push(id);
+
+      next(id).forEach(target => {
+        if (!known.has(target)) return; // Reported as dangling
+        if (state.get(target) === 'visiting') {
+          cycles.push([...stack.slice(stack.indexOf(target)), target]);
+        } else if (!state.has(target)) {
+          visit(target);
+        }
+      });
+
+      stack.pop();
+      state.set(id, 'done');
+    };
+
+    ids.forEach(id => {
+      if (!state.has(id)) visit(id);
+    });
+
+    return cycles;
+  }
+
+  // =================== ORDERING ===================
+
+  /**
+   * Lessons still to take, in an order that respects every prerequisite -
+   * earlier trees first, then lesson order. Lessons stuck behind a cycle or
+   * a missing prerequisite are left out, since they can never be taken.
+   */
+  public order(graph: PrerequisiteGraph, learner: LearnerState): Lesson[] {
+    const met = (id: string) => learner.completed.has(id) || learner.skippable.has(id);
+    const pending = new Map<string, number>();
+
+    graph.lessons.forEach(lesson => {
+      if (learner.completed.has(lesson.id)) return;
+      const unmet = this.prerequisitesOf(graph, lesson.id).filter(id => !met(id));
+      pending.set(lesson.id, unmet.length);
+    });
+
+    const ordered: Lesson[] = [];
+    const ready = Array.from(pending.keys()).filter(id => pending.get(id) === 0);
+
+    while (ready.length > 0) {
+      ready.sort((a, b) => this.compareLessons(graph, graph.lessons.get(a)!, graph.lessons.get(b)!));
+      const id = ready.shift()!;
+      ordered.push(graph.lessons.get(id)!);
+
+      // A skippable lesson already counted as met for its dependents
+      if (met(id)) continue;
+
+      (graph.dependents.get(id) || []).forEach(dependent => {
+        const count = pending.get(dependent);
+        if (count === undefined) return;
+        pending.set(dependent, count - 1);
+        if (count - 1 === 0) ready.push(dependent);
+      });
+    }
+
+    return ordered;
+  }
+
+  private compareLessons(graph: PrerequisiteGraph, a: Lesson, b: Lesson): number {
+    const treeOrder = (lesson: Lesson) => graph.trees.get(this.treeIdOf(lesson))?.order ?? Number.MAX_SAFE_INTEGER;
+    return treeOrder(a) - treeOrder(b) || a.order - b.order || a.difficulty - b.difficulty;
+  }
+
+  public isUnlocked(graph: PrerequisiteGraph, lessonId: string, learner: LearnerState): boolean {
+    const lesson = graph.lessons.get(lessonId);
+    if (!lesson) return false;
+
+    const prerequisites = this.prerequisitesOf(graph, lessonId);
+
+    // Entry lessons open with their tree; later ones with their prerequisites
+    if (prerequisites.length === 0) {
+      return learner.isTreeUnlocked(this.treeIdOf(lesson));
+    }
+    return prerequisites.every(id => learner.completed.has(id) || learner.skippable.has(id));
+  }
+
+  // =================== LAYOUT ===================
+
+  /**
+   * Grid layout: trees side by side in lanes, in tree order; within a lane,
+   * each lesson sits one row below its deepest prerequisite, and lessons
+   * sharing a row are spread across columns.
+   */
+  public layout(graph: PrerequisiteGraph, learner: LearnerState): SkillGraphLayout {
+    const depths = this.computeDepths(graph);
+    const next = this.order(graph, learner).find(lesson => this.isUnlocked(graph, lesson.id, learner));
+
+    const trees = Array.from(graph.trees.values()).sort((a, b) => a.order - b.order);
+    const nodes: SkillGraphNode[] = [];
+    const lanes: SkillGraphLane[] = [];
+    let column = 0;
+
+    trees.forEach(tree => {
+      const treeLessons = Array.from(graph.lessons.values())
+        .filter(lesson => this.treeIdOf(lesson) === tree.id)
+        .sort((a, b) => a.order - b.order);
+
+      const rows = new Map<number, Lesson[]>();
+      treeLessons.forEach(lesson => {
+        const row = depths.get(lesson.id) ?? 0;
+        rows.set(row, [...(rows.get(row) || []), lesson]);
+      });
+
+      const width = Math.max(1, ...Array.from(rows.values()).map(row => row.length));
+
+      rows.forEach((rowLessons, row) => {
+        // Centre narrower rows in the lane
+        const offset = (width - rowLessons.length) / 2;
+        rowLessons.forEach((lesson, i) => {
+          const completed = learner.completed.has(lesson.id);
+          const status: LessonStatus = completed
+            ? learner.needsPractice?.has(lesson.id) ? 'needs_practice' : 'completed'
+            : this.isUnlocked(graph, lesson.id, learner) ? 'available' : 'locked';
+
+          nodes.push({
+            lessonId: lesson.id,
+            title: lesson.title,
+            treeId: tree.id,
+            column: column + offset + i,
+            row,
+            status,
+            skippable: !completed && learner.skippable.has(lesson.id),
+            recommended: lesson.id === next?.id,
+          });
+        });
+      });
+
+      lanes.push({
+        treeId: tree.id,
+        title: tree.name,
+        column,
+        width,
+        prerequisites: tree.prerequisites,
+        unlocked: learner.isTreeUnlocked(tree.id),
+      });
+      column += width;
+    });
+
+    const placed = new Set(nodes.map(node => node.lessonId));
+    const edges: SkillGraphEdge[] = [];
+    placed.forEach(lessonId => {
+      this.prerequisitesOf(graph, lessonId)
+        .filter(prerequisite => placed.has(prerequisite))
+        .forEach(prerequisite => edges.push({
+          from: prerequisite,
+          to: lessonId,
+          satisfied: learner.completed.has(prerequisite) || learner.skippable.has(prerequisite),
+        }));
+    });
+
+    return {
+      nodes,
+      edges,
+      lanes,
+      columns: column,
+      rows: nodes.reduce((max, node) => Math.max(max, node.row + 1), 0),
+    };
+  }
+
+  // Longest prerequisite chain per lesson; cycles and missing prerequisites add no depth
+  private computeDepths(graph: PrerequisiteGraph): Map<string, number> {
+    const depths = new Map<string, number>();
+    const visiting = new Set<string>();
+
+    const depthOf = (id: string): number => {
+      const known = depths.get(id);
+      if (known !== undefined) return known;
+      if (visiting.has(id) || !graph.lessons.has(id)) return -1;
+
+      visiting.add(id);
+      const depth = 1 + Math.max(-1, ...this.prerequisitesOf(graph, id).map(depthOf));
+      visiting.delete(id);
+
+      depths.set(id, depth);
+      return depth;
+    };
+
+    graph.lessons.forEach((_, id) => depthOf(id));
+    return depths;
+  }
+}
+
+// Export singleton
+export const skillGraph = SkillGraph.getInstance();
@@ -1,10 +1,14 @@
 // src/engines/learning/SkillTreeManager.ts - ENTERPRISE SKILL TREE MANAGER V2.0
 
-import { SkillTree, Lesson, LearningProgress, SkillTreeProgress } from '../../types';
+import { SkillTree, Lesson, LearningProgress, SkillTreeProgress, PlacementResult, SkillGraphLayout, LessonStatus } from '../../types';
 import { dataManager } from '../core/DataManager';
 import { errorHandler } from '../core/ErrorHandler';
 import { EventBus } from '../core/EventBus';
 import { getFundamentalLessons } from '../../content/lessons/fundamentals';
+import { lessonPackLoader } from './LessonPackLoader';
+import { skillGraph, PrerequisiteGraph, SkillGraphProblem, LearnerState } from './SkillGraph';
+import { lessonSkills } from './LessonSkills';
+import { progressionSystem } from '../user/ProgressionSystem';
 
 /**
  * ENTERPRISE SKILL TREE MANAGER V2.0
@@ -16,6 +20,8 @@ import { getFundamentalLessons } from '../../content/lessons/fundamentals';
  * - Comprehensive null/undefined checking
  * - Professional async operation handling
  * - Consistent property naming and access
+ * - Prerequisite DAG checked at load for cycles and dangling ids, driving
+ *   unlocks, next-best ordering and the tree map layout
  */
 export class SkillTreeManager {
   private static instance: SkillTreeManager;
@@ -23,6 +29,8 @@ export class SkillTreeManager {
   
   private skillTrees: Map<string, SkillTree> = new Map();
   private lessons: Map<string, Lesson> = new Map();
+  private graph: PrerequisiteGraph | null = null;
+  private graphProblems: SkillGraphProblem[] = [];
   private learningProgress: LearningProgress | null = null;
   private progressSubscribers: ((progress: LearningProgress) => void)[] = [];
   private isInitialized: boolean = false;
@@ -54,6 +62,7 @@ export class SkillTreeManager {
       
       // Load saved progress
       await this.loadProgress();
+      await this.loadSkillProgression();
       
       this.isInitialized = true;
       console.log(`✅ SkillTreeManager initialized with ${this.skillTrees.size} skill trees and ${this.lessons.size} lessons`);
@@ -116,6 +125,11 @@ export class SkillTreeManager {
       // Add more skill trees as content expands
       this.addPlannedSkillTrees();
       
+      // Merge skill trees and lessons from JSON lesson packs
+      await this.addLessonPacks();
+      
+      this.buildGraph();
+      
     } catch (error) {
       console.error('Failed to initialize content:', error);
       throw error;
@@ -163,6 +177,54 @@ export class SkillTreeManager {
     });
   }
 
+  private async addLessonPacks(): Promise<void> {
+    const { skillTrees, lessons } = await lessonPackLoader.loadAll();
+
+    skillTrees.forEach(tree => {
+      if (!this.skillTrees.has(tree.id)) {
+        this.skillTrees.set(tree.id, tree);
+      }
+    });
+
+    lessons.forEach(lesson => {
+      // Drills are repeatable warm-ups outside the curriculum; LessonEngine serves them
+      if (lesson.type === 'drill') return;
+
+      const treeId = skillGraph.treeIdOf(lesson);
+      const tree = this.skillTrees.get(treeId);
+      if (!tree) {
+        console.warn(`⚠️ Pack lesson ${lesson.id} references unknown skill tree ${treeId}`);
+        return;
+      }
+      if (this.lessons.has(lesson.id)) {
+        return;
+      }
+
+      tree.lessons.push(lesson);
+      tree.lessons.sort((a, b) => a.order - b.order);
+      tree.totalXP += lesson.rewards?.xp || 0;
+      tree.estimatedDuration += lesson.estimatedTime;
+      this.lessons.set(lesson.id, lesson);
+    });
+  }
+
+  // Problems are reported rather than thrown: a broken pack shouldn't take the curriculum down,
+  // and the lessons it affects simply stay locked
+  private buildGraph(): void {
+    this.graph = skillGraph.build(Array.from(this.skillTrees.values()), Array.from(this.lessons.values()));
+    this.graphProblems = skillGraph.check(this.graph);
+
+    if (this.graphProblems.length > 0) {
+      console.warn(`⚠️ ${this.graphProblems.length} skill graph problem(s):`);
+      this.graphProblems.forEach(problem => console.warn(`   ${problem.message}`));
+      errorHandler.handleError(
+        errorHandler.createError('VALIDATION_ERROR', 'Invalid lesson or skill tree prerequisites', 'medium', {
+          problems: this.graphProblems,
+        })
+      );
+    }
+  }
+
   private async loadProgress(): Promise<void> {
     try {
       const savedProgress = await dataManager.get<LearningProgress>('learning_progress');
@@ -208,6 +270,18 @@ export class SkillTreeManager {
     }
   }
 
+  // Skill mastery lives in the progression system; it decides which completed lessons need practice
+  private async loadSkillProgression(): Promise<void> {
+    if (progressionSystem.getProgressData()) return;
+
+    try {
+      await progressionSystem.loadProgressForUser(this.learningProgress?.userId || 'current-user');
+    } catch (error) {
+      // Already reported by the progression system - lessons just won't decay
+      console.warn('Skill progression unavailable:', error);
+    }
+  }
+
   // =================== PUBLIC API ===================
 
   public getAllSkillTrees(): SkillTree[] {
@@ -272,20 +346,54 @@ export class SkillTreeManager {
   }
 
   public checkUnlockRequirements(lessonId: string): boolean {
-    const lesson = this.lessons.get(lessonId);
-    if (!lesson || !this.learningProgress) return false;
+    if (!this.graph || !this.learningProgress) return false;
     
-    // First lesson in a tree is always available if tree is available
-    if (lesson.prerequisites.length === 0) {
-      const tree = this.skillTrees.get(lesson.skillTree);
-      if (!tree) return false;
-      return this.getAvailableSkillTrees().includes(tree);
+    // Entry lessons open with their tree; the rest once every prerequisite is
+    // completed, or placement let the learner skip it
+    return skillGraph.isUnlocked(this.graph, lessonId, this.getLearnerState());
+  }
+
+  private getLearnerState(): LearnerState {
+    const available = new Set(this.getAvailableSkillTrees().map(tree => tree.id));
+    return {
+      completed: new Set(this.learningProgress?.completedLessons || []),
+      skippable: new Set(this.getSkippableLessons()),
+      needsPractice: new Set(this.getLessonsNeedingPractice()),
+      isTreeUnlocked: treeId => available.has(treeId),
+    };
+  }
+
+  public getLessonStatus(lessonId: string): LessonStatus {
+    if (this.learningProgress?.completedLessons.includes(lessonId)) {
+      return this.getLessonsNeedingPractice().includes(lessonId) ? 'needs_practice' : 'completed';
     }
-    
-    // Check if all prerequisites are completed
-    return lesson.prerequisites.every(prereq => 
-      this.learningProgress!.completedLessons.includes(prereq)
-    );
+    return this.checkUnlockRequirements(lessonId) ? 'available' : 'locked';
+  }
+
+  /** Completed lessons that train a skill whose mastery has decayed. */
+  public getLessonsNeedingPractice(): string[] {
+    if (!this.learningProgress) return [];
+
+    const decayed = new Set(progressionSystem.getDecayedSkills());
+    if (decayed.size === 0) return [];
+
+    return this.learningProgress.completedLessons.filter(lessonId => {
+      const lesson = this.lessons.get(lessonId);
+      return !!lesson && lessonSkills.forLesson(lesson).some(skill => decayed.has(skill));
+    });
+  }
+
+  // =================== SKILL GRAPH ===================
+
+  /** Cycles, dangling prerequisites and unknown trees found when content loaded. */
+  public getGraphProblems(): SkillGraphProblem[] {
+    return this.graphProblems;
+  }
+
+  /** Lessons and trees laid out on a grid for the tree map. */
+  public getSkillGraphLayout(): SkillGraphLayout | null {
+    if (!this.graph || !this.learningProgress) return null;
+    return skillGraph.layout(this.graph, this.getLearnerState());
   }
 
   // =================== LESSON COMPLETION ===================
@@ -299,42 +407,7 @@ export class SkillTreeManager {
       
       // Add to completed lessons if not already there
       if (!this.learningProgress.completedLessons.includes(lessonId)) {
-        this.learningProgress.completedLessons.push(lessonId);
-        this.learningProgress.totalXP += lesson.rewards?.xp || 0;
-        
-        // Update skill tree progress
-        const treeProgress = this.getOrCreateSkillTreeProgress(lesson.skillTree);
-        
-        // FIXED: Ensure completedLessons array exists and is properly updated
-        if (!treeProgress.completedLessons) {
-          treeProgress.completedLessons = [];
-        }
-        if (!treeProgress.lessonsCompleted) {
-          treeProgress.lessonsCompleted = [];
-        }
-        
-        treeProgress.completedLessons.push(lessonId);
-        treeProgress.lessonsCompleted.push(lessonId);
-        
-        // FIXED: Ensure totalXpEarned and totalXP are properly updated
-        if (typeof treeProgress.totalXpEarned !== 'number') {
-          treeProgress.totalXpEarned = 0;
-        }
-        if (typeof treeProgress.totalXP !== 'number') {
-          treeProgress.totalXP = 0;
-        }
-        
-        treeProgress.totalXpEarned += lesson.rewards?.xp || 0;
-        treeProgress.totalXP += lesson.rewards?.xp || 0;
-        
-        treeProgress.lastActivityDate = new Date().toISOString();
-        treeProgress.lastAccessedAt = Date.now();
-        
-        // Calculate completion percentage
-        const tree = this.skillTrees.get(lesson.skillTree);
-        if (tree && tree.lessons.length > 0) {
-          treeProgress.completionPercentage = (treeProgress.completedLessons.length / tree.lessons.length) * 100;
-        }
+        this.recordCompletion(lesson, lesson.rewards?.xp || 0);
         
         // Update daily progress
         this.learningProgress.dailyProgress++;
@@ -368,6 +441,103 @@ export class SkillTreeManager {
     }
   }
 
+  private recordCompletion(lesson: Lesson, xp: number): void {
+    if (!this.learningProgress) return;
+    
+    this.learningProgress.completedLessons.push(lesson.id);
+    this.learningProgress.totalXP += xp;
+    
+    // Update skill tree progress
+    const treeId = skillGraph.treeIdOf(lesson);
+    const treeProgress = this.getOrCreateSkillTreeProgress(treeId);
+    
+    // FIXED: Ensure completedLessons array exists and is properly updated
+    if (!treeProgress.completedLessons) {
+      treeProgress.completedLessons = [];
+    }
+    if (!treeProgress.lessonsCompleted) {
+      treeProgress.lessonsCompleted = [];
+    }
+    
+    treeProgress.completedLessons.push(lesson.id);
+    treeProgress.lessonsCompleted.push(lesson.id);
+    
+    // FIXED: Ensure totalXpEarned and totalXP are properly updated
+    if (typeof treeProgress.totalXpEarned !== 'number') {
+      treeProgress.totalXpEarned = 0;
+    }
+    if (typeof treeProgress.totalXP !== 'number') {
+      treeProgress.totalXP = 0;
+    }
+    
+    treeProgress.totalXpEarned += xp;
+    treeProgress.totalXP += xp;
+    
+    treeProgress.lastActivityDate = new Date().toISOString();
+    treeProgress.lastAccessedAt = Date.now();
+    
+    // Calculate completion percentage
+    const tree = this.skillTrees.get(treeId);
+    if (tree && tree.lessons.length > 0) {
+      treeProgress.completionPercentage = (treeProgress.completedLessons.length / tree.lessons.length) * 100;
+    }
+  }
+
+  // =================== PLACEMENT ===================
+
+  /**
+   * Seeds progress from a placement test. Tested-out lessons are completed
+   * without XP; skippable lessons stay open but no longer block the lessons
+   * that build on them. A later placement replaces the earlier one.
+   */
+  public async applyPlacement(result: PlacementResult): Promise<void> {
+    if (!this.learningProgress) return;
+    
+    try {
+      result.testedOut.forEach(lessonId => {
+        const lesson = this.lessons.get(lessonId);
+        if (lesson && !this.learningProgress!.completedLessons.includes(lessonId)) {
+          this.recordCompletion(lesson, 0);
+        }
+      });
+      
+      this.learningProgress.placement = result;
+      await this.saveProgress();
+      
+      console.log(`🧭 Placement applied - ${result.testedOut.length} tested out, ${result.skippable.length} skippable`);
+      this.eventBus.emit('placement:applied', {
+        placedTier: result.placedTier,
+        testedOut: result.testedOut,
+        skippable: result.skippable,
+      });
+      
+      this.notifyProgressSubscribers();
+    } catch (error) {
+      errorHandler.handleError(
+        errorHandler.createError(
+          'PROGRESS_SAVE_ERROR', 
+          'Failed to apply placement results', 
+          'medium', 
+          { error: error instanceof Error ? error.message : String(error) }
+        )
+      );
+    }
+  }
+
+  public getPlacement(): PlacementResult | null {
+    return this.learningProgress?.placement || null;
+  }
+
+  public getSkippableLessons(): string[] {
+    const placement = this.learningProgress?.placement;
+    if (!placement) return [];
+    return placement.skippable.filter(id => !this.learningProgress!.completedLessons.includes(id));
+  }
+
+  public isLessonSkippable(lessonId: string): boolean {
+    return this.getSkippableLessons().includes(lessonId);
+  }
+
   // =================== SKILL TREE PROGRESS MANAGEMENT ===================
 
   public getSkillTreeProgress(skillTreeId: string): SkillTreeProgress {
@@ -419,23 +589,49 @@ export class SkillTreeManager {
   // =================== RECOMMENDATIONS ===================
 
   public getRecommendedNextLesson(): Lesson | null {
-    const availableLessons = this.getAvailableLessons();
-    
-    // Find the first uncompleted lesson
-    const nextLesson = availableLessons.find(lesson => 
-      !this.learningProgress?.completedLessons.includes(lesson.id)
-    );
-    
-    return nextLesson || null;
+    return this.getNextBestLessons(1)[0] || null;
   }
 
+  /**
+   * A short refresher for each decayed skill comes first, then the next best
+   * new lessons.
+   */
   public getRecommendedLessons(count: number = 3): string[] {
-    const availableLessons = this.getAvailableLessons();
-    const uncompleted = availableLessons.filter(lesson => 
-      !this.learningProgress?.completedLessons.includes(lesson.id)
-    );
-    
-    return uncompleted.slice(0, count).map(lesson => lesson.id);
+    const refreshers = this.getRefresherLessons().slice(0, count);
+    const next = this.getNextBestLessons(count - refreshers.length);
+    return [...refreshers, ...next].map(lesson => lesson.id);
+  }
+
+  /** The quickest completed lesson for each decayed skill, shortest first. */
+  public getRefresherLessons(): Lesson[] {
+    const candidates = this.getLessonsNeedingPractice()
+      .map(lessonId => this.lessons.get(lessonId)!)
+      .sort((a, b) => a.estimatedTime - b.estimatedTime || a.difficulty - b.difficulty);
+
+    const decayed = new Set(progressionSystem.getDecayedSkills());
+    const refreshers: Lesson[] = [];
+    candidates.forEach(lesson => {
+      const skills = lessonSkills.forLesson(lesson).filter(skill => decayed.has(skill));
+      if (skills.length === 0) return;
+      refreshers.push(lesson);
+      skills.forEach(skill => decayed.delete(skill));
+    });
+
+    return refreshers;
+  }
+
+  /**
+   * Unlocked lessons in topological order - trees in order, prerequisites
+   * before the lessons that build on them - leaving out lessons placement
+   * made optional.
+   */
+  public getNextBestLessons(count: number = Infinity): Lesson[] {
+    if (!this.graph || !this.learningProgress) return [];
+
+    const learner = this.getLearnerState();
+    return skillGraph.order(this.graph, learner)
+      .filter(lesson => !learner.skippable.has(lesson.id) && skillGraph.isUnlocked(this.graph!, lesson.id, learner))
+      .slice(0, count);
   }
 
   // =================== PROGRESS ANALYTICS ===================
@@ -0,0 +1,176 @@
+// src/engines/learning/SpacedRepetition.ts - REVIEW SCHEDULER
+
+import { LessonContent, ReviewCard } from '../../types';
+import { dataManager } from '../core/DataManager';
+import { EventBus } from '../core/EventBus';
+
+/**
+ * SPACED REPETITION
+ *
+ * SM-2 scheduler for theory questions:
+ * - Every multiple_choice / true_false answer is graded from the
+ *   `lesson:answer_submitted` event and reschedules its card
+ * - Only the first attempt per session counts; retries after a miss
+ *   don't earn the item a longer interval
+ * - Cards are due by calendar day, so a daily review picks up everything
+ *   scheduled for today
+ *
+ * LessonEngine turns due cards into the "Daily Review" lesson.
+ */
+
+export const REVIEW_LESSON_ID = 'daily-review';
+export const REVIEWABLE_CONTENT_TYPES: Array<LessonContent['type']> = ['multiple_choice', 'true_false'];
+
+const STORAGE_KEY = 'review_schedule';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+const PASSING_QUALITY = 3;
+const MAX_REVIEW_ITEMS = 20;
+
+export class SpacedRepetition {
+  private static instance: SpacedRepetition;
+  private eventBus: EventBus = EventBus.getInstance();
+  private cards: Map<string, ReviewCard> = new Map();
+  private loading: Promise<void> | null = null;
+
+  private constructor() {
+    // Private constructor for singleton
+  }
+
+  public static getInstance(): SpacedRepetition {
+    if (!SpacedRepetition.instance) {
+      SpacedRepetition.instance = new SpacedRepetition();
+    }
+    return SpacedRepetition.instance;
+  }
+
+  public initialize(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.loadCards();
+      this.eventBus.on('lesson:answer_submitted', this.handleAnswerSubmitted.bind(this));
+    }
+    return this.loading;
+  }
+
+  private async loadCards(): Promise<void> {
+    try {
+      const stored = await dataManager.get<Record<string, ReviewCard>>(STORAGE_KEY);
+      this.cards = new Map(Object.entries(stored || {}));
+      console.log(`🔁 Loaded ${this.cards.size} review cards`);
+    } catch (error) {
+      console.error('❌ Failed to load review schedule:', error);
+    }
+  }
+
+  private async saveCards(): Promise<void> {
+    try {
+      await dataManager.set(STORAGE_KEY, Object.fromEntries(this.cards));
+    } catch (error) {
+      console.error('❌ Failed to save review schedule:', error);
+    }
+  }
+
+  // =================== GRADING ===================
+
+  public static itemKey(lessonId: string, contentId: string): string {
+    return `${lessonId}/${contentId}`;
+  }
+
+  /** SM-2 quality (0-5) for a first-attempt outcome. */
+  public static qualityFromOutcome(isCorrect: boolean): number {
+    return isCorrect ? 5 : 2;
+  }
+
+  private handleAnswerSubmitted(event: any): void {
+    if (!event || event.attempt !== 1 || !REVIEWABLE_CONTENT_TYPES.includes(event.contentType)) return;
+
+    // Review items already carry their source key as content id
+    const key = event.lessonId === REVIEW_LESSON_ID
+      ? event.contentId
+      : SpacedRepetition.itemKey(event.lessonId, event.contentId);
+    const existing = this.cards.get(key);
+    const [lessonId, contentId] = existing
+      ? [existing.lessonId, existing.contentId]
+      : [event.lessonId, event.contentId];
+
+    // A review of a card we no longer have (storage cleared) can't be attributed
+    if (lessonId === REVIEW_LESSON_ID) return;
+
+    this.grade(lessonId, contentId, event.contentType, SpacedRepetition.qualityFromOutcome(event.isCorrect));
+  }
+
+  public grade(
+    lessonId: string,
+    contentId: string,
+    contentType: LessonContent['type'],
+    quality: number,
+    now: number = Date.now()
+  ): ReviewCard {
+    const key = SpacedRepetition.itemKey(lessonId, contentId);
+    const card: ReviewCard = this.cards.get(key) || {
+      key,
+      lessonId,
+      contentId,
+      contentType,
+      easeFactor: INITIAL_EASE,
+      interval: 0,
+      repetitions: 0,
+      lapses: 0,
+      dueAt: now,
+      lastReviewedAt: now,
+      lastQuality: 0,
+    };
+
+    const q = Math.max(0, Math.min(5, Math.round(quality)));
+
+    if (q < PASSING_QUALITY) {
+      card.repetitions = 0;
+      card.interval = 1;
+      card.lapses++;
+    } else {
+      card.repetitions++;
+      card.interval = card.repetitions === 1 ? 1 : card.repetitions === 2 ? 6 : Math.round(card.interval * card.easeFactor);
+    }
+
+    card.easeFactor = Math.max(MIN_EASE, card.easeFactor + (0.1 - (5 - q) * (0.08 + (5 - q) * 0.02)));
+    card.dueAt = startOfDay(now) + card.interval * DAY_MS;
+    card.lastReviewedAt = now;
+    card.lastQuality = q;
+
+    this.cards.set(key, card);
+    this.saveCards();
+
+    return card;
+  }
+
+  // =================== QUEUE ===================
+
+  /** Cards due by the end of today from the given lessons, most overdue first. */
+  public getDueCards(lessonIds: string[], now: number = Date.now(), limit: number = MAX_REVIEW_ITEMS): ReviewCard[] {
+    const lessons = new Set(lessonIds);
+    const endOfToday = startOfDay(now) + DAY_MS;
+
+    return Array.from(this.cards.values())
+      .filter(card => lessons.has(card.lessonId) && card.dueAt < endOfToday)
+      .sort((a, b) => a.dueAt - b.dueAt || a.easeFactor - b.easeFactor)
+      .slice(0, limit);
+  }
+
+  public getCard(lessonId: string, contentId: string): ReviewCard | null {
+    return this.cards.get(SpacedRepetition.itemKey(lessonId, contentId)) || null;
+  }
+
+  public getAllCards(): ReviewCard[] {
+    return Array.from(this.cards.values());
+  }
+}
+
+function startOfDay(timestamp: number): number {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+}
+
+// Export singleton
+export const spacedRepetition = SpacedRepetition.getInstance();
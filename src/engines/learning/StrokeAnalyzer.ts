@@ -0,0 +1,504 @@
+// src/engines/learning/StrokeAnalyzer.ts - GEOMETRIC STROKE ANALYSIS
+
+/**
+ * STROKE ANALYZER
+ *
+ * Geometric analysis of submitted lesson strokes:
+ * - Total least squares line fit per stroke
+ * - Deviation from the fit and the endpoint chord (where the line bowed)
+ * - Endpoint overshoot (hooks and back-tracking at either end)
+ * - Speed consistency from point timestamps
+ * - Parallel line sets: orientation, angle spread and spacing evenness
+ *
+ * Canvas strokes arrive as `{ path: [...] }` while engine strokes use
+ * `{ points: [...] }` - both shapes are accepted.
+ */
+
+export interface AnalysisPoint {
+  x: number;
+  y: number;
+  pressure?: number;
+  timestamp?: number;
+}
+
+export interface LineFit {
+  centroid: { x: number; y: number };
+  direction: { x: number; y: number }; // Unit vector along the line
+  angle: number; // Degrees, 0 = horizontal, 90 = vertical, range [0, 180)
+  start: { x: number; y: number }; // Projection of the first point
+  end: { x: number; y: number }; // Projection of the last point
+  length: number;
+}
+
+export type DeviationLocation = 'start' | 'middle' | 'end';
+
+export type LineOrientation = 'horizontal' | 'vertical' | 'diagonal' | 'any';
+
+export interface ParallelLineResult {
+  strokeIndex: number; // Index into the submitted strokes
+  angle: number; // Degrees, [0, 180)
+  angleError: number; // Degrees off the target orientation, [0, 90]
+  straightness: number; // 0-1 from analyzeLine
+  spacingBefore: number | null; // px gap to the previous line, in spacing order
+  spacingError: number | null; // Relative difference from the mean gap
+  drifted: boolean;
+}
+
+export interface ParallelLinesAnalysis {
+  lines: ParallelLineResult[]; // Sorted across the target direction
+  targetAngle: number;
+  meanAngle: number;
+  angleStdDev: number; // Degrees
+  meanSpacing: number; // px
+  spacingEvenness: number; // 0-1
+  orientationScore: number; // 0-1
+  parallelismScore: number; // 0-1
+  straightnessScore: number; // 0-1
+  score: number; // 0-1 combined
+  worstLine: ParallelLineResult | null;
+}
+
+export interface LineAnalysis {
+  fit: LineFit;
+  pointCount: number;
+  maxDeviation: number; // px
+  meanDeviation: number; // px
+  deviationLocation: DeviationLocation;
+  overshoot: number; // px of back-tracking along the line at both ends
+  speedConsistency: number | null; // 0-1, null when there are no timestamps
+  straightnessScore: number; // 0-1
+  overshootScore: number; // 0-1
+  score: number; // 0-1 combined
+}
+
+// Deviation equal to this fraction of the line length scores zero straightness
+const MAX_DEVIATION_RATIO = 0.1;
+// Overshoot equal to this fraction of the line length scores zero
+const MAX_OVERSHOOT_RATIO = 0.15;
+
+const SCORE_WEIGHTS = {
+  straightness: 0.6,
+  overshoot: 0.2,
+  speed: 0.2,
+};
+
+const PARALLEL_WEIGHTS = {
+  orientation: 0.3,
+  parallelism: 0.25,
+  spacing: 0.25,
+  straightness: 0.2,
+};
+
+// Angle error (degrees) that scores zero for orientation and parallelism
+const MAX_ANGLE_ERROR = 30;
+const MAX_ANGLE_STD_DEV = 15;
+// Default angle error before a line is flagged as drifting
+const DEFAULT_ANGLE_TOLERANCE = 10;
+// Gap more than this fraction away from the mean gap flags a line as drifting
+const SPACING_TOLERANCE = 0.5;
+
+export class StrokeAnalyzer {
+  private static instance: StrokeAnalyzer;
+
+  private constructor() {
+    // Private constructor for singleton
+  }
+
+  public static getInstance(): StrokeAnalyzer {
+    if (!StrokeAnalyzer.instance) {
+      StrokeAnalyzer.instance = new StrokeAnalyzer();
+    }
+    return StrokeAnalyzer.instance;
+  }
+
+  // =================== POINT EXTRACTION ===================
+
+  public getPoints(stroke: any): AnalysisPoint[] {
+    const raw = Array.isArray(stroke?.points)
+      ? stroke.points
+      : Array.isArray(stroke?.path)
+        ? stroke.path
+        : [];
+
+    return raw.filter((p: any) =>
+      p && Number.isFinite(p.x) && Number.isFinite(p.y)
+    );
+  }
+
+  // =================== LINE FITTING ===================
+
+  public fitLine(points: AnalysisPoint[]): LineFit | null {
+    if (points.length < 2) return null;
+
+    const n = points.length;
+    let cx = 0;
+    let cy = 0;
+    points.forEach(p => {
+      cx += p.x;
+      cy += p.y;
+    });
+    cx /= n;
+    cy /= n;
+
+    // Covariance terms - principal axis gives the orthogonal regression line,
+    // which works for vertical strokes where y = mx + b would not
+    let sxx = 0;
+    let syy = 0;
+    let sxy = 0;
+    points.forEach(p => {
+      const dx = p.x - cx;
+      const dy = p.y - cy;
+      sxx += dx * dx;
+      syy += dy * dy;
+      sxy += dx * dy;
+    });
+
+    // Degenerate stroke - every point in the same place
+    if (sxx + syy === 0) {
+      return null;
+    }
+
+    let theta = 0.5 * Math.atan2(2 * sxy, sxx - syy);
+    let direction = { x: Math.cos(theta), y: Math.sin(theta) };
+
+    // Orient the direction from the first point towards the last
+    const first = points[0];
+    const last = points[n - 1];
+    if ((last.x - first.x) * direction.x + (last.y - first.y) * direction.y < 0) {
+      direction = { x: -direction.x, y: -direction.y };
+      theta += Math.PI;
+    }
+
+    const project = (p: AnalysisPoint) => {
+      const t = (p.x - cx) * direction.x + (p.y - cy) * direction.y;
+      return { x: cx + t * direction.x, y: cy + t * direction.y };
+    };
+
+    const start = project(first);
+    const end = project(last);
+    const length = Math.hypot(end.x - start.x, end.y - start.y);
+
+    let angle = (theta * 180) / Math.PI;
+    angle = ((angle % 180) + 180) % 180;
+
+    return {
+      centroid: { x: cx, y: cy },
+      direction,
+      angle,
+      start,
+      end,
+      length,
+    };
+  }
+
+  // =================== LINE ANALYSIS ===================
+
+  public analyzeLine(stroke: any): LineAnalysis | null {
+    const points = this.getPoints(stroke);
+    const fit = this.fitLine(points);
+    if (!fit || fit.length === 0) return null;
+
+    const { centroid, direction } = fit;
+    const along = (p: AnalysisPoint) =>
+      (p.x - centroid.x) * direction.x + (p.y - centroid.y) * direction.y;
+    const across = (p: AnalysisPoint) =>
+      Math.abs((p.x - centroid.x) * -direction.y + (p.y - centroid.y) * direction.x);
+
+    // Mean deviation from the fitted line; max deviation is measured from
+    // the chord between the endpoints so a bow reads as its full depth
+    const first = points[0];
+    const last = points[points.length - 1];
+    const chordLength = Math.hypot(last.x - first.x, last.y - first.y);
+    const fromChord = (p: AnalysisPoint) => chordLength > 0
+      ? Math.abs((last.x - first.x) * (first.y - p.y) - (first.x - p.x) * (last.y - first.y)) / chordLength
+      : across(p);
+
+    let maxDeviation = 0;
+    let maxDeviationIndex = 0;
+    let totalDeviation = 0;
+    points.forEach((p, index) => {
+      totalDeviation += across(p);
+      const d = fromChord(p);
+      if (d > maxDeviation) {
+        maxDeviation = d;
+        maxDeviationIndex = index;
+      }
+    });
+    const meanDeviation = totalDeviation / points.length;
+
+    // Where along the line the worst deviation happened
+    const startT = along(first);
+    const endT = along(last);
+    const relative = endT !== startT
+      ? (along(points[maxDeviationIndex]) - startT) / (endT - startT)
+      : 0.5;
+    const deviationLocation: DeviationLocation =
+      relative < 0.25 ? 'start' : relative > 0.75 ? 'end' : 'middle';
+
+    // Overshoot: how far the stroke ran past either endpoint before coming back
+    let minT = startT;
+    let maxT = endT;
+    points.forEach(p => {
+      const t = along(p);
+      if (t < minT) minT = t;
+      if (t > maxT) maxT = t;
+    });
+    const overshoot = (startT - minT) + (maxT - endT);
+
+    const speedConsistency = this.calculateSpeedConsistency(points);
+
+    const straightnessScore = clamp01(
+      1 - maxDeviation / (fit.length * MAX_DEVIATION_RATIO)
+    );
+    const overshootScore = clamp01(
+      1 - overshoot / (fit.length * MAX_OVERSHOOT_RATIO)
+    );
+
+    let score: number;
+    if (speedConsistency === null) {
+      // Redistribute the speed weight when the stroke has no timing data
+      const total = SCORE_WEIGHTS.straightness + SCORE_WEIGHTS.overshoot;
+      score =
+        (straightnessScore * SCORE_WEIGHTS.straightness +
+          overshootScore * SCORE_WEIGHTS.overshoot) / total;
+    } else {
+      score =
+        straightnessScore * SCORE_WEIGHTS.straightness +
+        overshootScore * SCORE_WEIGHTS.overshoot +
+        speedConsistency * SCORE_WEIGHTS.speed;
+    }
+
+    return {
+      fit,
+      pointCount: points.length,
+      maxDeviation,
+      meanDeviation,
+      deviationLocation,
+      overshoot,
+      speedConsistency,
+      straightnessScore,
+      overshootScore,
+      score: clamp01(score),
+    };
+  }
+
+  // =================== PARALLEL LINES ===================
+
+  /**
+   * Measures a set of lines against a requested orientation: per-line angle
+   * error, spread of angles between lines and evenness of the gaps.
+   */
+  public analyzeParallelLines(
+    strokes: any[],
+    orientation: LineOrientation | number = 'any',
+    angleTolerance: number = DEFAULT_ANGLE_TOLERANCE
+  ): ParallelLinesAnalysis | null {
+    const analyzed = strokes
+      .map((stroke, strokeIndex) => ({ strokeIndex, analysis: this.analyzeLine(stroke) }))
+      .filter((entry): entry is { strokeIndex: number; analysis: LineAnalysis } => entry.analysis !== null);
+
+    if (analyzed.length === 0) return null;
+
+    const angles = analyzed.map(entry => entry.analysis.fit.angle);
+    const meanAngle = axialMean(angles);
+    const targetAngle = resolveTargetAngle(orientation, meanAngle);
+
+    const angleDiffs = angles.map(angle => axialDifference(angle, meanAngle));
+    const angleStdDev = Math.sqrt(
+      angleDiffs.reduce((sum, d) => sum + d * d, 0) / angleDiffs.length
+    );
+
+    // Order lines across the target direction so gaps are between neighbours
+    const normal = {
+      x: -Math.sin((targetAngle * Math.PI) / 180),
+      y: Math.cos((targetAngle * Math.PI) / 180),
+    };
+    const positioned = analyzed
+      .map(entry => ({
+        ...entry,
+        offset: entry.analysis.fit.centroid.x * normal.x + entry.analysis.fit.centroid.y * normal.y,
+      }))
+      .sort((a, b) => a.offset - b.offset);
+
+    const gaps = positioned.slice(1).map((entry, i) => entry.offset - positioned[i].offset);
+    const meanSpacing = gaps.length > 0 ? gaps.reduce((sum, g) => sum + g, 0) / gaps.length : 0;
+    const spacingEvenness = gaps.length > 1 && meanSpacing > 0
+      ? clamp01(1 - coefficientOfVariation(gaps))
+      : 1;
+
+    const lines: ParallelLineResult[] = positioned.map((entry, i) => {
+      const angleError = axialDifference(entry.analysis.fit.angle, targetAngle);
+      const spacingBefore = i > 0 ? gaps[i - 1] : null;
+      const spacingError = spacingBefore !== null && meanSpacing > 0 && gaps.length > 1
+        ? Math.abs(spacingBefore - meanSpacing) / meanSpacing
+        : null;
+
+      return {
+        strokeIndex: entry.strokeIndex,
+        angle: entry.analysis.fit.angle,
+        angleError,
+        straightness: entry.analysis.score,
+        spacingBefore,
+        spacingError,
+        drifted: angleError > angleTolerance || (spacingError !== null && spacingError > SPACING_TOLERANCE),
+      };
+    });
+
+    const orientationScore = lines.reduce(
+      (sum, line) => sum + clamp01(1 - line.angleError / MAX_ANGLE_ERROR), 0
+    ) / lines.length;
+    const parallelismScore = clamp01(1 - angleStdDev / MAX_ANGLE_STD_DEV);
+    const straightnessScore = lines.reduce((sum, line) => sum + line.straightness, 0) / lines.length;
+
+    const score =
+      orientationScore * PARALLEL_WEIGHTS.orientation +
+      parallelismScore * PARALLEL_WEIGHTS.parallelism +
+      spacingEvenness * PARALLEL_WEIGHTS.spacing +
+      straightnessScore * PARALLEL_WEIGHTS.straightness;
+
+    const worstLine = lines.reduce<ParallelLineResult | null>((worst, line) => {
+      const badness = line.angleError / angleTolerance + (line.spacingError || 0) / SPACING_TOLERANCE;
+      const worstBadness = worst
+        ? worst.angleError / angleTolerance + (worst.spacingError || 0) / SPACING_TOLERANCE
+        : -1;
+      return badness > worstBadness ? line : worst;
+    }, null);
+
+    return {
+      lines,
+      targetAngle,
+      meanAngle,
+      angleStdDev,
+      meanSpacing,
+      spacingEvenness,
+      orientationScore,
+      parallelismScore,
+      straightnessScore,
+      score: clamp01(score),
+      worstLine,
+    };
+  }
+
+  public describeParallelLines(analysis: ParallelLinesAnalysis, orientation: LineOrientation | number = 'any'): string {
+    const worst = analysis.worstLine;
+    const direction = typeof orientation === 'number'
+      ? `${orientation}°`
+      : orientation === 'any' ? 'the others' : orientation;
+
+    if (worst && worst.angleError > DEFAULT_ANGLE_TOLERANCE) {
+      const position = analysis.lines.indexOf(worst) + 1;
+      return `Line ${position} drifted ${Math.round(worst.angleError)}° from ${direction}.`;
+    }
+    if (analysis.spacingEvenness < 0.7 && analysis.lines.length > 2) {
+      const gaps = analysis.lines
+        .map(line => line.spacingBefore)
+        .filter((gap): gap is number => gap !== null);
+      return `Your spacing varies - gaps range from ${Math.round(Math.min(...gaps))}px to ${Math.round(Math.max(...gaps))}px.`;
+    }
+    if (analysis.straightnessScore < 0.6) {
+      return 'Good direction! Now work on keeping each line straight.';
+    }
+    return 'Nicely parallel and evenly spaced!';
+  }
+
+  // =================== SPEED ===================
+
+  /**
+   * 1 - coefficient of variation of segment speeds. Returns null when the
+   * stroke has no usable timestamps.
+   */
+  public calculateSpeedConsistency(points: AnalysisPoint[]): number | null {
+    const speeds: number[] = [];
+
+    for (let i = 1; i < points.length; i++) {
+      const prev = points[i - 1];
+      const curr = points[i];
+      if (typeof prev.timestamp !== 'number' || typeof curr.timestamp !== 'number') {
+        continue;
+      }
+      const dt = curr.timestamp - prev.timestamp;
+      if (dt <= 0) continue;
+      speeds.push(Math.hypot(curr.x - prev.x, curr.y - prev.y) / dt);
+    }
+
+    if (speeds.length < 3) return null;
+
+    const mean = speeds.reduce((sum, s) => sum + s, 0) / speeds.length;
+    if (mean === 0) return null;
+
+    const variance = speeds.reduce((sum, s) => sum + (s - mean) * (s - mean), 0) / speeds.length;
+    const cv = Math.sqrt(variance) / mean;
+
+    return clamp01(1 - cv);
+  }
+
+  // =================== FEEDBACK ===================
+
+  public describeLine(analysis: LineAnalysis): string {
+    const bow = Math.round(analysis.maxDeviation);
+    const where = analysis.deviationLocation === 'middle'
+      ? 'in the middle'
+      : `near the ${analysis.deviationLocation}`;
+
+    if (analysis.straightnessScore < 0.7) {
+      return `Your line bowed ${bow}px ${where}. Lock your wrist and pull from the shoulder.`;
+    }
+    if (analysis.overshootScore < 0.7) {
+      return `Your line hooked ${Math.round(analysis.overshoot)}px at the ends. Lift off cleanly when you reach the end point.`;
+    }
+    if (analysis.speedConsistency !== null && analysis.speedConsistency < 0.5) {
+      return 'Your speed changed a lot along the line. Try one smooth, steady motion.';
+    }
+    return `Nice and straight - only ${bow}px off at the worst point.`;
+  }
+}
+
+function clamp01(value: number): number {
+  if (!Number.isFinite(value)) return 0;
+  return Math.max(0, Math.min(1, value));
+}
+
+function coefficientOfVariation(values: number[]): number {
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  if (mean === 0) return 0;
+  const variance = values.reduce((sum, v) => sum + (v - mean) * (v - mean), 0) / values.length;
+  return Math.sqrt(variance) / mean;
+}
+
+/** Smallest difference between two line angles, where 0° and 180° are the same line. */
+function axialDifference(a: number, b: number): number {
+  const diff = Math.abs(a - b) % 180;
+  return diff > 90 ? 180 - diff : diff;
+}
+
+/** Mean of line angles, doubling them so 1° and 179° average to 0°. */
+function axialMean(angles: number[]): number {
+  let sin = 0;
+  let cos = 0;
+  angles.forEach(angle => {
+    const rad = (angle * Math.PI) / 90;
+    sin += Math.sin(rad);
+    cos += Math.cos(rad);
+  });
+  const mean = (Math.atan2(sin, cos) * 90) / Math.PI;
+  return ((mean % 180) + 180) % 180;
+}
+
+function resolveTargetAngle(orientation: LineOrientation | number, meanAngle: number): number {
+  if (typeof orientation === 'number') return ((orientation % 180) + 180) % 180;
+
+  switch (orientation) {
+    case 'horizontal':
+      return 0;
+    case 'vertical':
+      return 90;
+    case 'diagonal':
+      // Either diagonal counts - pick whichever the learner went for
+      return axialDifference(meanAngle, 45) <= axialDifference(meanAngle, 135) ? 45 : 135;
+    default:
+      return meanAngle;
+  }
+}
+
+// Export singleton
+export const strokeAnalyzer = StrokeAnalyzer.getInstance();
@@ -0,0 +1,279 @@
+// src/engines/learning/StrokeMetrics.ts - STROKE QUALITY METRICS
+
+import { HesitationPoint, StrokeQualityMetrics, StrokeQualityReport } from '../../types';
+import { strokeAnalyzer, AnalysisPoint } from './StrokeAnalyzer';
+
+/**
+ * STROKE METRICS
+ *
+ * Measures how confidently strokes were drawn, independent of what the
+ * exercise asked for:
+ * - Smoothness from normalized jerk (rate of change of acceleration)
+ * - Speed and pressure consistency
+ * - Hesitations: stretches where the pen slowed almost to a stop
+ * - Strokes per second across the submission
+ *
+ * Reports are stored with lesson completions so progress in line
+ * confidence can be charted over time.
+ */
+
+// Normalized jerk of an ideal minimum-jerk reaching movement
+const MIN_JERK_REFERENCE = 720;
+// Each factor of 10 above the reference costs a third of the smoothness score
+const JERK_DECADES_TO_ZERO = 3;
+// Samples averaged on each side when smoothing positions before differentiating
+const SMOOTHING_RADIUS = 2;
+// A hesitation is movement below this fraction of the stroke's median speed...
+const HESITATION_SPEED_RATIO = 0.25;
+// ...lasting at least this long
+const MIN_HESITATION_MS = 100;
+// Confidence lost per hesitation per stroke
+const HESITATION_PENALTY = 0.1;
+
+interface TimedPoint {
+  x: number;
+  y: number;
+  t: number; // seconds
+}
+
+export class StrokeMetrics {
+  private static instance: StrokeMetrics;
+
+  private constructor() {
+    // Private constructor for singleton
+  }
+
+  public static getInstance(): StrokeMetrics {
+    if (!StrokeMetrics.instance) {
+      StrokeMetrics.instance = new StrokeMetrics();
+    }
+    return StrokeMetrics.instance;
+  }
+
+  // =================== SUBMISSION REPORT ===================
+
+  public measure(strokes: any[]): StrokeQualityReport {
+    const metrics = strokes.map((stroke, index) => this.measureStroke(stroke, index));
+
+    let first = Infinity;
+    let last = -Infinity;
+    strokes.forEach(stroke => {
+      strokeAnalyzer.getPoints(stroke).forEach(p => {
+        if (typeof p.timestamp !== 'number') return;
+        first = Math.min(first, p.timestamp);
+        last = Math.max(last, p.timestamp);
+      });
+    });
+    const duration = last > first ? last - first : 0;
+
+    const smoothness = meanOf(metrics.map(m => m.smoothness));
+    const speedConsistency = meanOf(metrics.map(m => m.speedConsistency));
+    const pressureConsistency = meanOf(metrics.map(m => m.pressureConsistency));
+    const hesitationCount = metrics.reduce((sum, m) => sum + m.hesitations.length, 0);
+
+    return {
+      strokeCount: strokes.length,
+      duration,
+      strokesPerSecond: duration > 0 ? strokes.length / (duration / 1000) : null,
+      smoothness,
+      speedConsistency,
+      pressureConsistency,
+      hesitationCount,
+      confidence: this.calculateConfidence(metrics.length, smoothness, speedConsistency, pressureConsistency, hesitationCount),
+      strokes: metrics,
+    };
+  }
+
+  // =================== PER-STROKE METRICS ===================
+
+  public measureStroke(stroke: any, strokeIndex: number = 0): StrokeQualityMetrics {
+    const points = strokeAnalyzer.getPoints(stroke);
+    const timed = toTimedPoints(points);
+    const length = pathLength(points);
+    const duration = timed.length > 1 ? (timed[timed.length - 1].t - timed[0].t) * 1000 : 0;
+
+    const speeds = segmentSpeeds(timed);
+    const meanSpeed = speeds.length > 0 && duration > 0 ? length / (duration / 1000) : null;
+    const normalizedJerk = calculateNormalizedJerk(timed, length);
+    const pressures = points
+      .map(p => p.pressure)
+      .filter((p): p is number => typeof p === 'number' && p > 0);
+    const meanPressure = pressures.length > 0 ? pressures.reduce((sum, p) => sum + p, 0) / pressures.length : null;
+
+    return {
+      strokeIndex,
+      pointCount: points.length,
+      length,
+      duration,
+      meanSpeed,
+      speedConsistency: strokeAnalyzer.calculateSpeedConsistency(points),
+      normalizedJerk,
+      smoothness: normalizedJerk === null
+        ? null
+        : clamp01(1 - Math.log10(Math.max(1, normalizedJerk / MIN_JERK_REFERENCE)) / JERK_DECADES_TO_ZERO),
+      meanPressure,
+      pressureConsistency: pressures.length >= 3 ? clamp01(1 - coefficientOfVariation(pressures)) : null,
+      hesitations: findHesitations(timed, speeds),
+    };
+  }
+
+  private calculateConfidence(
+    strokeCount: number,
+    smoothness: number | null,
+    speedConsistency: number | null,
+    pressureConsistency: number | null,
+    hesitationCount: number
+  ): number {
+    if (strokeCount === 0) return 0;
+
+    const available = [smoothness, speedConsistency, pressureConsistency].filter(
+      (value): value is number => value !== null
+    );
+    // Without timing or pressure data there's nothing to judge; stay neutral
+    const base = available.length > 0 ? available.reduce((sum, v) => sum + v, 0) / available.length : 0.5;
+
+    return clamp01(base - HESITATION_PENALTY * (hesitationCount / strokeCount));
+  }
+}
+
+// =================== HELPERS ===================
+
+function clamp01(value: number): number {
+  if (!Number.isFinite(value)) return 0;
+  return Math.max(0, Math.min(1, value));
+}
+
+function meanOf(values: Array<number | null>): number | null {
+  const present = values.filter((v): v is number => v !== null);
+  if (present.length === 0) return null;
+  return present.reduce((sum, v) => sum + v, 0) / present.length;
+}
+
+function coefficientOfVariation(values: number[]): number {
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  if (mean === 0) return 0;
+  const variance = values.reduce((sum, v) => sum + (v - mean) * (v - mean), 0) / values.length;
+  return Math.sqrt(variance) / mean;
+}
+
+function pathLength(points: AnalysisPoint[]): number {
+  let length = 0;
+  for (let i = 1; i < points.length; i++) {
+    length += Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y);
+  }
+  return length;
+}
+
+/** Timestamped samples in seconds; samples sharing a timestamp are merged. */
+function toTimedPoints(points: AnalysisPoint[]): TimedPoint[] {
+  const timed: TimedPoint[] = [];
+
+  points.forEach(p => {
+    if (typeof p.timestamp !== 'number') return;
+    const t = p.timestamp / 1000;
+    const prev = timed[timed.length - 1];
+    if (prev && t <= prev.t) {
+      prev.x = (prev.x + p.x) / 2;
+      prev.y = (prev.y + p.y) / 2;
+    } else {
+      timed.push({ x: p.x, y: p.y, t });
+    }
+  });
+
+  return timed;
+}
+
+function segmentSpeeds(timed: TimedPoint[]): number[] {
+  const speeds: number[] = [];
+  for (let i = 1; i < timed.length; i++) {
+    const dt = timed[i].t - timed[i - 1].t;
+    speeds.push(Math.hypot(timed[i].x - timed[i - 1].x, timed[i].y - timed[i - 1].y) / dt);
+  }
+  return speeds;
+}
+
+/**
+ * Dimensionless jerk: integral of squared jerk scaled by duration^5 / length^2,
+ * so it compares strokes of any size and speed. Positions are smoothed first
+ * because triple differentiation amplifies touch sampling noise.
+ */
+function calculateNormalizedJerk(timed: TimedPoint[], length: number): number | null {
+  if (timed.length < 6 || length <= 0) return null;
+
+  const duration = timed[timed.length - 1].t - timed[0].t;
+  if (duration <= 0) return null;
+
+  const smoothed = timed.map((p, i) => {
+    const from = Math.max(0, i - SMOOTHING_RADIUS);
+    const to = Math.min(timed.length - 1, i + SMOOTHING_RADIUS);
+    let x = 0;
+    let y = 0;
+    for (let j = from; j <= to; j++) {
+      x += timed[j].x;
+      y += timed[j].y;
+    }
+    const count = to - from + 1;
+    return { x: x / count, y: y / count, t: p.t };
+  });
+
+  const velocity = differentiate(smoothed);
+  const acceleration = differentiate(velocity);
+  const jerk = differentiate(acceleration);
+
+  let integral = 0;
+  for (let i = 1; i < jerk.length; i++) {
+    const dt = jerk[i].t - jerk[i - 1].t;
+    integral += (jerk[i].x * jerk[i].x + jerk[i].y * jerk[i].y) * dt;
+  }
+
+  return (integral * Math.pow(duration, 5)) / (length * length);
+}
+
+/** Finite difference of a timed series, placed at segment midpoints. */
+function differentiate(series: TimedPoint[]): TimedPoint[] {
+  const result: TimedPoint[] = [];
+  for (let i = 1; i < series.length; i++) {
+    const dt = series[i].t - series[i - 1].t;
+    result.push({
+      x: (series[i].x - series[i - 1].x) / dt,
+      y: (series[i].y - series[i - 1].y) / dt,
+      t: (series[i].t + series[i - 1].t) / 2,
+    });
+  }
+  return result;
+}
+
+function findHesitations(timed: TimedPoint[], speeds: number[]): HesitationPoint[] {
+  if (speeds.length < 3) return [];
+
+  const sorted = [...speeds].sort((a, b) => a - b);
+  const median = sorted[Math.floor(sorted.length / 2)];
+  if (median <= 0) return [];
+
+  const slow = median * HESITATION_SPEED_RATIO;
+  const hesitations: HesitationPoint[] = [];
+  let runStart = -1;
+
+  const closeRun = (end: number) => {
+    const duration = (timed[end + 1].t - timed[runStart].t) * 1000;
+    if (duration >= MIN_HESITATION_MS) {
+      const mid = timed[Math.round((runStart + end + 1) / 2)];
+      hesitations.push({ x: mid.x, y: mid.y, duration });
+    }
+    runStart = -1;
+  };
+
+  speeds.forEach((speed, i) => {
+    if (speed < slow) {
+      if (runStart === -1) runStart = i;
+    } else if (runStart !== -1) {
+      closeRun(i - 1);
+    }
+  });
+  if (runStart !== -1) closeRun(speeds.length - 1);
+
+  return hesitations;
+}
+
+// Export singleton
+export const strokeMetrics = StrokeMetrics.getInstance();
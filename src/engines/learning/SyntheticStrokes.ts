@@ -0,0 +1,280 @@
+// src/engines/learning/SyntheticStrokes.ts - STROKE FIXTURES
+
+import { LessonContent, Stroke, ValidationRule } from '../../types';
+import { overlayComparator } from './OverlayComparator';
+
+/**
+ * SYNTHETIC STROKES
+ *
+ * Generates clean, timestamped strokes that an ideal student would draw:
+ * - Primitives: lines, circles, polygons, hatching
+ * - `forContent` builds the ideal answer for a lesson item from its
+ *   overlay or validation rule, for the lesson simulator
+ *
+ * Coordinates are canvas pixels around a 400x400 working area.
+ */
+
+type Vec = { x: number; y: number };
+
+// Time between samples, roughly one touch event per frame
+const SAMPLE_INTERVAL_MS = 16;
+// Pause between strokes
+const STROKE_GAP_MS = 400;
+const SAMPLE_SPACING = 6;
+
+const CENTER: Vec = { x: 200, y: 200 };
+
+export class SyntheticStrokes {
+  private static instance: SyntheticStrokes;
+  private clock: number = 0;
+
+  private constructor() {
+    // Private constructor for singleton
+  }
+
+  public static getInstance(): SyntheticStrokes {
+    if (!SyntheticStrokes.instance) {
+      SyntheticStrokes.instance = new SyntheticStrokes();
+    }
+    return SyntheticStrokes.instance;
+  }
+
+  // =================== PRIMITIVES ===================
+
+  public polyline(vertices: Vec[], options: { size?: number; opacity?: number } = {}): Stroke {
+    const samples: Vec[] = [];
+    for (let i = 0; i < vertices.length - 1; i++) {
+      const a = vertices[i];
+      const b = vertices[i + 1];
+      const steps = Math.max(1, Math.ceil(Math.hypot(b.x - a.x, b.y - a.y) / SAMPLE_SPACING));
+      for (let s = 0; s < steps; s++) {
+        samples.push({ x: a.x + ((b.x - a.x) * s) / steps, y: a.y + ((b.y - a.y) * s) / steps });
+      }
+    }
+    samples.push(vertices[vertices.length - 1]);
+
+    const start = this.clock;
+    this.clock += samples.length * SAMPLE_INTERVAL_MS + STROKE_GAP_MS;
+
+    return {
+      id: `synthetic-${start}`,
+      points: samples.map((p, i) => ({ x: p.x, y: p.y, pressure: 0.5, timestamp: start + i * SAMPLE_INTERVAL_MS })),
+      color: '#000000',
+      brushId: 'pencil',
+      size: options.size ?? 4,
+      opacity: options.opacity ?? 1,
+      blendMode: 'normal',
+      smoothing: 0,
+    };
+  }
+
+  public line(from: Vec, to: Vec, options?: { size?: number; opacity?: number }): Stroke {
+    return this.polyline([from, to], options);
+  }
+
+  public ellipse(center: Vec, radiusX: number, radiusY: number = radiusX): Stroke {
+    const count = Math.max(24, Math.ceil((Math.PI * (radiusX + radiusY)) / SAMPLE_SPACING));
+    const vertices = Array.from({ length: count + 1 }, (_, i) => {
+      // Start at the top like the curriculum teaches
+      const angle = -Math.PI / 2 + (i / count) * Math.PI * 2;
+      return { x: center.x + radiusX * Math.cos(angle), y: center.y + radiusY * Math.sin(angle) };
+    });
+    return this.polyline(vertices);
+  }
+
+  public rectangle(center: Vec, width: number, height: number): Stroke {
+    const left = center.x - width / 2;
+    const top = center.y - height / 2;
+    return this.polyline([
+      { x: left, y: top + height },
+      { x: left, y: top },
+      { x: left + width, y: top },
+      { x: left + width, y: top + height },
+      { x: left, y: top + height },
+    ]);
+  }
+
+  public triangle(center: Vec, size: number): Stroke {
+    const height = (Math.sqrt(3) / 2) * size;
+    const apex = { x: center.x, y: center.y - height / 2 };
+    return this.polyline([
+      apex,
+      { x: center.x + size / 2, y: center.y + height / 2 },
+      { x: center.x - size / 2, y: center.y + height / 2 },
+      apex,
+    ]);
+  }
+
+  public shape(target: string, center: Vec, size: number): Stroke[] {
+    const name = target.replace(/^small_/, '');
+    const scale = target.startsWith('small_') ? 0.4 : 1;
+    const s = size * scale;
+
+    switch (name) {
+      case 'circle':
+        return [this.ellipse(center, s / 2)];
+      case 'ellipse':
+      case 'oval':
+        return [this.ellipse(center, s / 2, s / 3)];
+      case 'square':
+        return [this.rectangle(center, s, s)];
+      case 'rectangle':
+        return [this.rectangle(center, s, s * 0.55)];
+      case 'triangle':
+        return [this.triangle(center, s)];
+      case 'line':
+        return [this.line({ x: center.x - s / 2, y: center.y }, { x: center.x + s / 2, y: center.y })];
+      default:
+        return [];
+    }
+  }
+
+  public parallelLines(count: number, orientation: string = 'horizontal', length: number = 240, spacing: number = 40): Stroke[] {
+    const angle = orientation === 'vertical' ? 90 : orientation === 'diagonal' ? 45 : 0;
+    const radians = (angle * Math.PI) / 180;
+    const direction = { x: Math.cos(radians), y: -Math.sin(radians) };
+    const normal = { x: -direction.y, y: direction.x };
+
+    return Array.from({ length: count }, (_, i) => {
+      const offset = (i - (count - 1) / 2) * spacing;
+      const mid = { x: CENTER.x + normal.x * offset, y: CENTER.y + normal.y * offset };
+      return this.line(
+        { x: mid.x - (direction.x * length) / 2, y: mid.y - (direction.y * length) / 2 },
+        { x: mid.x + (direction.x * length) / 2, y: mid.y + (direction.y * length) / 2 }
+      );
+    });
+  }
+
+  /** A row of hatched boxes, each darker than the last. */
+  public valueScale(steps: number, boxSize: number = 50): Stroke[] {
+    const strokes: Stroke[] = [];
+    const left = CENTER.x - (steps * boxSize) / 2;
+    const top = CENTER.y - boxSize / 2;
+
+    for (let i = 0; i < steps; i++) {
+      const opacity = 0.1 + (0.85 * i) / Math.max(1, steps - 1);
+      for (let y = top + 4; y < top + boxSize; y += 8) {
+        strokes.push(this.line({ x: left + i * boxSize + 2, y }, { x: left + (i + 1) * boxSize - 2, y }, { size: 10, opacity }));
+      }
+    }
+
+    return strokes;
+  }
+
+  /** Outlined sphere, hatched darker away from the light. */
+  public shadedSphere(lightDirection: string = 'top-right', radius: number = 100): Stroke[] {
+    const light = lightVector(lightDirection);
+    const perpendicular = { x: -light.y, y: light.x };
+    const strokes: Stroke[] = [this.ellipse(CENTER, radius)];
+
+    for (let t = radius - 6; t > -radius; t -= 8) {
+      // t runs from the lit side (+radius) to the shadow side (-radius)
+      const opacity = Math.min(0.95, ((radius - t) / (2 * radius)) * 0.95);
+      if (opacity < 0.08) continue;
+
+      const half = Math.sqrt(radius * radius - t * t) * 0.9;
+      const mid = { x: CENTER.x + light.x * t, y: CENTER.y + light.y * t };
+      strokes.push(this.line(
+        { x: mid.x - perpendicular.x * half, y: mid.y - perpendicular.y * half },
+        { x: mid.x + perpendicular.x * half, y: mid.y + perpendicular.y * half },
+        { size: 10, opacity }
+      ));
+    }
+
+    return strokes;
+  }
+
+  // =================== IDEAL ANSWERS ===================
+
+  /**
+   * Strokes that should pass the item's overlay or validation rule.
+   * Returns null when there's no fixture for the rule type.
+   */
+  public forContent(content: LessonContent): Stroke[] | null {
+    this.clock = 0;
+
+    if (content.overlay) {
+      const reference = overlayComparator.buildReference(content.overlay);
+      if (reference) {
+        return reference.map(polyline => this.polyline(polyline));
+      }
+    }
+
+    return content.validation ? this.forRule(content.validation) : null;
+  }
+
+  private forRule(rule: ValidationRule): Stroke[] | null {
+    const params = rule.params || {};
+
+    switch (rule.type) {
+      case 'line_straightness':
+        return [this.line({ x: 80, y: 200 }, { x: 320, y: 200 })];
+
+      case 'line_count':
+        return this.parallelLines(typeof rule.target === 'number' ? rule.target : 1);
+
+      case 'parallel_lines':
+        return this.parallelLines(params.count || 2, params.orientation || 'horizontal');
+
+      case 'shape_accuracy':
+        return this.shape(rule.target || 'circle', CENTER, 160);
+
+      case 'multiple_shapes': {
+        const count = params.count || 1;
+        const target = params.shape || rule.target || 'circle';
+        return Array.from({ length: count }, (_, i) =>
+          // Growing sizes also satisfy sizeVariation
+          this.shape(target, { x: 60 + i * 130, y: 200 }, 50 + i * 25)
+        ).flat();
+      }
+
+      case 'contains_shapes': {
+        const required: string[] = params.required || rule.targets || [];
+        return required.flatMap((target, i) => this.shape(target, { x: 90 + i * 180, y: 200 }, 150));
+      }
+
+      case 'shape_combination': {
+        // Listed bottom-up, each sitting on the previous one
+        const shapes: string[] = params.shapes || [];
+        let base = 360;
+        return shapes.flatMap(target => {
+          const strokes = this.shape(target, CENTER, 120);
+          const ys = strokes.flatMap(stroke => stroke.points.map(p => p.y));
+          const offset = base - Math.max(...ys);
+          base = Math.min(...ys) + offset;
+          return strokes.map(stroke => translate(stroke, 0, offset));
+        });
+      }
+
+      case 'value_gradient':
+        return this.valueScale(params.steps || 5);
+
+      case 'shaded_form':
+        return this.shadedSphere(params.lightDirection || 'top-right');
+
+      case 'all':
+      case 'any': {
+        const rules: ValidationRule[] = params.rules || [];
+        const first = rules.map(r => this.forRule(r)).find(strokes => strokes !== null);
+        return first || null;
+      }
+
+      default:
+        return null;
+    }
+  }
+}
+
+function translate(stroke: Stroke, dx: number, dy: number): Stroke {
+  return { ...stroke, points: stroke.points.map(p => ({ ...p, x: p.x + dx, y: p.y + dy })) };
+}
+
+function lightVector(direction: string): Vec {
+  const x = direction.includes('left') ? -1 : direction.includes('right') ? 1 : 0;
+  const y = direction.includes('top') ? -1 : direction.includes('bottom') ? 1 : 0;
+  const length = Math.hypot(x, y) || 1;
+  return { x: x / length, y: y / length };
+}
+
+// Export singleton
+export const syntheticStrokes = SyntheticStrokes.getInstance();
@@ -0,0 +1,272 @@
+// src/engines/learning/ValidatorRegistry.ts - PLUGGABLE VALIDATION RULES
+
+import { LessonContent, ValidationRule } from '../../types';
+
+/**
+ * VALIDATOR REGISTRY
+ *
+ * Maps `ValidationRule.type` to a validator with a declared params schema:
+ * - Validators are registered by type name, built-in or from content packs
+ * - `checkRule` reports unknown types and bad params so lessons fail at load
+ *   time instead of silently passing
+ * - `all` / `any` compose weighted sub-rules:
+ *   { type: 'all', params: { rules: [{ type: 'shape_accuracy', target: 'circle', weight: 2 }, ...] } }
+ */
+
+export type ParamKind = 'number' | 'string' | 'boolean' | 'string[]' | 'rules' | 'any';
+
+export interface ParamSpec {
+  kind: ParamKind;
+  required?: boolean;
+  values?: readonly (string | number)[]; // Allowed values for strings / numbers
+  min?: number;
+  max?: number;
+}
+
+export type ParamsSchema<P> = { [K in keyof P]-?: ParamSpec };
+
+export interface RuleOutcome {
+  isCorrect: boolean;
+  score: number; // 0-1
+  feedback: string;
+  details?: Record<string, any>;
+}
+
+export interface ValidatorContext<P> {
+  rule: ValidationRule;
+  params: P;
+  content: LessonContent;
+  strokes: any[];
+  attemptCount: number;
+}
+
+export interface ValidatorDefinition<P = Record<string, any>> {
+  type: string;
+  description: string;
+  params: ParamsSchema<P>;
+  target?: ParamSpec; // Schema for `ValidationRule.target`
+  validate: (context: ValidatorContext<P>) => RuleOutcome;
+}
+
+export interface CompositeParams {
+  rules: Array<ValidationRule & { weight?: number }>;
+}
+
+export class ValidatorRegistry {
+  private static instance: ValidatorRegistry;
+  private validators: Map<string, ValidatorDefinition<any>> = new Map();
+
+  private constructor() {
+    this.registerComposites();
+  }
+
+  public static getInstance(): ValidatorRegistry {
+    if (!ValidatorRegistry.instance) {
+      ValidatorRegistry.instance = new ValidatorRegistry();
+    }
+    return ValidatorRegistry.instance;
+  }
+
+  // =================== REGISTRATION ===================
+
+  public register<P>(definition: ValidatorDefinition<P>): void {
+    if (this.validators.has(definition.type)) {
+      throw new Error(`Validator already registered: ${definition.type}`);
+    }
+    this.validators.set(definition.type, definition);
+  }
+
+  public registerAll(definitions: ValidatorDefinition<any>[]): void {
+    definitions.forEach(definition => {
+      if (!this.validators.has(definition.type)) {
+        this.register(definition);
+      }
+    });
+  }
+
+  public unregister(type: string): boolean {
+    return this.validators.delete(type);
+  }
+
+  public has(type: string): boolean {
+    return this.validators.has(type);
+  }
+
+  public get(type: string): ValidatorDefinition<any> | null {
+    return this.validators.get(type) || null;
+  }
+
+  public getRegisteredTypes(): string[] {
+    return Array.from(this.validators.keys());
+  }
+
+  // =================== RULE CHECKING ===================
+
+  /**
+   * Returns a list of problems with a rule: unknown type, missing or
+   * mistyped params, out-of-range threshold. Empty when the rule is valid.
+   */
+  public checkRule(rule: ValidationRule, path: string = 'validation'): string[] {
+    const errors: string[] = [];
+
+    if (!rule || typeof rule.type !== 'string') {
+      return [`${path}: rule has no type`];
+    }
+
+    const definition = this.validators.get(rule.type);
+    if (!definition) {
+      return [`${path}: unknown validation type "${rule.type}"`];
+    }
+
+    if (rule.threshold !== undefined && (typeof rule.threshold !== 'number' || rule.threshold < 0 || rule.threshold > 1)) {
+      errors.push(`${path}.threshold: must be a number between 0 and 1`);
+    }
+
+    if (definition.target) {
+      errors.push(...checkParam(rule.target, definition.target, `${path}.target`));
+    }
+
+    const params = rule.params || {};
+    Object.entries(definition.params as Record<string, ParamSpec>).forEach(([name, spec]) => {
+      errors.push(...checkParam(params[name], spec, `${path}.params.${name}`));
+
+      if (spec.kind === 'rules' && Array.isArray(params[name])) {
+        params[name].forEach((subRule: ValidationRule, index: number) => {
+          errors.push(...this.checkRule(subRule, `${path}.params.${name}[${index}]`));
+        });
+      }
+    });
+
+    return errors;
+  }
+
+  // =================== EXECUTION ===================
+
+  public run(rule: ValidationRule, content: LessonContent, strokes: any[], attemptCount: number): RuleOutcome {
+    const definition = this.validators.get(rule.type);
+    if (!definition) {
+      throw new Error(`Unknown validation type: ${rule.type}`);
+    }
+
+    return definition.validate({
+      rule,
+      params: rule.params || {},
+      content,
+      strokes,
+      attemptCount,
+    });
+  }
+
+  // =================== COMPOSITION ===================
+
+  private registerComposites(): void {
+    const compositeParams: ParamsSchema<CompositeParams> = {
+      rules: { kind: 'rules', required: true },
+    };
+
+    this.register<CompositeParams>({
+      type: 'all',
+      description: 'Passes when every sub-rule passes; score is the weighted mean',
+      params: compositeParams,
+      validate: context => {
+        const outcomes = this.runSubRules(context);
+        const failed = outcomes.find(o => !o.outcome.isCorrect);
+        const score = weightedScore(outcomes);
+        const threshold = context.rule.threshold;
+
+        return {
+          isCorrect: !failed && (threshold === undefined || score >= threshold),
+          score,
+          feedback: failed ? failed.outcome.feedback : outcomes[outcomes.length - 1]?.outcome.feedback || '',
+          details: { rules: outcomes.map(o => ({ type: o.type, weight: o.weight, ...o.outcome })) },
+        };
+      },
+    });
+
+    this.register<CompositeParams>({
+      type: 'any',
+      description: 'Passes when at least one sub-rule passes; score is the weighted mean',
+      params: compositeParams,
+      validate: context => {
+        const outcomes = this.runSubRules(context);
+        const best = outcomes.reduce<SubRuleOutcome | null>(
+          (top, o) => (!top || o.outcome.score > top.outcome.score ? o : top),
+          null
+        );
+        const passed = outcomes.find(o => o.outcome.isCorrect);
+        const threshold = context.rule.threshold;
+        const score = weightedScore(outcomes);
+
+        return {
+          isCorrect: !!passed && (threshold === undefined || score >= threshold),
+          score,
+          feedback: (passed || best)?.outcome.feedback || '',
+          details: { rules: outcomes.map(o => ({ type: o.type, weight: o.weight, ...o.outcome })) },
+        };
+      },
+    });
+  }
+
+  private runSubRules(context: ValidatorContext<CompositeParams>): SubRuleOutcome[] {
+    return (context.params.rules || []).map(subRule => ({
+      type: subRule.type,
+      weight: typeof subRule.weight === 'number' ? subRule.weight : 1,
+      outcome: this.run(subRule, context.content, context.strokes, context.attemptCount),
+    }));
+  }
+}
+
+interface SubRuleOutcome {
+  type: string;
+  weight: number;
+  outcome: RuleOutcome;
+}
+
+function weightedScore(outcomes: SubRuleOutcome[]): number {
+  const totalWeight = outcomes.reduce((sum, o) => sum + o.weight, 0);
+  if (totalWeight === 0) return 0;
+  return outcomes.reduce((sum, o) => sum + o.outcome.score * o.weight, 0) / totalWeight;
+}
+
+function checkParam(value: any, spec: ParamSpec, path: string): string[] {
+  if (value === undefined || value === null) {
+    return spec.required ? [`${path}: required`] : [];
+  }
+
+  switch (spec.kind) {
+    case 'number':
+      if (typeof value !== 'number' || Number.isNaN(value)) return [`${path}: expected a number`];
+      if (spec.min !== undefined && value < spec.min) return [`${path}: must be >= ${spec.min}`];
+      if (spec.max !== undefined && value > spec.max) return [`${path}: must be <= ${spec.max}`];
+      break;
+    case 'string':
+      if (typeof value !== 'string') return [`${path}: expected a string`];
+      break;
+    case 'boolean':
+      if (typeof value !== 'boolean') return [`${path}: expected a boolean`];
+      break;
+    case 'string[]':
+      if (!Array.isArray(value) || value.some(v => typeof v !== 'string')) {
+        return [`${path}: expected an array of strings`];
+      }
+      if (spec.values) {
+        const bad = value.find(v => !spec.values!.includes(v));
+        if (bad !== undefined) return [`${path}: "${bad}" is not one of ${spec.values.join(', ')}`];
+      }
+      return [];
+    case 'rules':
+      if (!Array.isArray(value) || value.length === 0) return [`${path}: expected a non-empty array of rules`];
+      return [];
+    case 'any':
+      return [];
+  }
+
+  if (spec.values && !spec.values.includes(value as string | number)) {
+    return [`${path}: "${value}" is not one of ${spec.values.join(', ')}`];
+  }
+
+  return [];
+}
+
+// Export singleton
+export const validatorRegistry = ValidatorRegistry.getInstance();
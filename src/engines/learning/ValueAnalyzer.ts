@@ -0,0 +1,361 @@
+// src/engines/learning/ValueAnalyzer.ts - VALUE & SHADING EVALUATION
+
+import { strokeAnalyzer } from './StrokeAnalyzer';
+import { shapeRecognizer } from './ShapeRecognizer';
+
+/**
+ * VALUE ANALYZER
+ *
+ * Rasterize-and-measure evaluation for shading exercises:
+ * - Renders submitted strokes into an offscreen darkness buffer
+ *   (pure JS, so it also runs headless)
+ * - Value scales: samples bands along the gradient axis and checks for
+ *   monotonic steps, even step sizes and overall contrast
+ * - Shaded forms: samples inside the drawn outline along the light
+ *   direction and checks the lit side is lighter than the shadow side
+ */
+
+export interface ValueBuffer {
+  width: number; // Cells
+  height: number; // Cells
+  cellSize: number; // px per cell
+  originX: number; // px of cell (0, 0)
+  originY: number;
+  data: Float32Array; // Darkness 0 (paper) - 1 (black), row-major
+}
+
+export type GradientAxis = 'horizontal' | 'vertical';
+
+export interface ValueGradientAnalysis {
+  axis: GradientAxis;
+  direction: 'light-to-dark' | 'dark-to-light';
+  bandValues: number[]; // Mean darkness per band, in drawing order
+  monotonicity: number; // 0-1 fraction of steps going the right way
+  evenness: number; // 0-1 how equal the step sizes are
+  contrast: number; // 0-1 darkest band - lightest band
+  score: number; // 0-1 combined
+  reversedSteps: number[]; // Indices of bands that got lighter instead of darker
+}
+
+export interface ShadedFormAnalysis {
+  lightDirection: { x: number; y: number }; // Unit vector pointing towards the light
+  bandValues: number[]; // Mean darkness per band, lit side first
+  monotonicity: number;
+  contrast: number; // Shadow side - lit side
+  coverage: number; // 0-1 fraction of the form that received any shading
+  outlineFound: boolean;
+  score: number;
+}
+
+const MAX_CELLS = 96;
+// Smallest darkness change that counts as a deliberate value step
+const MIN_STEP = 0.02;
+// Contrast that earns full marks
+const FULL_CONTRAST = 0.5;
+const FULL_FORM_CONTRAST = 0.3;
+
+const GRADIENT_WEIGHTS = {
+  monotonicity: 0.45,
+  contrast: 0.3,
+  evenness: 0.25,
+};
+
+const FORM_WEIGHTS = {
+  monotonicity: 0.4,
+  contrast: 0.4,
+  coverage: 0.2,
+};
+
+export class ValueAnalyzer {
+  private static instance: ValueAnalyzer;
+
+  private constructor() {
+    // Private constructor for singleton
+  }
+
+  public static getInstance(): ValueAnalyzer {
+    if (!ValueAnalyzer.instance) {
+      ValueAnalyzer.instance = new ValueAnalyzer();
+    }
+    return ValueAnalyzer.instance;
+  }
+
+  // =================== RASTERIZATION ===================
+
+  /**
+   * Renders strokes into a darkness buffer covering their bounds. Darkness
+   * comes from color luminance, opacity and pressure, and overlapping
+   * strokes build up like layered graphite.
+   */
+  public rasterize(strokes: any[], exclude: number[] = []): ValueBuffer | null {
+    const entries = strokes
+      .map((stroke, index) => ({ stroke, index, points: strokeAnalyzer.getPoints(stroke) }))
+      .filter(entry => entry.points.length > 0 && !exclude.includes(entry.index));
+
+    if (entries.length === 0) return null;
+
+    let minX = Infinity;
+    let minY = Infinity;
+    let maxX = -Infinity;
+    let maxY = -Infinity;
+    entries.forEach(({ stroke, points }) => {
+      const radius = strokeRadius(stroke);
+      points.forEach(p => {
+        minX = Math.min(minX, p.x - radius);
+        minY = Math.min(minY, p.y - radius);
+        maxX = Math.max(maxX, p.x + radius);
+        maxY = Math.max(maxY, p.y + radius);
+      });
+    });
+
+    const cellSize = Math.max(1, Math.max(maxX - minX, maxY - minY) / MAX_CELLS);
+    const width = Math.max(1, Math.ceil((maxX - minX) / cellSize));
+    const height = Math.max(1, Math.ceil((maxY - minY) / cellSize));
+    const buffer: ValueBuffer = {
+      width,
+      height,
+      cellSize,
+      originX: minX,
+      originY: minY,
+      data: new Float32Array(width * height),
+    };
+
+    entries.forEach(({ stroke, points }) => {
+      const radius = strokeRadius(stroke) / cellSize;
+      const ink = inkDarkness(stroke);
+      // Each stroke darkens a cell at most once, however many of its points land there
+      const touched = new Map<number, number>();
+
+      const stamp = (cx: number, cy: number, alpha: number) => {
+        const r = Math.max(0.5, radius);
+        for (let y = Math.floor(cy - r); y <= Math.ceil(cy + r); y++) {
+          if (y < 0 || y >= height) continue;
+          for (let x = Math.floor(cx - r); x <= Math.ceil(cx + r); x++) {
+            if (x < 0 || x >= width) continue;
+            if ((x + 0.5 - cx) ** 2 + (y + 0.5 - cy) ** 2 > r * r) continue;
+            const index = y * width + x;
+            touched.set(index, Math.max(touched.get(index) || 0, alpha));
+          }
+        }
+      };
+
+      points.forEach((p, i) => {
+        const alpha = ink * pressureFactor(p.pressure);
+        const cx = (p.x - minX) / cellSize;
+        const cy = (p.y - minY) / cellSize;
+        stamp(cx, cy, alpha);
+
+        // Fill the gap to the next point so fast strokes stay continuous
+        const next = points[i + 1];
+        if (next) {
+          const nx = (next.x - minX) / cellSize;
+          const ny = (next.y - minY) / cellSize;
+          const steps = Math.ceil(Math.hypot(nx - cx, ny - cy));
+          for (let s = 1; s < steps; s++) {
+            stamp(cx + ((nx - cx) * s) / steps, cy + ((ny - cy) * s) / steps, alpha);
+          }
+        }
+      });
+
+      touched.forEach((alpha, index) => {
+        buffer.data[index] = 1 - (1 - buffer.data[index]) * (1 - alpha);
+      });
+    });
+
+    return buffer;
+  }
+
+  // =================== VALUE GRADIENT ===================
+
+  public analyzeValueGradient(strokes: any[], steps: number = 5, axis?: GradientAxis): ValueGradientAnalysis | null {
+    const buffer = this.rasterize(strokes);
+    if (!buffer || steps < 2) return null;
+
+    // Value scales run along the long side unless the lesson says otherwise
+    const resolvedAxis: GradientAxis = axis || (buffer.width >= buffer.height ? 'horizontal' : 'vertical');
+    const length = resolvedAxis === 'horizontal' ? buffer.width : buffer.height;
+
+    const sums = new Array(steps).fill(0);
+    const counts = new Array(steps).fill(0);
+    for (let y = 0; y < buffer.height; y++) {
+      for (let x = 0; x < buffer.width; x++) {
+        const position = resolvedAxis === 'horizontal' ? x : y;
+        const band = Math.min(steps - 1, Math.floor((position / length) * steps));
+        sums[band] += buffer.data[y * buffer.width + x];
+        counts[band]++;
+      }
+    }
+    const bandValues = sums.map((sum, i) => (counts[i] > 0 ? sum / counts[i] : 0));
+
+    // Light-to-dark or dark-to-light are both fine, as long as it is consistent
+    const first = bandValues[0];
+    const last = bandValues[bandValues.length - 1];
+    const increasing = last >= first;
+
+    const diffs = bandValues.slice(1).map((value, i) => (increasing ? value - bandValues[i] : bandValues[i] - value));
+    const reversedSteps = diffs
+      .map((diff, i) => (diff < MIN_STEP ? i + 1 : -1))
+      .filter(index => index !== -1);
+    const monotonicity = (diffs.length - reversedSteps.length) / diffs.length;
+
+    const positiveDiffs = diffs.map(d => Math.max(0, d));
+    const evenness = clamp01(1 - coefficientOfVariation(positiveDiffs));
+    const contrast = Math.max(...bandValues) - Math.min(...bandValues);
+
+    const score =
+      monotonicity * GRADIENT_WEIGHTS.monotonicity +
+      clamp01(contrast / FULL_CONTRAST) * GRADIENT_WEIGHTS.contrast +
+      evenness * GRADIENT_WEIGHTS.evenness;
+
+    return {
+      axis: resolvedAxis,
+      direction: increasing ? 'light-to-dark' : 'dark-to-light',
+      bandValues,
+      monotonicity,
+      evenness,
+      contrast,
+      score: clamp01(score),
+      reversedSteps,
+    };
+  }
+
+  // =================== SHADED FORM ===================
+
+  public analyzeShadedForm(strokes: any[], lightDirection: string = 'top-right', bands: number = 5): ShadedFormAnalysis | null {
+    // The outline is the most circular closed shape; its strokes are left out
+    // of the buffer so the contour line doesn't count as shading
+    const shapes = shapeRecognizer.recognize(strokes);
+    const { shape: outline } = shapeRecognizer.findBestMatch(shapes, 'circle');
+    const outlineFound = outline !== null && outline.closure > 0.5;
+
+    const buffer = this.rasterize(strokes, outlineFound ? outline!.strokeIndices : []);
+    if (!buffer) return null;
+
+    let centerX: number;
+    let centerY: number;
+    let radius: number;
+    if (outlineFound) {
+      centerX = outline!.center.x;
+      centerY = outline!.center.y;
+      radius = Math.min(outline!.bounds.width, outline!.bounds.height) / 2;
+    } else {
+      centerX = buffer.originX + (buffer.width * buffer.cellSize) / 2;
+      centerY = buffer.originY + (buffer.height * buffer.cellSize) / 2;
+      radius = (Math.min(buffer.width, buffer.height) * buffer.cellSize) / 2;
+    }
+    if (radius <= 0) return null;
+
+    const light = parseLightDirection(lightDirection);
+    const sums = new Array(bands).fill(0);
+    const counts = new Array(bands).fill(0);
+    let shadedCells = 0;
+    let formCells = 0;
+
+    // Sample a grid over the form so unshaded parts count as white paper
+    const step = buffer.cellSize;
+    for (let py = centerY - radius; py <= centerY + radius; py += step) {
+      for (let px = centerX - radius; px <= centerX + radius; px += step) {
+        const dx = px - centerX;
+        const dy = py - centerY;
+        if (dx * dx + dy * dy > radius * radius * 0.9) continue;
+
+        const cx = Math.floor((px - buffer.originX) / buffer.cellSize);
+        const cy = Math.floor((py - buffer.originY) / buffer.cellSize);
+        const value = cx >= 0 && cx < buffer.width && cy >= 0 && cy < buffer.height
+          ? buffer.data[cy * buffer.width + cx]
+          : 0;
+
+        // t = 1 facing the light, -1 facing away; band 0 is the lit side
+        const t = (dx * light.x + dy * light.y) / radius;
+        const band = Math.min(bands - 1, Math.max(0, Math.floor(((1 - t) / 2) * bands)));
+        sums[band] += value;
+        counts[band]++;
+        formCells++;
+        if (value > 0.05) shadedCells++;
+      }
+    }
+
+    const bandValues = sums.map((sum, i) => (counts[i] > 0 ? sum / counts[i] : 0));
+    const diffs = bandValues.slice(1).map((value, i) => value - bandValues[i]);
+    const monotonicity = diffs.filter(d => d >= -MIN_STEP).length / diffs.length;
+    const contrast = bandValues[bandValues.length - 1] - bandValues[0];
+    const coverage = formCells > 0 ? shadedCells / formCells : 0;
+
+    const score =
+      monotonicity * FORM_WEIGHTS.monotonicity +
+      clamp01(contrast / FULL_FORM_CONTRAST) * FORM_WEIGHTS.contrast +
+      clamp01(coverage / 0.5) * FORM_WEIGHTS.coverage;
+
+    return {
+      lightDirection: light,
+      bandValues,
+      monotonicity,
+      contrast,
+      coverage,
+      outlineFound,
+      score: clamp01(score),
+    };
+  }
+}
+
+// =================== HELPERS ===================
+
+function clamp01(value: number): number {
+  if (!Number.isFinite(value)) return 0;
+  return Math.max(0, Math.min(1, value));
+}
+
+function coefficientOfVariation(values: number[]): number {
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  if (mean === 0) return 1;
+  const variance = values.reduce((sum, v) => sum + (v - mean) * (v - mean), 0) / values.length;
+  return Math.sqrt(variance) / mean;
+}
+
+function strokeRadius(stroke: any): number {
+  const size = typeof stroke?.size === 'number' ? stroke.size : 5;
+  return Math.max(0.5, size / 2);
+}
+
+/** 0-1 darkness of a stroke's ink from its color and opacity. */
+function inkDarkness(stroke: any): number {
+  const hex: string = typeof stroke?.color === 'string' ? stroke.color : stroke?.color?.hex || '#000000';
+  const opacity = typeof stroke?.opacity === 'number' ? stroke.opacity : 1;
+  return (1 - hexLuminance(hex)) * opacity;
+}
+
+function pressureFactor(pressure?: number): number {
+  // Mouse/finger input has no pressure - treat it as a medium press
+  const p = typeof pressure === 'number' ? pressure : 0.5;
+  return 0.3 + 0.7 * clamp01(p);
+}
+
+function hexLuminance(hex: string): number {
+  const clean = hex.replace('#', '');
+  const full = clean.length === 3 ? clean.split('').map(c => c + c).join('') : clean.slice(0, 6);
+  const value = parseInt(full, 16);
+  if (Number.isNaN(value)) return 0;
+  const r = ((value >> 16) & 255) / 255;
+  const g = ((value >> 8) & 255) / 255;
+  const b = (value & 255) / 255;
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+function parseLightDirection(direction: string): { x: number; y: number } {
+  const normalized = direction.toLowerCase();
+  let x = 0;
+  let y = 0;
+  if (normalized.includes('top')) y -= 1;
+  if (normalized.includes('bottom')) y += 1;
+  if (normalized.includes('left')) x -= 1;
+  if (normalized.includes('right')) x += 1;
+  if (x === 0 && y === 0) {
+    x = 1;
+    y = -1;
+  }
+  const length = Math.hypot(x, y);
+  return { x: x / length, y: y / length };
+}
+
+// Export singleton
+export const valueAnalyzer = ValueAnalyzer.getInstance();
@@ -51,6 +51,56 @@ export type {
   ProgressTracker,
 } from './ProgressTracker';
 
+// Validator Registry
+export { validatorRegistry } from './ValidatorRegistry';
+export type {
+  ValidatorRegistry,
+  ValidatorDefinition,
+  ValidatorContext,
+  RuleOutcome,
+  ParamSpec,
+} from './ValidatorRegistry';
+
+// Lesson Packs
+export { lessonPackLoader } from './LessonPackLoader';
+export type { LoadedLessonPacks } from './LessonPackLoader';
+export { LessonPackValidator, LESSON_PACK_FORMAT_VERSION } from './LessonPackValidator';
+
+// Lesson Simulator
+export { lessonSimulator } from './LessonSimulator';
+export type { LessonSimulationReport, SimulationIssue, SimulationScript } from './LessonSimulator';
+
+// Stroke Metrics
+export { strokeMetrics } from './StrokeMetrics';
+
+// Spaced Repetition
+export { spacedRepetition, REVIEW_LESSON_ID, REVIEWABLE_CONTENT_TYPES } from './SpacedRepetition';
+export type { SpacedRepetition } from './SpacedRepetition';
+
+// Adaptive Difficulty
+export { adaptiveDifficulty } from './AdaptiveDifficulty';
+export type { AdaptiveDifficulty } from './AdaptiveDifficulty';
+
+// Placement Test
+export { placementTest } from './PlacementTest';
+export type { PlacementTest } from './PlacementTest';
+
+// Demonstrations
+export { demonstrations, DEMONSTRATION_VERSION } from './Demonstrations';
+export type { Demonstrations, DemonstrationFramePath } from './Demonstrations';
+
+// Skill Graph
+export { skillGraph } from './SkillGraph';
+export type { SkillGraph, PrerequisiteGraph, SkillGraphProblem, LearnerState } from './SkillGraph';
+
+// Lesson Branching
+export { lessonBranching, BRANCH_CONDITIONS } from './LessonBranching';
+export type { LessonBranching, ItemOutcome, BranchProblem } from './LessonBranching';
+
+// Lesson Skills
+export { lessonSkills, SKILL_CATEGORIES } from './LessonSkills';
+export type { LessonSkills } from './LessonSkills';
+
 // =================== CONVENIENCE FUNCTIONS ===================
 
 export async function startLesson(lessonId: string): Promise<boolean> {
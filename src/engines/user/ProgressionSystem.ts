@@ -3,6 +3,7 @@
 import { EventBus } from '../core/EventBus';
 import { dataManager } from '../core/DataManager';
 import { errorHandler } from '../core/ErrorHandler';
+import { LessonCompletedEvent, SkillCategory } from '../../types';
 
 /**
  * ENTERPRISE PROGRESSION SYSTEM V2.0
@@ -14,6 +15,7 @@ import { errorHandler } from '../core/ErrorHandler';
  * - Enhanced XP calculation and validation
  * - Professional achievement system
  * - Comprehensive milestone tracking
+ * - Skill mastery that decays without practice, flagging skills to refresh
  */
 
 export interface ProgressData {
@@ -54,7 +56,8 @@ export interface SkillProgress {
   xp: number;
   nextLevelXp: number;
   lessonsCompleted: number;
-  masteryPercentage: number;
+  masteryPercentage: number; // As of lastPracticedAt - read it through getSkillMastery for today's value
+  lastPracticedAt?: number;
 }
 
 export interface Achievement {
@@ -101,6 +104,14 @@ const LEVEL_XP_REQUIREMENTS = [
   3200,  // Level 10
 ];
 
+// Mastery holds for a few days after practice, then halves every few weeks
+const MASTERY_GRACE_DAYS = 3;
+const MASTERY_HALF_LIFE_DAYS = 21;
+// A skill needs practice once it has lost this share of the mastery it had when last practiced
+const NEEDS_PRACTICE_LOSS = 0.25;
+const MIN_MASTERY_TO_DECAY = 5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 // Generate XP requirements up to level 100
 for (let i = 11; i <= 100; i++) {
   const previousXP = LEVEL_XP_REQUIREMENTS[i - 1];
@@ -117,6 +128,7 @@ class ProgressionSystem {
   private constructor() {
     this.eventBus = EventBus.getInstance();
     this.initializeAchievements();
+    this.eventBus.on('lesson:completed', this.handleLessonCompleted.bind(this));
   }
   
   public static getInstance(): ProgressionSystem {
@@ -353,6 +365,10 @@ class ProgressionSystem {
     try {
       const skill = this.progressData.skills[skillName];
       const previousLevel = skill.level;
+      const now = Date.now();
+      
+      // Practice builds on what's left after decay; 1000 XP takes a skill from nothing to full mastery
+      const currentMastery = this.getSkillMastery(skillName, now);
       
       skill.xp += xpGained;
       if (lessonCompleted) {
@@ -362,7 +378,8 @@ class ProgressionSystem {
       // Calculate skill level (simpler progression than overall level)
       skill.level = Math.floor(skill.xp / 100) + 1;
       skill.nextLevelXp = skill.level * 100;
-      skill.masteryPercentage = Math.min(100, (skill.xp / 1000) * 100);
+      skill.masteryPercentage = Math.min(100, currentMastery + xpGained / 10);
+      skill.lastPracticedAt = now;
       
       if (skill.level > previousLevel) {
         this.eventBus.emit('progression:skill_level_up', {
@@ -394,6 +411,41 @@ class ProgressionSystem {
     }
   }
   
+  /** Mastery as of `now`, after decay since the skill was last practiced. XP and level never decay. */
+  public getSkillMastery(skillName: SkillCategory, now: number = Date.now()): number {
+    const skill = this.progressData?.skills[skillName];
+    if (!skill) return 0;
+    if (!skill.lastPracticedAt) return skill.masteryPercentage;
+    
+    const idleDays = Math.max(0, (now - skill.lastPracticedAt) / DAY_MS - MASTERY_GRACE_DAYS);
+    return skill.masteryPercentage * Math.pow(0.5, idleDays / MASTERY_HALF_LIFE_DAYS);
+  }
+  
+  /** Skills that have slipped far enough since their last practice to need a refresher. */
+  public getDecayedSkills(now: number = Date.now()): SkillCategory[] {
+    if (!this.progressData) return [];
+    
+    return (Object.keys(this.progressData.skills) as SkillCategory[]).filter(skillName => {
+      const practiced = this.progressData!.skills[skillName].masteryPercentage;
+      return practiced >= MIN_MASTERY_TO_DECAY &&
+        this.getSkillMastery(skillName, now) <= practiced * (1 - NEEDS_PRACTICE_LOSS);
+    });
+  }
+  
+  // Lesson completions carry the skills they trained - practicing a skill resets its decay
+  private async handleLessonCompleted(event: LessonCompletedEvent): Promise<void> {
+    if (!this.progressData || !Array.isArray(event?.skills)) return;
+    
+    for (const skillName of event.skills) {
+      if (!this.progressData.skills[skillName]) continue;
+      try {
+        await this.updateSkillProgress(skillName, event.xpEarned || 0, true);
+      } catch {
+        // Already reported by updateSkillProgress
+      }
+    }
+  }
+  
   // =================== STREAK MANAGEMENT ===================
   
   public async updateStreak(): Promise<void> {
@@ -295,6 +295,7 @@ export interface AppSettings {
     skipIntroVideos?: boolean;
     autoAdvance?: boolean;
     practiceMode?: 'guided' | 'free' | 'mixed';
+    adaptiveDifficultyAI?: boolean;
   };
   
   privacy: {
@@ -334,8 +335,11 @@ export interface AppSettings {
 // ========================== LEARNING TYPES ==========================
 
 export type SkillLevel = 'beginner' | 'intermediate' | 'advanced';
-export type LessonType = 'theory' | 'practice' | 'challenge' | 'guided' | 'assessment' | 'video';
-export type LessonStatus = 'locked' | 'available' | 'in_progress' | 'completed' | 'mastered' | 'in-progress';
+export type LessonType = 'theory' | 'practice' | 'challenge' | 'guided' | 'assessment' | 'video' | 'drill';
+export type LessonStatus = 'locked' | 'available' | 'in_progress' | 'completed' | 'mastered' | 'in-progress' | 'needs_practice'; // Needs practice: completed, but its skills have decayed
+
+// Skills tracked by the progression system; mastery decays without practice
+export type SkillCategory = 'drawing' | 'color' | 'composition' | 'perspective' | 'anatomy';
 
 export interface ValidationRule {
   type: string;
@@ -345,6 +349,7 @@ export interface ValidationRule {
   target?: any;
   tolerance?: number;
   targets?: string[];
+  weight?: number; // Relative weight inside an 'all' / 'any' rule
 }
 
 // FIXED: Complete ValidationResult interface
@@ -358,6 +363,33 @@ export interface ValidationResult {
   xpAwarded?: number;
   showHint?: boolean;
   hint?: string;
+  hintsUsed?: number; // Hint levels revealed before this submission
+  difficulty?: DifficultyAdjustment; // Set when adaptive difficulty changed this item
+  timing?: DrillTiming; // Set on timed drill items
+}
+
+export interface DrillTiming {
+  timeLimit: number; // seconds
+  elapsed: number; // ms, capped at the limit
+  timedOut: boolean; // Auto-submitted when time ran out
+  speedBonus: number; // Extra share of the item's XP for finishing early
+}
+
+// Best and latest runs of a repeatable drill lesson
+export interface DrillRecord {
+  lessonId: string;
+  runs: number;
+  bestScore: number;
+  lastScore: number;
+  bestTime: number; // ms, of the best-scoring run
+  lastRunAt: number;
+}
+
+// One rung of an item's hint ladder
+export interface HintLevel {
+  level: number; // 1-based
+  text: string;
+  demonstration?: Stroke[]; // Deeper drawing hints show how the strokes go
 }
 
 export interface LearningObjective {
@@ -378,16 +410,23 @@ export interface LessonObjective {
 export interface LessonContent {
   id: string;
   type: 'multiple_choice' | 'true_false' | 'color_match' | 'visual_selection' 
+      | 'ordering' | 'matching' | 'hotspot'
       | 'drawing_exercise' | 'guided_step' | 'shape_practice' | 'video_lesson' 
       | 'assessment' | 'portfolio_project';
   question?: string;
   instruction?: string;
   explanation?: string;
   hint?: string;
+  hints?: string[]; // Hint ladder, gentlest first; replaces `hint` when set
   xp: number;
   timeLimit?: number;
-  options?: string[];
-  correctAnswer?: any;
+  options?: string[]; // Ordering: steps in display order
+  correctAnswer?: any; // Ordering: option indices in the right order; hotspot: index of the target region
+  pairs?: MatchingPair[]; // Matching: authored matched, shuffled for display
+  hotspots?: HotspotRegion[]; // Hotspot: target and distractor regions on `image`
+  passingScore?: number; // 0-1, for partial-credit types
+  branches?: ContentBranch[]; // Checked in order after the item; the first match picks the next item
+  remedial?: boolean; // Only reached through a branch - the normal sequence passes over it
   validation?: ValidationRule;
   overlay?: {
     type: string;
@@ -397,7 +436,51 @@ export interface LessonContent {
   };
   image?: string;
   video?: string;
-  demonstration?: string;
+  demonstration?: string | Demonstration; // A string is a caption for the generated demonstration
+}
+
+// Sends the learner somewhere other than the next item, based on how the item went
+export interface ContentBranch {
+  when: 'failed' | 'passed' | 'perfect'; // Perfect: passed first time, no hints
+  afterAttempts?: number; // 'failed': branch once this many attempts have missed (default 1)
+  minScore?: number; // 0-1, 'passed' / 'perfect': the graded score must reach this
+  goTo: string; // A later content id in the same lesson
+}
+
+export interface MatchingPair {
+  term: string;
+  definition: string;
+}
+
+// A round region in image-relative coordinates (0-1 on both axes), stretched with the image
+export interface HotspotRegion {
+  x: number;
+  y: number;
+  radius: number;
+  label?: string;
+}
+
+// Recorded strokes replayed to show how something is drawn
+export interface Demonstration {
+  version: number;
+  width: number; // Canvas the strokes were recorded on; playback scales to fit
+  height: number;
+  duration: number; // ms
+  strokes: DemonstrationStroke[];
+  caption?: string;
+}
+
+export interface DemonstrationStroke {
+  points: DemonstrationPoint[];
+  color?: string;
+  size?: number;
+}
+
+export interface DemonstrationPoint {
+  x: number;
+  y: number;
+  t: number; // ms from the start of the demonstration
+  pressure?: number;
 }
 
 export interface TheoryContent {
@@ -419,7 +502,7 @@ export interface PracticeContent {
     id: string;
     type: string;
     instruction: string;
-    demonstration?: string;
+    demonstration?: string | Demonstration;
     validation?: ValidationRule;
     hints?: string[];
     xpReward?: number;
@@ -456,8 +539,9 @@ export interface Lesson {
   completedAt?: number;
   bestScore?: number;
   duration?: number;
-  skillTreeId?: string;
-  unlockRequirements?: string[];
+  skillTreeId?: string; // Legacy alias of skillTree, read only when skillTree is missing
+  unlockRequirements?: string[]; // Extra prerequisites, merged with `prerequisites` in the skill graph
+  skills?: SkillCategory[]; // Skills the lesson trains; inferred from tags when omitted
   theoryContent?: TheoryContent;
   practiceContent?: PracticeContent;
 }
@@ -497,6 +581,43 @@ export interface LearningProgress {
   };
   dailyProgress: number;
   dailyGoal: number;
+  placement?: PlacementResult;
+}
+
+// Prerequisite graph across lessons and skill trees, laid out for the Learn tab's tree map.
+// Positions are grid cells: one row per prerequisite depth, one lane of columns per tree.
+export interface SkillGraphLayout {
+  nodes: SkillGraphNode[];
+  edges: SkillGraphEdge[];
+  lanes: SkillGraphLane[];
+  columns: number;
+  rows: number;
+}
+
+export interface SkillGraphNode {
+  lessonId: string;
+  title: string;
+  treeId: string;
+  column: number;
+  row: number; // Longest prerequisite chain leading to the lesson
+  status: LessonStatus;
+  skippable: boolean; // Placement made it optional
+  recommended: boolean; // Next best lesson to take
+}
+
+export interface SkillGraphEdge {
+  from: string; // Prerequisite lesson id
+  to: string;
+  satisfied: boolean;
+}
+
+export interface SkillGraphLane {
+  treeId: string;
+  title: string;
+  column: number; // First column
+  width: number; // Columns
+  prerequisites: string[]; // Tree ids
+  unlocked: boolean;
 }
 
 // FIXED: Complete SkillTreeProgress interface
@@ -530,7 +651,96 @@ export interface LessonProgress {
   achievements?: string[];
   timeSpent?: number; // Time in milliseconds
   completed?: boolean; // Completion status
-  totalContent?: number; // Total content items
+  totalContent?: number; // Items on the learner's route: taken so far plus the default continuation
+  path?: string[]; // Content ids in the order they were presented, branches included
+}
+
+// Persisted state of an unfinished lesson, so it can be resumed where it stopped
+export interface LessonSessionSnapshot {
+  version: number;
+  lessonId: string;
+  contentIds: string[]; // Content at save time - a snapshot of a changed lesson is discarded
+  contentIndex: number;
+  answers: Record<string, any>;
+  attempts: Record<string, number>;
+  timeSpent: Record<string, number>;
+  strokes: Record<string, any[]>;
+  strokeMetrics: Record<string, StrokeQualityReport>;
+  draftStrokes: any[]; // Unsubmitted drawing on the current content
+  hintsUsed?: Record<string, number>;
+  hintXPDeducted?: Record<string, number>;
+  outcomes?: Record<string, { isCorrect: boolean; score?: number }>; // Latest result per content id, for branching
+  score: number;
+  maxScore: number;
+  elapsed: number; // Lesson time in milliseconds
+  progress: LessonProgress;
+  savedAt: number;
+}
+
+// Spaced-repetition state for one quiz item, keyed `${lessonId}/${contentId}`
+export interface ReviewCard {
+  key: string;
+  lessonId: string;
+  contentId: string;
+  contentType: LessonContent['type'];
+  easeFactor: number; // SM-2 ease, never below 1.3
+  interval: number; // Days until the next review
+  repetitions: number; // Consecutive successful reviews
+  lapses: number;
+  dueAt: number;
+  lastReviewedAt: number;
+  lastQuality: number; // 0-5
+}
+
+// Adaptive difficulty model for one skill (a validation rule type, or the content type for quizzes)
+export interface SkillDifficulty {
+  skill: string;
+  rating: number; // -1 (struggling) to 1 (excelling)
+  observations: number;
+  recentScores: number[]; // Latest performance samples, 0-1
+  updatedAt: number;
+}
+
+export interface DifficultyChange {
+  field: 'threshold' | 'hintAfterAttempts' | 'timeLimit';
+  from: number | undefined;
+  to: number;
+}
+
+// Why a content item was made easier or harder, shown to the learner
+export interface DifficultyAdjustment {
+  lessonId: string;
+  contentId: string;
+  skill: string;
+  rating: number;
+  direction: 'easier' | 'harder';
+  changes: DifficultyChange[];
+  reason: string;
+  createdAt: number;
+}
+
+// One placement question: a graded item borrowed from a lesson, at that lesson's difficulty
+export interface PlacementItem {
+  lessonId: string;
+  tier: number;
+  content: LessonContent;
+}
+
+export interface PlacementResponse {
+  lessonId: string;
+  contentId: string;
+  tier: number;
+  isCorrect: boolean;
+  score?: number;
+}
+
+export interface PlacementResult {
+  selfReported: SkillLevel;
+  placedTier: number; // Highest difficulty passed; 0 starts from the beginning
+  testedOut: string[]; // Marked completed
+  skippable: string[]; // Optional, and count as met prerequisites
+  responses: PlacementResponse[];
+  completedAt: number;
 }
 
 export interface LessonCompletionData {
@@ -544,6 +754,53 @@ export interface LessonCompletionData {
   achievements?: string[];
   streakMaintained?: boolean;
   attempts?: Record<string, number>;
+  strokeMetrics?: Record<string, StrokeQualityReport>; // Latest submission per content id
+  hintsUsed?: Record<string, number>; // Hint levels revealed per content id
+  hintXPDeducted?: number; // XP lost to hints across the lesson
+  path?: string[]; // Content ids presented, in order, when branches changed the sequence
+}
+
+// Payload of 'lesson:completed'; the skill tree's manual completions send only the id and score
+export interface LessonCompletedEvent {
+  lessonId: string;
+  score: number;
+  xpEarned?: number;
+  timeSpent?: number;
+  achievements?: string[];
+  hasDrawings?: boolean;
+  skills?: SkillCategory[]; // Skills the lesson trained
+}
+
+export interface HesitationPoint {
+  x: number;
+  y: number;
+  duration: number; // ms spent below the hesitation speed
+}
+
+export interface StrokeQualityMetrics {
+  strokeIndex: number;
+  pointCount: number;
+  length: number; // px
+  duration: number; // ms, 0 without timing data
+  meanSpeed: number | null; // px/s
+  speedConsistency: number | null; // 0-1, 1 - coefficient of variation
+  normalizedJerk: number | null; // Dimensionless; 720 for an ideal minimum-jerk movement
+  smoothness: number | null; // 0-1 derived from normalizedJerk
+  meanPressure: number | null;
+  pressureConsistency: number | null; // 0-1, null without pressure data
+  hesitations: HesitationPoint[];
+}
+
+export interface StrokeQualityReport {
+  strokeCount: number;
+  duration: number; // ms from first to last sample
+  strokesPerSecond: number | null;
+  smoothness: number | null; // Means over strokes that have the metric
+  speedConsistency: number | null;
+  pressureConsistency: number | null;
+  hesitationCount: number;
+  confidence: number; // 0-1 blend of the above
+  strokes: StrokeQualityMetrics[];
 }
 
 export type LessonStateCallback = (state: {
@@ -576,6 +833,57 @@ export interface LessonState {
   achievements?: string[];
 }
 
+// ========================== LESSON PACK TYPES ==========================
+
+// Authored fields only - runtime state (status, progress, attempts...) is filled in on load
+export interface LessonPackLesson {
+  id: string;
+  title: string;
+  description: string;
+  type: LessonType;
+  skillTree: string; // Skill tree id, from this pack or an existing tree
+  order: number;
+  estimatedTime: number; // Minutes
+  difficulty: number; // 1-5
+  prerequisites?: string[];
+  content: LessonContent[];
+  objectives?: LearningObjective[];
+  rewards: {
+    xp: number;
+    achievements?: string[];
+    unlocks?: string[];
+  };
+  tags?: string[];
+  skills?: SkillCategory[];
+}
+
+export interface LessonPackSkillTree {
+  id: string;
+  name: string;
+  description: string;
+  category: string;
+  order: number;
+  prerequisites?: string[];
+  difficultyLevel: SkillLevel;
+  iconUrl?: string;
+}
+
+export interface LessonPack {
+  formatVersion: number;
+  id: string;
+  version: string; // Content version, e.g. '1.2.0'
+  title: string;
+  description?: string;
+  skillTrees?: LessonPackSkillTree[];
+  lessons: LessonPackLesson[];
+}
+
+export interface LessonPackError {
+  source: string; // Bundled pack id or file uri
+  path: string; // e.g. 'lessons[2].content[0].validation.threshold'
+  message: string;
+}
+
 // ========================== USER TYPES ==========================
 
 export interface User {
@@ -946,6 +1254,7 @@ export interface LearningContextType {
   unlockedLessons: string[];
   learningProgress: LearningProgress | null;
   completedLessons: string[];
+  skippableLessons?: string[];
   currentStreak: number;
   
   // UI-specific properties
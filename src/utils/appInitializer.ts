@@ -1,5 +1,6 @@
 // src/utils/appInitializer.ts - ENTERPRISE GRADE COMPLETE VERSION
 
+import { AppState, AppStateStatus } from 'react-native';
 import { dataManager } from '../engines/core/DataManager';
 import { errorHandler } from '../engines/core/ErrorHandler';
 import { performanceMonitor } from '../engines/core/PerformanceMonitor';
@@ -319,6 +320,18 @@ class AppInitializer {
         timestamp: Date.now(),
       });
 
+      // Forward app lifecycle changes so engines can persist state before suspension
+      let lastAppState: AppStateStatus = AppState.currentState;
+      const appStateSubscription = AppState.addEventListener('change', nextState => {
+        if (nextState === 'background' && lastAppState !== 'background') {
+          this.eventBus.emit('app:background');
+        } else if (nextState === 'active' && lastAppState !== 'active') {
+          this.eventBus.emit('app:foreground');
+        }
+        lastAppState = nextState;
+      });
+      this.registerCleanupCallback(() => appStateSubscription.remove());
+
       // Load user preferences
       try {
         const preferences = await dataManager.getUserPreferences();